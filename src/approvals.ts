@@ -0,0 +1,325 @@
+/**
+ * Human approval of destructive tool calls
+ *
+ * When approval is required ("require approval" or "require approval for
+ * writes" in custom instructions, or PLUGGEDIN_REQUIRE_APPROVAL for every
+ * server), tool calls classified as destructive (or as any write) are held
+ * instead of forwarded. The proxy then asks for approval:
+ * - with an elicitation request, if the client supports elicitation
+ * - otherwise with a Plugged.in notification; marking it done with
+ *   pluggedin_mark_notification_done approves the call, deleting it rejects it
+ *
+ * A call that is not approved within PLUGGEDIN_APPROVAL_TIMEOUT_MS is rejected.
+ * Every decision is kept in memory and, when PLUGGEDIN_APPROVAL_AUDIT_PATH is
+ * set, appended to that file (readable by the owner only) as a JSON line.
+ * Records hold a truncated preview of the arguments, not the arguments.
+ */
+
+import { randomUUID } from "crypto";
+import { appendFile } from "fs/promises";
+import axios from "axios";
+import { ElicitRequestFormParams, ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { Constraints, ToolClassification } from "./utils/custom-instructions.js";
+import { ErrorType, McpProxyError } from "./error-handler.js";
+import { getPluggedinMCPApiBaseUrl, getPluggedinMCPApiKey } from "./utils.js";
+import { isManifestMode } from "./manifest.js";
+import { debugError, debugLog } from "./debug-log.js";
+import {
+  APPROVAL_AUDIT_MAX,
+  APPROVAL_POLL_INTERVAL_MS,
+  DEFAULT_APPROVAL_TIMEOUT_MS
+} from "./constants.js";
+
+const MAX_ARGUMENTS_PREVIEW_LENGTH = 500;
+// Notifications fetched per poll; a full page may not hold the approval's
+const NOTIFICATION_PAGE_SIZE = 100;
+
+/**
+ * Which tool calls need approval
+ */
+export type ApprovalScope = 'destructive' | 'write';
+
+export type ApprovalDecision = 'approved' | 'declined' | 'timeout' | 'cancelled' | 'unavailable';
+
+/**
+ * A tool call waiting for approval
+ */
+export interface ApprovalRequest {
+  serverUuid: string;
+  serverName: string;
+  toolName: string;
+  args?: Record<string, unknown>;
+  classification: ToolClassification;
+}
+
+/**
+ * Audit record of an approval decision
+ */
+export interface ApprovalRecord {
+  id: string;
+  serverUuid: string;
+  serverName: string;
+  toolName: string;
+  /** JSON of the arguments, truncated like in the approval request */
+  arguments: string;
+  /** How the tool was classified, e.g. "destructive (annotations: readOnlyHint=false)" */
+  classification: string;
+  channel: 'elicitation' | 'notification' | 'none';
+  decision: ApprovalDecision;
+  reason?: string;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+/**
+ * Sends an elicitation request to the client that made the tool call
+ */
+export type ApprovalElicitor = (
+  params: ElicitRequestFormParams,
+  options: { signal?: AbortSignal; timeout: number }
+) => Promise<ElicitResult>;
+
+const auditLog: ApprovalRecord[] = [];
+let pendingApprovals = 0;
+
+/**
+ * Resolves which tool calls of a server need approval
+ * @param constraints - The server's parsed constraints, if it has custom instructions
+ * @returns The scope, or undefined if calls go through without approval
+ */
+export function getApprovalScope(constraints?: Constraints): ApprovalScope | undefined {
+  if (constraints?.requireApproval) {
+    return constraints.requireApproval;
+  }
+  const scope = process.env.PLUGGEDIN_REQUIRE_APPROVAL?.toLowerCase();
+  return scope === 'destructive' || scope === 'write' ? scope : undefined;
+}
+
+/**
+ * Whether a tool call with this classification must be approved
+ */
+export function needsApproval(scope: ApprovalScope, classification: ToolClassification): boolean {
+  return classification.access === 'destructive' ||
+    (scope === 'write' && classification.access === 'write');
+}
+
+function getApprovalTimeoutMs(): number {
+  const value = parseInt(process.env.PLUGGEDIN_APPROVAL_TIMEOUT_MS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_APPROVAL_TIMEOUT_MS;
+}
+
+function describeClassification(classification: ToolClassification): string {
+  return `${classification.access} (${classification.source}: ${classification.detail})`;
+}
+
+function previewArguments(args: Record<string, unknown> | undefined): string {
+  const json = JSON.stringify(args ?? {});
+  return json.length > MAX_ARGUMENTS_PREVIEW_LENGTH ? `${json.slice(0, MAX_ARGUMENTS_PREVIEW_LENGTH)}...` : json;
+}
+
+function describeCall(request: ApprovalRequest): string {
+  return `${request.toolName} on ${request.serverName} was classified as ` +
+    `${describeClassification(request.classification)}.\nArguments: ${previewArguments(request.args)}`;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function requestElicitationApproval(
+  request: ApprovalRequest,
+  elicit: ApprovalElicitor,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ decision: ApprovalDecision; reason?: string }> {
+  let result: ElicitResult;
+  try {
+    result = await elicit({
+      message: `Approve this tool call? ${describeCall(request)}`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          approve: { type: 'boolean', title: 'Approve', description: `Run ${request.toolName} on ${request.serverName}`, default: false },
+        },
+        required: ['approve'],
+      },
+    }, { signal, timeout: timeoutMs });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return /timed? ?out/i.test(message)
+      ? { decision: 'timeout' }
+      : { decision: 'declined', reason: `elicitation failed: ${message}` };
+  }
+
+  if (result.action === 'accept' && result.content?.approve === true) {
+    return { decision: 'approved' };
+  }
+  const reasons = { accept: 'the user did not approve it', decline: 'the user declined it', cancel: 'the user dismissed the request' };
+  return { decision: 'declined', reason: reasons[result.action] };
+}
+
+async function requestNotificationApproval(
+  id: string,
+  request: ApprovalRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ decision: ApprovalDecision; reason?: string }> {
+  const apiKey = getPluggedinMCPApiKey();
+  const baseUrl = getPluggedinMCPApiBaseUrl();
+  const headers = { Authorization: `Bearer ${apiKey}` };
+  const deadline = Date.now() + timeoutMs;
+
+  await axios.post(`${baseUrl}/api/notifications/custom`, {
+    title: `Approval required: ${request.toolName} on ${request.serverName}`,
+    message: `${describeCall(request)}\n\nMark this notification as done to approve the call, or delete it to reject it. ` +
+      `It expires at ${new Date(deadline).toISOString()}.\nApproval ID: ${id}`,
+    severity: 'ALERT',
+    sendEmail: false,
+  }, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    timeout: 30000,
+  });
+
+  let seen = false;
+  while (Date.now() < deadline) {
+    await delay(Math.min(APPROVAL_POLL_INTERVAL_MS, deadline - Date.now()), signal);
+    try {
+      const response = await axios.get(`${baseUrl}/api/notifications?limit=${NOTIFICATION_PAGE_SIZE}`, { headers, timeout: 15000 });
+      const notifications: any[] = response.data?.notifications ?? [];
+      const notification = notifications.find(
+        (notif: any) => typeof notif.message === 'string' && notif.message.includes(id)
+      );
+      if (notification?.completed) {
+        return { decision: 'approved' };
+      }
+      if (notification) {
+        seen = true;
+      } else if (seen && notifications.length < NOTIFICATION_PAGE_SIZE) {
+        // Only a page holding every notification tells that it was deleted;
+        // from a full one, newer notifications may have pushed it off
+        return { decision: 'declined', reason: 'the approval notification was deleted' };
+      }
+    } catch (error) {
+      // Keep waiting; a transient API error is not a decision
+      debugError(`[Approvals] Failed to check approval ${id}:`, error);
+    }
+  }
+  return { decision: 'timeout' };
+}
+
+function recordDecision(record: ApprovalRecord): void {
+  auditLog.push(record);
+  if (auditLog.length > APPROVAL_AUDIT_MAX) {
+    auditLog.shift();
+  }
+  debugLog(`[Approvals] ${record.toolName} on ${record.serverName}: ${record.decision} via ${record.channel}`);
+
+  const auditPath = process.env.PLUGGEDIN_APPROVAL_AUDIT_PATH;
+  if (auditPath) {
+    appendFile(auditPath, `${JSON.stringify(record)}\n`, { mode: 0o600 }).catch(error => {
+      debugError(`[Approvals] Failed to write audit record to ${auditPath}:`, error);
+    });
+  }
+}
+
+/**
+ * Holds a tool call until it is approved
+ * @param request - The call and how it was classified
+ * @param options.elicit - Asks the calling client, if it supports elicitation
+ * @param options.signal - Aborts the wait when the client cancels the call
+ * @throws McpProxyError(AUTHORIZATION) with the approval ID and decision if the call was not approved
+ */
+export async function requireApproval(
+  request: ApprovalRequest,
+  options: { elicit?: ApprovalElicitor; signal?: AbortSignal } = {}
+): Promise<void> {
+  const id = randomUUID();
+  const timeoutMs = getApprovalTimeoutMs();
+  const requestedAt = new Date().toISOString();
+  const canNotify = Boolean(getPluggedinMCPApiKey() && getPluggedinMCPApiBaseUrl()) && !isManifestMode();
+  const channel = options.elicit ? 'elicitation' : canNotify ? 'notification' : 'none';
+
+  let outcome: { decision: ApprovalDecision; reason?: string };
+  pendingApprovals++;
+  try {
+    if (options.elicit) {
+      outcome = await requestElicitationApproval(request, options.elicit, timeoutMs, options.signal);
+    } else if (canNotify) {
+      outcome = await requestNotificationApproval(id, request, timeoutMs, options.signal);
+    } else {
+      outcome = {
+        decision: 'unavailable',
+        reason: 'the client does not support elicitation and no Plugged.in API is configured for approval notifications',
+      };
+    }
+  } catch (error) {
+    outcome = options.signal?.aborted
+      ? { decision: 'cancelled', reason: 'the client cancelled the call' }
+      : { decision: 'declined', reason: `approval request failed: ${error instanceof Error ? error.message : String(error)}` };
+  } finally {
+    pendingApprovals--;
+  }
+
+  recordDecision({
+    id,
+    serverUuid: request.serverUuid,
+    serverName: request.serverName,
+    toolName: request.toolName,
+    arguments: previewArguments(request.args),
+    classification: describeClassification(request.classification),
+    channel,
+    decision: outcome.decision,
+    reason: outcome.reason,
+    requestedAt,
+    decidedAt: new Date().toISOString(),
+  });
+
+  if (outcome.decision === 'approved') {
+    return;
+  }
+  const why = outcome.decision === 'timeout'
+    ? `it was not approved within ${Math.round(timeoutMs / 1000)}s`
+    : outcome.reason ?? 'it was not approved';
+  throw new McpProxyError(
+    ErrorType.AUTHORIZATION,
+    `Tool call ${request.toolName} on ${request.serverName} needs approval as a ${request.classification.access} call, but ${why}. (Approval ID: ${id})`,
+    403,
+    { approvalId: id, decision: outcome.decision }
+  );
+}
+
+/**
+ * Gets the most recent approval decisions, oldest first
+ */
+export function getApprovalAudit(): ApprovalRecord[] {
+  return [...auditLog];
+}
+
+/**
+ * Number of tool calls currently waiting for approval
+ */
+export function getPendingApprovalCount(): number {
+  return pendingApprovals;
+}
+
+/** Clear the in-memory audit log (for testing). */
+export function clearApprovalAudit(): void {
+  auditLog.length = 0;
+}
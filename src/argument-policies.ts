@@ -0,0 +1,285 @@
+/**
+ * Argument-level policies for proxied tool calls
+ *
+ * Policies check the arguments of a `tools/call` before it is forwarded. They
+ * come from two places:
+ * - custom instructions, one rule per line:
+ *     "argument path must be under /workspace, /tmp"
+ *     "tool query: argument sql must not contain DROP, TRUNCATE"
+ *     "argument sql must match /^select\b/i"
+ *     "argument url host must be one of example.com, *.example.org"
+ * - a local policy file (PLUGGEDIN_POLICY_PATH or `policy_path` in the
+ *   credentials file), YAML or JSON:
+ *
+ *     policies:
+ *       - server: filesystem        # server name or UUID, all servers if omitted
+ *         tool: write_file          # all tools if omitted
+ *         argument: path
+ *         under: [/workspace]
+ *       - argument: sql
+ *         notContains: [DROP, TRUNCATE]
+ *         matches: /^select\b/i
+ *
+ * The argument is a name, a dotted path into nested objects, or "*" for every
+ * argument. Arrays and objects are checked value by value, and a missing
+ * argument passes. Paths are compared after normalization only, so symlinks on
+ * the downstream server are not followed.
+ */
+
+import { readFileSync, statSync } from "fs";
+import { extname, isAbsolute, relative, resolve, sep } from "path";
+import { fileURLToPath } from "url";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+  ArgumentCheck,
+  ArgumentRule,
+  Constraints,
+  describeArgumentCheck,
+  parseArgumentCheck
+} from "./utils/custom-instructions.js";
+import { getSettingsEnvVar } from "./config-loader.js";
+import { debugLog } from "./debug-log.js";
+
+const MAX_REPORTED_VALUE_LENGTH = 100;
+
+const PolicyEntrySchema = z.object({
+  server: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  argument: z.string().min(1),
+  under: z.array(z.string().min(1)).min(1).optional(),
+  notContains: z.array(z.string().min(1)).min(1).optional(),
+  matches: z.string().min(1).optional(),
+  hosts: z.array(z.string().min(1)).min(1).optional(),
+}).refine(entry => entry.under || entry.notContains || entry.matches || entry.hosts, {
+  message: 'Each policy needs under, notContains, matches or hosts',
+}).refine(entry => !entry.matches || parseArgumentCheck('must match', entry.matches) !== null, {
+  message: 'matches is not a valid regular expression',
+});
+
+const PolicyFileSchema = z.object({
+  policies: z.array(PolicyEntrySchema),
+});
+
+/**
+ * An argument rule from the policy file, optionally limited to one server
+ */
+export interface PolicyFileRule extends ArgumentRule {
+  /** Server name or UUID the rule is limited to */
+  server?: string;
+}
+
+interface PolicyCache {
+  path: string;
+  mtimeMs: number;
+  rules: PolicyFileRule[];
+}
+
+let policyCache: PolicyCache | null = null;
+
+/**
+ * Gets the configured policy file path, if any
+ */
+export function getPolicyPath(): string | undefined {
+  const path = process.env.PLUGGEDIN_POLICY_PATH || getSettingsEnvVar('PLUGGEDIN_POLICY_PATH');
+  return path ? resolve(path) : undefined;
+}
+
+/**
+ * Parses and validates policy file content
+ * @param content - The file content
+ * @param filePath - Path of the policy file, used to pick the format and in errors
+ * @returns One rule per check of each policy
+ * @throws Error if the content cannot be parsed or does not match the format
+ */
+export function parsePolicyFile(content: string, filePath: string): PolicyFileRule[] {
+  let raw: unknown;
+  try {
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = PolicyFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid policy file ${filePath}: ${issues}`);
+  }
+
+  return result.data.policies.flatMap(entry => {
+    const checks: ArgumentCheck[] = [];
+    if (entry.under) checks.push({ type: 'under', paths: entry.under });
+    if (entry.notContains) checks.push({ type: 'notContains', terms: entry.notContains });
+    if (entry.matches) checks.push(parseArgumentCheck('must match', entry.matches)!);
+    if (entry.hosts) checks.push({ type: 'hosts', hosts: entry.hosts.map(host => host.toLowerCase()) });
+
+    return checks.map(check => ({
+      server: entry.server,
+      tool: entry.tool?.toLowerCase(),
+      argument: entry.argument,
+      check,
+    }));
+  });
+}
+
+/**
+ * Loads the rules from the configured policy file, re-reading it when it changes
+ * @param filePath - Policy file path, defaults to the configured one
+ * @returns The rules, or an empty list when no policy file is configured
+ * @throws Error if the file cannot be read or parsed, so calls are blocked rather than let through
+ */
+export function loadPolicyRules(filePath: string | undefined = getPolicyPath()): PolicyFileRule[] {
+  if (!filePath) {
+    return [];
+  }
+
+  const { mtimeMs } = statSync(filePath);
+  if (policyCache && policyCache.path === filePath && policyCache.mtimeMs === mtimeMs) {
+    return policyCache.rules;
+  }
+
+  const rules = parsePolicyFile(readFileSync(filePath, 'utf-8'), filePath);
+  policyCache = { path: filePath, mtimeMs, rules };
+  debugLog(`[Argument Policies] Loaded ${rules.length} rules from ${filePath}`);
+  return rules;
+}
+
+/** Clear the policy file cache (for testing). */
+export function clearPolicyCache(): void {
+  policyCache = null;
+}
+
+function collectValues(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return [String(value)];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectValues);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectValues);
+  }
+  return [];
+}
+
+/**
+ * Gets the values of an argument as strings
+ */
+function getArgumentValues(args: Record<string, unknown>, argument: string): string[] {
+  if (argument === '*') {
+    return collectValues(args);
+  }
+
+  let value: unknown = args;
+  for (const key of argument.split('.')) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return [];
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return collectValues(value);
+}
+
+function isUnder(value: string, roots: string[]): boolean {
+  let path = value;
+  if (path.startsWith('file://')) {
+    try {
+      path = fileURLToPath(path);
+    } catch {
+      return false;
+    }
+  }
+  // Relative paths depend on the downstream server's working directory
+  if (!isAbsolute(path)) {
+    return false;
+  }
+
+  const target = resolve(path);
+  return roots.some(root => {
+    const rel = relative(resolve(root), target);
+    return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+  });
+}
+
+function containsTerm(value: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Match whole words, so "DROP" does not match "dropdown"
+  const start = /^\w/.test(term) ? '(?<!\\w)' : '';
+  const end = /\w$/.test(term) ? '(?!\\w)' : '';
+  return new RegExp(`${start}${escaped}${end}`, 'i').test(value);
+}
+
+function isAllowedHost(value: string, hosts: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(value).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return hosts.some(host => host.startsWith('*.')
+    ? hostname.endsWith(host.slice(1))
+    : hostname === host);
+}
+
+/**
+ * Checks a single value, returning false if it violates the check
+ */
+function passesCheck(value: string, check: ArgumentCheck): boolean {
+  switch (check.type) {
+    case 'under': return isUnder(value, check.paths);
+    case 'notContains': return !check.terms.some(term => containsTerm(value, term));
+    case 'matches': return new RegExp(check.pattern, check.flags).test(value);
+    case 'hosts': return isAllowedHost(value, check.hosts);
+  }
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_REPORTED_VALUE_LENGTH ? `${value.slice(0, MAX_REPORTED_VALUE_LENGTH)}...` : value;
+}
+
+/**
+ * Checks the arguments of a tool call against the server's argument policies
+ * @param server - UUID and name of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param args - The call's arguments
+ * @param constraints - The server's parsed constraints, if it has custom instructions
+ * @throws Error if the policy file is configured but cannot be loaded
+ */
+export function checkArgumentPolicies(
+  server: { uuid: string; name?: string },
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  constraints: Constraints | undefined
+): { valid: boolean; reason?: string } {
+  const serverName = server.name?.toLowerCase();
+  const fileRules = loadPolicyRules().filter(rule =>
+    !rule.server || rule.server === server.uuid || rule.server.toLowerCase() === serverName
+  );
+  const rules: Array<{ rule: ArgumentRule; source: string }> = [
+    ...(constraints?.argumentRules ?? []).map(rule => ({ rule, source: 'custom instructions' })),
+    ...fileRules.map(rule => ({ rule, source: 'policy file' })),
+  ];
+
+  const lowerToolName = toolName.toLowerCase();
+  for (const { rule, source } of rules) {
+    if (rule.tool && rule.tool !== lowerToolName) {
+      continue;
+    }
+    const violation = getArgumentValues(args ?? {}, rule.argument)
+      .find(value => !passesCheck(value, rule.check));
+    if (violation !== undefined) {
+      debugLog(`[Argument Policies] Blocked ${toolName} on ${server.name || server.uuid}: argument ${rule.argument} ${describeArgumentCheck(rule.check)}`);
+      return {
+        valid: false,
+        reason: `Blocked by argument policy (${source}): argument ${rule.argument} of ${toolName} ${describeArgumentCheck(rule.check)}, got "${truncate(violation)}".`
+      };
+    }
+  }
+
+  return { valid: true };
+}
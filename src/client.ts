@@ -9,6 +9,9 @@ import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { ServerParameters } from "./types.js";
 import { createRequire } from 'module';
 import { debugLog, debugError } from './debug-log.js';
+import { registerListChangedHandlers } from './list-changed.js';
+import { getRelayedClientCapabilities, registerServerRequestHandlers } from './server-requests.js';
+import { registerRootsHandler } from './roots.js';
 
 const customRequire = createRequire(import.meta.url);
 const packageJson = customRequire('../package.json');
@@ -164,10 +167,18 @@ export const createPluggedinMCPClient = (
     {
       capabilities: {
         roots: { listChanged: true },
-        sampling: {},
+        ...getRelayedClientCapabilities(serverParams),
       },
     }
   );
+
+  // Relay tools/resources/prompts list changes to the proxy's clients
+  registerListChangedHandlers(client, serverParams.uuid);
+  // Relay sampling/elicitation requests to the client that triggered the call
+  registerServerRequestHandlers(client, serverParams);
+  // Serve the client's roots, filtered for this server
+  registerRootsHandler(client, serverParams);
+
   return { client, transport };
 };
 
@@ -0,0 +1,318 @@
+/**
+ * Composite tools that chain downstream tool calls
+ *
+ * A composite tool is defined in a local file (PLUGGEDIN_COMPOSITE_TOOLS_PATH
+ * or `composite_tools_path` in the credentials file), YAML or JSON. It is
+ * listed like any other tool and, when called, runs its steps in order:
+ *
+ *     tools:
+ *       - name: research_topic
+ *         description: Search the web, fetch the best page and save it
+ *         inputSchema:
+ *           type: object
+ *           properties: { query: { type: string } }
+ *           required: [query]
+ *         steps:
+ *           - id: search
+ *             server: brave                 # server name or UUID
+ *             tool: web_search
+ *             arguments: { query: "{{input.query}}", count: 1 }
+ *           - id: page
+ *             server: fetch
+ *             tool: fetch
+ *             arguments: { url: "{{steps.search.json.results.0.url}}" }
+ *           - tool: pluggedin_create_document  # no server: a Plugged.in tool
+ *             arguments:
+ *               title: "Research: {{input.query}}"
+ *               content: "{{steps.page.text}}"
+ *
+ * Arguments may reference the call's input (`input.<path>`) and the results of
+ * earlier steps (`steps.<id>.text`, `.json` for text that parses as JSON,
+ * `.structuredContent` and `.content`). A value that is a single reference
+ * keeps its type, and is left out if the reference is missing; references
+ * inside longer strings are replaced by their text. A step's id defaults to
+ * its tool name. The composite returns the result of its last step and stops
+ * at the first step that fails.
+ */
+
+import { readFileSync, statSync } from "fs";
+import { extname, resolve } from "path";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ToolExecutionResult } from "./types.js";
+import { getSettingsEnvVar } from "./config-loader.js";
+import { debugError, debugLog } from "./debug-log.js";
+
+const WHOLE_REFERENCE = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const REFERENCE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const StepSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'id may only contain letters, digits, _ and -').optional(),
+  server: z.string().min(1).optional(),
+  tool: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).default({}),
+});
+
+const CompositeToolSchema = z.object({
+  name: z.string()
+    .regex(/^[\w.-]+$/, 'name may only contain letters, digits, _, . and -')
+    .refine(name => !name.startsWith('pluggedin_'), { message: 'the pluggedin_ prefix is reserved' }),
+  description: z.string().optional(),
+  inputSchema: z.object({ type: z.literal('object') }).passthrough().default({ type: 'object' }),
+  steps: z.array(StepSchema).min(1),
+}).superRefine((tool, ctx) => {
+  const ids = new Set<string>();
+  tool.steps.forEach((step, index) => {
+    const id = step.id ?? step.tool;
+    if (ids.has(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'id'], message: `duplicate step id ${id}` });
+    }
+    ids.add(id);
+  });
+});
+
+const CompositeToolsFileSchema = z.object({
+  tools: z.array(CompositeToolSchema),
+}).superRefine((file, ctx) => {
+  const names = new Set<string>();
+  file.tools.forEach((tool, index) => {
+    if (names.has(tool.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tools', index, 'name'], message: `duplicate tool name ${tool.name}` });
+    }
+    names.add(tool.name);
+  });
+});
+
+/**
+ * A downstream call of a composite tool
+ */
+export interface CompositeStep {
+  /** Name earlier results are referenced by, defaults to the tool name */
+  id: string;
+  /** Server name or UUID; a Plugged.in static tool when missing */
+  server?: string;
+  /** The tool's name on the downstream server */
+  tool: string;
+  /** Arguments, with {{...}} references to the input and earlier results */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A composite tool from the composite tools file
+ */
+export interface CompositeTool {
+  name: string;
+  description?: string;
+  inputSchema: Tool['inputSchema'];
+  steps: CompositeStep[];
+}
+
+/**
+ * Runs one step with its resolved arguments
+ */
+export type CompositeStepRunner = (step: CompositeStep, args: Record<string, unknown>) => Promise<ToolExecutionResult>;
+
+interface CompositeToolsCache {
+  path: string;
+  mtimeMs: number;
+  tools: CompositeTool[];
+}
+
+let compositeCache: CompositeToolsCache | null = null;
+let jsonSchemaValidator: AjvJsonSchemaValidator | undefined;
+
+/**
+ * Gets the configured composite tools file path, if any
+ */
+export function getCompositeToolsPath(): string | undefined {
+  const path = process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH || getSettingsEnvVar('PLUGGEDIN_COMPOSITE_TOOLS_PATH');
+  return path ? resolve(path) : undefined;
+}
+
+/**
+ * Parses and validates composite tools file content
+ * @param content - The file content
+ * @param filePath - Path of the file, used to pick the format and in errors
+ * @throws Error if the content cannot be parsed or does not match the format
+ */
+export function parseCompositeToolsFile(content: string, filePath: string): CompositeTool[] {
+  let raw: unknown;
+  try {
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid composite tools file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = CompositeToolsFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid composite tools file ${filePath}: ${issues}`);
+  }
+
+  return result.data.tools.map(tool => ({
+    ...tool,
+    inputSchema: tool.inputSchema as Tool['inputSchema'],
+    steps: tool.steps.map(step => ({ ...step, id: step.id ?? step.tool })),
+  }));
+}
+
+/**
+ * Loads the composite tools, re-reading the file when it changes
+ * @param filePath - Composite tools file path, defaults to the configured one
+ * @returns The composite tools, or an empty list when no file is configured
+ * @throws Error if the file cannot be read or parsed
+ */
+export function loadCompositeTools(filePath: string | undefined = getCompositeToolsPath()): CompositeTool[] {
+  if (!filePath) {
+    return [];
+  }
+
+  const { mtimeMs } = statSync(filePath);
+  if (compositeCache && compositeCache.path === filePath && compositeCache.mtimeMs === mtimeMs) {
+    return compositeCache.tools;
+  }
+
+  const tools = parseCompositeToolsFile(readFileSync(filePath, 'utf-8'), filePath);
+  compositeCache = { path: filePath, mtimeMs, tools };
+  debugLog(`[Composite Tools] Loaded ${tools.length} composite tools from ${filePath}`);
+  return tools;
+}
+
+/** Clear the composite tools cache (for testing). */
+export function clearCompositeToolsCache(): void {
+  compositeCache = null;
+}
+
+/**
+ * Gets the composite tools for listing and calls
+ *
+ * A file that can no longer be loaded is logged and lists no composite tools,
+ * so it never breaks the other tools; startup fails on it instead.
+ */
+export function getCompositeTools(): CompositeTool[] {
+  try {
+    return loadCompositeTools();
+  } catch (error) {
+    debugError('[Composite Tools] Failed to load composite tools:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a composite tool as it is listed to the client
+ */
+export function toListedTool(tool: CompositeTool): Tool {
+  const steps = tool.steps.map(step => step.server ? `${step.server}/${step.tool}` : step.tool).join(' → ');
+  return {
+    name: tool.name,
+    description: tool.description ?? `Runs ${steps}`,
+    inputSchema: tool.inputSchema,
+  };
+}
+
+function lookup(scope: unknown, path: string): unknown {
+  let value = scope;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Resolves the {{...}} references in a step's arguments
+ * @param value - An argument value, or the whole arguments object
+ * @param scope - `{ input, steps }` of the running composite
+ */
+export function resolveReferences(value: unknown, scope: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_REFERENCE);
+    if (whole) {
+      return lookup(scope, whole[1]);
+    }
+    return value.replace(REFERENCE, (_, path: string) => {
+      const resolved = lookup(scope, path);
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .map(([key, item]) => [key, resolveReferences(item, scope)])
+      .filter(([, item]) => item !== undefined));
+  }
+  return value;
+}
+
+// What later steps can reference from a step's result
+function toStepScope(result: ToolExecutionResult): Record<string, unknown> {
+  const text = (result.content ?? [])
+    .flatMap(item => item.type === 'text' && 'text' in item && typeof item.text === 'string' ? [item.text] : [])
+    .join('\n');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { text, json, structuredContent: result.structuredContent, content: result.content };
+}
+
+/**
+ * Runs the steps of a composite tool
+ * @param tool - The composite tool
+ * @param input - The call's arguments
+ * @param runStep - Calls a step's tool, with the same checks as a direct call
+ * @param onStep - Called before each step, e.g. to report progress
+ * @returns The last step's result, or an error result naming the step that failed
+ * @throws Error naming the step if a step's call throws
+ */
+export async function runCompositeTool(
+  tool: CompositeTool,
+  input: Record<string, unknown> | undefined,
+  runStep: CompositeStepRunner,
+  onStep?: (index: number, step: CompositeStep) => Promise<void> | void
+): Promise<ToolExecutionResult> {
+  jsonSchemaValidator ??= new AjvJsonSchemaValidator();
+  const validation = jsonSchemaValidator.getValidator(tool.inputSchema as any)(input ?? {});
+  if (!validation.valid) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments for ${tool.name}: ${validation.errorMessage}` }],
+      isError: true,
+    };
+  }
+
+  const steps: Record<string, Record<string, unknown>> = {};
+  let result: ToolExecutionResult = { content: [] };
+  for (const [index, step] of tool.steps.entries()) {
+    const label = `Step ${index + 1} (${step.server ? `${step.server}/` : ''}${step.tool}) of ${tool.name}`;
+    await onStep?.(index, step);
+
+    const args = resolveReferences(step.arguments, { input: input ?? {}, steps }) as Record<string, unknown>;
+    debugLog(`[Composite Tools] ${label}`);
+    try {
+      result = await runStep(step, args);
+    } catch (error) {
+      throw new Error(`${label} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (result.isError) {
+      return {
+        ...result,
+        content: [{ type: "text", text: `${label} failed:` }, ...(result.content ?? [])],
+      };
+    }
+    steps[step.id] = toStepScope(result);
+  }
+  return result;
+}
@@ -26,6 +26,10 @@ const CREDENTIAL_KEY_MAP: Record<string, string> = {
   api_key: 'PLUGGEDIN_API_KEY',
   base_url: 'PLUGGEDIN_API_BASE_URL',
   mcp_endpoint: 'PLUGGEDIN_MCP_ENDPOINT',
+  manifest_path: 'PLUGGEDIN_MANIFEST_PATH',
+  policy_path: 'PLUGGEDIN_POLICY_PATH',
+  tool_overrides_path: 'PLUGGEDIN_TOOL_OVERRIDES_PATH',
+  composite_tools_path: 'PLUGGEDIN_COMPOSITE_TOOLS_PATH',
 };
 
 let cache: SettingsCache | null = null;
@@ -44,7 +48,7 @@ function getUserSettingsPath(): string {
 }
 
 /**
- * Read credentials.json format: { "api_key": "...", "base_url": "..." }
+ * Read credentials.json format: { "api_key": "...", "base_url": "...", "manifest_path": "...", "policy_path": "...", "tool_overrides_path": "...", "composite_tools_path": "..." }
  * Returns normalized env-style record.
  */
 function readCredentialsFile(filePath: string): Record<string, string> {
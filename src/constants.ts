@@ -51,6 +51,125 @@ export const SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
 export const SESSION_CLEANUP_INTERVAL_MS = 60 * 1000; // 1 minute
 export const MAX_SESSIONS = 10000; // Maximum concurrent sessions
 
+/**
+ * Browser access to the Streamable HTTP transport
+ * - PLUGGEDIN_ALLOWED_ORIGINS: comma-separated origins allowed by CORS and Origin validation ('*' for any)
+ * - PLUGGEDIN_ALLOWED_HOSTS: comma-separated hostnames accepted in the Host header
+ * - PLUGGEDIN_CORS_CREDENTIALS: 'true' allows credentialed CORS requests from the allowed origins
+ * Without allowlists a server bound to a loopback address only accepts loopback hosts and origins.
+ */
+export const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Persistent Streamable HTTP sessions
+ * - PLUGGEDIN_SESSION_STORE: 'memory' (default) or 'file' to rebuild sessions after a restart or on another replica
+ * - PLUGGEDIN_SESSION_STORE_DIR: directory of the file store, shared by all replicas
+ */
+export const SESSION_STORE_TOUCH_INTERVAL_MS = 60 * 1000; // Stored lastAccess is refreshed at most this often
+
+/**
+ * Resumable SSE streams of the Streamable HTTP transport
+ * - PLUGGEDIN_EVENT_STORE: 'memory' (default), 'disk' or 'off'
+ * - PLUGGEDIN_EVENT_STORE_DIR: directory of the disk store's files, one per session
+ * - PLUGGEDIN_EVENT_STORE_MAX_EVENTS / PLUGGEDIN_EVENT_STORE_TTL_MS: events kept per session, and for how long
+ */
+export const DEFAULT_EVENT_STORE_MAX_EVENTS = 1000;
+export const DEFAULT_EVENT_STORE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Multi-tenant Streamable HTTP mode
+ * - PLUGGEDIN_TENANT_MODE: 'true' binds every session to the API key it connected with
+ * - PLUGGEDIN_MAX_TENANTS: tenants (API keys) served at the same time
+ */
+export const DEFAULT_MAX_TENANTS = 100;
+
+/**
+ * Downstream session pool constants (proxy -> MCP server connections)
+ */
+export const DOWNSTREAM_PING_INTERVAL_MS = 30 * 1000; // 30 seconds
+export const DOWNSTREAM_PING_TIMEOUT_MS = 10 * 1000; // 10 seconds
+export const DOWNSTREAM_MAX_PING_FAILURES = 3; // Consecutive failures before reconnecting
+export const DOWNSTREAM_RECONNECT_BASE_DELAY_MS = 1000; // 1 second, doubled per attempt
+export const DOWNSTREAM_RECONNECT_MAX_DELAY_MS = 60 * 1000; // 1 minute
+export const DOWNSTREAM_MAX_RECONNECT_ATTEMPTS = 8; // Attempts before a server is marked dead
+
+/**
+ * Downstream session limits (overridable via environment, 0 disables a limit)
+ * - PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS: close sessions unused for this long
+ * - PLUGGEDIN_DOWNSTREAM_MAX_SESSIONS: open sessions before LRU eviction
+ * - PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY: in-flight requests per server before queueing
+ */
+export const DEFAULT_DOWNSTREAM_IDLE_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+export const DEFAULT_DOWNSTREAM_MAX_SESSIONS = 50;
+export const DEFAULT_DOWNSTREAM_MAX_CONCURRENCY = 10;
+
+/**
+ * Window in which downstream list_changed notifications are coalesced before
+ * a single notification per list kind is sent to the client
+ */
+export const LIST_CHANGED_DEBOUNCE_MS = 500;
+
+/**
+ * Sampling and elicitation requests from downstream servers
+ * - PLUGGEDIN_SAMPLING_ENABLED / PLUGGEDIN_ELICITATION_ENABLED: set to 'false' to refuse them
+ * - PLUGGEDIN_SAMPLING_MAX_TOKENS: cap on maxTokens a downstream server may request
+ */
+export const DEFAULT_SAMPLING_MAX_TOKENS = 4096;
+export const SERVER_REQUEST_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes, elicitation waits on the user
+
+/**
+ * Pagination of tools, resources, prompts and resource templates lists
+ * - PLUGGEDIN_LIST_PAGE_SIZE: items per page (0, the default, returns everything in one response)
+ * Off by default: clients that never follow nextCursor would only see the first page.
+ */
+export const DEFAULT_LIST_PAGE_SIZE = 0;
+export const LIST_SNAPSHOT_TTL_MS = 5 * 60 * 1000; // 5 minutes since the last page was read
+export const LIST_SNAPSHOT_MAX = 100; // Oldest snapshots are dropped beyond this
+
+/**
+ * Approval of destructive tool calls
+ * - PLUGGEDIN_REQUIRE_APPROVAL: 'destructive' or 'write' holds such calls on every server
+ * - PLUGGEDIN_APPROVAL_TIMEOUT_MS: how long a held call waits for a decision
+ * - PLUGGEDIN_APPROVAL_AUDIT_PATH: JSON Lines file every decision is appended to
+ */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+export const APPROVAL_POLL_INTERVAL_MS = 5 * 1000; // Notification status checks
+export const APPROVAL_AUDIT_MAX = 200; // Decisions kept in memory
+
+/**
+ * Tool search (pluggedin_find_tools)
+ * - PLUGGEDIN_LAZY_TOOLS: 'true' lists only the static tools and the tools found so far
+ */
+export const FIND_TOOLS_FUZZY_THRESHOLD = 0.75; // Minimum similarity of a misspelled term
+
+/**
+ * Downstream tool names
+ * - PLUGGEDIN_TOOL_NAMING: 'uuid' (default), 'slug', 'server-name' or 'none'
+ * - PLUGGEDIN_TOOL_ALIASES: JSON object of "<server>/<tool>" to the listed name
+ */
+export const TOOL_NAME_COLLISION_SUFFIX_LENGTH = 8; // Server UUID characters appended on a name collision
+
+/**
+ * Cache of read-only tool results
+ * - PLUGGEDIN_RESPONSE_CACHE_TTL_MS: how long results are cached (unset or 0 disables the cache)
+ * - PLUGGEDIN_RESPONSE_CACHE_MAX_BYTES: total size of cached results before the oldest are evicted
+ * - PLUGGEDIN_RESPONSE_CACHE_MAX_ENTRY_BYTES: larger results are not cached
+ */
+export const DEFAULT_RESPONSE_CACHE_MAX_BYTES = 16 * 1024 * 1024; // 16 MiB
+export const DEFAULT_RESPONSE_CACHE_MAX_ENTRY_BYTES = 1024 * 1024; // 1 MiB
+
+/**
+ * OAuth access tokens on the Streamable HTTP transport
+ * - PLUGGEDIN_OAUTH_ISSUER / PLUGGEDIN_OAUTH_RESOURCE: authorization server and this server's resource URL
+ * - PLUGGEDIN_OAUTH_AUDIENCE: required `aud` of access tokens, the resource URL by default
+ * - PLUGGEDIN_OAUTH_JWKS_PATH / PLUGGEDIN_OAUTH_JWKS_URL: signing keys, discovered from the issuer's metadata if unset
+ * - PLUGGEDIN_OAUTH_SCOPES: JSON object of scope to the methods and tools it allows
+ */
+export const OAUTH_JWKS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes for fetched key sets
+export const OAUTH_JWKS_REFRESH_MIN_INTERVAL_MS = 30 * 1000; // Earliest refetch for an unknown key id
+export const OAUTH_CLOCK_SKEW_S = 60; // Tolerance for exp and nbf
+export const OAUTH_FETCH_TIMEOUT_MS = 10 * 1000;
+
 /**
  * JSON-RPC 2.0 error codes used in MCP
  * @see https://www.jsonrpc.org/specification
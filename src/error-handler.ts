@@ -4,6 +4,7 @@
 
 import { debugError } from './debug-log.js';
 import axios from 'axios';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * Error types for categorization
@@ -183,6 +184,10 @@ export function withErrorHandling<T extends (...args: any[]) => Promise<any>>(
     try {
       return await fn(...args);
     } catch (error) {
+      // Protocol errors already carry a client-facing code and message
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw handleError(error, { ...context, requestId });
     }
   }) as T;
@@ -0,0 +1,311 @@
+/**
+ * Event stores for resumable SSE streams of the Streamable HTTP transport
+ *
+ * Every message the transport sends on an SSE stream of a session is stored
+ * under an event ID. A client that lost its stream reconnects with a GET
+ * carrying `Last-Event-ID`, and the transport replays the stream's later
+ * messages from the session's store.
+ *
+ * PLUGGEDIN_EVENT_STORE selects the store:
+ * - 'memory' (default): events are kept in the process
+ * - 'disk': events are appended to one JSON Lines file per session in
+ *   PLUGGEDIN_EVENT_STORE_DIR, so they can outlive the process
+ * - 'off': streams are not resumable
+ *
+ * Each session keeps its last PLUGGEDIN_EVENT_STORE_MAX_EVENTS events, none
+ * older than PLUGGEDIN_EVENT_STORE_TTL_MS. A session's events are deleted
+ * when the client ends the session or its stored record expires, not when a
+ * transport closes, so a stream can be resumed after a restart.
+ */
+
+import { createHash } from "crypto";
+import { appendFile, mkdir, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { debugError, debugLog } from "./debug-log.js";
+import { DEFAULT_EVENT_STORE_MAX_EVENTS, DEFAULT_EVENT_STORE_TTL_MS } from "./constants.js";
+
+/**
+ * Size and age bounds of an event store
+ */
+export interface EventStoreLimits {
+  maxEvents: number;
+  ttlMs: number;
+}
+
+/**
+ * The event store of one session
+ */
+export interface SessionEventStore extends EventStore {
+  /** Deletes the session's events */
+  dispose(): Promise<void>;
+}
+
+interface StoredEvent {
+  seq: number;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+// Event IDs are "<sequence number>-<stream ID>", so the stream of an event
+// is known even after the event itself was dropped
+function formatEventId(seq: number, streamId: StreamId): EventId {
+  return `${seq}-${streamId}`;
+}
+
+function parseEventId(eventId: EventId): { seq: number; streamId: StreamId } | undefined {
+  const match = /^(\d+)-(.+)$/.exec(eventId);
+  return match ? { seq: Number(match[1]), streamId: match[2] } : undefined;
+}
+
+// Priming events the transport stores for new streams carry no message
+function isPrimingEvent(message: JSONRPCMessage): boolean {
+  return Object.keys(message).length === 0;
+}
+
+async function replayStoredEvents(
+  events: StoredEvent[],
+  lastEventId: EventId,
+  send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+): Promise<StreamId> {
+  const last = parseEventId(lastEventId);
+  if (!last) {
+    return '';
+  }
+  for (const event of events) {
+    if (event.streamId === last.streamId && event.seq > last.seq && !isPrimingEvent(event.message)) {
+      await send(formatEventId(event.seq, event.streamId), event.message);
+    }
+  }
+  return last.streamId;
+}
+
+/**
+ * Keeps a session's events in memory
+ */
+export class MemoryEventStore implements SessionEventStore {
+  private events: StoredEvent[] = [];
+  private nextSeq = 1;
+
+  constructor(private readonly limits: EventStoreLimits) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const seq = this.nextSeq++;
+    this.events.push({ seq, streamId, message, storedAt: Date.now() });
+    this.prune();
+    return formatEventId(seq, streamId);
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return parseEventId(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    this.prune();
+    return replayStoredEvents(this.events, lastEventId, send);
+  }
+
+  async dispose(): Promise<void> {
+    this.events = [];
+  }
+
+  private prune(): void {
+    const oldest = Date.now() - this.limits.ttlMs;
+    const firstKept = this.events.findIndex(event => event.storedAt > oldest);
+    const drop = firstKept === -1 ? this.events.length : firstKept;
+    this.events.splice(0, Math.max(drop, this.events.length - this.limits.maxEvents));
+  }
+}
+
+/**
+ * Appends a session's events to a JSON Lines file
+ *
+ * A store opened on an existing file continues its sequence, so a session can
+ * be resumed by another process. The file is rewritten without expired and
+ * surplus events once it holds twice the event limit.
+ */
+export class FileEventStore implements SessionEventStore {
+  private loaded: Promise<void> | undefined;
+  // Writes run one at a time so a rewrite never drops an append
+  private writes: Promise<void> = Promise.resolve();
+  private nextSeq = 1;
+  private lineCount = 0;
+
+  constructor(private readonly path: string, private readonly limits: EventStoreLimits) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    await this.load();
+    const event: StoredEvent = { seq: this.nextSeq++, streamId, message, storedAt: Date.now() };
+    await this.enqueueWrite(async () => {
+      await appendFile(this.path, `${JSON.stringify(event)}\n`, { mode: 0o600 });
+      if (++this.lineCount >= this.limits.maxEvents * 2) {
+        const kept = this.prune(await this.readEvents());
+        await writeFile(this.path, kept.map(item => `${JSON.stringify(item)}\n`).join(''), { mode: 0o600 });
+        this.lineCount = kept.length;
+      }
+    });
+    return formatEventId(event.seq, streamId);
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return parseEventId(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    await this.load();
+    await this.writes;
+    return replayStoredEvents(this.prune(await this.readEvents()), lastEventId, send);
+  }
+
+  async dispose(): Promise<void> {
+    await this.enqueueWrite(() => rm(this.path, { force: true }));
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      const events = await this.readEvents();
+      this.lineCount = events.length;
+      this.nextSeq = events.reduce((max, event) => Math.max(max, event.seq), 0) + 1;
+    })();
+    return this.loaded;
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(error => debugError(`[Event Store] Write to ${this.path} failed:`, error));
+    return result;
+  }
+
+  private async readEvents(): Promise<StoredEvent[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const events: StoredEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the events around it are still usable
+        debugError(`[Event Store] Skipping a malformed line in ${this.path}`);
+      }
+    }
+    return events.sort((a, b) => a.seq - b.seq);
+  }
+
+  private prune(events: StoredEvent[]): StoredEvent[] {
+    const oldest = Date.now() - this.limits.ttlMs;
+    return events.filter(event => event.storedAt > oldest).slice(-this.limits.maxEvents);
+  }
+}
+
+function readLimit(varName: string, defaultValue: number): number {
+  const raw = process.env[varName];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    debugError(`[Event Store] Ignoring invalid ${varName}="${raw}", using ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
+/**
+ * Gets the directory of the disk event store
+ */
+export function getEventStoreDir(): string {
+  return process.env.PLUGGEDIN_EVENT_STORE_DIR?.trim() || join(tmpdir(), 'pluggedin-mcp-events');
+}
+
+/**
+ * Gets the file the disk store keeps a session's events in
+ */
+export function getEventStoreFile(sessionId: string): string {
+  // Session IDs may come from clients, so they are never used as file names
+  const name = createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+  return join(getEventStoreDir(), `${name}.jsonl`);
+}
+
+let sweptDir: string | undefined;
+
+/**
+ * Deletes the files of sessions whose events all expired, e.g. those left
+ * behind by a process that crashed
+ * @returns Number of files deleted
+ */
+export async function removeExpiredEventFiles(dir: string, ttlMs: number): Promise<number> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+  const oldest = Date.now() - ttlMs;
+  let removed = 0;
+  for (const name of names.filter(item => item.endsWith('.jsonl'))) {
+    const path = join(dir, name);
+    if ((await stat(path)).mtimeMs < oldest) {
+      await rm(path, { force: true });
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    debugLog(`[Event Store] Removed ${removed} expired files from ${dir}`);
+  }
+  return removed;
+}
+
+/**
+ * Creates the event store of a session as configured
+ * @param sessionId - The Mcp-Session-Id of the session
+ * @returns The store, or undefined if streams are not resumable
+ */
+export function createSessionEventStore(sessionId: string): SessionEventStore | undefined {
+  const kind = (process.env.PLUGGEDIN_EVENT_STORE || 'memory').toLowerCase();
+  const limits: EventStoreLimits = {
+    maxEvents: readLimit('PLUGGEDIN_EVENT_STORE_MAX_EVENTS', DEFAULT_EVENT_STORE_MAX_EVENTS),
+    ttlMs: readLimit('PLUGGEDIN_EVENT_STORE_TTL_MS', DEFAULT_EVENT_STORE_TTL_MS),
+  };
+
+  switch (kind) {
+    case 'off':
+      return undefined;
+    case 'disk': {
+      const dir = getEventStoreDir();
+      if (sweptDir !== dir) {
+        sweptDir = dir;
+        removeExpiredEventFiles(dir, limits.ttlMs)
+          .catch(error => debugError(`[Event Store] Could not clean up ${dir}:`, error));
+      }
+      return new FileEventStore(getEventStoreFile(sessionId), limits);
+    }
+    case 'memory':
+      return new MemoryEventStore(limits);
+    default:
+      debugError(`[Event Store] Unknown PLUGGEDIN_EVENT_STORE="${kind}", using memory`);
+      return new MemoryEventStore(limits);
+  }
+}
@@ -6,24 +6,112 @@ import {
 } from "./utils.js";
 import { debugLog, debugError } from "./debug-log.js";
 import { ServerParameters } from "./types.js";
+import { isManifestMode, loadManifestServers } from "./manifest.js";
+import { createTenantState } from "./tenants.js";
 
-let _mcpServersCache: Record<string, ServerParameters> | null = null;
-let _mcpServersCacheTimestamp: number = 0;
+interface McpServersCache {
+  servers: Record<string, ServerParameters> | null;
+  timestamp: number;
+}
+
+// Each tenant sees the servers of its own account
+const getServersCache = createTenantState<McpServersCache>(() => ({ servers: null, timestamp: 0 }));
 const CACHE_TTL_MS = 1000; // 1 second cache TTL
 
 // Removed logger
 
+/**
+ * Fills in defaults for a server configuration and drops invalid ones
+ * @param serverParams - A server from the API or the local manifest
+ * @returns The normalized parameters, or null if the server cannot be used
+ */
+function normalizeServerParams(serverParams: any): ServerParameters | null {
+  const params: ServerParameters = {
+    ...serverParams,
+    type: serverParams.type || "STDIO",
+  };
+
+  // Process based on server type
+  if (params.type === "STDIO") {
+    if ("args" in params && !params.args) {
+      params.args = undefined;
+    }
+
+    params.env = {
+      ...getDefaultEnvironment(),
+      ...(params.env || {}),
+    };
+  } else if (params.type === "SSE") {
+    // For SSE servers, ensure url is present
+    if (!params.url) {
+      // logger.warn( // Removed logging
+      //   `SSE server ${params.uuid} (${params.name}) is missing url field, skipping`
+      // );
+      return null;
+    }
+  } else if (params.type === "STREAMABLE_HTTP") {
+    // Map streamableHTTPOptions to direct fields for backward compatibility
+    // Merge headers for backward compatibility, streamableHTTPOptions.headers takes precedence
+    params.headers = {
+      ...(params.headers || {}),
+      ...(params.streamableHTTPOptions?.headers || {}),
+    };
+    // For sessionId, streamableHTTPOptions.sessionId takes precedence if present
+    params.sessionId = params.streamableHTTPOptions?.sessionId || params.sessionId;
+    
+    // Log if headers or sessionId are present
+    if ((params.headers && Object.keys(params.headers).length > 0) || params.sessionId) {
+      debugLog(`[MCP] StreamableHTTP server ${params.name}: headers=${Object.keys(params.headers || {}).length}, sessionId=${!!params.sessionId}`);
+    }
+    
+    // Ensure url is present
+    if (!params.url) {
+      debugError(`StreamableHTTP server ${params.uuid} (${params.name}) is missing url field, skipping`);
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Builds the UUID -> parameters map from a list of server configurations
+ */
+function toServerDict(servers: any[]): Record<string, ServerParameters> {
+  const serverDict: Record<string, ServerParameters> = {};
+  for (const serverParams of servers) {
+    const params = normalizeServerParams(serverParams);
+    const uuid = params?.uuid;
+    if (params && uuid) {
+      serverDict[uuid] = params;
+    }
+  }
+  return serverDict;
+}
+
 export async function getMcpServers(
   forceRefresh: boolean = false
 ): Promise<Record<string, ServerParameters>> {
+  const cache = getServersCache();
   const currentTime = Date.now();
-  const cacheAge = currentTime - _mcpServersCacheTimestamp;
+  const cacheAge = currentTime - cache.timestamp;
 
   // Use cache if it exists, is not null, and either:
   // 1. forceRefresh is false, or
   // 2. forceRefresh is true but cache is less than 1 second old
-  if (_mcpServersCache !== null && (!forceRefresh || cacheAge < CACHE_TTL_MS)) {
-    return _mcpServersCache;
+  if (cache.servers !== null && (!forceRefresh || cacheAge < CACHE_TTL_MS)) {
+    return cache.servers;
+  }
+
+  // Offline mode: servers come from the local manifest, never from the API
+  if (isManifestMode()) {
+    try {
+      cache.servers = toServerDict(loadManifestServers());
+      cache.timestamp = currentTime;
+    } catch (error) {
+      debugError("[Manifest] Failed to load server manifest:", error);
+    }
+    return cache.servers || {};
   }
 
   try {
@@ -35,7 +123,7 @@ export async function getMcpServers(
       //   "PLUGGEDIN_API_KEY or PLUGGEDIN_API_BASE_URL is not set. Cannot fetch MCP servers."
       // );
       // Return the last known cache if available, otherwise empty object
-      return _mcpServersCache || {};
+      return cache.servers || {};
     }
 
     const headers = { Authorization: `Bearer ${apiKey}` };
@@ -44,69 +132,18 @@ export async function getMcpServers(
     });
     const data = response.data;
 
-    const serverDict: Record<string, ServerParameters> = {};
-    for (const serverParams of data) {
-      const params: ServerParameters = {
-        ...serverParams,
-        type: serverParams.type || "STDIO",
-      };
-
-      // Process based on server type
-      if (params.type === "STDIO") {
-        if ("args" in params && !params.args) {
-          params.args = undefined;
-        }
-
-        params.env = {
-          ...getDefaultEnvironment(),
-          ...(params.env || {}),
-        };
-      } else if (params.type === "SSE") {
-        // For SSE servers, ensure url is present
-        if (!params.url) {
-          // logger.warn( // Removed logging
-          //   `SSE server ${params.uuid} (${params.name}) is missing url field, skipping`
-          // );
-          continue;
-        }
-      } else if (params.type === "STREAMABLE_HTTP") {
-        // Map streamableHTTPOptions to direct fields for backward compatibility
-        // Merge headers for backward compatibility, streamableHTTPOptions.headers takes precedence
-        params.headers = {
-          ...(params.headers || {}),
-          ...(params.streamableHTTPOptions?.headers || {}),
-        };
-        // For sessionId, streamableHTTPOptions.sessionId takes precedence if present
-        params.sessionId = params.streamableHTTPOptions?.sessionId || params.sessionId;
-        
-        // Log if headers or sessionId are present
-        if ((params.headers && Object.keys(params.headers).length > 0) || params.sessionId) {
-          debugLog(`[MCP] StreamableHTTP server ${params.name}: headers=${Object.keys(params.headers || {}).length}, sessionId=${!!params.sessionId}`);
-        }
-        
-        // Ensure url is present
-        if (!params.url) {
-          debugError(`StreamableHTTP server ${params.uuid} (${params.name}) is missing url field, skipping`);
-          continue;
-        }
-      }
-
-      const uuid = params.uuid;
-      if (uuid) {
-        serverDict[uuid] = params;
-      }
-    }
+    const serverDict = toServerDict(data);
 
-    _mcpServersCache = serverDict;
-    _mcpServersCacheTimestamp = currentTime;
+    cache.servers = serverDict;
+    cache.timestamp = currentTime;
     // logger.debug(`Fetched and cached ${Object.keys(serverDict).length} MCP server configurations.`); // Removed logging
     return serverDict;
   } catch (error: any) { // Add type to error
     // logger.error("Failed to fetch MCP servers from API:", error.message || error); // Removed logging
     // Return the last known cache if available on error, otherwise empty object
-    if (_mcpServersCache !== null) {
+    if (cache.servers !== null) {
       // logger.warn("Returning stale MCP server cache due to fetch error."); // Removed logging
-      return _mcpServersCache;
+      return cache.servers;
     }
     return {};
   }
@@ -3,12 +3,13 @@ import { ToolExecutionResult } from "../types.js";
 import { 
   getPluggedinMCPApiKey, 
   getPluggedinMCPApiBaseUrl, 
-  sanitizeName, 
   isDebugEnabled 
 } from "../utils.js";
 import { logMcpActivity, createExecutionTimer } from "../notification-logger.js";
 import { debugError, debugLog } from "../debug-log.js";
 import { getApiKeySetupMessage } from "./static-handlers-helpers.js";
+import { getRegisteredToolName, registerToolNames } from "../tool-naming.js";
+import { getToolOverride, overrideDescription } from "../tool-overrides.js";
 import {
   DiscoverToolsInputSchema,
   AskKnowledgeBaseInputSchema,
@@ -40,6 +41,9 @@ import {
   MemoryIndividuationInputSchema
 } from '../schemas/index.js';
 import { getMcpServers } from "../fetch-pluggedinmcp.js";
+import { getServerSessionStatus } from "../sessions.js";
+import { checkStaticToolOutput } from "../structured-output.js";
+import { getRateLimitStats } from "../rate-limits.js";
 import { 
   buildServerContextsMap, 
   ProcessedServerContext,
@@ -50,6 +54,7 @@ import {
   buildConstraintMap
 } from '../utils/custom-instructions.js';
 import {
+  allStaticTools,
   setupStaticTool,
   discoverToolsStaticTool,
   askKnowledgeBaseStaticTool,
@@ -79,9 +84,6 @@ import {
   memoryIndividuationStaticTool
 } from '../tools/static-tools.js';
 
-// Type for tool to server mapping
-export type ToolToServerMap = Record<string, { originalName: string; serverUuid: string; }>;
-
 // Interface for instruction data from API
 interface InstructionData {
   description?: string;
@@ -99,7 +101,6 @@ export class StaticToolHandlers {
   private constraintMap: Map<string, Constraints> = new Map();
   
   constructor(
-    private toolToServerMap: ToolToServerMap,
     private instructionToServerMap: Record<string, InstructionData>
   ) {}
 
@@ -298,8 +299,7 @@ Set environment variables in your terminal before launching the editor.
         executionTime: 0, // Will update after
       }).catch(() => {}); // Ignore notification errors
       
-      // Wipe stored servers and instructions maps
-      Object.keys(this.toolToServerMap).forEach(key => delete this.toolToServerMap[key]);
+      // Wipe stored instructions map; tool names are replaced below
       Object.keys(this.instructionToServerMap).forEach(key => delete this.instructionToServerMap[key]);
 
       const serverDict = await getMcpServers();
@@ -314,6 +314,16 @@ Set environment variables in your terminal before launching the editor.
       
       // Build server contexts from custom instructions (UUID-keyed map)
       const serverContexts = buildServerContextsMap(data);
+
+      // Name every discovered tool through the same registry as tools/list
+      const overrideFor = (server: any, tool: any) =>
+        getToolOverride(server, tool.name, serverContexts.get(server.uuid)?.constraints);
+      registerToolNames(data.flatMap((server: any) => (server.capabilities?.tools ?? []).map((tool: any) => ({
+        originalName: tool.name,
+        serverUuid: server.uuid,
+        serverName: server.name,
+        alias: overrideFor(server, tool)?.name,
+      }))), { replace: true });
       
       // Store server contexts for use in tool invocations
       this.serverContexts = serverContexts;
@@ -323,14 +333,32 @@ Set environment variables in your terminal before launching the editor.
       
       data.forEach((server: any) => {
         dataContent += `## ${server.name} (${server.uuid})\n`;
+
+        // Report the downstream connection health if a session was opened
+        const sessionStatus = getServerSessionStatus(server.uuid);
+        if (sessionStatus) {
+          dataContent += `**Session:** ${sessionStatus.state}`;
+          if (sessionStatus.state !== 'ready' && sessionStatus.lastError) {
+            dataContent += ` (${sessionStatus.lastError})`;
+          }
+          dataContent += '\n';
+        }
+
+        // Report calls rejected by the server's rate limits
+        const rateLimitStats = getRateLimitStats().find(stats => stats.serverUuid === server.uuid);
+        if (rateLimitStats) {
+          const tools = Object.entries(rateLimitStats.toolRejections)
+            .map(([tool, count]) => `${tool}: ${count}`)
+            .join(', ');
+          dataContent += `**Rate limited:** ${rateLimitStats.rejections} calls rejected (${tools})\n`;
+        }
         
         // Process and register tools
         if (server.capabilities?.tools?.length > 0) {
           dataContent += `### Tools (${server.capabilities.tools.length}):\n`;
           server.capabilities.tools.forEach((tool: any) => {
-            const prefixedName = sanitizeName(`${server.name}_${tool.name}`);
-            this.toolToServerMap[prefixedName] = { originalName: tool.name, serverUuid: server.uuid };
-            dataContent += `- **${prefixedName}**: ${tool.description}\n`;
+            const name = getRegisteredToolName(server.uuid, tool.name) ?? tool.name;
+            dataContent += `- **${name}**: ${overrideDescription(tool.description, overrideFor(server, tool))}\n`;
           });
           dataContent += '\n';
         }
@@ -881,6 +909,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { documentId: response.data.documentId, title: validatedArgs.title, url: response.data.url },
         isError: false,
       };
 
@@ -991,6 +1020,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { total, documents },
         isError: false,
       };
 
@@ -1069,6 +1099,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { total: results.length, results },
         isError: false,
       };
 
@@ -1245,6 +1276,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { document: doc },
         isError: false,
       };
 
@@ -1316,6 +1348,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { documentId: validatedArgs.documentId, operation: validatedArgs.operation, version: response.data.version },
         isError: false,
       };
 
@@ -1397,6 +1430,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { entry },
         isError: false,
       };
 
@@ -1497,12 +1531,14 @@ Set environment variables in your terminal before launching the editor.
               data: entry.value,
               mimeType: contentType
             }],
+            structuredContent: { entry },
             isError: false,
           };
         }
 
         return {
           content: [{ type: "text", text: JSON.stringify(entry, null, 2) }],
+          structuredContent: { entry },
           isError: false,
         };
       }
@@ -1531,6 +1567,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { entries, total },
         isError: false,
       };
 
@@ -1613,6 +1650,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { deleted },
         isError: false,
       };
 
@@ -1693,6 +1731,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }],
+        structuredContent: { entries: response.data.entries || [], total: response.data.total || 0 },
         isError: false,
       };
 
@@ -1773,6 +1812,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: responseText }],
+        structuredContent: { entry },
         isError: false,
       };
 
@@ -1863,12 +1903,14 @@ Set environment variables in your terminal before launching the editor.
             data: entry.value,
             mimeType: contentType
           }],
+          structuredContent: { entry },
           isError: false,
         };
       }
 
       return {
         content: [{ type: "text", text: JSON.stringify(entry, null, 2) }],
+        structuredContent: { entry },
         isError: false,
       };
 
@@ -1911,7 +1953,13 @@ Set environment variables in your terminal before launching the editor.
     failureMessage: string,
     apiCall: (baseUrl: string, headers: Record<string, string>) => Promise<AxiosResponse>,
     formatResponse: (data: AxiosResponse['data']) => string,
-    options?: { serverName?: string; serverUuid?: string; notFoundMessage?: string }
+    options?: {
+      serverName?: string;
+      serverUuid?: string;
+      notFoundMessage?: string;
+      /** Builds the structuredContent of tools that declare an output schema */
+      toStructured?: (data: AxiosResponse['data']) => Record<string, unknown>;
+    }
   ): Promise<ToolExecutionResult> {
     debugLog(`[CallTool Handler] Executing static tool: ${toolName}`);
 
@@ -1940,6 +1988,7 @@ Set environment variables in your terminal before launching the editor.
 
       return {
         content: [{ type: "text", text: formatResponse(response.data) }],
+        ...(options?.toStructured && { structuredContent: options.toStructured(response.data) }),
         isError: false,
       };
     } catch (apiError: unknown) {
@@ -1979,7 +2028,8 @@ Set environment variables in your terminal before launching the editor.
       (responseData) => {
         const data = responseData.data;
         return `Memory session started!\nSession UUID: ${data.uuid}\nMemory Session ID: ${data.memorySessionId}\n\nUse the session UUID for pluggedin_memory_observe calls, and the memory_session_id for pluggedin_memory_session_end.`;
-      }
+      },
+      { toStructured: ({ data }) => ({ uuid: data.uuid, memorySessionId: data.memorySessionId }) }
     );
   }
 
@@ -1993,7 +2043,8 @@ Set environment variables in your terminal before launching the editor.
         { action: 'end' },
         { headers }
       ),
-      () => "Memory session ended successfully.\nZ-report generation has been triggered and will process in the background."
+      () => "Memory session ended successfully.\nZ-report generation has been triggered and will process in the background.",
+      { toStructured: () => ({ ended: true }) }
     );
   }
 
@@ -2015,7 +2066,8 @@ Set environment variables in your terminal before launching the editor.
       (responseData) => {
         const data = responseData.data;
         return `Observation recorded.\nUUID: ${data?.uuid || 'recorded'}\nType: ${validatedArgs.type}`;
-      }
+      },
+      { toStructured: ({ data }) => ({ uuid: data?.uuid, type: validatedArgs.type }) }
     );
   }
 
@@ -2043,7 +2095,8 @@ Set environment variables in your terminal before launching the editor.
         }
         text += `Use pluggedin_memory_details with specific UUIDs to get full content.`;
         return text;
-      }
+      },
+      { toStructured: ({ data }) => ({ results: data || [] }) }
     );
   }
 
@@ -2075,12 +2128,19 @@ Set environment variables in your terminal before launching the editor.
           text += `\n`;
         }
         return text;
-      }
+      },
+      { toStructured: ({ data }) => ({ memories: data || [] }) }
     );
   }
 
   // Main handler method
   async handleStaticTool(toolName: string, args: any): Promise<ToolExecutionResult | null> {
+    const result = await this.dispatchStaticTool(toolName, args);
+    const tool = allStaticTools.find(item => item.name === toolName);
+    return result && tool ? checkStaticToolOutput(tool, result) : result;
+  }
+
+  private async dispatchStaticTool(toolName: string, args: any): Promise<ToolExecutionResult | null> {
     switch (toolName) {
       case setupStaticTool.name:
         return this.handleSetup(args);
@@ -4,6 +4,13 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { createServer } from "./mcp-proxy.js";
 import { Command } from "commander";
 import { startStreamableHTTPServer } from "./streamable-http.js";
+import { registerUpstreamSession, unregisterUpstreamSession, STDIO_SESSION_ID } from "./upstream-sessions.js";
+import { getManifestPath, loadManifestServers } from "./manifest.js";
+import { getPolicyPath, loadPolicyRules } from "./argument-policies.js";
+import { getToolOverridesPath, loadToolOverrides } from "./tool-overrides.js";
+import { getCompositeToolsPath, loadCompositeTools } from "./composite-tools.js";
+import { isTenantMode } from "./tenants.js";
+import { getOAuthConfig, loadJwksFile } from "./oauth.js";
 
 const program = new Command();
 
@@ -36,6 +43,14 @@ program
     "--require-api-auth",
     "Require API key authentication for Streamable HTTP requests"
   )
+  .option(
+    "--tenant-mode",
+    "Serve several Plugged.in accounts over Streamable HTTP, each session using the API key it connected with (can also be set via PLUGGEDIN_TENANT_MODE=true)"
+  )
+  .option(
+    "--manifest <path>",
+    "Load servers from a local YAML/JSON manifest instead of the Plugged.in API (can also be set via PLUGGEDIN_MANIFEST_PATH env var)"
+  )
   // Allow unknown options and excess arguments to prevent errors when called by MCP inspector
   .allowUnknownOption()
   .allowExcessArguments()
@@ -65,9 +80,74 @@ if (options.pluggedinApiBaseUrl) {
   }
 }
 
+if (options.manifest) {
+  process.env.PLUGGEDIN_MANIFEST_PATH = String(options.manifest);
+}
+if (options.tenantMode) {
+  process.env.PLUGGEDIN_TENANT_MODE = 'true';
+}
+
+/**
+ * Runs a startup check, exiting with its error message if it fails
+ */
+function loadOrExit<T>(load: () => T): T {
+  try {
+    return load();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
 async function main() {
   // Removed --report flag handling
 
+  // Tenants are told apart by their bearer token, which only HTTP requests carry,
+  // and a manifest would serve the same servers to every account
+  if (isTenantMode()) {
+    if (options.transport !== 'streamable-http') {
+      console.error("Tenant mode requires --transport streamable-http");
+      process.exit(1);
+    }
+    if (getManifestPath()) {
+      console.error("Tenant mode cannot be combined with a manifest");
+      process.exit(1);
+    }
+  }
+
+  // OAuth settings and a local key set are checked before anything listens
+  const oauth = loadOrExit(() => {
+    const config = getOAuthConfig();
+    if (config?.jwksPath) {
+      loadJwksFile(config.jwksPath);
+    }
+    return config;
+  });
+  if (oauth && options.transport !== 'streamable-http') {
+    console.error("OAuth access tokens require --transport streamable-http");
+    process.exit(1);
+  }
+  if (oauth && isTenantMode()) {
+    console.error("Tenant mode cannot be combined with OAuth");
+    process.exit(1);
+  }
+
+  // Fail fast on broken config files: a broken manifest would serve an empty
+  // server list, a broken policy file would block every tool call, broken
+  // overrides would fail every listing, and composite tools from a broken
+  // file would silently go missing
+  const configFiles: Array<[string | undefined, (filePath: string) => unknown]> = [
+    [getManifestPath(), loadManifestServers],
+    [getPolicyPath(), loadPolicyRules],
+    [getToolOverridesPath(), loadToolOverrides],
+    [getCompositeToolsPath(), loadCompositeTools],
+  ];
+  for (const [filePath, load] of configFiles) {
+    if (filePath) {
+      loadOrExit(() => load(filePath));
+    }
+  }
+
   try {
     // Create the MCP server
     const { server, cleanup: serverCleanup } = await createServer();
@@ -85,14 +165,24 @@ async function main() {
       transportCleanup = await startStreamableHTTPServer(server, {
         port,
         requireApiAuth: options.requireApiAuth,
-        stateless: options.stateless
+        stateless: options.stateless,
+        tenantMode: isTenantMode(),
+        createTenantServer: createServer,
+        oauth
       });
       
       // For HTTP server, we don't need to handle stdin
     } else {
       // Default to STDIO transport
       const transport = new StdioServerTransport();
+      // Deliver out-of-band notifications (e.g. resource updates) to the STDIO client
+      transport.onclose = () => unregisterUpstreamSession(STDIO_SESSION_ID);
       await server.connect(transport);
+      registerUpstreamSession(
+        STDIO_SESSION_ID,
+        (notification) => server.notification(notification),
+        () => server.getClientCapabilities()
+      );
       
       // Cleanup function for STDIO
       transportCleanup = async () => {
@@ -0,0 +1,221 @@
+/**
+ * Downstream list_changed forwarding
+ *
+ * Downstream servers announce changes to their tools, resources and prompts
+ * with `notifications/{tools,resources,prompts}/list_changed`. Every downstream
+ * Client registers handlers that publish these events here; the proxy server
+ * subscribes through a forwarder that:
+ * - Coalesces bursts of events into a single notification per list kind
+ * - Lets the proxy invalidate its cached mappings for the affected servers
+ *   before the client is told to re-list
+ * - Re-emits the matching list_changed notification upstream
+ *
+ * In tenant mode, listeners only hear the servers of their own tenant and run
+ * in its context. The forwarders of a tenant's servers (one per HTTP session)
+ * are flushed together, so a change is invalidated once for the tenant and
+ * every server only notifies its own client.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { LIST_CHANGED_DEBOUNCE_MS } from "./constants.js";
+import { getCurrentTenant, runWithTenant } from "./tenants.js";
+
+/**
+ * The kinds of lists a downstream server can announce changes for
+ */
+export type ListChangedKind = 'tools' | 'resources' | 'prompts';
+
+/**
+ * Listener invoked for every list_changed notification of a downstream server
+ */
+export type ListChangedListener = (kind: ListChangedKind, serverUuid: string) => void;
+
+// Listeners with the tenant they subscribed for
+const listeners = new Map<ListChangedListener, string | undefined>();
+
+/**
+ * Subscribes to list_changed notifications from all downstream servers
+ * @param listener - Called with the list kind and the UUID of the server
+ * @returns A function that removes the listener
+ */
+export function onDownstreamListChanged(listener: ListChangedListener): () => void {
+  listeners.set(listener, getCurrentTenant()?.id);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Publishes a list_changed notification received from a downstream server
+ * @param kind - The list that changed
+ * @param serverUuid - UUID of the downstream server that sent the notification
+ */
+export function emitDownstreamListChanged(kind: ListChangedKind, serverUuid: string): void {
+  debugLog(`[List Changed] Downstream server ${serverUuid} reported a ${kind} list change`);
+  const tenantId = getCurrentTenant()?.id;
+  for (const [listener, listenerTenantId] of listeners) {
+    if (listenerTenantId !== tenantId) {
+      continue;
+    }
+    try {
+      listener(kind, serverUuid);
+    } catch (error) {
+      debugError(`[List Changed] Listener failed for ${kind} change on ${serverUuid}:`, error);
+    }
+  }
+}
+
+/**
+ * Registers list_changed notification handlers on a downstream client
+ * @param client - The downstream client (before or after connecting)
+ * @param serverUuid - UUID of the downstream server the client talks to
+ */
+export function registerListChangedHandlers(client: Client, serverUuid: string): void {
+  // Publish for the tenant the client was created for
+  const tenant = getCurrentTenant();
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    runWithTenant(tenant, () => emitDownstreamListChanged('tools', serverUuid));
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+    runWithTenant(tenant, () => emitDownstreamListChanged('resources', serverUuid));
+  });
+  client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+    runWithTenant(tenant, () => emitDownstreamListChanged('prompts', serverUuid));
+  });
+}
+
+/**
+ * Options for forwarding downstream list changes to the proxy's clients
+ */
+export interface ListChangedForwarderOptions {
+  /** Window in which events are coalesced into one notification per kind */
+  debounceMs?: number;
+  /**
+   * Called once per affected server before notifying the client, so cached
+   * mappings can be dropped; the notification waits for it to settle. A hook
+   * shared by several forwarders of a tenant runs once for all of them.
+   */
+  onInvalidate?: (serverUuid: string, kinds: ReadonlySet<ListChangedKind>) => void | Promise<void>;
+}
+
+interface Forwarder {
+  debounceMs: number;
+  onInvalidate?: ListChangedForwarderOptions['onInvalidate'];
+  notify: (kinds: ReadonlySet<ListChangedKind>) => Promise<void>;
+}
+
+/**
+ * Forwarders of one tenant's proxy servers (e.g. one per HTTP session),
+ * flushed together so invalidation runs once per change
+ */
+interface TenantForwarding {
+  forwarders: Set<Forwarder>;
+  // Map of server UUID -> kinds changed since the last flush
+  pending: Map<string, Set<ListChangedKind>>;
+  timer: NodeJS.Timeout | null;
+  unsubscribe: () => void;
+}
+
+// Forwarding per tenant id ('' outside tenant mode)
+const forwardingByTenant = new Map<string, TenantForwarding>();
+
+async function flushTenantForwarding(forwarding: TenantForwarding): Promise<void> {
+  forwarding.timer = null;
+  const changes = forwarding.pending;
+  forwarding.pending = new Map();
+  const forwarders = Array.from(forwarding.forwarders);
+
+  const hooks = new Set(forwarders.map(forwarder => forwarder.onInvalidate).filter(hook => hook !== undefined));
+  await Promise.allSettled(
+    Array.from(hooks).flatMap(hook => Array.from(changes.entries()).map(async ([serverUuid, kinds]) => {
+      try {
+        await hook(serverUuid, kinds);
+      } catch (error) {
+        debugError(`[List Changed] Failed to invalidate caches for ${serverUuid}:`, error);
+      }
+    }))
+  );
+
+  const kinds = new Set<ListChangedKind>();
+  for (const serverKinds of changes.values()) {
+    serverKinds.forEach(kind => kinds.add(kind));
+  }
+  await Promise.allSettled(forwarders.map(forwarder => forwarder.notify(kinds)));
+}
+
+/**
+ * Forwards downstream list_changed notifications to the clients of a proxy server
+ * @param server - The upstream proxy server
+ * @param options - Debounce window and invalidation hook
+ * @returns A function that stops forwarding and drops pending notifications
+ */
+export function createListChangedForwarder(
+  server: Pick<Server, 'sendToolListChanged' | 'sendResourceListChanged' | 'sendPromptListChanged'>,
+  options: ListChangedForwarderOptions = {}
+): () => void {
+  const send: Record<ListChangedKind, () => Promise<void>> = {
+    tools: () => server.sendToolListChanged(),
+    resources: () => server.sendResourceListChanged(),
+    prompts: () => server.sendPromptListChanged(),
+  };
+  const forwarder: Forwarder = {
+    debounceMs: options.debounceMs ?? LIST_CHANGED_DEBOUNCE_MS,
+    onInvalidate: options.onInvalidate,
+    notify: async (kinds) => {
+      for (const kind of kinds) {
+        try {
+          await send[kind]();
+        } catch (error) {
+          // No client connected yet, or the transport went away
+          debugError(`[List Changed] Failed to notify client of ${kind} list change:`, error);
+        }
+      }
+    },
+  };
+
+  const tenantId = getCurrentTenant()?.id ?? '';
+  let forwarding = forwardingByTenant.get(tenantId);
+  if (!forwarding) {
+    const created: TenantForwarding = { forwarders: new Set(), pending: new Map(), timer: null, unsubscribe: () => {} };
+    created.unsubscribe = onDownstreamListChanged((kind, serverUuid) => {
+      let kinds = created.pending.get(serverUuid);
+      if (!kinds) {
+        kinds = new Set();
+        created.pending.set(serverUuid, kinds);
+      }
+      kinds.add(kind);
+
+      if (!created.timer) {
+        const debounceMs = Math.min(...Array.from(created.forwarders, item => item.debounceMs));
+        created.timer = setTimeout(() => {
+          void flushTenantForwarding(created);
+        }, debounceMs);
+        created.timer.unref?.();
+      }
+    });
+    forwarding = created;
+    forwardingByTenant.set(tenantId, forwarding);
+  }
+  forwarding.forwarders.add(forwarder);
+
+  const tenantForwarding = forwarding;
+  return () => {
+    if (!tenantForwarding.forwarders.delete(forwarder) || tenantForwarding.forwarders.size > 0) {
+      return;
+    }
+    tenantForwarding.unsubscribe();
+    if (tenantForwarding.timer) {
+      clearTimeout(tenantForwarding.timer);
+      tenantForwarding.timer = null;
+    }
+    tenantForwarding.pending.clear();
+    forwardingByTenant.delete(tenantId);
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Local server manifest (offline mode)
+ *
+ * When a manifest path is configured (--manifest, PLUGGEDIN_MANIFEST_PATH or
+ * `manifest_path` in the credentials file), downstream servers are read from a
+ * local YAML or JSON file instead of the Plugged.in API. Tools are then
+ * discovered directly from those servers and the Plugged.in static tools are
+ * hidden, so the proxy works without network access to the App.
+ *
+ * Manifest format (YAML shown, JSON uses the same structure):
+ *
+ *   servers:
+ *     - name: filesystem
+ *       command: npx
+ *       args: ["-y", "@modelcontextprotocol/server-filesystem", "/data"]
+ *       customInstructions: Only read files below /data.
+ *       constraints: ["read-only", "no sampling"]
+ *     - name: search
+ *       type: STREAMABLE_HTTP
+ *       url: http://localhost:9000/mcp
+ *
+ * A `mcpServers` map keyed by server name (the format used by desktop MCP
+ * clients) is accepted as well. Servers without a `uuid` get a stable one
+ * derived from their name. Constraints use the same phrases as custom
+ * instructions and are appended to them.
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, statSync } from "fs";
+import { extname, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ServerParameters } from "./types.js";
+import { debugLog } from "./debug-log.js";
+import { getSettingsEnvVar } from "./config-loader.js";
+
+const ManifestServerSchema = z.object({
+  uuid: z.string().uuid().optional(),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  type: z.enum(['STDIO', 'SSE', 'STREAMABLE_HTTP']).optional(),
+  command: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  customInstructions: z.union([z.string(), z.array(z.string())]).optional(),
+  constraints: z.array(z.string()).optional(),
+}).refine(server => server.url || server.command, {
+  message: 'Each server needs a command (STDIO) or a url (SSE / STREAMABLE_HTTP)',
+});
+
+const ManifestSchema = z.object({
+  servers: z.array(ManifestServerSchema).optional(),
+  mcpServers: z.record(ManifestServerSchema).optional(),
+}).refine(manifest => manifest.servers || manifest.mcpServers, {
+  message: 'The manifest must define "servers" or "mcpServers"',
+});
+
+/**
+ * A server entry in the manifest
+ */
+export type ManifestServer = z.infer<typeof ManifestServerSchema>;
+
+interface ManifestCache {
+  path: string;
+  mtimeMs: number;
+  servers: ServerParameters[];
+}
+
+let manifestCache: ManifestCache | null = null;
+
+/**
+ * Gets the configured manifest path, if any
+ */
+export function getManifestPath(): string | undefined {
+  const path = process.env.PLUGGEDIN_MANIFEST_PATH || getSettingsEnvVar('PLUGGEDIN_MANIFEST_PATH');
+  return path ? resolve(path) : undefined;
+}
+
+/**
+ * Whether servers come from a local manifest instead of the Plugged.in API
+ */
+export function isManifestMode(): boolean {
+  return getManifestPath() !== undefined;
+}
+
+/**
+ * Derives a stable UUID (version 5 layout) from a manifest server name
+ */
+export function manifestServerUuid(name: string): string {
+  const hex = createHash('sha1').update(`pluggedin-manifest:${name}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toServerParameters(server: ManifestServer, fallbackName: string): ServerParameters {
+  const name = server.name || fallbackName;
+  const instructions = [
+    ...(Array.isArray(server.customInstructions)
+      ? server.customInstructions
+      : server.customInstructions ? [server.customInstructions] : []),
+    ...(server.constraints ?? []),
+  ];
+
+  return {
+    uuid: server.uuid || manifestServerUuid(name),
+    name,
+    description: server.description,
+    type: server.type || (server.url ? 'STREAMABLE_HTTP' : 'STDIO'),
+    command: server.command,
+    args: server.args,
+    env: server.env,
+    url: server.url,
+    headers: server.headers,
+    customInstructions: instructions.length > 0 ? instructions.join('\n') : undefined,
+  };
+}
+
+/**
+ * Parses and validates manifest content
+ * @param content - The file content
+ * @param filePath - Path of the manifest, used to pick the format and in errors
+ * @returns The servers defined by the manifest
+ * @throws Error if the content cannot be parsed or does not match the format
+ */
+export function parseManifest(content: string, filePath: string): ServerParameters[] {
+  let raw: unknown;
+  try {
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid server manifest ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ManifestSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid server manifest ${filePath}: ${issues}`);
+  }
+
+  const servers = [
+    ...(result.data.servers ?? []).map((server, index) => toServerParameters(server, `server-${index + 1}`)),
+    ...Object.entries(result.data.mcpServers ?? {}).map(([name, server]) => toServerParameters(server, name)),
+  ];
+
+  const seen = new Set<string>();
+  for (const server of servers) {
+    if (seen.has(server.uuid)) {
+      throw new Error(`Invalid server manifest ${filePath}: duplicate server ${server.name} (${server.uuid})`);
+    }
+    seen.add(server.uuid);
+  }
+
+  return servers;
+}
+
+/**
+ * Loads the servers from the configured manifest, re-reading it when it changes
+ * @param filePath - Manifest path, defaults to the configured one
+ * @throws Error if no manifest is configured, or it cannot be read or parsed
+ */
+export function loadManifestServers(filePath: string | undefined = getManifestPath()): ServerParameters[] {
+  if (!filePath) {
+    throw new Error('No server manifest configured');
+  }
+
+  const { mtimeMs } = statSync(filePath);
+  if (manifestCache && manifestCache.path === filePath && manifestCache.mtimeMs === mtimeMs) {
+    return manifestCache.servers;
+  }
+
+  const servers = parseManifest(readFileSync(filePath, 'utf-8'), filePath);
+  manifestCache = { path: filePath, mtimeMs, servers };
+  debugLog(`[Manifest] Loaded ${servers.length} servers from ${filePath}`);
+  return servers;
+}
+
+/** Clear the manifest cache (for testing). */
+export function clearManifestCache(): void {
+  manifestCache = null;
+}
@@ -8,15 +8,17 @@
  * FEATURES:
  * - Automatic UUID prefixing: {server_uuid}__{original_tool_name}
  * - Backward compatibility: Supports both prefixed and non-prefixed tool calls
- * - Configurable: Can be disabled via PLUGGEDIN_UUID_TOOL_PREFIXING=false
+ * - Configurable: Slug, server-name or no prefixes instead, see tool-naming.ts
  * - Collision-free: Guarantees unique tool names across all servers
  *
  * CONFIGURATION:
- * - PLUGGEDIN_UUID_TOOL_PREFIXING: Set to 'false' to disable prefixing (default: true)
+ * - PLUGGEDIN_TOOL_NAMING: 'uuid' (default), 'slug', 'server-name' or 'none'
+ * - PLUGGEDIN_TOOL_ALIASES: JSON object of "<server>/<tool>" to the listed name
+ * - PLUGGEDIN_UUID_TOOL_PREFIXING: Set to 'false' for 'none' when PLUGGEDIN_TOOL_NAMING is unset
  *
  * USAGE:
- * 1. Tools are automatically prefixed when retrieved from /api/tools?prefix_tools=true
- * 2. MCP proxy handles both prefixed and non-prefixed tool calls seamlessly
+ * 1. Tools are named by the tool-naming registry when listed or discovered
+ * 2. MCP proxy resolves every tool call through the same registry
  * 3. Existing integrations continue to work without modification
  *
  * EXAMPLES:
@@ -26,6 +28,7 @@
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import {
   CallToolRequestSchema,
   GetPromptRequestSchema,
@@ -33,6 +36,9 @@ import {
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  RootsListChangedNotificationSchema,
   Tool,
   ListPromptsResultSchema,
   ListPromptsResult,
@@ -46,11 +52,14 @@ import {
   GetPromptResult,
   PromptMessage,
   PingRequestSchema,
+  McpError,
+  ElicitResultSchema,
+  RequestMeta,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { getMcpServers } from "./fetch-pluggedinmcp.js";
 import { getSessionKey, getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl } from "./utils.js";
-import { cleanupAllSessions, getSession, initSessions } from "./sessions.js";
+import { cleanupAllSessions, getConnectedSessions, getSession, initSessions, retainServerSession, runWithSessionSlot } from "./sessions.js";
 import axios from "axios";
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { createRequire } from 'module';
@@ -64,8 +73,25 @@ import {
 } from "./security-utils.js";
 import { debugLog, debugError } from "./debug-log.js";
 import { withErrorHandling } from "./error-handler.js";
+import { createProgressRelay, trackDownstreamRequest, UpstreamRequestExtra } from "./request-forwarding.js";
+import { createListChangedForwarder, ListChangedKind } from "./list-changed.js";
+import { subscribeToResource, unsubscribeFromResource } from "./resource-subscriptions.js";
+import { getUpstreamSessionId, hasUpstreamSession } from "./upstream-sessions.js";
+import { notifyRootsChanged, setUpstreamRoots } from "./roots.js";
+import {
+  clearListSnapshots,
+  paginateList,
+  readUpstreamPage,
+  UpstreamPage,
+  UpstreamPageFetcher
+} from "./pagination.js";
+import { isManifestMode } from "./manifest.js";
+import { checkArgumentPolicies } from "./argument-policies.js";
+import { getApprovalScope, needsApproval, requireApproval } from "./approvals.js";
+import { FindToolsInputSchema } from "./schemas/index.js";
 import {
   setupStaticTool,
+  findToolsStaticTool,
   createDocumentStaticTool,
   listDocumentsStaticTool,
   searchDocumentsStaticTool,
@@ -82,10 +108,48 @@ import {
   memoryObserveStaticTool,
   memorySearchStaticTool,
   memoryDetailsStaticTool,
+  allStaticTools,
   STATIC_TOOLS_COUNT
 } from "./tools/static-tools.js";
 import { StaticToolHandlers } from "./handlers/static-handlers.js";
-import { formatCustomInstructionsForDiscovery } from "./utils/custom-instructions.js";
+import {
+  classifyTool,
+  extractCustomInstructions,
+  formatCustomInstructionsForDiscovery,
+  needsToolClassification,
+  processInstructions,
+  ProcessedServerContext,
+  validateToolAgainstConstraints
+} from "./utils/custom-instructions.js";
+import { applyArgumentOverrides, applyToolOverride, getToolOverride } from "./tool-overrides.js";
+import { CompositeTool, getCompositeTools, runCompositeTool, toListedTool } from "./composite-tools.js";
+import { enforceRateLimit, resetRateLimits } from "./rate-limits.js";
+import { getCurrentTenant } from "./tenants.js";
+import { clearResponseCache, getResponseCacheTtlMs, invalidateServerCache, isCacheableTool, withResponseCache } from "./response-cache.js";
+import {
+  clearToolAnnotations,
+  getToolAnnotations,
+  recordServerTools,
+  recordToolAnnotations
+} from "./tool-annotations.js";
+import { checkStructuredOutput, clearOutputSchemas, recordOutputSchema } from "./structured-output.js";
+import {
+  CatalogTool,
+  clearToolCatalog,
+  getToolCatalog,
+  isLazyToolsMode,
+  recordToolCatalog,
+  removeServerFromToolCatalog,
+  searchTools
+} from "./tool-search.js";
+import {
+  clearToolNames,
+  getRegisteredToolName,
+  registerToolNames,
+  RegisteredToolName,
+  removeServerToolNames,
+  resolveToolName
+} from "./tool-naming.js";
 import {
   parsePrefixedToolName as parseAnyPrefixedToolName,
   isValidUuid
@@ -95,15 +159,6 @@ import { SERVER_INSTRUCTIONS } from "./server-instructions.js";
 const require = createRequire(import.meta.url);
 const packageJson = require('../package.json');
 
-// Map to store prefixed tool name -> { originalName, serverUuid }
-const toolToServerMap: Record<string, { originalName: string; serverUuid: string; }> = {};
-
-// Configuration for UUID-based tool prefixing
-// Set PLUGGEDIN_UUID_TOOL_PREFIXING=false to disable UUID prefixing (for backward compatibility)
-// When enabled, tools are returned with format: {server_uuid}__{original_tool_name}
-// When disabled, tools are returned with their original names
-const UUID_TOOL_PREFIXING_ENABLED = process.env.PLUGGEDIN_UUID_TOOL_PREFIXING !== 'false'; // Default to true
-
 /**
  * Creates a UUID-prefixed tool name
  * Format: {server_uuid}__{original_tool_name}
@@ -129,6 +184,9 @@ export function parsePrefixedToolName(toolName: string): { originalName: string;
   };
 }
 
+// Downstream tool as returned by /api/tools
+type ApiTool = Tool & { _serverUuid: string, _serverName?: string };
+
 // Interface for instruction data from API
 interface InstructionData {
   description?: string;
@@ -315,6 +373,37 @@ const proxyCapabilitiesStaticPrompt = {
   arguments: []
 } as const;
 
+/**
+ * Drops the mappings of a downstream server whose lists changed, and has the
+ * App refresh its cached capabilities so clients re-list fresh data
+ *
+ * Shared by the servers of a tenant, so it runs once per change for all of
+ * its sessions (see createListChangedForwarder).
+ */
+const invalidateServerMappings = async (serverUuid: string, kinds: ReadonlySet<ListChangedKind>) => {
+  if (kinds.has('tools')) {
+    removeServerToolNames(serverUuid);
+    clearToolAnnotations(serverUuid);
+    clearOutputSchemas(serverUuid);
+    removeServerFromToolCatalog(serverUuid);
+    invalidateServerCache(serverUuid);
+  }
+  if (kinds.has('prompts')) {
+    Object.keys(instructionToServerMap)
+      .filter(key => (instructionToServerMap[key].serverUuid ?? instructionToServerMap[key]._serverUuid) === serverUuid)
+      .forEach(key => delete instructionToServerMap[key]);
+  }
+
+  const apiKey = getPluggedinMCPApiKey();
+  const baseUrl = getPluggedinMCPApiBaseUrl();
+  if (apiKey && baseUrl && !isManifestMode()) {
+    await axios.post(`${baseUrl}/api/discover/${serverUuid}`, { force_refresh: false }, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      timeout: 30000,
+    });
+  }
+};
+
 export const createServer = async () => {
   // Create rate limiters for different operations
   const toolCallRateLimiter = new RateLimiter(60000, 60); // 60 calls per minute
@@ -327,25 +416,290 @@ export const createServer = async () => {
     },
     {
       capabilities: {
-        prompts: {}, // Enable prompt support capability
-        resources: {},
-        tools: {},
+        prompts: { listChanged: true }, // Enable prompt support capability
+        resources: { listChanged: true, subscribe: true },
+        tools: { listChanged: true },
       },
       instructions: SERVER_INSTRUCTIONS,
     }
   );
 
+  // Forward downstream list_changed notifications once the stale mappings are dropped
+  const stopListChangedForwarding = createListChangedForwarder(server, {
+    onInvalidate: invalidateServerMappings,
+  });
+
+  // Fetch the roots of a client session and tell downstream servers when they change
+  const refreshRoots = async (sessionId: string) => {
+    if (!server.getClientCapabilities()?.roots) {
+      return;
+    }
+    try {
+      const { roots } = await server.listRoots(undefined, { timeout: 10000 });
+      if (setUpstreamRoots(roots, sessionId)) {
+        await notifyRootsChanged(getConnectedSessions().map(session => session.client));
+      }
+    } catch (error) {
+      debugError(`[Roots] Failed to fetch roots from client session ${sessionId}:`, error);
+    }
+  };
+  // Notification handlers get no handler context from the SDK, so a
+  // notification's session is the one of the transport that delivered it; a
+  // server is connected to a single transport (the SDK refuses a second one)
+  // and answers on it, so it is read when the notification is dispatched
+  const getNotifyingSessionId = (extra?: { sessionId?: string }) =>
+    getUpstreamSessionId(extra?.sessionId ?? server.transport?.sessionId);
+  server.oninitialized = () => {
+    void refreshRoots(getNotifyingSessionId());
+  };
+  server.setNotificationHandler(RootsListChangedNotificationSchema, (_notification, extra?: { sessionId?: string }) =>
+    refreshRoots(getNotifyingSessionId(extra))
+  );
+
+  // List every tool of a connected downstream server, following its pagination
+  const listDownstreamTools = async (serverUuid: string, client: Client): Promise<Tool[]> => {
+    const serverTools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await runWithSessionSlot(serverUuid, undefined, () => client.listTools({ cursor }));
+      serverTools.push(...result.tools);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return serverTools;
+  };
+
+  // Offline mode: list tools directly from the servers in the local manifest
+  const listManifestTools = async (): Promise<Tool[]> => {
+    const servers = Object.values(await getMcpServers(true));
+    const { buildServerContextsMap } = await import('./utils/custom-instructions.js');
+    const serverContexts = buildServerContextsMap(servers);
+
+    const results = await Promise.allSettled(servers.map(async (params) => {
+      const session = await getSession(getSessionKey(params.uuid, params), params.uuid, params);
+      if (!session) {
+        throw new Error(`Could not connect to ${params.name || params.uuid}`);
+      }
+      return listDownstreamTools(params.uuid, session.client);
+    }));
+
+    const overrideFor = (params: ServerParameters, tool: Tool) =>
+      getToolOverride(params, tool.name, serverContexts.get(params.uuid)?.constraints);
+    registerToolNames(results.flatMap((result, index) => result.status === 'fulfilled'
+      ? result.value.map(tool => ({
+          originalName: tool.name,
+          serverUuid: servers[index].uuid,
+          serverName: servers[index].name,
+          alias: overrideFor(servers[index], tool)?.name,
+        }))
+      : []), { replace: true });
+
+    const tools: Tool[] = [];
+    const catalogEntries: CatalogTool[] = [];
+    results.forEach((result, index) => {
+      const params = servers[index];
+      if (result.status === 'rejected') {
+        debugError(`[ListTools Handler] Failed to list tools of manifest server ${params.name}:`, result.reason);
+        return;
+      }
+
+      recordServerTools(params.uuid, result.value);
+      const context = serverContexts.get(params.uuid);
+      for (const downstreamTool of result.value) {
+        recordOutputSchema(params.uuid, downstreamTool.name, downstreamTool.outputSchema);
+        const name = getRegisteredToolName(params.uuid, downstreamTool.name) ?? downstreamTool.name;
+        const tool = applyToolOverride(downstreamTool, overrideFor(params, downstreamTool));
+        // Same metadata shape as tools listed through the API
+        const listedTool = context
+          ? {
+              ...tool,
+              name,
+              metadata: {
+                server: params.name || params.uuid,
+                instructions: context.rawInstructions,
+                constraints: context.constraints,
+                formattedContext: context.formattedContext
+              }
+            } as Tool
+          : { ...tool, name };
+        tools.push(listedTool);
+        catalogEntries.push({ tool: listedTool, serverUuid: params.uuid, serverName: params.name });
+      }
+    });
+    recordToolCatalog(catalogEntries, true);
+    return tools;
+  };
+
+  // Custom instructions of the App's servers, parsed and keyed by server UUID
+  const loadServerContexts = async (): Promise<Map<string, ProcessedServerContext>> => {
+    try {
+      const serverParams = await getMcpServers(false);
+      const { buildServerContextsMap } = await import('./utils/custom-instructions.js');
+      return buildServerContextsMap(Object.values(serverParams));
+    } catch (contextError) {
+      // Log error but continue without custom instructions
+      debugError('[ListTools Handler] Failed to fetch server contexts:', contextError);
+      return new Map();
+    }
+  };
+
+  // Name tools from the App API through the registry, in the order of `tools`;
+  // tools without a name or server are left unregistered
+  const registerApiToolNames = (
+    tools: ApiTool[],
+    replace: boolean,
+    serverContexts: Map<string, ProcessedServerContext>
+  ): (RegisteredToolName | undefined)[] => {
+    const valid = tools.filter(tool => tool.name && tool._serverUuid);
+    const registered = registerToolNames(valid.map(tool => {
+      // Older App versions may still return UUID-prefixed names
+      const prefix = `${tool._serverUuid}__`;
+      const originalName = tool.name.startsWith(prefix) ? tool.name.slice(prefix.length) : tool.name;
+      const override = getToolOverride(
+        { uuid: tool._serverUuid, name: tool._serverName },
+        originalName,
+        serverContexts.get(tool._serverUuid)?.constraints
+      );
+      return {
+        originalName,
+        serverUuid: tool._serverUuid,
+        serverName: tool._serverName,
+        alias: override?.name,
+      };
+    }), { replace });
+    const byTool = new Map(valid.map((tool, index) => [tool, registered[index]]));
+    return tools.map(tool => byTool.get(tool));
+  };
+
+  // Fetch one page of downstream tools from the App API and map them to their servers
+  const fetchApiToolsPage: UpstreamPageFetcher<Tool> = async (upstreamCursor, limit) => {
+    const apiKey = getPluggedinMCPApiKey();
+    const baseUrl = getPluggedinMCPApiBaseUrl();
+
+    // Build API URL with pagination parameters; tools are named by the registry, not the API
+    const apiUrl = new URL(`${baseUrl}/api/tools`);
+    if (limit > 0) {
+      apiUrl.searchParams.set('limit', String(limit));
+    }
+    if (upstreamCursor) {
+      apiUrl.searchParams.set('cursor', upstreamCursor);
+    }
+
+    // Fetch the list of tools (which include original names and server info)
+    // The API returns an object like { tools: [], message?: "...", nextCursor?: "..." }
+    const response = await axios.get<{ tools: ApiTool[], message?: string, nextCursor?: string }>(apiUrl.toString(), {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+      },
+      timeout: 10000,
+    });
+
+    // Access the 'tools' array from the response payload
+    const upstreamPage = readUpstreamPage<ApiTool>(response.data, 'tools');
+    const fetchedTools = upstreamPage.items;
+
+    // Fetch server configurations with custom instructions
+    const serverContexts = await loadServerContexts();
+
+    // Name the tools; the first page replaces previous names, later API pages add to them
+    const names = registerApiToolNames(fetchedTools, !upstreamCursor, serverContexts);
+    fetchedTools.forEach((tool, index) => {
+      const registered = names[index];
+      if (registered) {
+        recordToolAnnotations(registered.serverUuid, registered.originalName, tool.annotations);
+        recordOutputSchema(registered.serverUuid, registered.originalName, tool.outputSchema);
+      } else {
+         debugError(`[ListTools Handler] Missing tool name or UUID for tool: ${tool.name}`);
+      }
+    });
+
+    // Prepare the response payload with overrides applied and custom instructions and constraints in metadata
+    const toolsForClient: Tool[] = fetchedTools.map(({ _serverUuid, _serverName, ...tool }, index) => {
+      const registered = names[index];
+      const rest = registered
+        ? applyToolOverride(
+            { ...tool, name: registered.name },
+            getToolOverride({ uuid: registered.serverUuid, name: _serverName }, registered.originalName, serverContexts.get(registered.serverUuid)?.constraints)
+          )
+        : tool;
+      // Add custom instructions and constraints to tool metadata if available
+      if (_serverUuid) {
+        const context = serverContexts.get(_serverUuid);
+        if (context) {
+          const toolWithMetadata: any = {
+            ...rest,
+            metadata: {
+              server: _serverName || _serverUuid,
+              instructions: context.rawInstructions,
+              constraints: context.constraints,
+              formattedContext: context.formattedContext
+            }
+          };
+          return toolWithMetadata;
+        }
+      }
+      // Remove internal fields
+      return rest;
+    });
+
+    recordToolCatalog(toolsForClient
+      .map((tool, index) => ({ tool, serverUuid: fetchedTools[index]._serverUuid, serverName: fetchedTools[index]._serverName }))
+      .filter(entry => entry.serverUuid), !upstreamCursor);
+
+    return { ...upstreamPage, items: toolsForClient };
+  };
+
+  // Load every downstream tool into the search catalog, following the API's pagination
+  const loadToolCatalog = async (): Promise<void> => {
+    if (isManifestMode()) {
+      await listManifestTools();
+      return;
+    }
+    if (!getPluggedinMCPApiKey() || !getPluggedinMCPApiBaseUrl()) {
+      return;
+    }
+    let upstreamCursor: string | undefined;
+    do {
+      const page = await fetchApiToolsPage(upstreamCursor, 0);
+      upstreamCursor = page.paginated ? page.nextCursor : undefined;
+    } while (upstreamCursor);
+  };
+
+  // Downstream tools listed in lazy mode, once pluggedin_find_tools has returned them
+  const lazyExposedTools = new Set<string>();
+  const getLazyExposedTools = (): Tool[] => getToolCatalog()
+    .filter(entry => lazyExposedTools.has(entry.tool.name))
+    .map(entry => entry.tool);
+
   // List Tools Handler - Fetches tools from Pluggedin App API and adds static tool
   server.setRequestHandler(ListToolsRequestSchema, async (request) => {
      const apiKey = getPluggedinMCPApiKey();
      const baseUrl = getPluggedinMCPApiBaseUrl();
+     const cursor = request.params?.cursor;
+
+     // Offline mode: only the manifest servers' own tools and the tool finder,
+     // no Plugged.in static tools
+     if (isManifestMode()) {
+       const page = await paginateList<Tool>('tools', cursor, async () => {
+         const manifestTools = await listManifestTools();
+         return {
+           items: [
+             findToolsStaticTool,
+             ...getCompositeTools().map(toListedTool),
+             ...(isLazyToolsMode() ? getLazyExposedTools() : manifestTools)
+           ],
+           paginated: false,
+         };
+       });
+       return { tools: page.items, nextCursor: page.nextCursor };
+     }
      
      // If no API key, return all static tools (for Smithery compatibility)
      // This path should be fast and not rate limited for tool discovery
      if (!apiKey || !baseUrl) {
        // Don't log to console for STDIO transport as it interferes with protocol
-       return {
-         tools: [
+       const page = await paginateList<Tool>('tools', cursor, async () => ({
+         paginated: false,
+         items: [
            setupStaticTool,
            discoverToolsStaticTool,
            askKnowledgeBaseStaticTool,
@@ -370,8 +724,8 @@ export const createServer = async () => {
            memorySearchStaticTool,
            memoryDetailsStaticTool
          ],
-         nextCursor: undefined
-       };
+       }));
+       return { tools: page.items, nextCursor: page.nextCursor };
      }
      
      // Rate limit check only for authenticated API calls
@@ -379,127 +733,51 @@ export const createServer = async () => {
        throw new Error("Rate limit exceeded. Please try again later.");
      }
      
-     let fetchedTools: (Tool & { _serverUuid: string, _serverName?: string })[] = [];
-     
      try {
-
-       // Build API URL with prefixing parameter
-       const apiUrl = new URL(`${baseUrl}/api/tools`);
-       if (UUID_TOOL_PREFIXING_ENABLED) {
-         apiUrl.searchParams.set('prefix_tools', 'true');
-       }
-
-       // Fetch the list of tools (which include original names and server info)
-       // The API returns an object like { tools: [], message?: "..." }
-       const response = await axios.get<{ tools: (Tool & { _serverUuid: string, _serverName?: string })[], message?: string }>(apiUrl.toString(), {
-         headers: {
-           Authorization: `Bearer ${apiKey}`,
-         },
-         timeout: 10000,
-       });
-
-       // Access the 'tools' array from the response payload
-       fetchedTools = response.data?.tools || [];
-
-       // Clear previous mapping and populate with new data
-       Object.keys(toolToServerMap).forEach(key => delete toolToServerMap[key]); // Clear map
-
-       // Create mappings for each tool to its server
-       fetchedTools.forEach(tool => {
-         if (tool.name && tool._serverUuid) {
-           // Store mapping with the tool name as returned by API (may be prefixed or not)
-           toolToServerMap[tool.name] = {
-             originalName: tool.name, // Will be updated if prefixed
-             serverUuid: tool._serverUuid
-           };
-
-           // If UUID prefixing is enabled and the tool name is not already prefixed,
-           // we need to handle backward compatibility
-           if (UUID_TOOL_PREFIXING_ENABLED) {
-             // Use shared helper for parsing prefixed tool names
-             const parsed = parseAnyPrefixedToolName(tool.name);
-             if (parsed) {
-               // Tool name is prefixed, extract original name
-               toolToServerMap[tool.name].originalName = parsed.originalName;
-               debugLog(`[ListTools Handler] Tool ${tool.name} is ${parsed.prefixType}-prefixed, original: ${parsed.originalName}`);
-             } else {
-               // Tool name is not prefixed, this might be for backward compatibility
-               // In this case, the originalName should remain as tool.name
-               debugLog(`[ListTools Handler] Tool ${tool.name} is not prefixed, using as-is for backward compatibility`);
-             }
-           }
-         } else {
-            debugError(`[ListTools Handler] Missing tool name or UUID for tool: ${tool.name}`);
+       const page = await paginateList<Tool>('tools', cursor, async (upstreamCursor, limit) => {
+         if (isLazyToolsMode()) {
+           // Lazy mode lists the static tools and the tools found so far in one snapshot
+           await loadToolCatalog();
+           return { items: getLazyExposedTools(), paginated: false };
          }
-       });
-       
-       // Fetch server configurations with custom instructions
-       let serverContexts = new Map();
-       try {
-         const serverParams = await getMcpServers(false);
-         
-         // Build server contexts with parsed constraints
-         const { buildServerContextsMap } = await import('./utils/custom-instructions.js');
-         serverContexts = buildServerContextsMap(Object.values(serverParams));
-       } catch (contextError) {
-         // Log error but continue without custom instructions
-         debugError('[ListTools Handler] Failed to fetch server contexts:', contextError);
-       }
-       
-       // Prepare the response payload with custom instructions and constraints in metadata
-       const toolsForClient: Tool[] = fetchedTools.map(({ _serverUuid, _serverName, ...rest }) => {
-         // Add custom instructions and constraints to tool metadata if available
-         if (_serverUuid) {
-           const context = serverContexts.get(_serverUuid);
-           if (context) {
-             const toolWithMetadata: any = {
-               ...rest,
-               metadata: {
-                 server: _serverName || _serverUuid,
-                 instructions: context.rawInstructions,
-                 constraints: context.constraints,
-                 formattedContext: context.formattedContext
-               }
-             };
-             return toolWithMetadata;
-           }
-         }
-         // Remove internal fields
-         return rest;
+         return fetchApiToolsPage(upstreamCursor, limit);
+       }, {
+         // The static tools lead the list
+         leadingItems: [
+           discoverToolsStaticTool,
+           findToolsStaticTool,
+           askKnowledgeBaseStaticTool,
+           createDocumentStaticTool,
+           listDocumentsStaticTool,
+           searchDocumentsStaticTool,
+           getDocumentStaticTool,
+           updateDocumentStaticTool,
+           sendNotificationStaticTool,
+           listNotificationsStaticTool,
+           markNotificationDoneStaticTool,
+           deleteNotificationStaticTool,
+           clipboardSetStaticTool,
+           clipboardGetStaticTool,
+           clipboardDeleteStaticTool,
+           clipboardListStaticTool,
+           clipboardPushStaticTool,
+           clipboardPopStaticTool,
+           memorySessionStartStaticTool,
+           memorySessionEndStaticTool,
+           memoryObserveStaticTool,
+           memorySearchStaticTool,
+           memoryDetailsStaticTool,
+           ...getCompositeTools().map(toListedTool),
+         ],
        });
 
-       // Note: Pagination not handled here, assumes API returns all tools
-
-       // Always include the static tools
-       const allToolsForClient = [
-         discoverToolsStaticTool,
-         askKnowledgeBaseStaticTool,
-         createDocumentStaticTool,
-         listDocumentsStaticTool,
-         searchDocumentsStaticTool,
-         getDocumentStaticTool,
-         updateDocumentStaticTool,
-         sendNotificationStaticTool,
-         listNotificationsStaticTool,
-         markNotificationDoneStaticTool,
-         deleteNotificationStaticTool,
-         clipboardSetStaticTool,
-         clipboardGetStaticTool,
-         clipboardDeleteStaticTool,
-         clipboardListStaticTool,
-         clipboardPushStaticTool,
-         clipboardPopStaticTool,
-         memorySessionStartStaticTool,
-         memorySessionEndStaticTool,
-         memoryObserveStaticTool,
-         memorySearchStaticTool,
-         memoryDetailsStaticTool,
-         ...toolsForClient
-       ];
-
-       return { tools: allToolsForClient, nextCursor: undefined };
+       return { tools: page.items, nextCursor: page.nextCursor };
 
      } catch (error: unknown) {
+       // Cursor errors are reported to the client as-is
+       if (error instanceof McpError) {
+         throw error;
+       }
        // Log API fetch error but still return the static tool
        let sanitizedError = "Failed to list tools";
        if (axios.isAxiosError(error) && error.response?.status) {
@@ -559,8 +837,218 @@ export const createServer = async () => {
     };
   });
 
+  // Call a downstream tool by its original name, applying the tool's overrides, argument
+  // policies, rate limits, constraints and approval before the call is forwarded
+  const callDownstreamTool = async (
+    serverUuid: string,
+    originalName: string,
+    args: Record<string, unknown> | undefined,
+    meta: RequestMeta | undefined,
+    extra: UpstreamRequestExtra
+  ): Promise<ToolExecutionResult> => {
+    // Get the downstream server configuration
+    const serverParams = await getMcpServers(true);
+    
+    const params = serverParams[serverUuid];
+    if (!params) {
+        throw new Error(`Configuration not found for server UUID: ${serverUuid} associated with tool ${originalName}`);
+    }
+
+    // Constraints come from the server's own custom instructions
+    let serverContext: any = undefined;
+    const instructions = extractCustomInstructions(params);
+    const context = instructions
+        ? processInstructions(params.name || serverUuid, serverUuid, instructions)
+        : null;
+    // Defaults and pinned values from the tool's overrides are part of the call from here on
+    const toolArgs = applyArgumentOverrides(
+        args,
+        getToolOverride({ uuid: serverUuid, name: params.name }, originalName, context?.constraints)
+    );
+    // Check the arguments before anything reaches the downstream server
+    const argumentCheck = checkArgumentPolicies(
+        { uuid: serverUuid, name: params.name },
+        originalName,
+        toolArgs,
+        context?.constraints
+    );
+    if (!argumentCheck.valid) {
+        throw new Error(argumentCheck.reason || 'Tool execution blocked by argument policy');
+    }
+
+    const sessionKey = getSessionKey(serverUuid, params);
+    const session = await getSession(sessionKey, serverUuid, params);
+
+    if (!session) {
+        throw new Error(`Session not found for server UUID: ${serverUuid}`);
+    }
+    let client = session.client;
+
+    // The annotations from the server's own tools/list tell reads from writes
+    const constraints = context?.constraints ?? {};
+    const approvalScope = getApprovalScope(context?.constraints);
+    const cacheTtlMs = getResponseCacheTtlMs(context?.constraints);
+    const annotations = needsToolClassification(constraints) || approvalScope || cacheTtlMs > 0
+        ? await getToolAnnotations(serverUuid, originalName, () => listDownstreamTools(serverUuid, session.client))
+        : undefined;
+
+    if (context) {
+        // Check if the tool violates any constraints
+        const constraintMap = new Map([[serverUuid, context.constraints]]);
+        const validation = validateToolAgainstConstraints(originalName, serverUuid, constraintMap, annotations);
+        if (!validation.valid) {
+            throw new Error(validation.reason || 'Tool execution blocked by server constraints');
+        }
+
+        // Add context to metadata for the downstream server
+        serverContext = {
+            instructions: context.formattedContext,
+            constraints: Object.keys(context.constraints).length > 0 ? context.constraints : undefined,
+            isReadOnly: context.constraints.readonly
+        };
+    }
+
+    // Hold destructive calls until a person approves them
+    if (approvalScope) {
+        const classification = classifyTool(originalName, constraints, annotations);
+        if (needsApproval(approvalScope, classification)) {
+            // The wait may outlast the idle timeout, so the session is kept
+            // open, and fetched again in case it was lost in the meantime
+            const releaseSession = retainServerSession(serverUuid);
+            try {
+                await requireApproval(
+                    { serverUuid, serverName: params.name || serverUuid, toolName: originalName, args: toolArgs, classification },
+                    {
+                        elicit: server.getClientCapabilities()?.elicitation
+                            ? (elicitParams, options) => extra.sendRequest(
+                                { method: "elicitation/create", params: elicitParams },
+                                ElicitResultSchema,
+                                options
+                              )
+                            : undefined,
+                        signal: extra.signal,
+                    }
+                );
+            } finally {
+                releaseSession();
+            }
+            const approvedSession = await getSession(sessionKey, serverUuid, params);
+            if (!approvedSession) {
+                throw new Error(`Session not found for server UUID: ${serverUuid}`);
+            }
+            client = approvedSession.client;
+        }
+    }
+
+    if (context) {
+        // Only calls that passed every check use up rate-limit tokens, so
+        // rejected calls cannot starve the allowed ones
+        enforceRateLimit(serverUuid, params.name || serverUuid, originalName, context.constraints);
+    }
+
+    // Proxy the call to the downstream server using the original tool name
+    const timer = createExecutionTimer();
+    // Track the call so a client cancellation aborts the downstream request
+    const inFlight = trackDownstreamRequest(extra, serverUuid, "tools/call", server.getClientCapabilities());
+    
+    try {
+        // Include server context in metadata if available
+        const enhancedMeta = serverContext 
+            ? { ...meta, serverContext } 
+            : meta;
+        
+        // Relay downstream progress notifications back to the client; the call
+        // waits for a free slot if the server is at its concurrency limit. Read-only
+        // results may come from the cache, other calls invalidate the server's cache
+        const result = await withResponseCache(
+            {
+                serverUuid,
+                toolName: originalName,
+                args: toolArgs,
+                ttlMs: cacheTtlMs,
+                readOnly: isCacheableTool(classifyTool(originalName, constraints, annotations)),
+                meta,
+            },
+            () => runWithSessionSlot(serverUuid, inFlight.signal, () => client.request(
+                { method: "tools/call", params: { name: originalName, arguments: toolArgs, _meta: enhancedMeta } },
+                 CompatibilityCallToolResultSchema,
+                 { ...createProgressRelay(meta, extra), signal: inFlight.signal }
+            )) as Promise<ToolExecutionResult>
+        );
+
+        // Log successful tool call
+        logMcpActivity({
+            action: 'tool_call',
+            serverName: params.name || serverUuid,
+            serverUuid,
+            itemName: originalName,
+            success: true,
+            executionTime: timer.stop(),
+        }).catch(() => {}); // Ignore notification errors
+
+        // Return the result directly (structuredContent included); strict output
+        // validation may replace it
+        return checkStructuredOutput(serverUuid, originalName, result);
+    } catch (toolError) {
+        // Log failed tool call
+        logMcpActivity({
+            action: 'tool_call',
+            serverName: params.name || serverUuid,
+            serverUuid,
+            itemName: originalName,
+            success: false,
+            errorMessage: toolError instanceof Error ? toolError.message : String(toolError),
+            executionTime: timer.stop(),
+        }).catch(() => {}); // Ignore notification errors
+        
+        // Re-throw the original error
+        throw toolError;
+    } finally {
+        inFlight.release();
+    }
+  };
+
+  // Run a composite tool: steps with a server are downstream calls with the usual
+  // checks, steps without one are Plugged.in static tools
+  const callCompositeTool = async (
+    tool: CompositeTool,
+    args: Record<string, unknown> | undefined,
+    meta: RequestMeta | undefined,
+    extra: UpstreamRequestExtra
+  ): Promise<ToolExecutionResult> => {
+    // The client gets one progress notification per step instead of the steps' own progress
+    const { progressToken, ...stepMeta } = meta ?? {};
+    const reportStep = progressToken === undefined
+      ? undefined
+      : (index: number) => extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: index, total: tool.steps.length, message: `Running ${tool.steps[index].tool}` },
+        });
+
+    return runCompositeTool(tool, args, async (step, stepArgs) => {
+      if (!step.server) {
+        if (isManifestMode()) {
+          throw new Error(`${step.tool} is not available when servers are loaded from a local manifest`);
+        }
+        const result = await new StaticToolHandlers(instructionToServerMap).handleStaticTool(step.tool, stepArgs);
+        if (!result) {
+          throw new Error(`Unknown Plugged.in tool: ${step.tool}`);
+        }
+        return result;
+      }
+
+      const lowerServer = step.server.toLowerCase();
+      const [serverUuid] = Object.entries(await getMcpServers(true))
+        .find(([uuid, params]) => uuid === step.server || params.name?.toLowerCase() === lowerServer) ?? [];
+      if (!serverUuid) {
+        throw new Error(`Server not found: ${step.server}`);
+      }
+      return callDownstreamTool(serverUuid, step.tool, stepArgs, stepMeta, extra);
+    }, reportStep);
+  };
+
   // Call Tool Handler - Routes tool calls to the appropriate downstream server
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<ToolExecutionResult> => {
     const { name: requestedToolName, arguments: args } = request.params;
     const meta = request.params._meta;
 
@@ -580,6 +1068,65 @@ export const createServer = async () => {
     }
 
     try {
+        // The Plugged.in static tools need the API, which offline mode never calls
+        if (isManifestMode() && requestedToolName !== findToolsStaticTool.name &&
+            allStaticTools.some(tool => tool.name === requestedToolName)) {
+            throw new Error(`${requestedToolName} is not available when servers are loaded from a local manifest`);
+        }
+
+        // Search the downstream tools; in lazy mode the matches are listed from now on
+        if (requestedToolName === findToolsStaticTool.name) {
+            const { query, limit, server: serverFilter } = FindToolsInputSchema.parse(args ?? {});
+            if (getToolCatalog().length === 0) {
+                await loadToolCatalog();
+            }
+
+            const lowerServerFilter = serverFilter?.toLowerCase();
+            const candidates = getToolCatalog().filter(entry => !lowerServerFilter ||
+                entry.serverUuid === serverFilter || entry.serverName?.toLowerCase() === lowerServerFilter);
+            const matches = searchTools(candidates, query, limit);
+
+            const newlyExposed = isLazyToolsMode()
+                ? matches.filter(match => !lazyExposedTools.has(match.tool.name))
+                : [];
+            if (newlyExposed.length > 0) {
+                newlyExposed.forEach(match => lazyExposedTools.add(match.tool.name));
+                try {
+                    await server.sendToolListChanged();
+                } catch (notifyError) {
+                    debugError("[Find Tools] Failed to notify client of tool list change:", notifyError);
+                }
+            }
+
+            let responseText = matches.length === 0
+                ? `No tools found for "${query}".`
+                : `Found ${matches.length} tool(s) for "${query}":\n\n`;
+            matches.forEach((match, index) => {
+                const description = match.tool.description ?? '';
+                responseText += `${index + 1}. ${match.tool.name} (${match.serverName || match.serverUuid}, score ${match.score})\n`;
+                if (description) {
+                    responseText += `   ${description.length > 200 ? `${description.slice(0, 200)}...` : description}\n`;
+                }
+            });
+            if (newlyExposed.length > 0) {
+                responseText += `\nThese tools have been added to the tool list and can be called directly.`;
+            }
+
+            return {
+                content: [{ type: "text", text: responseText }],
+                structuredContent: {
+                    total: matches.length,
+                    tools: matches.map(match => ({
+                        name: match.tool.name,
+                        server: match.serverName || match.serverUuid,
+                        description: match.tool.description,
+                        score: match.score,
+                    })),
+                },
+                isError: false,
+            } as ToolExecutionResult;
+        }
+
         // Handle static discovery tool first
         if (requestedToolName === discoverToolsStaticTool.name) {
             const validatedArgs = DiscoverToolsInputSchema.parse(args ?? {}); // Validate args
@@ -663,9 +1210,11 @@ export const createServer = async () => {
                         // Add dynamic tools section (from MCP servers)
                         if (toolsCount > 0) {
                             const tools = toolsResponse.data?.tools || toolsResponse.data || [];
+                            // Show the names tools are listed and called under
+                            const names = registerApiToolNames(tools, false, await loadServerContexts());
                             dataContent += `## ⚡ Dynamic MCP Tools (${toolsCount}) - From Connected Servers:\n`;
                             tools.forEach((tool: Tool, index: number) => {
-                                dataContent += `${index + 1}. **${tool.name}**`;
+                                dataContent += `${index + 1}. **${names[index]?.name ?? tool.name}**`;
                                 if (tool.description) {
                                     dataContent += ` - ${tool.description}`;
                                 }
@@ -872,9 +1421,11 @@ export const createServer = async () => {
                             // Add dynamic tools section (from MCP servers)
                             if (toolsCount > 0) {
                                 const tools = toolsResponse.data?.tools || toolsResponse.data || [];
+                                // Show the names tools are listed and called under
+                                const names = registerApiToolNames(tools, false, await loadServerContexts());
                                 forceRefreshContent += `## ⚡ Dynamic MCP Tools (${toolsCount}) - From Connected Servers:\n`;
                                 tools.forEach((tool: Tool, index: number) => {
-                                    forceRefreshContent += `${index + 1}. **${tool.name}**`;
+                                    forceRefreshContent += `${index + 1}. **${names[index]?.name ?? tool.name}**`;
                                     if (tool.description) {
                                         forceRefreshContent += ` - ${tool.description}`;
                                     }
@@ -1429,46 +1980,31 @@ export const createServer = async () => {
             }
         }
 
+        // Composite tools chain downstream calls, each checked like a direct call
+        const compositeTool = getCompositeTools().find(tool => tool.name === requestedToolName);
+        if (compositeTool) {
+            return await callCompositeTool(compositeTool, args, meta, extra);
+        }
+
         // Handle static tools (documents, clipboard, memory) using StaticToolHandlers
-        const staticHandlers = new StaticToolHandlers(toolToServerMap, instructionToServerMap);
+        const staticHandlers = new StaticToolHandlers(instructionToServerMap);
         const staticResult = await staticHandlers.handleStaticTool(requestedToolName, args);
         if (staticResult) {
             return staticResult;
         }
 
-        // Look up the downstream tool in our map
-        let toolInfo = toolToServerMap[requestedToolName];
-        let originalName: string;
-        let serverUuid: string;
-
-        if (toolInfo) {
-            // Tool found directly in map
-            originalName = toolInfo.originalName;
-            serverUuid = toolInfo.serverUuid;
-        } else {
-            // Tool not found directly, try parsing as a prefixed name for backward compatibility
-            const parsed = parseAnyPrefixedToolName(requestedToolName);
-            if (parsed) {
-                // This is a prefixed tool name that wasn't in our map
-                // Try to find the tool by its original name and server identifier
-                const originalToolInfo = Object.values(toolToServerMap).find(
-                    info => info.originalName === parsed.originalName && (
-                        parsed.prefixType === 'slug' || 
-                        (parsed.prefixType === 'uuid' && info.serverUuid === parsed.serverIdentifier)
-                    )
-                );
-
-                if (originalToolInfo) {
-                    originalName = parsed.originalName;
-                    serverUuid = originalToolInfo.serverUuid;
-                    debugLog(`[CallTool Handler] Found ${parsed.prefixType}-prefixed tool: ${requestedToolName} -> ${originalName} on server ${serverUuid}`);
-                } else {
-                    throw new Error(`Tool not found: ${requestedToolName} (parsed as server ${parsed.prefixType} ${parsed.serverIdentifier}, tool ${parsed.originalName})`);
-                }
-            } else {
-                // Not a prefixed name and not in map
-                throw new Error(`Tool not found: ${requestedToolName}`);
-            }
+        // Resolve the downstream tool through the naming registry
+        if (!resolveToolName(requestedToolName) && isManifestMode()) {
+            // The client may call tools without listing them first
+            await listManifestTools();
+        }
+        const toolInfo = resolveToolName(requestedToolName);
+        if (!toolInfo) {
+            throw new Error(`Tool not found: ${requestedToolName}`);
+        }
+        const { originalName, serverUuid } = toolInfo;
+        if (toolInfo.name !== requestedToolName) {
+            debugLog(`[CallTool Handler] Resolved ${requestedToolName} to ${toolInfo.name} (${originalName} on server ${serverUuid})`);
         }
 
         // Basic server UUID validation
@@ -1480,88 +2016,7 @@ export const createServer = async () => {
             throw new Error("Invalid server UUID format");
         }
 
-        // Get the downstream server session
-        const serverParams = await getMcpServers(true);
-        
-        const params = serverParams[serverUuid];
-        if (!params) {
-            throw new Error(`Configuration not found for server UUID: ${serverUuid} associated with tool ${requestedToolName}`);
-        }
-        const sessionKey = getSessionKey(serverUuid, params);
-        const session = await getSession(sessionKey, serverUuid, params);
-
-        if (!session) {
-            throw new Error(`Session not found for server UUID: ${serverUuid}`);
-        }
-
-        // Get server context from static handlers if available
-        let serverContext: any = undefined;
-        if (staticHandlers) {
-            // Use constraint map for efficient validation
-            const constraints = staticHandlers.getConstraints(serverUuid);
-            if (constraints) {
-                // Check if the tool violates any constraints
-                const { validateToolAgainstConstraints } = await import('./utils/custom-instructions.js');
-                const constraintMap = new Map([[serverUuid, constraints]]);
-                const validation = validateToolAgainstConstraints(originalName, serverUuid, constraintMap);
-                if (!validation.valid) {
-                    throw new Error(validation.reason || 'Tool execution blocked by server constraints');
-                }
-            }
-            
-            // Get the full context for metadata
-            const context = staticHandlers.getServerContextByUuid(serverUuid);
-            if (context) {
-                // Add context to metadata for the downstream server
-                serverContext = {
-                    instructions: context.formattedContext,
-                    constraints: Object.keys(context.constraints).length > 0 ? context.constraints : undefined,
-                    isReadOnly: context.constraints.readonly
-                };
-            }
-        }
-        
-        // Proxy the call to the downstream server using the original tool name
-        const timer = createExecutionTimer();
-        
-        try {
-            // Include server context in metadata if available
-            const enhancedMeta = serverContext 
-                ? { ...meta, serverContext } 
-                : meta;
-            
-            const result = await session.client.request(
-                { method: "tools/call", params: { name: originalName, arguments: args, _meta: enhancedMeta } },
-                 CompatibilityCallToolResultSchema
-            );
-
-            // Log successful tool call
-            logMcpActivity({
-                action: 'tool_call',
-                serverName: params.name || serverUuid,
-                serverUuid,
-                itemName: originalName,
-                success: true,
-                executionTime: timer.stop(),
-            }).catch(() => {}); // Ignore notification errors
-
-            // Return the result directly, casting to any to satisfy the handler's complex return type
-            return result as any;
-        } catch (toolError) {
-            // Log failed tool call
-            logMcpActivity({
-                action: 'tool_call',
-                serverName: params.name || serverUuid,
-                serverUuid,
-                itemName: originalName,
-                success: false,
-                errorMessage: toolError instanceof Error ? toolError.message : String(toolError),
-                executionTime: timer.stop(),
-            }).catch(() => {}); // Ignore notification errors
-            
-            // Re-throw the original error
-            throw toolError;
-        }
+        return await callDownstreamTool(serverUuid, originalName, args, meta, extra);
 
     } catch (error) {
       const sanitizedError = sanitizeErrorMessage(error);
@@ -1579,7 +2034,7 @@ export const createServer = async () => {
   });
 
   // Get Prompt Handler - Handles static prompts, custom instructions, and standard prompts
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     const meta = request.params._meta;
     const instructionPrefix = 'pluggedin_instruction_';
@@ -2059,12 +2514,14 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
           }
           // Use the refreshed session
           const timer = createExecutionTimer();
+          const inFlight = trackDownstreamRequest(extra, serverParams.uuid, "prompts/get", server.getClientCapabilities());
           
           try {
-            const result = await refreshedSession.client.request(
+            const result = await runWithSessionSlot(serverParams.uuid, inFlight.signal, () => refreshedSession.client.request(
               { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
-              GetPromptResultSchema
-            );
+              GetPromptResultSchema,
+              { signal: inFlight.signal }
+            ));
             
             // Log successful prompt retrieval
             logMcpActivity({
@@ -2090,16 +2547,20 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
             }).catch(() => {}); // Ignore notification errors
             
             throw promptError;
+          } finally {
+            inFlight.release();
           }
         } else {
           // Use the existing session
           const timer = createExecutionTimer();
+          const inFlight = trackDownstreamRequest(extra, serverParams.uuid, "prompts/get", server.getClientCapabilities());
           
           try {
-            const result = await session.client.request(
+            const result = await runWithSessionSlot(serverParams.uuid, inFlight.signal, () => session.client.request(
               { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
-              GetPromptResultSchema
-            );
+              GetPromptResultSchema,
+              { signal: inFlight.signal }
+            ));
             
             // Log successful prompt retrieval
             logMcpActivity({
@@ -2125,6 +2586,8 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
             }).catch(() => {}); // Ignore notification errors
             
             throw promptError;
+          } finally {
+            inFlight.release();
           }
         }
       }
@@ -2144,35 +2607,39 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   const listPromptsHandler = withErrorHandling(async (request: any) => {
     const apiKey = getPluggedinMCPApiKey();
     const baseUrl = getPluggedinMCPApiBaseUrl();
+    const cursor: string | undefined = request.params?.cursor;
+
+    // Prompts are resolved through the API, so offline mode has none
+    if (isManifestMode()) {
+      return { prompts: [], nextCursor: undefined };
+    }
 
     // If no API key, return only static prompts (for MCP best practices)
     if (!apiKey || !baseUrl) {
-      return {
-        prompts: [proxyCapabilitiesStaticPrompt],
-        nextCursor: undefined
-      };
+      const page = await paginateList('prompts', cursor, async () => ({
+        items: [proxyCapabilitiesStaticPrompt],
+        paginated: false,
+      }));
+      return { prompts: page.items, nextCursor: page.nextCursor };
     }
 
-    const promptsApiUrl = `${baseUrl}/api/prompts`;
-
-    // Only fetch standard prompts - custom instructions are now auto-injected via tool metadata
-    const promptsResponse = await axios.get<ListPromptsResult["prompts"]>(promptsApiUrl, {
-      headers: { Authorization: `Bearer ${apiKey}` },
-      timeout: 10000,
+    const page = await paginateList<ListPromptsResult["prompts"][number] | typeof proxyCapabilitiesStaticPrompt>('prompts', cursor, async (upstreamCursor, limit) => {
+      // Only fetch standard prompts - custom instructions are now auto-injected via tool metadata
+      const promptsResponse = await axios.get<ListPromptsResult["prompts"] | ListPromptsResult>(`${baseUrl}/api/prompts`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        params: { limit: limit || undefined, cursor: upstreamCursor },
+        timeout: 10000,
+      });
+
+      return readUpstreamPage<ListPromptsResult["prompts"][number]>(promptsResponse.data, 'prompts');
+    }, {
+      // Only return standard prompts and static proxy capabilities
+      // Custom instructions are now auto-injected via tool metadata
+      leadingItems: [proxyCapabilitiesStaticPrompt],
     });
 
-    const standardPrompts = promptsResponse.data || [];
-
-    // Only return standard prompts and static proxy capabilities
-    // Custom instructions are now auto-injected via tool metadata
-    const allPrompts = [
-        proxyCapabilitiesStaticPrompt, // Add static proxy capabilities prompt
-        ...standardPrompts
-    ];
-
-    // Wrap the combined array in the expected structure for the MCP response
-    // Note: Pagination not handled here
-    return { prompts: allPrompts, nextCursor: undefined };
+    // Wrap the page in the expected structure for the MCP response
+    return { prompts: page.items, nextCursor: page.nextCursor };
   }, {
     action: 'list_prompts'
   });
@@ -2187,7 +2654,8 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
     const baseUrl = getPluggedinMCPApiBaseUrl();
 
     // If no API key, return empty resources (for MCP best practices)
-    if (!apiKey || !baseUrl) {
+    // Resources are resolved through the API, so offline mode has none either
+    if (!apiKey || !baseUrl || isManifestMode()) {
       return {
         resources: [],
         nextCursor: undefined
@@ -2196,19 +2664,20 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
     const apiUrl = `${baseUrl}/api/resources`; // Assuming this is the correct endpoint
 
-    const response = await axios.get<ListResourcesResult["resources"]>(apiUrl, {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-      timeout: 10000, // Add a timeout for the API call (e.g., 10 seconds)
-    });
+    const page = await paginateList<ListResourcesResult["resources"][number]>('resources', request.params?.cursor, async (upstreamCursor, limit) => {
+      const response = await axios.get<ListResourcesResult["resources"] | ListResourcesResult>(apiUrl, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        params: { limit: limit || undefined, cursor: upstreamCursor },
+        timeout: 10000, // Add a timeout for the API call (e.g., 10 seconds)
+      });
 
-    // The API currently returns just the array, wrap it in the expected structure
-    const resources = response.data || [];
+      // The API returns either the full array or a page with nextCursor
+      return readUpstreamPage<ListResourcesResult["resources"][number]>(response.data, 'resources');
+    });
 
-    // Note: Pagination across servers via the API is not implemented here.
-    // The API would need to support cursor-based pagination for this to work fully.
-    return { resources: resources, nextCursor: undefined };
+    return { resources: page.items, nextCursor: page.nextCursor };
   }, {
     action: 'list_resources'
   });
@@ -2220,7 +2689,7 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   // It needs to be refactored to proxy the read request to the correct downstream server,
   // potentially by calling a new API endpoint on pluggedin-app or by re-establishing a session.
   // Refactored Read Resource Handler - Uses API to resolve URI to server details
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
     const { uri } = request.params;
     const meta = request.params._meta; // Pass meta along
 
@@ -2260,12 +2729,14 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
             }
              // Use the refreshed session
              const timer = createExecutionTimer();
+             const inFlight = trackDownstreamRequest(extra, serverParams.uuid, "resources/read", server.getClientCapabilities());
              
              try {
-               const result = await refreshedSession.client.request(
+               const result = await runWithSessionSlot(serverParams.uuid, inFlight.signal, () => refreshedSession.client.request(
                    { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
-                   ReadResourceResultSchema
-               );
+                   ReadResourceResultSchema,
+                   { signal: inFlight.signal }
+               ));
                
                // Log successful resource read
                logMcpActivity({
@@ -2291,16 +2762,20 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
                }).catch(() => {}); // Ignore notification errors
                
                throw resourceError;
+             } finally {
+               inFlight.release();
              }
         } else {
              // Use the existing session
              const timer = createExecutionTimer();
+             const inFlight = trackDownstreamRequest(extra, serverParams.uuid, "resources/read", server.getClientCapabilities());
              
              try {
-               const result = await session.client.request(
+               const result = await runWithSessionSlot(serverParams.uuid, inFlight.signal, () => session.client.request(
                    { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
-                   ReadResourceResultSchema
-               );
+                   ReadResourceResultSchema,
+                   { signal: inFlight.signal }
+               ));
                
                // Log successful resource read
                logMcpActivity({
@@ -2326,6 +2801,8 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
                }).catch(() => {}); // Ignore notification errors
                
                throw resourceError;
+             } finally {
+               inFlight.release();
              }
         }
 
@@ -2341,6 +2818,64 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
     }
   });
 
+  // Subscribe Handler - Resolves the URI owner and forwards the subscription
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const upstreamSessionId = getUpstreamSessionId(extra.sessionId);
+
+    try {
+        // Updates are delivered out of band, which needs a long-lived session
+        if (!hasUpstreamSession(upstreamSessionId)) {
+            throw new Error("Resource subscriptions require a stateful session.");
+        }
+
+        const apiKey = getPluggedinMCPApiKey();
+        const baseUrl = getPluggedinMCPApiBaseUrl();
+        if (!apiKey || !baseUrl) {
+            throw new Error("Pluggedin API Key or Base URL is not configured for resource resolution.");
+        }
+
+        // Resolve the owning server the same way resources/read does
+        const resolveApiUrl = `${baseUrl}/api/resolve/resource?uri=${encodeURIComponent(uri)}`;
+        const resolveResponse = await axios.get<ServerParameters>(resolveApiUrl, {
+            headers: { Authorization: `Bearer ${apiKey}` },
+            timeout: 10000,
+        });
+
+        const serverParams = resolveResponse.data;
+        if (!serverParams || !serverParams.uuid) {
+            throw new Error(`Could not resolve server details for URI: ${uri}`);
+        }
+
+        const sessionKey = getSessionKey(serverParams.uuid, serverParams);
+        const session = await getSession(sessionKey, serverParams.uuid, serverParams);
+        if (!session) {
+            throw new Error(`Session could not be established for server UUID: ${serverParams.uuid} handling URI: ${uri}`);
+        }
+
+        if (!session.client.getServerCapabilities()?.resources?.subscribe) {
+            throw new Error(`Server ${serverParams.name || serverParams.uuid} does not support resource subscriptions.`);
+        }
+
+        await subscribeToResource(uri, upstreamSessionId, serverParams.uuid, session.client);
+        return {};
+    } catch (error: unknown) {
+        const errorMessage = axios.isAxiosError(error)
+            ? `API Error (${error.response?.status}) resolving URI ${uri}: ${error.response?.data?.error || error.message}`
+            : error instanceof Error
+            ? error.message
+            : `Unknown error subscribing to resource URI: ${uri}`;
+        debugError("[Subscribe Handler Error]", errorMessage);
+        throw new Error(`Failed to subscribe to resource ${uri}: ${errorMessage}`);
+    }
+  });
+
+  // Unsubscribe Handler - Drops the downstream subscription once no client needs it
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    unsubscribeFromResource(request.params.uri, getUpstreamSessionId(extra.sessionId));
+    return {};
+  });
+
   // List Resource Templates Handler - Fetches aggregated list from Pluggedin App API
   // Extract ListResourceTemplates handler logic for error handling
   const listResourceTemplatesHandler = withErrorHandling(async (request: any) => {
@@ -2348,7 +2883,7 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
     const baseUrl = getPluggedinMCPApiBaseUrl();
 
     // If no API key, return empty templates (for MCP best practices)
-    if (!apiKey || !baseUrl) {
+    if (!apiKey || !baseUrl || isManifestMode()) {
       return {
         resourceTemplates: [],
         nextCursor: undefined
@@ -2357,19 +2892,22 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
     const apiUrl = `${baseUrl}/api/resource-templates`; // New endpoint
 
-    // Fetch the list of templates
-    // Assuming the API returns ResourceTemplate[] directly
-    const response = await axios.get<ResourceTemplate[]>(apiUrl, {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-      timeout: 10000, // Add a timeout
-    });
+    const page = await paginateList<ResourceTemplate>('resourceTemplates', request.params?.cursor, async (upstreamCursor, limit) => {
+      // Fetch the list of templates
+      // The API returns either ResourceTemplate[] or a page with nextCursor
+      const response = await axios.get<ResourceTemplate[] | { resourceTemplates: ResourceTemplate[], nextCursor?: string }>(apiUrl, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        params: { limit: limit || undefined, cursor: upstreamCursor },
+        timeout: 10000, // Add a timeout
+      });
 
-    const templates = response.data || [];
+      return readUpstreamPage<ResourceTemplate>(response.data, 'resourceTemplates');
+    });
 
-    // Wrap the array in the expected structure for the MCP response
-    return { resourceTemplates: templates, nextCursor: undefined }; // Pagination not handled
+    // Wrap the page in the expected structure for the MCP response
+    return { resourceTemplates: page.items, nextCursor: page.nextCursor };
   }, {
     action: 'list_resource_templates'
   });
@@ -2384,12 +2922,26 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
   const cleanup = async () => {
     try {
+      stopListChangedForwarding();
+
+      // A tenant's server serves one of its HTTP sessions; the tenant's
+      // downstream sessions and state are released when the tenant is disposed
+      if (getCurrentTenant()) {
+        return;
+      }
+
       // Clean up sessions
       await cleanupAllSessions();
       
       // Clear tool mappings
-      Object.keys(toolToServerMap).forEach(key => delete toolToServerMap[key]);
+      clearToolNames();
       Object.keys(instructionToServerMap).forEach(key => delete instructionToServerMap[key]);
+      clearListSnapshots();
+      resetRateLimits();
+      clearToolAnnotations();
+      clearOutputSchemas();
+      clearToolCatalog();
+      clearResponseCache();
       
       // Reset rate limiters
       toolCallRateLimiter.reset();
@@ -2,60 +2,168 @@
  * Express Middleware for MCP Streamable HTTP Server
  *
  * This module contains reusable middleware functions for:
- * - CORS headers
+ * - CORS headers and DNS rebinding protection
  * - Protocol version validation
  * - Accept header normalization
- * - Authentication
+ * - Authentication (API key or OAuth access token)
  * - Static file serving for .well-known endpoints
  */
 
 import express, { RequestHandler } from 'express';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { hostHeaderValidation } from '@modelcontextprotocol/sdk/server/middleware/hostHeaderValidation.js';
+import { InsufficientScopeError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
 import { randomUUID, timingSafeEqual } from 'crypto';
-import { debugLog } from './debug-log.js';
+import { debugError, debugLog } from './debug-log.js';
+import {
+  createOAuthVerifier,
+  getProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
+  getScopesFor,
+  OAuthConfig,
+} from './oauth.js';
+import { registerUpstreamSession, unregisterUpstreamSession } from './upstream-sessions.js';
+import { createSessionEventStore, SessionEventStore } from './event-store.js';
+import type { SessionRecord } from './session-store.js';
 import {
   MCP_PROTOCOL_VERSION,
   SUPPORTED_MCP_PROTOCOL_VERSIONS,
   MCP_SESSION_ID_HEADER,
   MCP_PROTOCOL_VERSION_HEADER,
   JSON_RPC_ERROR_CODES,
+  LOOPBACK_HOSTNAMES,
   MAX_SESSIONS,
 } from './constants.js';
 
 /**
- * CORS middleware - allows cross-origin requests
+ * Browser access settings of the HTTP server
+ */
+export interface HttpAccessOptions {
+  /** Origins allowed by CORS and Origin validation, '*' for any */
+  allowedOrigins?: string[];
+  /** Hostnames accepted in the Host header, without ports */
+  allowedHosts?: string[];
+  /** Allow credentialed CORS requests from the allowed origins */
+  corsCredentials?: boolean;
+}
+
+/**
+ * Checks whether an origin is in an allowlist
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin.replace(/\/$/, ''));
+}
+
+/**
+ * Creates the CORS middleware
  * Exposes custom MCP headers to clients per spec
  *
- * Security Note: CORS wildcard (*) is intentionally used here because:
- * 1. This is a public MCP discovery API (/.well-known endpoints)
- * 2. Authentication is handled separately via Bearer tokens (not cookies)
- * 3. No sensitive data is exposed in unauthenticated responses
- * 4. Discovery endpoints (tools/list, resources/list) are intentionally public
- * 5. Sensitive operations (tools/call, resources/read) require API authentication
- *
- * This follows MCP specification best practices for public discovery endpoints.
- * For production deployments requiring stricter CORS, configure a reverse proxy
- * (e.g., nginx) to override these headers with specific allowed origins.
+ * Without an origin allowlist every origin is allowed with a wildcard, as
+ * authentication uses Bearer tokens rather than cookies and discovery
+ * endpoints are public. With an allowlist, only listed origins get an
+ * Access-Control-Allow-Origin header, and credentialed requests can be
+ * allowed for them.
+ * @param options - The allowed origins and whether credentials are allowed
+ * @throws Error if credentials are allowed without an explicit origin allowlist
  */
-export const corsMiddleware: RequestHandler = (req: any, res: any, next: any) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-  res.header(
-    'Access-Control-Allow-Headers',
-    `Content-Type, Authorization, ${MCP_SESSION_ID_HEADER}, ${MCP_PROTOCOL_VERSION_HEADER}`
-  );
-  // MCP spec: Expose custom headers so clients can read them
-  res.header(
-    'Access-Control-Expose-Headers',
-    `${MCP_SESSION_ID_HEADER}, ${MCP_PROTOCOL_VERSION_HEADER}`
-  );
-
-  if (req.method === 'OPTIONS') {
-    return res.sendStatus(200);
+export function createCorsMiddleware(options: HttpAccessOptions = {}): RequestHandler {
+  const { allowedOrigins, corsCredentials = false } = options;
+  if (corsCredentials && (!allowedOrigins?.length || allowedOrigins.includes('*'))) {
+    throw new Error('Credentialed CORS needs an explicit list of allowed origins');
   }
-  next();
-};
+
+  return (req: any, res: any, next: any) => {
+    const origin = req.headers.origin as string | undefined;
+    if (!allowedOrigins?.length) {
+      res.header('Access-Control-Allow-Origin', '*');
+    } else {
+      res.vary('Origin');
+      if (origin && isOriginAllowed(origin, allowedOrigins)) {
+        res.header('Access-Control-Allow-Origin', corsCredentials ? origin : allowedOrigins.includes('*') ? '*' : origin);
+        if (corsCredentials) {
+          res.header('Access-Control-Allow-Credentials', 'true');
+        }
+      }
+    }
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header(
+      'Access-Control-Allow-Headers',
+      `Content-Type, Authorization, ${MCP_SESSION_ID_HEADER}, ${MCP_PROTOCOL_VERSION_HEADER}`
+    );
+    // MCP spec: Expose custom headers so clients can read them, and the
+    // OAuth challenge that points them to the authorization server
+    res.header(
+      'Access-Control-Expose-Headers',
+      `${MCP_SESSION_ID_HEADER}, ${MCP_PROTOCOL_VERSION_HEADER}, WWW-Authenticate`
+    );
+
+    if (req.method === 'OPTIONS') {
+      return res.sendStatus(200);
+    }
+    next();
+  };
+}
+
+/**
+ * CORS middleware allowing every origin
+ */
+export const corsMiddleware: RequestHandler = createCorsMiddleware();
+
+/**
+ * Creates the DNS rebinding protection of the MCP endpoint
+ *
+ * A web page can rebind its own hostname to 127.0.0.1 and then call a local
+ * server from the browser; the Host and Origin headers still name the page.
+ * Requests to /mcp (and /) are therefore refused when their Host is not an
+ * allowed hostname or their Origin, if any, is not an allowed origin. Without
+ * allowlists only servers bound to a loopback address are checked, against
+ * loopback hostnames.
+ * @param options - The allowed hosts and origins
+ * @param bindHost - The address the server listens on
+ */
+export function createDnsRebindingMiddleware(options: HttpAccessOptions, bindHost: string): RequestHandler {
+  const loopback = LOOPBACK_HOSTNAMES.includes(bindHost) || bindHost === '::1';
+  const allowedHosts = options.allowedHosts?.length ? options.allowedHosts : loopback ? LOOPBACK_HOSTNAMES : undefined;
+  const hostValidation = allowedHosts ? hostHeaderValidation(allowedHosts) : undefined;
+
+  const isOriginAccepted = (origin: string): boolean => {
+    if (options.allowedOrigins?.length) {
+      return isOriginAllowed(origin, options.allowedOrigins);
+    }
+    if (!loopback) {
+      return true;
+    }
+    try {
+      return LOOPBACK_HOSTNAMES.includes(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  };
+
+  return (req: any, res: any, next: any) => {
+    if (req.path !== '/mcp' && req.path !== '/') {
+      return next();
+    }
+    const origin = req.headers.origin as string | undefined;
+    if (origin && !isOriginAccepted(origin)) {
+      debugLog(`Refused request from origin ${origin}`);
+      return res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: JSON_RPC_ERROR_CODES.APPLICATION_ERROR,
+          message: `Forbidden: origin ${origin} is not allowed`
+        },
+        id: null
+      });
+    }
+    if (hostValidation) {
+      return hostValidation(req, res, next);
+    }
+    next();
+  };
+}
 
 /**
  * Protocol version validation middleware
@@ -101,6 +209,14 @@ export const acceptMiddleware: RequestHandler = (req: any, _res: any, next: any)
   next();
 };
 
+/**
+ * Gets the bearer token of a request's Authorization header, if any
+ */
+export function getBearerToken(req: any): string | null {
+  const authHeader = req.headers.authorization;
+  return typeof authHeader === 'string' && authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+}
+
 /**
  * Creates authentication middleware factory
  * @param requireApiAuth - Whether to require API authentication
@@ -122,8 +238,7 @@ export function createAuthMiddleware(requireApiAuth: boolean): RequestHandler {
         );
 
         if (requiresAuth) {
-          const authHeader = req.headers.authorization;
-          const apiKey = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+          const apiKey = getBearerToken(req);
 
           // Use timing-safe comparison to prevent timing attacks
           const expectedKey = process.env.PLUGGEDIN_API_KEY || '';
@@ -148,6 +263,58 @@ export function createAuthMiddleware(requireApiAuth: boolean): RequestHandler {
   };
 }
 
+/**
+ * Creates OAuth middleware for the MCP endpoint
+ * Every request needs a valid access token (see oauth.ts), and each JSON-RPC
+ * request in the body a scope that allows its method and tool
+ * @param config - The OAuth settings
+ */
+export function createOAuthMiddleware(config: OAuthConfig): RequestHandler {
+  const resourceMetadataUrl = getProtectedResourceMetadataUrl(config.resource);
+  const bearerAuth = requireBearerAuth({ verifier: createOAuthVerifier(config), resourceMetadataUrl });
+
+  const checkScopes = (req: any, res: any, next: any) => {
+    const granted: string[] = req.auth?.scopes ?? [];
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    for (const message of messages) {
+      if (!message || typeof message.method !== 'string') {
+        continue;
+      }
+      const toolName = typeof message.params?.name === 'string' ? message.params.name : undefined;
+      const allowing = getScopesFor(message.method, toolName, config.scopes);
+      if (allowing && !allowing.some(scope => granted.includes(scope))) {
+        const error = new InsufficientScopeError(
+          `Insufficient scope for ${message.method}${message.method === 'tools/call' && toolName ? ` (${toolName})` : ''}`
+        );
+        const scopeHint = allowing.length > 0 ? `, scope="${allowing.join(' ')}"` : '';
+        res.set('WWW-Authenticate',
+          `Bearer error="${error.errorCode}", error_description="${error.message}"${scopeHint}, resource_metadata="${resourceMetadataUrl}"`);
+        debugLog(`OAuth client ${req.auth?.clientId} lacks a scope for ${message.method}`);
+        return res.status(403).json(error.toResponseObject());
+      }
+    }
+    next();
+  };
+
+  return (req: any, res: any, next: any) => {
+    if (req.path !== '/mcp' && req.path !== '/') {
+      return next();
+    }
+    bearerAuth(req, res, (error?: unknown) => error ? next(error) : checkScopes(req, res, next));
+  };
+}
+
+/**
+ * Creates the handler of the OAuth protected resource metadata endpoint
+ * @param config - The OAuth settings
+ */
+export function createProtectedResourceMetadataHandler(config: OAuthConfig): RequestHandler {
+  const metadata = getProtectedResourceMetadata(config);
+  return (_req: any, res: any) => {
+    res.json(metadata);
+  };
+}
+
 /**
  * Creates a static file handler for .well-known endpoints
  * Sets proper Content-Type for mcp-config files
@@ -167,6 +334,9 @@ export function createWellKnownHandler() {
 interface SessionMetadata {
   transport: StreamableHTTPServerTransport;
   lastAccess: number;
+  tenantId?: string;
+  storedAt?: number;
+  eventStore?: SessionEventStore;
 }
 
 /**
@@ -208,13 +378,15 @@ function evictOldestSession(sessions: Map<string, SessionMetadata>): void {
  * @param server - MCP server instance
  * @param stateless - Whether to use stateless mode
  * @param sessions - Map of active sessions with metadata (for stateful mode)
+ * @param onSessionCreated - Called with a new session before the server connects to it
  */
 export async function resolveTransport(
   req: any,
   res: any,
   server: Server,
   stateless: boolean,
-  sessions: Map<string, SessionMetadata>
+  sessions: Map<string, SessionMetadata>,
+  onSessionCreated?: (sessionId: string, metadata: SessionMetadata) => void
 ): Promise<StreamableHTTPServerTransport> {
   if (stateless) {
     // Create a new transport for each request in stateless mode
@@ -235,20 +407,37 @@ export async function resolveTransport(
       evictOldestSession(sessions);
     }
 
-    // Create a new transport for this session
+    // Create a new transport for this session; its event store lets a client
+    // resume an SSE stream with Last-Event-ID
+    const eventStore = createSessionEventStore(sessionId);
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => sessionId,
+      eventStore,
       onsessioninitialized: (id) => {
         debugLog(`Session initialized: ${id}`);
       }
     });
 
+    // Out-of-band notifications (e.g. resource updates) go to the session's
+    // standalone SSE stream; close also runs on eviction, TTL expiry and
+    // shutdown, so it keeps the session's events for a later resume
+    registerUpstreamSession(
+      sessionId,
+      (notification) => transport.send({ jsonrpc: '2.0', ...notification }),
+      () => server.getClientCapabilities()
+    );
+    transport.onclose = () => {
+      unregisterUpstreamSession(sessionId);
+    };
+
     const metadata: SessionMetadata = {
       transport,
-      lastAccess: Date.now()
+      lastAccess: Date.now(),
+      eventStore
     };
 
     sessions.set(sessionId, metadata);
+    onSessionCreated?.(sessionId, metadata);
     await server.connect(transport);
 
     // Set session ID in response header (title case per MCP spec)
@@ -261,3 +450,42 @@ export async function resolveTransport(
 
   return sessions.get(sessionId)!.transport;
 }
+
+/**
+ * Puts a transport created for a known session ID into the state its
+ * session's initialize request left it in, e.g. after a restart or on
+ * another replica
+ *
+ * The SDK has no API for this, so the transport's and the server's private
+ * initialization state is set here, and only here. The SDK version is pinned
+ * for this; if those fields are missing the session is not restored.
+ *
+ * The initialize request is replayed only on a server no client initialized
+ * yet, so a server shared by several sessions keeps the client it already has.
+ *
+ * @param transport - Transport resolved for the session's requests
+ * @param server - MCP server connected to the transport
+ * @param record - Stored record of the session
+ * @returns Whether the session was restored; if not, the client has to initialize a new one
+ */
+export async function restoreInitializedSession(
+  transport: StreamableHTTPServerTransport,
+  server: Server,
+  record: SessionRecord
+): Promise<boolean> {
+  const inner = (transport as any)._webStandardTransport;
+  const oninitialize = (server as any)._oninitialize;
+  if (!inner || typeof inner._initialized !== 'boolean' || typeof oninitialize !== 'function') {
+    debugError(`Cannot restore session ${record.sessionId}: the MCP SDK no longer has the transport and server fields restoring relies on`);
+    return false;
+  }
+  inner.sessionId = record.sessionId;
+  inner._initialized = true;
+  // Replays the initialize request, so the server knows the client's
+  // capabilities and version again
+  if (!server.getClientCapabilities()) {
+    await oninitialize.call(server, { method: 'initialize', params: record.initialize });
+  }
+  debugLog(`Session restored: ${record.sessionId}`);
+  return true;
+}
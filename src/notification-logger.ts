@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl } from './utils.js';
 import { debugError } from './debug-log.js';
+import { isManifestMode } from './manifest.js';
 
 export interface McpActivityData {
   action: 'tool_call' | 'prompt_get' | 'resource_read';
@@ -30,6 +31,11 @@ export async function logMcpActivity(data: McpActivityData): Promise<void> {
       return;
     }
 
+    if (isManifestMode()) {
+      debugError('[Notification Logger] Servers come from a local manifest, skipping notification');
+      return;
+    }
+
     const notificationUrl = `${baseUrl}/api/notifications/mcp-activity`;
     debugError(`[Notification Logger] Sending POST to: ${notificationUrl}`);
     
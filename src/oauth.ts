@@ -0,0 +1,395 @@
+/**
+ * OAuth protected resource support for the Streamable HTTP transport
+ *
+ * With PLUGGEDIN_OAUTH_ISSUER and PLUGGEDIN_OAUTH_RESOURCE set, the proxy acts
+ * as an OAuth 2.1 protected resource as the MCP authorization spec describes:
+ * - `/.well-known/oauth-protected-resource` names the issuer as the
+ *   authorization server of the resource, with the scopes it knows
+ * - every MCP request needs a JWT access token signed by a key of the issuer's
+ *   JWKS, issued by the issuer, for the audience (PLUGGEDIN_OAUTH_AUDIENCE,
+ *   the resource URL by default), and not expired
+ * - the token's scopes decide which methods and tools the request may use
+ *
+ * The JWKS is read from PLUGGEDIN_OAUTH_JWKS_PATH, fetched from
+ * PLUGGEDIN_OAUTH_JWKS_URL, or found through the `jwks_uri` of the issuer's
+ * authorization server metadata. Only asymmetric signatures are accepted.
+ *
+ * PLUGGEDIN_OAUTH_SCOPES maps scopes to what they allow, e.g.
+ * `{"github:read": {"methods": ["tools/list", "tools/call"], "tools": ["github_*"]}}`.
+ * Patterns may end in `*`. A scope without `tools` allows every tool.
+ */
+
+import axios from "axios";
+import { createPublicKey, JsonWebKey, KeyObject, verify as verifySignature, constants as cryptoConstants } from "crypto";
+import { readFileSync, statSync } from "fs";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { debugError, debugLog } from "./debug-log.js";
+import {
+  OAUTH_CLOCK_SKEW_S,
+  OAUTH_FETCH_TIMEOUT_MS,
+  OAUTH_JWKS_CACHE_TTL_MS,
+  OAUTH_JWKS_REFRESH_MIN_INTERVAL_MS,
+} from "./constants.js";
+
+/**
+ * What a scope allows
+ */
+export interface ScopeGrant {
+  /** JSON-RPC methods, e.g. "tools/call" or "resources/*" */
+  methods: string[];
+  /** Tool names a tools/call may use; every tool if unset */
+  tools?: string[];
+}
+
+export type ScopeMap = Record<string, ScopeGrant>;
+
+/**
+ * OAuth settings of the HTTP transport
+ */
+export interface OAuthConfig {
+  issuer: string;
+  /** This server's resource identifier, e.g. https://mcp.example.com/mcp */
+  resource: string;
+  audience: string;
+  jwksPath?: string;
+  jwksUrl?: string;
+  scopes: ScopeMap;
+}
+
+interface JwksCache {
+  keys: JsonWebKey[];
+  /** File mtime for a local JWKS, fetch time for a remote one */
+  version: number;
+  source: string;
+}
+
+/** Methods every valid token may use */
+const ALWAYS_ALLOWED_METHODS = ['initialize', 'ping', 'notifications/*'];
+
+/** Scopes used unless PLUGGEDIN_OAUTH_SCOPES is set */
+export const DEFAULT_OAUTH_SCOPES: ScopeMap = {
+  'mcp:read': {
+    methods: [
+      'tools/list',
+      'resources/*',
+      'prompts/*',
+      'completion/complete',
+      'logging/setLevel',
+    ],
+  },
+  'mcp:tools': { methods: ['tools/call'] },
+};
+
+// Signature algorithms and the node crypto options they need
+const ALGORITHMS: Record<string, { hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null },
+};
+
+let jwksCache: JwksCache | null = null;
+
+function parseScopeMap(raw: string): ScopeMap {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`PLUGGEDIN_OAUTH_SCOPES is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('PLUGGEDIN_OAUTH_SCOPES must be a JSON object of scope to { methods, tools }');
+  }
+
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+  const scopes: ScopeMap = {};
+  for (const [scope, grant] of Object.entries(parsed as Record<string, any>)) {
+    if (!grant || !isStringList(grant.methods) || (grant.tools !== undefined && !isStringList(grant.tools))) {
+      throw new Error(`PLUGGEDIN_OAUTH_SCOPES: scope "${scope}" needs "methods" and optionally "tools" as lists of strings`);
+    }
+    scopes[scope] = { methods: grant.methods, ...(grant.tools && { tools: grant.tools }) };
+  }
+  return scopes;
+}
+
+/**
+ * Reads the OAuth settings from the environment
+ * @returns The settings, or undefined if OAuth is not configured
+ * @throws Error if the settings are incomplete or invalid
+ */
+export function getOAuthConfig(): OAuthConfig | undefined {
+  const issuer = process.env.PLUGGEDIN_OAUTH_ISSUER?.trim();
+  if (!issuer) {
+    return undefined;
+  }
+  const resource = process.env.PLUGGEDIN_OAUTH_RESOURCE?.trim();
+  if (!resource) {
+    throw new Error('PLUGGEDIN_OAUTH_RESOURCE must be set to the URL of this server when PLUGGEDIN_OAUTH_ISSUER is set');
+  }
+  for (const [name, url] of [['PLUGGEDIN_OAUTH_ISSUER', issuer], ['PLUGGEDIN_OAUTH_RESOURCE', resource]]) {
+    try {
+      new URL(url);
+    } catch {
+      throw new Error(`${name} is not a valid URL: ${url}`);
+    }
+  }
+
+  const scopesRaw = process.env.PLUGGEDIN_OAUTH_SCOPES?.trim();
+  return {
+    issuer,
+    resource,
+    audience: process.env.PLUGGEDIN_OAUTH_AUDIENCE?.trim() || resource,
+    jwksPath: process.env.PLUGGEDIN_OAUTH_JWKS_PATH?.trim() || undefined,
+    jwksUrl: process.env.PLUGGEDIN_OAUTH_JWKS_URL?.trim() || undefined,
+    scopes: scopesRaw ? parseScopeMap(scopesRaw) : DEFAULT_OAUTH_SCOPES,
+  };
+}
+
+/**
+ * Builds the OAuth protected resource metadata (RFC 9728) of this server
+ */
+export function getProtectedResourceMetadata(config: OAuthConfig): Record<string, unknown> {
+  return {
+    resource: config.resource,
+    authorization_servers: [config.issuer],
+    scopes_supported: Object.keys(config.scopes),
+    bearer_methods_supported: ['header'],
+    resource_name: 'Plugged.in MCP Proxy',
+  };
+}
+
+/**
+ * Gets the URL the protected resource metadata of a resource is served at
+ */
+export function getProtectedResourceMetadataUrl(resource: string): string {
+  const url = new URL(resource);
+  const path = url.pathname === '/' ? '' : url.pathname;
+  return new URL(`/.well-known/oauth-protected-resource${path}`, url.origin).href;
+}
+
+/**
+ * Gets the URLs an issuer's authorization server metadata may be served at,
+ * OAuth (RFC 8414) before OpenID Connect discovery
+ */
+export function getAuthorizationServerMetadataUrls(issuer: string): string[] {
+  const url = new URL(issuer);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return [
+    new URL(`/.well-known/oauth-authorization-server${path}`, url.origin).href,
+    new URL(`/.well-known/openid-configuration${path}`, url.origin).href,
+    ...(path ? [`${url.origin}${path}/.well-known/openid-configuration`] : []),
+  ];
+}
+
+function parseJwks(data: unknown, source: string): JsonWebKey[] {
+  const keys = (data as { keys?: unknown })?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error(`JWKS from ${source} has no "keys" list`);
+  }
+  return keys.filter((key): key is JsonWebKey => !!key && typeof key === 'object');
+}
+
+/**
+ * Loads the signing keys of a local JWKS file; cached until the file changes
+ * @throws Error if the file cannot be read or holds no key set
+ */
+export function loadJwksFile(path: string): JsonWebKey[] {
+  const { mtimeMs } = statSync(path);
+  if (jwksCache?.source === path && jwksCache.version === mtimeMs) {
+    return jwksCache.keys;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse JWKS file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const keys = parseJwks(data, path);
+  jwksCache = { keys, version: mtimeMs, source: path };
+  debugLog(`[OAuth] Loaded ${keys.length} keys from ${path}`);
+  return keys;
+}
+
+async function discoverJwksUrl(issuer: string): Promise<string> {
+  for (const url of getAuthorizationServerMetadataUrls(issuer)) {
+    try {
+      const { data } = await axios.get(url, { timeout: OAUTH_FETCH_TIMEOUT_MS });
+      if (typeof data?.jwks_uri === 'string') {
+        return data.jwks_uri;
+      }
+    } catch (error) {
+      debugLog(`[OAuth] No authorization server metadata at ${url}`);
+    }
+  }
+  throw new Error(`Could not find the jwks_uri of ${issuer}; set PLUGGEDIN_OAUTH_JWKS_URL`);
+}
+
+async function getJwks(config: OAuthConfig, refresh: boolean): Promise<JsonWebKey[]> {
+  if (config.jwksPath) {
+    return loadJwksFile(config.jwksPath);
+  }
+
+  const now = Date.now();
+  const age = jwksCache ? now - jwksCache.version : Infinity;
+  if (age < OAUTH_JWKS_CACHE_TTL_MS && !(refresh && age >= OAUTH_JWKS_REFRESH_MIN_INTERVAL_MS)) {
+    return jwksCache!.keys;
+  }
+
+  const url = config.jwksUrl ?? await discoverJwksUrl(config.issuer);
+  const { data } = await axios.get(url, { timeout: OAUTH_FETCH_TIMEOUT_MS });
+  const keys = parseJwks(data, url);
+  jwksCache = { keys, version: now, source: url };
+  debugLog(`[OAuth] Fetched ${keys.length} keys from ${url}`);
+  return keys;
+}
+
+function decodeSegment(segment: string, part: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError(`Malformed token ${part}`);
+  }
+}
+
+function toPublicKey(jwk: JsonWebKey): KeyObject | undefined {
+  try {
+    return createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    return undefined;
+  }
+}
+
+function hasValidSignature(alg: string, data: string, signature: Buffer, jwk: JsonWebKey): boolean {
+  const algorithm = ALGORITHMS[alg];
+  const key = toPublicKey(jwk);
+  if (!key || (jwk.alg && jwk.alg !== alg)) {
+    return false;
+  }
+  try {
+    return verifySignature(algorithm.hash, Buffer.from(data), {
+      key,
+      ...(algorithm.padding !== undefined && { padding: algorithm.padding, saltLength: cryptoConstants.RSA_PSS_SALTLEN_DIGEST }),
+      ...(algorithm.dsaEncoding && { dsaEncoding: algorithm.dsaEncoding }),
+    }, signature);
+  } catch {
+    // The key type does not fit the algorithm
+    return false;
+  }
+}
+
+/**
+ * Verifies a JWT access token
+ * @param token - The bearer token of a request
+ * @param config - The OAuth settings
+ * @returns The token's client, scopes and expiry
+ * @throws InvalidTokenError if the token is not valid for this resource
+ */
+export async function verifyAccessToken(token: string, config: OAuthConfig): Promise<AuthInfo> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new InvalidTokenError('Access token is not a JWT');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = decodeSegment(headerSegment, 'header');
+  const claims = decodeSegment(payloadSegment, 'payload');
+  if (typeof header?.alg !== 'string' || !ALGORITHMS[header.alg]) {
+    throw new InvalidTokenError(`Unsupported token algorithm: ${String(header?.alg)}`);
+  }
+
+  const signedData = `${headerSegment}.${payloadSegment}`;
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  const findKeys = (keys: JsonWebKey[]) => keys.filter(key =>
+    header.kid ? key.kid === header.kid : key.use === undefined || key.use === 'sig'
+  );
+  let candidates = findKeys(await getJwks(config, false));
+  if (candidates.length === 0 && header.kid) {
+    // Keys may have been rotated since the key set was fetched
+    candidates = findKeys(await getJwks(config, true));
+  }
+  if (!candidates.some(key => hasValidSignature(header.alg, signedData, signature, key))) {
+    throw new InvalidTokenError('Invalid token signature');
+  }
+
+  const now = Date.now() / 1000;
+  if (claims.iss !== config.issuer) {
+    throw new InvalidTokenError('Token was issued by another issuer');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(config.audience)) {
+    throw new InvalidTokenError('Token is not meant for this resource');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + OAUTH_CLOCK_SKEW_S < now) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - OAUTH_CLOCK_SKEW_S > now) {
+    throw new InvalidTokenError('Token is not valid yet');
+  }
+
+  const scopes: string[] = typeof claims.scope === 'string'
+    ? claims.scope.split(' ').filter(Boolean)
+    : Array.isArray(claims.scp) ? claims.scp.filter((scope: unknown) => typeof scope === 'string') : [];
+  return {
+    token,
+    clientId: String(claims.client_id ?? claims.azp ?? claims.sub ?? ''),
+    scopes,
+    // Within the clock skew the token still counts as valid
+    expiresAt: Math.max(claims.exp, Math.ceil(now)),
+    extra: { sub: claims.sub },
+  };
+}
+
+/**
+ * Creates a token verifier for the SDK's bearer auth middleware
+ */
+export function createOAuthVerifier(config: OAuthConfig): OAuthTokenVerifier {
+  return {
+    verifyAccessToken: async (token: string) => {
+      try {
+        return await verifyAccessToken(token, config);
+      } catch (error) {
+        if (error instanceof InvalidTokenError) {
+          throw error;
+        }
+        debugError('[OAuth] Could not verify access token:', error);
+        throw new InvalidTokenError('Access token could not be verified');
+      }
+    },
+  };
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  return pattern.endsWith('*') ? value.startsWith(pattern.slice(0, -1)) : pattern === value;
+}
+
+/**
+ * Gets the scopes that would allow a JSON-RPC request
+ * @param method - The request's method
+ * @param toolName - The tool of a tools/call
+ * @param scopes - The scope map
+ * @returns The scopes, or null if the method needs no scope
+ */
+export function getScopesFor(method: string, toolName: string | undefined, scopes: ScopeMap): string[] | null {
+  if (ALWAYS_ALLOWED_METHODS.some(pattern => matchesPattern(pattern, method))) {
+    return null;
+  }
+  return Object.entries(scopes)
+    .filter(([, grant]) =>
+      grant.methods.some(pattern => matchesPattern(pattern, method)) &&
+      (method !== 'tools/call' || !grant.tools || (toolName !== undefined && grant.tools.some(pattern => matchesPattern(pattern, toolName))))
+    )
+    .map(([scope]) => scope);
+}
+
+/** Clear cached keys (for testing). */
+export function clearJwksCache(): void {
+  jwksCache = null;
+}
@@ -0,0 +1,285 @@
+/**
+ * Cursor-based pagination for the aggregated list endpoints
+ *
+ * With PLUGGEDIN_LIST_PAGE_SIZE set, `tools/list`, `resources/list`,
+ * `prompts/list` and `resources/templates/list` return at most that many items
+ * per response. Pages come from one of two sources:
+ * - The App API, when it paginates itself: the proxy passes `cursor` and
+ *   `limit` and the API answers with an object that has a `nextCursor` field
+ * - A snapshot of the full list taken on the first request, so later pages
+ *   stay consistent while the underlying list changes
+ *
+ * Items the proxy adds itself (e.g. its static tools) lead the list and are
+ * paged like the rest: pages are filled with them first, and the API is only
+ * asked for the items that fit after them. Without a page size the client gets
+ * the whole list, so an API that paginates anyway is read to its last page.
+ *
+ * Cursors handed to the client are opaque base64url tokens. Unknown, malformed
+ * or expired cursors are rejected with InvalidParams as the MCP spec requires.
+ * In tenant mode snapshots are keyed by tenant, so a cursor only resolves for
+ * the tenant it was handed to.
+ */
+
+import { randomUUID } from "crypto";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { getCurrentTenant } from "./tenants.js";
+import {
+  DEFAULT_LIST_PAGE_SIZE,
+  LIST_SNAPSHOT_MAX,
+  LIST_SNAPSHOT_TTL_MS,
+} from "./constants.js";
+
+/**
+ * The paginated list endpoints
+ */
+export type ListKind = 'tools' | 'resources' | 'prompts' | 'resourceTemplates';
+
+/**
+ * Items fetched from the App API for one request
+ */
+export interface UpstreamPage<T> {
+  items: T[];
+  /** Cursor for the next API page, if the API paginates */
+  nextCursor?: string;
+  /** Whether the API paginated the response (false when it returned everything) */
+  paginated: boolean;
+}
+
+/**
+ * A page returned to the client
+ */
+export interface ListPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Fetches items from the App API
+ * @param upstreamCursor - The API's cursor, undefined for the first page
+ * @param limit - Requested page size, 0 when pagination is disabled
+ */
+export type UpstreamPageFetcher<T> = (upstreamCursor: string | undefined, limit: number) => Promise<UpstreamPage<T>>;
+
+/**
+ * Options of paginateList
+ */
+export interface PaginateListOptions<T> {
+  /**
+   * Items listed before the API's, e.g. the proxy's static tools; pass the same
+   * items for every page, as cursors hold an offset into them
+   */
+  leadingItems?: T[];
+}
+
+interface ListCursor {
+  /** List kind the cursor belongs to */
+  k: ListKind;
+  /** Snapshot id (snapshot pagination) */
+  s?: string;
+  /** Offset into the snapshot */
+  o?: number;
+  /** App API cursor (upstream pagination) */
+  u?: string;
+  /** Offset into the leading items, while they fill whole pages */
+  l?: number;
+}
+
+interface ListSnapshot {
+  kind: ListKind;
+  items: unknown[];
+  expiresAt: number;
+}
+
+// Snapshots by key (see getSnapshotKey) in least-recently-used order (Map iteration order)
+const snapshots = new Map<string, ListSnapshot>();
+
+/**
+ * Builds the map key of a snapshot; in tenant mode the key starts with the tenant id
+ */
+function getSnapshotKey(id: string): string {
+  const tenantId = getCurrentTenant()?.id;
+  return `${tenantId ? `${tenantId}:` : ''}${id}`;
+}
+
+/**
+ * Gets the configured page size; 0 disables pagination
+ */
+export function getListPageSize(): number {
+  const raw = process.env.PLUGGEDIN_LIST_PAGE_SIZE;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_LIST_PAGE_SIZE;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    debugError(`[Pagination] Ignoring invalid PLUGGEDIN_LIST_PAGE_SIZE="${raw}"`);
+    return DEFAULT_LIST_PAGE_SIZE;
+  }
+  return value;
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function invalidCursor(kind: ListKind): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Invalid or expired cursor for ${kind} list`);
+}
+
+function decodeCursor(kind: ListKind, cursor: string): ListCursor {
+  let decoded: ListCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidCursor(kind);
+  }
+
+  const valid = decoded !== null
+    && typeof decoded === 'object'
+    && decoded.k === kind
+    && (typeof decoded.u === 'string'
+      || (typeof decoded.s === 'string' && Number.isInteger(decoded.o) && decoded.o! >= 0)
+      || (Number.isInteger(decoded.l) && decoded.l! > 0));
+  if (!valid) {
+    throw invalidCursor(kind);
+  }
+  return decoded;
+}
+
+/**
+ * Wraps an App API list response, which is either a bare array or an object
+ * holding the items under `key` (plus `nextCursor` when the API paginates)
+ * @param data - The response body
+ * @param key - Property holding the items in object responses
+ */
+export function readUpstreamPage<T>(data: unknown, key: string): UpstreamPage<T> {
+  if (Array.isArray(data)) {
+    return { items: data as T[], paginated: false };
+  }
+  if (!data || typeof data !== 'object') {
+    return { items: [], paginated: false };
+  }
+
+  const body = data as Record<string, unknown>;
+  const items = Array.isArray(body[key]) ? body[key] as T[] : [];
+  if (!('nextCursor' in body)) {
+    return { items, paginated: false };
+  }
+  return {
+    items,
+    nextCursor: typeof body.nextCursor === 'string' && body.nextCursor ? body.nextCursor : undefined,
+    paginated: true,
+  };
+}
+
+function pruneSnapshots(now: number): void {
+  for (const [id, snapshot] of snapshots) {
+    if (snapshot.expiresAt <= now) {
+      snapshots.delete(id);
+    }
+  }
+  while (snapshots.size >= LIST_SNAPSHOT_MAX) {
+    const oldest = snapshots.keys().next().value as string;
+    snapshots.delete(oldest);
+  }
+}
+
+function snapshotPage<T>(kind: ListKind, id: string, items: T[], offset: number, pageSize: number): ListPage<T> {
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor({ k: kind, s: id, o: end }) : undefined,
+  };
+}
+
+/**
+ * Returns one page of a list
+ * @param kind - The list being paginated
+ * @param cursor - The cursor from the client request, if any
+ * @param fetchPage - Loads items from the App API
+ * @param options - Items that lead the list
+ * @returns The page and the cursor for the next one
+ * @throws McpError(InvalidParams) for unknown, malformed or expired cursors
+ */
+export async function paginateList<T>(
+  kind: ListKind,
+  cursor: string | undefined,
+  fetchPage: UpstreamPageFetcher<T>,
+  options: PaginateListOptions<T> = {}
+): Promise<ListPage<T>> {
+  const pageSize = getListPageSize();
+  const now = Date.now();
+  let leadingItems = options.leadingItems ?? [];
+
+  if (cursor) {
+    const decoded = decodeCursor(kind, cursor);
+
+    if (decoded.u !== undefined) {
+      const page = await fetchPage(decoded.u, pageSize);
+      return {
+        items: page.items,
+        nextCursor: page.nextCursor ? encodeCursor({ k: kind, u: page.nextCursor }) : undefined,
+      };
+    }
+
+    if (decoded.s !== undefined) {
+      const key = getSnapshotKey(decoded.s);
+      const snapshot = snapshots.get(key);
+      if (!snapshot || snapshot.kind !== kind || snapshot.expiresAt <= now) {
+        throw invalidCursor(kind);
+      }
+      // Refresh the snapshot's LRU position and lifetime while it is being paged
+      snapshots.delete(key);
+      snapshot.expiresAt = now + LIST_SNAPSHOT_TTL_MS;
+      snapshots.set(key, snapshot);
+      return snapshotPage(kind, decoded.s, snapshot.items as T[], decoded.o!, pageSize);
+    }
+
+    // The earlier pages held only leading items
+    leadingItems = leadingItems.slice(decoded.l);
+  }
+
+  // The API is not asked until the leading items leave room on a page
+  if (pageSize > 0 && leadingItems.length >= pageSize) {
+    const offset = (options.leadingItems?.length ?? 0) - leadingItems.length + pageSize;
+    return { items: leadingItems.slice(0, pageSize), nextCursor: encodeCursor({ k: kind, l: offset }) };
+  }
+
+  const page = await fetchPage(undefined, pageSize > 0 ? pageSize - leadingItems.length : 0);
+
+  if (page.paginated && pageSize > 0) {
+    return {
+      items: [...leadingItems, ...page.items],
+      nextCursor: page.nextCursor ? encodeCursor({ k: kind, u: page.nextCursor }) : undefined,
+    };
+  }
+
+  const items = [...leadingItems, ...page.items];
+  // Pagination is off but the API paginated anyway: read it to the end,
+  // stopping should it hand out a cursor twice
+  const seenCursors = new Set<string>();
+  let upstreamCursor = page.paginated ? page.nextCursor : undefined;
+  while (upstreamCursor && !seenCursors.has(upstreamCursor)) {
+    seenCursors.add(upstreamCursor);
+    const next = await fetchPage(upstreamCursor, 0);
+    items.push(...next.items);
+    upstreamCursor = next.paginated ? next.nextCursor : undefined;
+  }
+
+  if (pageSize === 0 || items.length <= pageSize) {
+    return { items };
+  }
+
+  pruneSnapshots(now);
+  const id = randomUUID();
+  snapshots.set(getSnapshotKey(id), { kind, items, expiresAt: now + LIST_SNAPSHOT_TTL_MS });
+  debugLog(`[Pagination] Snapshot ${id} of ${items.length} ${kind} in pages of ${pageSize}`);
+  return snapshotPage(kind, id, items, 0, pageSize);
+}
+
+/**
+ * Drops all list snapshots
+ */
+export function clearListSnapshots(): void {
+  snapshots.clear();
+}
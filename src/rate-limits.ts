@@ -0,0 +1,165 @@
+/**
+ * Rate limits from custom instructions, enforced on tool calls
+ *
+ * Custom instructions can limit how often a downstream server is called:
+ * - "10 requests per minute" limits all tool calls to the server
+ * - "tool search: 2 requests per second" limits calls to a single tool
+ *
+ * Each limit is a token bucket holding `count` tokens that refills at
+ * `count` tokens per `unit`, so short bursts up to `count` are allowed. A call
+ * needs a token from every bucket that applies to it; when one is empty the
+ * call is rejected with the time until a token is available, and the
+ * rejection is counted per server and tool.
+ */
+
+import { Constraints, RateLimitRule } from "./utils/custom-instructions.js";
+import { ErrorType, McpProxyError } from "./error-handler.js";
+import { debugLog } from "./debug-log.js";
+
+const UNIT_MS: Record<RateLimitRule['unit'], number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+interface TokenBucket {
+  capacity: number;
+  tokens: number;
+  /** Tokens added per millisecond */
+  refillRate: number;
+  updatedAt: number;
+}
+
+/**
+ * Rejection counters for a downstream server
+ */
+export interface RateLimitStats {
+  serverUuid: string;
+  /** Calls rejected by any limit of the server */
+  rejections: number;
+  /** Rejections per tool, including those caused by the server-wide limit */
+  toolRejections: Record<string, number>;
+  lastRejectedAt?: number;
+}
+
+// Buckets keyed by "<serverUuid>" (server-wide) or "<serverUuid>:<tool>" (per tool)
+const buckets = new Map<string, TokenBucket>();
+const stats = new Map<string, RateLimitStats>();
+
+/**
+ * Gets the bucket for a key, replacing it when the configured limit changed
+ */
+function getBucket(key: string, rule: RateLimitRule, now: number): TokenBucket {
+  const capacity = rule.count;
+  const refillRate = rule.count / UNIT_MS[rule.unit];
+  let bucket = buckets.get(key);
+
+  if (!bucket || bucket.capacity !== capacity || bucket.refillRate !== refillRate) {
+    bucket = { capacity, tokens: capacity, refillRate, updatedAt: now };
+    buckets.set(key, bucket);
+  } else {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillRate);
+    bucket.updatedAt = now;
+  }
+  return bucket;
+}
+
+/**
+ * Milliseconds until the bucket holds a whole token (0 if it does now)
+ */
+function getWaitMs(bucket: TokenBucket): number {
+  if (bucket.tokens >= 1) {
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) / bucket.refillRate);
+}
+
+function describeRule(rule: RateLimitRule): string {
+  return `${rule.count} request${rule.count === 1 ? '' : 's'} per ${rule.unit}`;
+}
+
+function recordRejection(serverUuid: string, toolName: string, now: number): void {
+  let entry = stats.get(serverUuid);
+  if (!entry) {
+    entry = { serverUuid, rejections: 0, toolRejections: {} };
+    stats.set(serverUuid, entry);
+  }
+  entry.rejections++;
+  entry.toolRejections[toolName] = (entry.toolRejections[toolName] ?? 0) + 1;
+  entry.lastRejectedAt = now;
+}
+
+/**
+ * Takes a token for a tool call from every limit that applies to it
+ * @param serverUuid - UUID of the downstream server
+ * @param serverLabel - Server name used in the error message
+ * @param toolName - The tool's name on the downstream server
+ * @param constraints - The server's parsed constraints
+ * @throws McpProxyError(RATE_LIMIT) with `retryAfterMs` in its details if a limit is exhausted
+ */
+export function enforceRateLimit(
+  serverUuid: string,
+  serverLabel: string,
+  toolName: string,
+  constraints: Constraints
+): void {
+  const now = Date.now();
+  const toolRule = constraints.toolRateLimits?.[toolName.toLowerCase()];
+  const limits: Array<{ bucket: TokenBucket; rule: RateLimitRule; scope: string }> = [];
+
+  // A limit of 0 requests can never refill and is ignored as malformed
+  if (constraints.rateLimit && constraints.rateLimit.count > 0) {
+    limits.push({
+      bucket: getBucket(serverUuid, constraints.rateLimit, now),
+      rule: constraints.rateLimit,
+      scope: `server ${serverLabel}`,
+    });
+  }
+  if (toolRule && toolRule.count > 0) {
+    limits.push({
+      bucket: getBucket(`${serverUuid}:${toolName.toLowerCase()}`, toolRule, now),
+      rule: toolRule,
+      scope: `tool ${toolName} on ${serverLabel}`,
+    });
+  }
+
+  // Check every limit before taking tokens so a rejected call consumes none
+  const exhausted = limits
+    .map(limit => ({ ...limit, waitMs: getWaitMs(limit.bucket) }))
+    .filter(limit => limit.waitMs > 0)
+    .sort((a, b) => b.waitMs - a.waitMs)[0];
+
+  if (exhausted) {
+    recordRejection(serverUuid, toolName, now);
+    const retryAfterSeconds = Math.ceil(exhausted.waitMs / 1000);
+    debugLog(`[Rate Limits] Rejected ${toolName} on ${serverLabel}: ${exhausted.scope} allows ${describeRule(exhausted.rule)}`);
+    throw new McpProxyError(
+      ErrorType.RATE_LIMIT,
+      `Rate limit exceeded for ${exhausted.scope} (${describeRule(exhausted.rule)}). Retry after ${retryAfterSeconds}s.`,
+      429,
+      { retryAfterMs: exhausted.waitMs }
+    );
+  }
+
+  for (const { bucket } of limits) {
+    bucket.tokens -= 1;
+  }
+}
+
+/**
+ * Gets rejection counters for all servers that had a call rejected
+ */
+export function getRateLimitStats(): RateLimitStats[] {
+  return Array.from(stats.values()).map(entry => ({
+    ...entry,
+    toolRejections: { ...entry.toolRejections },
+  }));
+}
+
+/**
+ * Clears all buckets and rejection counters
+ */
+export function resetRateLimits(): void {
+  buckets.clear();
+  stats.clear();
+}
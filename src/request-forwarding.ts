@@ -0,0 +1,256 @@
+/**
+ * Request forwarding helpers for proxied downstream calls
+ *
+ * When the proxy forwards a client request (e.g. tools/call) to a downstream
+ * MCP server, these helpers build the SDK request options that tie the
+ * downstream request back to the upstream one:
+ * - Progress: the upstream `_meta.progressToken` is relayed so every
+ *   `notifications/progress` emitted downstream is re-sent to the client
+ * - Cancellation: in-flight downstream requests are tracked per upstream
+ *   request id, so a client `notifications/cancelled` aborts the downstream
+ *   call (the SDK then sends the matching cancellation to the server)
+ * - Server-to-client requests: sampling and elicitation requests a downstream
+ *   server sends while handling a call are routed back through the upstream
+ *   request that triggered it, and refused when that request cannot be told
+ *   apart from another client session's (see findUpstreamRequest)
+ *
+ * The relay is transport-agnostic: the downstream side is handled by the SDK
+ * Client (STDIO, SSE and Streamable HTTP alike) and the upstream side uses the
+ * handler's `sendNotification`, which routes to the originating request stream.
+ */
+
+import type { RequestHandlerExtra, RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  McpError,
+  type ClientCapabilities,
+  type Progress,
+  type RequestMeta,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { getUpstreamSessionId } from "./upstream-sessions.js";
+import { getCurrentTenant } from "./tenants.js";
+
+/**
+ * Extra context passed by the SDK to the proxy's upstream request handlers
+ */
+export type UpstreamRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Builds request options that relay downstream progress notifications upstream.
+ *
+ * The SDK Client replaces the progress token on the downstream request with its
+ * own message id, so progress is matched back to this call and re-emitted with
+ * the token the client originally supplied.
+ *
+ * @param meta - The `_meta` of the incoming upstream request
+ * @param extra - The upstream handler context used to send notifications
+ * @returns Request options for `client.request()`; empty if no token was sent
+ */
+export function createProgressRelay(
+  meta: RequestMeta | undefined,
+  extra: Pick<UpstreamRequestExtra, 'sendNotification'> | undefined
+): RequestOptions {
+  const progressToken = meta?.progressToken;
+  if (progressToken === undefined || !extra) {
+    return {};
+  }
+
+  return {
+    onprogress: (progress: Progress) => {
+      extra.sendNotification({
+        method: "notifications/progress",
+        params: { ...progress, progressToken },
+      }).catch(error => {
+        debugError(`[Progress Relay] Failed to forward progress for token ${progressToken}:`, error);
+      });
+    },
+    // Long-running tools that report progress should not hit the request timeout
+    resetTimeoutOnProgress: true,
+  };
+}
+
+/**
+ * A downstream request that is currently being forwarded for a client
+ */
+interface InFlightRequest {
+  serverUuid: string;
+  /** Upstream session the request came from */
+  upstreamSessionId: string;
+  /** Tenant that made the request, in tenant mode */
+  tenantId?: string;
+  method: string;
+  controller: AbortController;
+  startedAt: number;
+  sendRequest?: UpstreamRequestExtra['sendRequest'];
+  clientCapabilities?: ClientCapabilities;
+}
+
+/**
+ * The upstream request a downstream server-to-client request is routed through
+ */
+export interface UpstreamRequestRoute {
+  /** Sends a request to the client on the originating request's stream */
+  sendRequest: UpstreamRequestExtra['sendRequest'];
+  /** Aborted when the originating upstream request is cancelled */
+  signal: AbortSignal;
+  /** Capabilities the client declared, if known */
+  clientCapabilities?: ClientCapabilities;
+  /** The forwarded MCP method (e.g. tools/call) */
+  method: string;
+  /** Upstream session the request came from */
+  sessionId: string;
+}
+
+/**
+ * Handle returned when a downstream request is registered as in flight
+ */
+export interface TrackedDownstreamRequest {
+  /** Signal to pass to `client.request()`; aborted when the client cancels */
+  signal: AbortSignal;
+  /** Frees the in-flight slot; must be called once the downstream call settles */
+  release: () => void;
+}
+
+// Map of upstream request key -> in-flight downstream request
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Builds the in-flight key for an upstream request.
+ * Request ids are only unique per connection, so HTTP sessions are part of the key.
+ */
+function getInFlightKey(extra: Pick<UpstreamRequestExtra, 'requestId' | 'sessionId'>): string {
+  return `${getUpstreamSessionId(extra.sessionId)}:${String(extra.requestId)}`;
+}
+
+/**
+ * Registers a downstream request as in flight for the given upstream request.
+ *
+ * The returned signal is aborted when the upstream request is cancelled by the
+ * client, which makes the SDK reject the pending `client.request()` and send
+ * `notifications/cancelled` to the downstream server.
+ *
+ * @param extra - The upstream handler context (request id, session, abort signal,
+ *   and `sendRequest` for routing sampling/elicitation back to the client)
+ * @param serverUuid - UUID of the downstream server handling the request
+ * @param method - The forwarded MCP method (for logging)
+ * @param clientCapabilities - Capabilities of the upstream client, if known
+ * @returns The downstream abort signal and a release function
+ */
+export function trackDownstreamRequest(
+  extra: Pick<UpstreamRequestExtra, 'requestId' | 'sessionId' | 'signal'> & Partial<Pick<UpstreamRequestExtra, 'sendRequest'>>,
+  serverUuid: string,
+  method: string,
+  clientCapabilities?: ClientCapabilities
+): TrackedDownstreamRequest {
+  const key = getInFlightKey(extra);
+  const controller = new AbortController();
+  const entry: InFlightRequest = {
+    serverUuid,
+    upstreamSessionId: getUpstreamSessionId(extra.sessionId),
+    tenantId: getCurrentTenant()?.id,
+    method,
+    controller,
+    startedAt: Date.now(),
+    sendRequest: extra.sendRequest,
+    clientCapabilities,
+  };
+  inFlightRequests.set(key, entry);
+
+  const onUpstreamAbort = () => {
+    debugLog(`[Request Forwarding] Client cancelled ${method} (${key}), cancelling downstream request on ${serverUuid}`);
+    controller.abort(extra.signal.reason);
+  };
+
+  if (extra.signal.aborted) {
+    onUpstreamAbort();
+  } else {
+    extra.signal.addEventListener('abort', onUpstreamAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    release: () => {
+      extra.signal.removeEventListener('abort', onUpstreamAbort);
+      // Only remove our own entry; a reused request id may have replaced it
+      if (inFlightRequests.get(key) === entry) {
+        inFlightRequests.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Finds the upstream request to route a downstream server-to-client request through.
+ *
+ * Server-to-client requests carry no reference to the call that caused them,
+ * so they are matched to the in-flight requests of the downstream client's
+ * tenant to the same server. Requests of one upstream session all reach the
+ * same client, so the most recent is used; when in-flight requests of several
+ * sessions qualify, the request is refused rather than risk showing one
+ * client's prompt to another.
+ *
+ * @param serverUuid - UUID of the downstream server sending the request
+ * @param tenantId - Tenant whose downstream client received the request, in tenant mode
+ * @returns The route, or undefined if no client request is in flight for the server
+ * @throws McpError if requests of more than one upstream session are in flight for the server
+ */
+export function findUpstreamRequest(serverUuid: string, tenantId?: string): UpstreamRequestRoute | undefined {
+  let latest: InFlightRequest | undefined;
+  const sessionIds = new Set<string>();
+  let candidates = 0;
+  for (const entry of inFlightRequests.values()) {
+    if (
+      entry.serverUuid === serverUuid &&
+      entry.tenantId === tenantId &&
+      entry.sendRequest &&
+      !entry.controller.signal.aborted
+    ) {
+      candidates++;
+      sessionIds.add(entry.upstreamSessionId);
+      if (!latest || entry.startedAt >= latest.startedAt) {
+        latest = entry;
+      }
+    }
+  }
+
+  if (!latest?.sendRequest) {
+    return undefined;
+  }
+  if (sessionIds.size > 1) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Requests of ${sessionIds.size} client sessions are in flight for server ${serverUuid}; cannot tell which one this request belongs to`
+    );
+  }
+  if (candidates > 1) {
+    debugLog(`[Request Forwarding] ${candidates} requests in flight for ${serverUuid}, routing to the most recent ${latest.method}`);
+  }
+
+  return {
+    sendRequest: latest.sendRequest,
+    signal: latest.controller.signal,
+    clientCapabilities: latest.clientCapabilities,
+    method: latest.method,
+    sessionId: latest.upstreamSessionId,
+  };
+}
+
+/**
+ * Gets the number of downstream requests currently in flight
+ * @param serverUuid - Optional server UUID to count requests for a single server
+ */
+export function getInFlightRequestCount(serverUuid?: string): number {
+  if (!serverUuid) {
+    return inFlightRequests.size;
+  }
+  let count = 0;
+  for (const entry of inFlightRequests.values()) {
+    if (entry.serverUuid === serverUuid) {
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,288 @@
+/**
+ * Resource subscriptions proxied to downstream servers
+ *
+ * A client's `resources/subscribe` is forwarded to the downstream server that
+ * owns the URI. Subscriptions are shared per tenant, server and URI: the first
+ * upstream session subscribes downstream, later ones only join, and the
+ * downstream subscription is dropped when the last upstream session
+ * unsubscribes. Each upstream session holds at most one subscription per URI.
+ *
+ * `notifications/resources/updated` from a downstream connection is fanned out
+ * to every upstream session subscribed to the URI (or to a parent URI) on that
+ * connection.
+ *
+ * Cleanup happens on either side:
+ * - Upstream session closed: its subscriptions are released
+ * - Downstream connection lost or evicted: subscriptions on it are kept, and
+ *   subscribed again once the pool reconnects to the server, since the server
+ *   forgot them along with the connection. Subscribers are then told the
+ *   resource was updated, as they may have missed updates in between.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { onSessionClosed, onSessionConnected, retainServerSession } from "./sessions.js";
+import { onUpstreamSessionClosed, sendToUpstreamSession } from "./upstream-sessions.js";
+import { getCurrentTenant } from "./tenants.js";
+
+interface ResourceSubscription {
+  /** Key in the subscriptions map, see getSubscriptionKey */
+  key: string;
+  tenantId?: string;
+  uri: string;
+  serverUuid: string;
+  /** Client holding the downstream subscription; undefined while the connection is lost */
+  client?: Client;
+  /** Upstream sessions subscribed; the downstream subscription is dropped once none is left */
+  upstreamSessions: Set<string>;
+  /** Settles once the downstream server accepted the subscription */
+  ready: Promise<void>;
+  /** Releases the hold that keeps the downstream session open */
+  release: () => void;
+}
+
+// Map of subscription key -> shared downstream subscription
+const subscriptions = new Map<string, ResourceSubscription>();
+// Map of upstream key (see getUpstreamKey) -> the subscription the session joined
+const upstreamSubscriptions = new Map<string, ResourceSubscription>();
+
+function getSubscriptionKey(serverUuid: string, uri: string): string {
+  return `${getCurrentTenant()?.id ?? ''}:${serverUuid}:${uri}`;
+}
+
+function getUpstreamKey(upstreamSessionId: string, uri: string, tenantId = getCurrentTenant()?.id): string {
+  return `${tenantId ?? ''}:${upstreamSessionId}:${uri}`;
+}
+
+// Downstream clients that already forward resources/updated notifications
+const clientsWithUpdateHandler = new WeakSet<Client>();
+
+/**
+ * Checks whether an updated URI is covered by a subscription.
+ * Servers may report updates for sub-resources of the subscribed URI.
+ */
+function matchesSubscription(subscribedUri: string, updatedUri: string): boolean {
+  if (updatedUri === subscribedUri) {
+    return true;
+  }
+  if (!updatedUri.startsWith(subscribedUri)) {
+    return false;
+  }
+  return subscribedUri.endsWith('/') || updatedUri.charAt(subscribedUri.length) === '/';
+}
+
+function removeSubscription(subscription: ResourceSubscription, unsubscribeDownstream: boolean): void {
+  if (subscriptions.get(subscription.key) === subscription) {
+    subscriptions.delete(subscription.key);
+  }
+  for (const upstreamSessionId of subscription.upstreamSessions) {
+    const upstreamKey = getUpstreamKey(upstreamSessionId, subscription.uri, subscription.tenantId);
+    if (upstreamSubscriptions.get(upstreamKey) === subscription) {
+      upstreamSubscriptions.delete(upstreamKey);
+    }
+  }
+  subscription.upstreamSessions.clear();
+  subscription.release();
+
+  const client = subscription.client;
+  if (unsubscribeDownstream && client) {
+    client.unsubscribeResource({ uri: subscription.uri }).catch(error => {
+      debugError(`[Resource Subscriptions] Failed to unsubscribe ${subscription.uri} downstream:`, error);
+    });
+  }
+}
+
+async function notifySubscribers(upstreamSessionIds: Iterable<string>, uri: string): Promise<number> {
+  let delivered = 0;
+  await Promise.allSettled(Array.from(upstreamSessionIds, async (sessionId) => {
+    try {
+      const sent = await sendToUpstreamSession(sessionId, {
+        method: "notifications/resources/updated",
+        params: { uri },
+      });
+      if (sent) {
+        delivered++;
+      }
+    } catch (error) {
+      debugError(`[Resource Subscriptions] Failed to notify session ${sessionId} of update to ${uri}:`, error);
+    }
+  }));
+  return delivered;
+}
+
+/**
+ * Forwards a downstream resources/updated notification to subscribed clients
+ * @param client - The downstream client that received the notification
+ * @param uri - URI of the updated resource
+ * @returns The number of upstream sessions notified
+ */
+export async function forwardResourceUpdated(client: Client, uri: string): Promise<number> {
+  const targets = new Set<string>();
+  for (const subscription of subscriptions.values()) {
+    if (subscription.client === client && matchesSubscription(subscription.uri, uri)) {
+      subscription.upstreamSessions.forEach(sessionId => targets.add(sessionId));
+    }
+  }
+  return notifySubscribers(targets, uri);
+}
+
+function ensureUpdateHandler(client: Client): void {
+  if (clientsWithUpdateHandler.has(client)) {
+    return;
+  }
+  clientsWithUpdateHandler.add(client);
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+    await forwardResourceUpdated(client, notification.params.uri);
+  });
+}
+
+/**
+ * Subscribes downstream on a client, e.g. a new connection of the server
+ */
+function subscribeDownstream(subscription: ResourceSubscription, client: Client): Promise<void> {
+  ensureUpdateHandler(client);
+  subscription.client = client;
+  subscription.ready = client.subscribeResource({ uri: subscription.uri }).then(() => undefined);
+  return subscription.ready;
+}
+
+/**
+ * Subscribes an upstream session to a resource on a downstream server
+ * @param uri - The resource URI
+ * @param upstreamSessionId - The subscribing client session
+ * @param serverUuid - UUID of the downstream server owning the URI
+ * @param client - Connected client of the downstream server
+ */
+export async function subscribeToResource(
+  uri: string,
+  upstreamSessionId: string,
+  serverUuid: string,
+  client: Client
+): Promise<void> {
+  const key = getSubscriptionKey(serverUuid, uri);
+  const upstreamKey = getUpstreamKey(upstreamSessionId, uri);
+
+  // The URI is owned by another server now
+  const joined = upstreamSubscriptions.get(upstreamKey);
+  if (joined && joined.key !== key) {
+    leaveSubscription(joined, upstreamSessionId);
+  }
+
+  let subscription = subscriptions.get(key);
+  if (subscription && subscription.client !== client) {
+    // The server reconnected and the subscription was not renewed yet
+    try {
+      await subscribeDownstream(subscription, client);
+    } catch (error) {
+      removeSubscription(subscription, false);
+      throw error;
+    }
+  } else if (subscription) {
+    await subscription.ready;
+  } else {
+    const created: ResourceSubscription = {
+      key,
+      tenantId: getCurrentTenant()?.id,
+      uri,
+      serverUuid,
+      upstreamSessions: new Set(),
+      ready: Promise.resolve(),
+      release: retainServerSession(serverUuid),
+    };
+    subscriptions.set(key, created);
+    subscription = created;
+
+    try {
+      await subscribeDownstream(created, client);
+    } catch (error) {
+      removeSubscription(created, false);
+      throw error;
+    }
+    debugLog(`[Resource Subscriptions] Subscribed to ${uri} on ${serverUuid}`);
+  }
+
+  subscription.upstreamSessions.add(upstreamSessionId);
+  upstreamSubscriptions.set(upstreamKey, subscription);
+}
+
+/**
+ * Unsubscribes an upstream session from a resource. The downstream subscription
+ * is removed once no upstream session is subscribed anymore.
+ * @param uri - The resource URI
+ * @param upstreamSessionId - The unsubscribing client session
+ */
+export function unsubscribeFromResource(uri: string, upstreamSessionId: string): void {
+  const subscription = upstreamSubscriptions.get(getUpstreamKey(upstreamSessionId, uri));
+  if (subscription) {
+    leaveSubscription(subscription, upstreamSessionId);
+  }
+}
+
+function leaveSubscription(subscription: ResourceSubscription, upstreamSessionId: string): void {
+  subscription.upstreamSessions.delete(upstreamSessionId);
+  const upstreamKey = getUpstreamKey(upstreamSessionId, subscription.uri, subscription.tenantId);
+  if (upstreamSubscriptions.get(upstreamKey) === subscription) {
+    upstreamSubscriptions.delete(upstreamKey);
+  }
+  if (subscription.upstreamSessions.size === 0) {
+    debugLog(`[Resource Subscriptions] Last subscriber left ${subscription.uri}, unsubscribing downstream`);
+    removeSubscription(subscription, true);
+  }
+}
+
+/**
+ * Gets the number of upstream subscriptions, optionally for a single session
+ * @param upstreamSessionId - Optional client session to count subscriptions for
+ */
+export function getResourceSubscriptionCount(upstreamSessionId?: string): number {
+  let count = 0;
+  for (const subscription of subscriptions.values()) {
+    if (!upstreamSessionId) {
+      count += subscription.upstreamSessions.size;
+    } else if (subscription.upstreamSessions.has(upstreamSessionId)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Both hooks below run in the context of the downstream session's tenant
+const isServerSubscription = (subscription: ResourceSubscription, serverUuid: string): boolean =>
+  subscription.serverUuid === serverUuid && subscription.tenantId === getCurrentTenant()?.id;
+
+// Release subscriptions of clients that disconnected
+onUpstreamSessionClosed((sessionId) => {
+  for (const subscription of Array.from(subscriptions.values())) {
+    if (subscription.upstreamSessions.has(sessionId)) {
+      leaveSubscription(subscription, sessionId);
+    }
+  }
+});
+
+// The server forgot the subscriptions of a connection that went away
+onSessionClosed((serverUuid) => {
+  for (const subscription of subscriptions.values()) {
+    if (isServerSubscription(subscription, serverUuid)) {
+      debugLog(`[Resource Subscriptions] Connection to ${serverUuid} closed, ${subscription.uri} is subscribed again on reconnect`);
+      subscription.client = undefined;
+    }
+  }
+});
+
+// Subscribe again on the new connection, and have clients re-read what they may have missed
+onSessionConnected((serverUuid, client) => {
+  for (const subscription of Array.from(subscriptions.values())) {
+    if (!isServerSubscription(subscription, serverUuid) || subscription.client === client) {
+      continue;
+    }
+    const subscribers = Array.from(subscription.upstreamSessions);
+    subscribeDownstream(subscription, client)
+      .then(() => debugLog(`[Resource Subscriptions] Subscribed again to ${subscription.uri} on ${serverUuid}`))
+      .catch(error => {
+        debugError(`[Resource Subscriptions] Failed to subscribe again to ${subscription.uri} on ${serverUuid}, dropping it:`, error);
+        removeSubscription(subscription, false);
+      })
+      .finally(() => notifySubscribers(subscribers, subscription.uri));
+  }
+});
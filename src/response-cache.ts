@@ -0,0 +1,223 @@
+/**
+ * Cache of read-only downstream tool results
+ *
+ * The cache is opt-in: PLUGGEDIN_RESPONSE_CACHE_TTL_MS enables it for every
+ * server, and custom instructions set a server's own TTL ("cache results for
+ * 5 minutes") or switch caching off for it ("no caching"). Only tools that are
+ * read-only by their readOnlyHint or the server's read tools list are cached;
+ * the name heuristic is not trusted for this.
+ *
+ * Results are keyed by server UUID, tool name and a hash of the canonical
+ * JSON of the arguments, so argument order does not matter; in tenant mode
+ * the key starts with the tenant id. Error results and
+ * results above PLUGGEDIN_RESPONSE_CACHE_MAX_ENTRY_BYTES are not cached, and
+ * the least recently used results are evicted once the cache holds more than
+ * PLUGGEDIN_RESPONSE_CACHE_MAX_BYTES.
+ *
+ * A call with `_meta: { "pluggedin/cache": "bypass" }` skips the cached result
+ * and caches the fresh one. Calling any other tool of a server, or a change
+ * of its tool list, drops the server's cached results, including those of
+ * reads still in flight.
+ */
+
+import { createHash } from "crypto";
+import { ToolExecutionResult } from "./types.js";
+import { Constraints, ToolClassification } from "./utils/custom-instructions.js";
+import { debugError, debugLog } from "./debug-log.js";
+import { getCurrentTenant } from "./tenants.js";
+import {
+  DEFAULT_RESPONSE_CACHE_MAX_BYTES,
+  DEFAULT_RESPONSE_CACHE_MAX_ENTRY_BYTES,
+} from "./constants.js";
+
+/** The `_meta` key that controls the cache for a single call */
+export const CACHE_META_KEY = 'pluggedin/cache';
+
+interface CacheEntry {
+  serverUuid: string;
+  result: ToolExecutionResult;
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * A tool call as the cache sees it
+ */
+export interface CachedToolCall {
+  serverUuid: string;
+  /** The tool's name on the downstream server */
+  toolName: string;
+  args: Record<string, unknown> | undefined;
+  /** From getResponseCacheTtlMs; 0 does not cache */
+  ttlMs: number;
+  /** Whether the tool is cacheable; calls to other tools invalidate the server's results */
+  readOnly: boolean;
+  /** The call's `_meta`, checked for a bypass */
+  meta?: Record<string, unknown>;
+}
+
+// Entries in least recently used order
+const entries = new Map<string, CacheEntry>();
+// Bumped whenever a server's results are dropped, so reads in flight are not cached
+const generations = new Map<string, number>();
+let totalBytes = 0;
+
+function readLimit(varName: string, defaultValue: number): number {
+  const raw = process.env[varName];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    debugError(`[Response Cache] Ignoring invalid ${varName}="${raw}", using ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
+/**
+ * Gets how long results of a server's read-only tools are cached
+ * @param constraints - The server's parsed constraints, if it has custom instructions
+ * @returns The TTL in milliseconds, 0 when results are not cached
+ */
+export function getResponseCacheTtlMs(constraints: Constraints | undefined): number {
+  if (constraints?.cacheTtlMs !== undefined) {
+    return constraints.cacheTtlMs;
+  }
+  return readLimit('PLUGGEDIN_RESPONSE_CACHE_TTL_MS', 0);
+}
+
+/**
+ * Whether a tool's results may be cached: read-only by annotations or the server's tool lists
+ */
+export function isCacheableTool(classification: ToolClassification): boolean {
+  return classification.access === 'read' && classification.source !== 'name';
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function getCacheKey(serverUuid: string, toolName: string, args: Record<string, unknown> | undefined): string {
+  const hash = createHash('sha256').update(canonicalJson(args ?? {})).digest('hex');
+  // Tenants never share results, even of a server they both use
+  const tenantId = getCurrentTenant()?.id;
+  return `${tenantId ? `${tenantId}:` : ''}${serverUuid}:${toolName}:${hash}`;
+}
+
+function removeEntry(key: string, entry: CacheEntry): void {
+  entries.delete(key);
+  totalBytes -= entry.bytes;
+}
+
+function storeResult(key: string, serverUuid: string, result: ToolExecutionResult, ttlMs: number): void {
+  const bytes = Buffer.byteLength(JSON.stringify(result));
+  const maxBytes = readLimit('PLUGGEDIN_RESPONSE_CACHE_MAX_BYTES', DEFAULT_RESPONSE_CACHE_MAX_BYTES);
+  if (bytes > Math.min(maxBytes, readLimit('PLUGGEDIN_RESPONSE_CACHE_MAX_ENTRY_BYTES', DEFAULT_RESPONSE_CACHE_MAX_ENTRY_BYTES))) {
+    debugLog(`[Response Cache] Not caching ${key}: ${bytes} bytes is over the limit`);
+    return;
+  }
+
+  const previous = entries.get(key);
+  if (previous) {
+    removeEntry(key, previous);
+  }
+  const now = Date.now();
+  for (const [oldKey, entry] of entries) {
+    if (totalBytes + bytes <= maxBytes) {
+      break;
+    }
+    removeEntry(oldKey, entry);
+  }
+  // Expired entries are dropped too, wherever they are in the order
+  for (const [oldKey, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      removeEntry(oldKey, entry);
+    }
+  }
+  entries.set(key, { serverUuid, result, bytes, expiresAt: now + ttlMs });
+  totalBytes += bytes;
+}
+
+/**
+ * Drops the cached results of a server
+ */
+export function invalidateServerCache(serverUuid: string): void {
+  generations.set(serverUuid, (generations.get(serverUuid) ?? 0) + 1);
+  for (const [key, entry] of entries) {
+    if (entry.serverUuid === serverUuid) {
+      removeEntry(key, entry);
+    }
+  }
+}
+
+/**
+ * Runs a tool call through the cache
+ *
+ * Read-only calls return a cached result when there is one and cache a
+ * successful fresh result; any other call drops the server's cached results
+ * once it has run, whether it succeeded or not.
+ * @param call - The call and its cache settings
+ * @param execute - Forwards the call to the downstream server
+ */
+export async function withResponseCache(
+  call: CachedToolCall,
+  execute: () => Promise<ToolExecutionResult>
+): Promise<ToolExecutionResult> {
+  if (!call.readOnly) {
+    try {
+      return await execute();
+    } finally {
+      invalidateServerCache(call.serverUuid);
+    }
+  }
+  if (call.ttlMs <= 0) {
+    return execute();
+  }
+
+  const key = getCacheKey(call.serverUuid, call.toolName, call.args);
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt <= Date.now()) {
+    removeEntry(key, cached);
+  } else if (cached && call.meta?.[CACHE_META_KEY] !== 'bypass') {
+    // Move the entry to the most recently used end
+    entries.delete(key);
+    entries.set(key, cached);
+    debugLog(`[Response Cache] Hit for ${call.toolName} on ${call.serverUuid}`);
+    return cached.result;
+  }
+
+  const generation = generations.get(call.serverUuid) ?? 0;
+  const result = await execute();
+  if (!result.isError && generation === (generations.get(call.serverUuid) ?? 0)) {
+    storeResult(key, call.serverUuid, result, call.ttlMs);
+  }
+  return result;
+}
+
+/**
+ * Gets the number of cached results and their total size in bytes
+ */
+export function getResponseCacheStats(): { entries: number; bytes: number } {
+  return { entries: entries.size, bytes: totalBytes };
+}
+
+/** Clear all cached results (for testing and cleanup). */
+export function clearResponseCache(): void {
+  entries.clear();
+  generations.clear();
+  totalBytes = 0;
+}
@@ -0,0 +1,173 @@
+/**
+ * Roots relay between the connected client and downstream servers
+ *
+ * The client's roots (e.g. the workspace folders of an IDE) are fetched with
+ * `roots/list` once the client has initialized and again whenever it sends
+ * `notifications/roots/list_changed`. Downstream servers asking for
+ * `roots/list` get that list, filtered by their custom instructions:
+ * - "no roots" hides all roots from the server
+ * - "allowed roots: /path/a, file:///path/b" only exposes roots inside those
+ *   locations; a root that contains an allowed location is narrowed to it
+ *
+ * Roots are kept per upstream session, since concurrent HTTP clients may have
+ * different workspaces. A downstream `roots/list` is answered with the roots
+ * of the session whose call is in flight to that server (see
+ * findUpstreamRequest); without one, with the roots of the tenant's only
+ * session, and with none if several sessions could have asked.
+ *
+ * When the client's roots change, connected downstream servers are sent
+ * `notifications/roots/list_changed`.
+ */
+
+import { pathToFileURL } from "url";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ListRootsRequestSchema, type Root } from "@modelcontextprotocol/sdk/types.js";
+import { ServerParameters } from "./types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { extractCustomInstructions, processInstructions } from "./utils/custom-instructions.js";
+import { getCurrentTenant, runWithTenant } from "./tenants.js";
+import { findUpstreamRequest } from "./request-forwarding.js";
+import { onUpstreamSessionClosed, STDIO_SESSION_ID } from "./upstream-sessions.js";
+
+interface SessionRoots {
+  roots: Root[];
+  /** Tenant of the session, in tenant mode */
+  tenantId?: string;
+}
+
+// Map of upstream session id -> roots most recently reported by its client
+const sessionRoots = new Map<string, SessionRoots>();
+
+/**
+ * Gets the roots most recently reported by the client of an upstream session
+ * @param sessionId - The upstream session (see getUpstreamSessionId)
+ */
+export function getUpstreamRoots(sessionId: string = STDIO_SESSION_ID): Root[] {
+  return sessionRoots.get(sessionId)?.roots ?? [];
+}
+
+/**
+ * Replaces the cached roots of an upstream session
+ * @param roots - The roots returned by the client's `roots/list`
+ * @param sessionId - The upstream session (see getUpstreamSessionId)
+ * @returns true if the roots differ from the cached ones
+ */
+export function setUpstreamRoots(roots: Root[], sessionId: string = STDIO_SESSION_ID): boolean {
+  const changed = JSON.stringify(roots) !== JSON.stringify(getUpstreamRoots(sessionId));
+  sessionRoots.set(sessionId, { roots, tenantId: getCurrentTenant()?.id });
+  if (changed) {
+    debugLog(`[Roots] Client roots of session ${sessionId} updated: ${roots.map(root => root.uri).join(', ') || '(none)'}`);
+  }
+  return changed;
+}
+
+/**
+ * Finds the upstream session whose roots a downstream server is shown
+ * @param serverUuid - UUID of the downstream server asking for roots
+ * @param tenantId - Tenant whose downstream client received the request, in tenant mode
+ * @returns The session, or undefined if it cannot be told
+ */
+function findRootsSession(serverUuid: string, tenantId: string | undefined): string | undefined {
+  const route = findUpstreamRequest(serverUuid, tenantId);
+  if (route) {
+    return route.sessionId;
+  }
+  const candidates = Array.from(sessionRoots.entries()).filter(([, entry]) => entry.tenantId === tenantId);
+  return candidates.length === 1 ? candidates[0][0] : undefined;
+}
+
+/**
+ * Normalizes an allowed-roots entry (path or URI) to a URI without trailing slash
+ */
+function toRootUri(location: string): string {
+  const uri = /^[a-z][a-z0-9+.-]*:\/\//i.test(location)
+    ? location
+    : pathToFileURL(location).href;
+  return uri.length > 1 && uri.endsWith('/') ? uri.slice(0, -1) : uri;
+}
+
+function isWithin(uri: string, base: string): boolean {
+  return uri === base || uri.startsWith(`${base}/`);
+}
+
+/**
+ * Filters roots against an allow-list of locations
+ * @param roots - The client's roots
+ * @param allowed - Allowed locations (paths or URIs)
+ * @returns Roots inside an allowed location, plus allowed locations inside a root
+ */
+export function filterRoots(roots: Root[], allowed: string[]): Root[] {
+  const allowedUris = allowed.map(toRootUri);
+  const result = new Map<string, Root>();
+
+  for (const root of roots) {
+    const rootUri = toRootUri(root.uri);
+    for (const allowedUri of allowedUris) {
+      if (isWithin(rootUri, allowedUri)) {
+        result.set(root.uri, root);
+      } else if (isWithin(allowedUri, rootUri)) {
+        // Narrow the root down to the allowed sub-location
+        result.set(allowedUri, { ...root, uri: allowedUri });
+      }
+    }
+  }
+
+  return Array.from(result.values());
+}
+
+/**
+ * Gets the roots of an upstream session a downstream server may see
+ * @param serverParams - The server's parameters, including custom instructions
+ * @param sessionId - The upstream session whose roots are shown
+ */
+export function getRootsForServer(serverParams: ServerParameters, sessionId: string = STDIO_SESSION_ID): Root[] {
+  const messages = extractCustomInstructions(serverParams);
+  const constraints = messages
+    ? processInstructions(serverParams.name || serverParams.uuid, serverParams.uuid, messages)?.constraints
+    : undefined;
+
+  if (constraints?.noRoots) {
+    return [];
+  }
+  if (constraints?.allowedRoots) {
+    return filterRoots(getUpstreamRoots(sessionId), constraints.allowedRoots);
+  }
+  return getUpstreamRoots(sessionId);
+}
+
+/**
+ * Registers the `roots/list` handler on a downstream client
+ * @param client - The downstream client (before connecting)
+ * @param serverParams - Parameters of the downstream server the client talks to
+ */
+export function registerRootsHandler(client: Client, serverParams: ServerParameters): void {
+  // Answer with the roots of a session of the tenant the client was created for
+  const tenant = getCurrentTenant();
+  client.setRequestHandler(ListRootsRequestSchema, async () => {
+    const sessionId = findRootsSession(serverParams.uuid, tenant?.id);
+    if (!sessionId) {
+      debugLog(`[Roots] Cannot tell which client session ${serverParams.name || serverParams.uuid} asks for, sending no roots`);
+      return { roots: [] };
+    }
+    return { roots: runWithTenant(tenant, () => getRootsForServer(serverParams, sessionId)) };
+  });
+}
+
+/**
+ * Tells downstream servers that the roots changed
+ * @param clients - Connected downstream clients
+ */
+export async function notifyRootsChanged(clients: Client[]): Promise<void> {
+  await Promise.allSettled(clients.map(async (client) => {
+    try {
+      await client.sendRootsListChanged();
+    } catch (error) {
+      debugError('[Roots] Failed to send roots/list_changed downstream:', error);
+    }
+  }));
+}
+
+// Forget the roots of clients that disconnected
+onUpstreamSessionClosed((sessionId) => {
+  sessionRoots.delete(sessionId);
+});
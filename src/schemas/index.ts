@@ -6,6 +6,13 @@ export const DiscoverToolsInputSchema = z.object({
   force_refresh: z.boolean().optional().default(false).describe("Force refresh bypassing cache"),
 }).describe("Triggers tool discovery for configured MCP servers in the Pluggedin App.");
 
+// Define the schema for searching the downstream tools
+export const FindToolsInputSchema = z.object({
+  query: z.string().min(1, "Query cannot be empty").max(500).describe("Keywords describing what the tool should do, e.g. 'create github issue'"),
+  limit: z.number().int().min(1).max(50).optional().default(10).describe("Maximum number of tools to return"),
+  server: z.string().optional().describe("Only search the tools of this server (name or UUID)"),
+}).describe("Searches the tools of all connected MCP servers by name, description and arguments.");
+
 // Define the schema for asking questions to the knowledge base
 export const AskKnowledgeBaseInputSchema = z.object({
   query: z.string()
@@ -436,3 +443,117 @@ export const MemorySearchWithContextInputSchema = z.object({
 }).describe("Search memories with archetype-enhanced collective intelligence.");
 
 export const MemoryIndividuationInputSchema = z.object({}).describe("Get individuation score — no parameters required. Call with empty object {}.");
+
+// ===== Output Schemas =====
+// Structured results of the static tools (returned as structuredContent).
+// Objects pass unknown fields through so API additions do not break validation.
+
+export const FindToolsOutputSchema = z.object({
+  total: z.number(),
+  tools: z.array(z.object({
+    name: z.string(),
+    server: z.string().optional(),
+    description: z.string().optional(),
+    score: z.number(),
+  }).passthrough()),
+}).passthrough();
+
+const DocumentSummaryOutputSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  source: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string().optional(),
+}).passthrough();
+
+export const CreateDocumentOutputSchema = z.object({
+  documentId: z.string(),
+  title: z.string(),
+  url: z.string().optional(),
+}).passthrough();
+
+export const ListDocumentsOutputSchema = z.object({
+  total: z.number(),
+  documents: z.array(DocumentSummaryOutputSchema),
+}).passthrough();
+
+export const SearchDocumentsOutputSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    snippet: z.string().optional(),
+    relevanceScore: z.number().optional(),
+  }).passthrough()),
+}).passthrough();
+
+export const GetDocumentOutputSchema = z.object({
+  document: DocumentSummaryOutputSchema.extend({
+    content: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const UpdateDocumentOutputSchema = z.object({
+  documentId: z.string(),
+  operation: z.string(),
+  version: z.number().optional(),
+}).passthrough();
+
+const ClipboardEntryOutputSchema = z.object({
+  name: z.string().nullable().optional(),
+  idx: z.number().nullable().optional(),
+  value: z.string().optional(),
+  contentType: z.string().optional(),
+  encoding: z.string().optional(),
+  sizeBytes: z.number().optional(),
+  createdByTool: z.string().nullable().optional(),
+  createdAt: z.string().optional(),
+  expiresAt: z.string().nullable().optional(),
+}).passthrough();
+
+export const ClipboardEntryResultOutputSchema = z.object({
+  entry: ClipboardEntryOutputSchema,
+}).passthrough();
+
+export const ClipboardEntriesOutputSchema = z.object({
+  entry: ClipboardEntryOutputSchema.optional()
+    .describe("The requested entry, when a name or idx was given"),
+  entries: z.array(ClipboardEntryOutputSchema).optional()
+    .describe("Entries of the listed page, when neither name nor idx was given"),
+  total: z.number().optional(),
+}).passthrough();
+
+export const ClipboardDeleteOutputSchema = z.object({
+  deleted: z.number(),
+}).passthrough();
+
+export const MemorySessionStartOutputSchema = z.object({
+  uuid: z.string(),
+  memorySessionId: z.string(),
+}).passthrough();
+
+export const MemorySessionEndOutputSchema = z.object({
+  ended: z.boolean(),
+}).passthrough();
+
+export const MemoryObserveOutputSchema = z.object({
+  uuid: z.string().optional(),
+  type: z.string(),
+}).passthrough();
+
+const MemoryOutputSchema = z.object({
+  uuid: z.string(),
+  ringType: z.string().optional(),
+  decayStage: z.string().optional(),
+  relevanceScore: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+}).passthrough();
+
+export const MemorySearchOutputSchema = z.object({
+  results: z.array(MemoryOutputSchema),
+}).passthrough();
+
+export const MemoryDetailsOutputSchema = z.object({
+  memories: z.array(MemoryOutputSchema),
+}).passthrough();
@@ -0,0 +1,178 @@
+/**
+ * Sampling and elicitation requests from downstream servers
+ *
+ * Downstream servers may ask the client to run an LLM completion
+ * (`sampling/createMessage`) or to collect input from the user
+ * (`elicitation/create`) while handling a call. The proxy answers these on
+ * every downstream client by relaying them through the upstream request that
+ * triggered the call, so they reach the right client session and stream.
+ * Requests that cannot be matched to a single client session are refused.
+ *
+ * Policy is applied per server before anything is relayed:
+ * - PLUGGEDIN_SAMPLING_ENABLED / PLUGGEDIN_ELICITATION_ENABLED=false refuse
+ *   the request for all servers
+ * - Custom instructions can refuse it per server ("no sampling",
+ *   "no elicitation") and cap tokens ("max sampling tokens: 1000")
+ * - maxTokens is clamped to the lower of PLUGGEDIN_SAMPLING_MAX_TOKENS and
+ *   the server's own cap
+ *
+ * Downstream clients only advertise `sampling` and `elicitation` when the
+ * server's policy allows them and a connected client of the tenant supports
+ * them. Capabilities are fixed when the downstream connection opens, so a
+ * server connected before any capable client initialized does not see them
+ * until it reconnects.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  ClientCapabilities,
+  CreateMessageRequestSchema,
+  CreateMessageResultSchema,
+  CreateMessageResultWithToolsSchema,
+  ElicitRequestSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ServerParameters } from "./types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { findUpstreamRequest, UpstreamRequestRoute } from "./request-forwarding.js";
+import { getCurrentTenant } from "./tenants.js";
+import { getUpstreamClientCapabilities } from "./upstream-sessions.js";
+import { extractCustomInstructions, processInstructions } from "./utils/custom-instructions.js";
+import { DEFAULT_SAMPLING_MAX_TOKENS, SERVER_REQUEST_TIMEOUT_MS } from "./constants.js";
+
+/**
+ * Whether a downstream server may send sampling and elicitation requests
+ */
+export interface ServerRequestPolicy {
+  samplingAllowed: boolean;
+  elicitationAllowed: boolean;
+  /** Upper bound for `maxTokens` in sampling requests */
+  maxTokens: number;
+}
+
+function getGlobalMaxTokens(): number {
+  const raw = process.env.PLUGGEDIN_SAMPLING_MAX_TOKENS;
+  const value = raw ? Number(raw) : NaN;
+  if (!Number.isInteger(value) || value <= 0) {
+    if (raw) {
+      debugError(`[Server Requests] Ignoring invalid PLUGGEDIN_SAMPLING_MAX_TOKENS="${raw}"`);
+    }
+    return DEFAULT_SAMPLING_MAX_TOKENS;
+  }
+  return value;
+}
+
+/**
+ * Resolves the sampling/elicitation policy for a downstream server
+ * @param serverParams - The server's parameters, including custom instructions
+ * @returns The effective policy from environment and server constraints
+ */
+export function getServerRequestPolicy(serverParams: ServerParameters): ServerRequestPolicy {
+  const messages = extractCustomInstructions(serverParams);
+  const context = messages
+    ? processInstructions(serverParams.name || serverParams.uuid, serverParams.uuid, messages)
+    : null;
+  const constraints = context?.constraints ?? {};
+
+  const globalMaxTokens = getGlobalMaxTokens();
+  return {
+    samplingAllowed: process.env.PLUGGEDIN_SAMPLING_ENABLED !== 'false' && !constraints.noSampling,
+    elicitationAllowed: process.env.PLUGGEDIN_ELICITATION_ENABLED !== 'false' && !constraints.noElicitation,
+    maxTokens: constraints.samplingMaxTokens
+      ? Math.min(constraints.samplingMaxTokens, globalMaxTokens)
+      : globalMaxTokens,
+  };
+}
+
+/**
+ * Gets the sampling and elicitation capabilities a downstream client advertises
+ * @param serverParams - Parameters of the downstream server the client talks to
+ * @returns The capabilities the relay can serve for the current tenant's clients
+ */
+export function getRelayedClientCapabilities(
+  serverParams: ServerParameters
+): Pick<ClientCapabilities, 'sampling' | 'elicitation'> {
+  const policy = getServerRequestPolicy(serverParams);
+  const upstream = getUpstreamClientCapabilities();
+  return {
+    ...(policy.samplingAllowed && upstream.some(capabilities => capabilities.sampling) && { sampling: {} }),
+    ...(policy.elicitationAllowed && upstream.some(capabilities => capabilities.elicitation) && { elicitation: {} }),
+  };
+}
+
+/**
+ * Finds the upstream request to relay through, or explains why there is none
+ */
+function requireUpstreamRoute(
+  serverParams: ServerParameters,
+  kind: 'sampling' | 'elicitation',
+  tenantId: string | undefined
+): UpstreamRequestRoute {
+  const label = serverParams.name || serverParams.uuid;
+  const route = findUpstreamRequest(serverParams.uuid, tenantId);
+  if (!route) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `No active client request to route ${kind} from ${label} through`
+    );
+  }
+  if (route.clientCapabilities && !route.clientCapabilities[kind]) {
+    throw new McpError(ErrorCode.InvalidRequest, `The connected client does not support ${kind}`);
+  }
+  return route;
+}
+
+/**
+ * Registers sampling and elicitation request handlers on a downstream client
+ * @param client - The downstream client (before connecting)
+ * @param serverParams - Parameters of the downstream server the client talks to
+ */
+export function registerServerRequestHandlers(client: Client, serverParams: ServerParameters): void {
+  const label = serverParams.name || serverParams.uuid;
+  // Downstream clients are opened by one tenant and only serve its requests
+  const tenantId = getCurrentTenant()?.id;
+
+  client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+    const policy = getServerRequestPolicy(serverParams);
+    if (!policy.samplingAllowed) {
+      throw new McpError(ErrorCode.InvalidRequest, `Sampling is not allowed for server ${label}`);
+    }
+    const route = requireUpstreamRoute(serverParams, 'sampling', tenantId);
+
+    let params = request.params;
+    if (params.maxTokens > policy.maxTokens) {
+      debugLog(`[Server Requests] Clamping sampling maxTokens from ${params.maxTokens} to ${policy.maxTokens} for ${label}`);
+      params = { ...params, maxTokens: policy.maxTokens };
+    }
+
+    debugLog(`[Server Requests] Relaying sampling request from ${label} through ${route.method}`);
+    return route.sendRequest(
+      { method: "sampling/createMessage", params },
+      params.tools ? CreateMessageResultWithToolsSchema : CreateMessageResultSchema,
+      {
+        signal: AbortSignal.any([extra.signal, route.signal]),
+        timeout: SERVER_REQUEST_TIMEOUT_MS,
+      }
+    );
+  });
+
+  client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+    const policy = getServerRequestPolicy(serverParams);
+    if (!policy.elicitationAllowed) {
+      throw new McpError(ErrorCode.InvalidRequest, `Elicitation is not allowed for server ${label}`);
+    }
+    const route = requireUpstreamRoute(serverParams, 'elicitation', tenantId);
+
+    debugLog(`[Server Requests] Relaying elicitation request from ${label} through ${route.method}`);
+    return route.sendRequest(
+      { method: "elicitation/create", params: request.params },
+      ElicitResultSchema,
+      {
+        signal: AbortSignal.any([extra.signal, route.signal]),
+        timeout: SERVER_REQUEST_TIMEOUT_MS,
+      }
+    );
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Session stores for the Streamable HTTP transport
+ *
+ * A session's transport lives in the process that created it. The store keeps
+ * what is needed to rebuild it: the client's initialize request and the tenant
+ * the session is bound to. A request with an Mcp-Session-Id the process does
+ * not know is served by a transport rebuilt from the stored record, so
+ * sessions survive a restart of the proxy and can move between replicas.
+ *
+ * PLUGGEDIN_SESSION_STORE selects the store:
+ * - 'memory' (default): records are kept in the process, sessions end with it
+ * - 'file': one JSON file per session in PLUGGEDIN_SESSION_STORE_DIR; replicas
+ *   sharing the directory (e.g. a volume) share their sessions
+ *
+ * Records expire SESSION_TTL_MS after the session was last used on any
+ * instance, and are deleted when the client ends the session or once they
+ * expired. An instance that evicts or expires a session only closes its own
+ * transport, since another instance may be serving the session.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { debugError, debugLog } from "./debug-log.js";
+
+/**
+ * What is kept of a session to rebuild it on any instance
+ */
+export interface SessionRecord {
+  sessionId: string;
+  createdAt: number;
+  lastAccess: number;
+  /** Tenant the session is bound to, in tenant mode */
+  tenantId?: string;
+  /** Parameters of the client's initialize request */
+  initialize: InitializeRequest['params'];
+}
+
+/**
+ * Storage of session records
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionRecord | undefined>;
+  set(record: SessionRecord): Promise<void>;
+  /** Records that the session was used now */
+  touch(sessionId: string): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  /**
+   * Deletes the records of sessions not used for ttlMs
+   * @returns Number of records deleted
+   */
+  deleteExpired(ttlMs: number): Promise<number>;
+}
+
+/**
+ * Keeps session records in memory
+ */
+export class MemorySessionStore implements SessionStore {
+  private records = new Map<string, SessionRecord>();
+
+  async get(sessionId: string): Promise<SessionRecord | undefined> {
+    const record = this.records.get(sessionId);
+    return record && { ...record };
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    this.records.set(record.sessionId, { ...record });
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    const record = this.records.get(sessionId);
+    if (record) {
+      record.lastAccess = Date.now();
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.records.delete(sessionId);
+  }
+
+  async deleteExpired(ttlMs: number): Promise<number> {
+    const oldest = Date.now() - ttlMs;
+    let removed = 0;
+    for (const [sessionId, record] of this.records) {
+      if (record.lastAccess < oldest) {
+        this.records.delete(sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Keeps each session record in a JSON file of a directory
+ *
+ * Files are replaced by rename, so another process never reads a partly
+ * written record.
+ */
+export class FileSessionStore implements SessionStore {
+  private ready: Promise<void> | undefined;
+
+  constructor(private readonly dir: string) {}
+
+  async get(sessionId: string): Promise<SessionRecord | undefined> {
+    const record = await this.readRecord(this.getFile(sessionId));
+    // Guards against a hash collision handing out another session's record
+    return record?.sessionId === sessionId ? record : undefined;
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    await this.ensureDir();
+    const file = this.getFile(record.sessionId);
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(record), { mode: 0o600 });
+    await rename(temp, file);
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    const record = await this.get(sessionId);
+    if (record) {
+      await this.set({ ...record, lastAccess: Date.now() });
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await rm(this.getFile(sessionId), { force: true });
+  }
+
+  async deleteExpired(ttlMs: number): Promise<number> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+    const oldest = Date.now() - ttlMs;
+    let removed = 0;
+    for (const name of names.filter(item => item.endsWith('.json'))) {
+      const file = join(this.dir, name);
+      const record = await this.readRecord(file);
+      // Unreadable files are left for a later sweep, they may be mid-rename
+      if (record && record.lastAccess < oldest) {
+        await rm(file, { force: true });
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      debugLog(`[Session Store] Removed ${removed} expired sessions from ${this.dir}`);
+    }
+    return removed;
+  }
+
+  private ensureDir(): Promise<void> {
+    this.ready ??= mkdir(this.dir, { recursive: true, mode: 0o700 }).then(() => undefined);
+    return this.ready;
+  }
+
+  private getFile(sessionId: string): string {
+    // Session IDs come from clients, so they are never used as file names
+    const name = createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+    return join(this.dir, `${name}.json`);
+  }
+
+  private async readRecord(file: string): Promise<SessionRecord | undefined> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        debugError(`[Session Store] Could not read ${file}:`, error);
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Gets the directory of the file session store
+ */
+export function getSessionStoreDir(): string {
+  return process.env.PLUGGEDIN_SESSION_STORE_DIR?.trim() || join(tmpdir(), 'pluggedin-mcp-sessions');
+}
+
+/**
+ * Creates the session store as configured
+ */
+export function createSessionStore(): SessionStore {
+  const kind = (process.env.PLUGGEDIN_SESSION_STORE || 'memory').toLowerCase();
+
+  switch (kind) {
+    case 'file':
+      return new FileSessionStore(getSessionStoreDir());
+    case 'memory':
+      return new MemorySessionStore();
+    default:
+      debugError(`[Session Store] Unknown PLUGGEDIN_SESSION_STORE="${kind}", using memory`);
+      return new MemorySessionStore();
+  }
+}
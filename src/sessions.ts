@@ -1,56 +1,696 @@
+/**
+ * Downstream session pool
+ *
+ * Keeps one connected client per downstream MCP server and watches its health:
+ * - Crash detection: the client's `onclose`/`onerror` hooks fire when a STDIO
+ *   child exits or an SSE / Streamable HTTP server goes away
+ * - Periodic ping: connected sessions are pinged; repeated failures force a
+ *   reconnect even if the transport never reported the connection as closed
+ * - Reconnection: lost sessions are re-established in the background with
+ *   exponential backoff, and marked dead once the attempts are exhausted
+ *
+ * A session that is not connected is retried immediately when it is requested
+ * again, so a tool call never has to wait for the backoff timer.
+ *
+ * The pool is also bounded:
+ * - Idle sessions are closed after PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS
+ * - Opening more than PLUGGEDIN_DOWNSTREAM_MAX_SESSIONS evicts the least
+ *   recently used session
+ * - Requests beyond PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY per server are queued
+ *   until a slot frees up (see runWithSessionSlot)
+ *
+ * In tenant mode the pool is shared, but every session belongs to the tenant
+ * that opened it: session keys include the tenant, reconnects run in its
+ * context, and a disposed tenant closes its sessions (cleanupTenantSessions).
+ * Concurrency slots and retention are kept per tenant and server, so tenants
+ * using the same server never wait for or keep alive each other's sessions.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { getMcpServers } from "./fetch-pluggedinmcp.js";
-import { ServerParameters } from "./types.js"; // Corrected import path
+import { ServerParameters } from "./types.js";
 import {
   ConnectedClient,
   createPluggedinMCPClient,
   connectPluggedinMCPClient,
 } from "./client.js";
 import { getSessionKey } from "./utils.js";
+import { getCurrentTenant, onTenantDisposed, runWithTenant, Tenant } from "./tenants.js";
+import { debugLog, debugError } from "./debug-log.js";
+import {
+  DOWNSTREAM_PING_INTERVAL_MS,
+  DOWNSTREAM_PING_TIMEOUT_MS,
+  DOWNSTREAM_MAX_PING_FAILURES,
+  DOWNSTREAM_RECONNECT_BASE_DELAY_MS,
+  DOWNSTREAM_RECONNECT_MAX_DELAY_MS,
+  DOWNSTREAM_MAX_RECONNECT_ATTEMPTS,
+  DEFAULT_DOWNSTREAM_IDLE_TIMEOUT_MS,
+  DEFAULT_DOWNSTREAM_MAX_SESSIONS,
+  DEFAULT_DOWNSTREAM_MAX_CONCURRENCY,
+} from "./constants.js";
 
-const _sessions: Record<string, ConnectedClient> = {};
+/**
+ * Connection state of a downstream server session
+ * - connecting: a connection attempt is in progress
+ * - ready: connected and answering pings
+ * - degraded: errors or failed pings were seen, or a reconnect is pending
+ * - dead: reconnection attempts were exhausted (retried on next use)
+ */
+export type SessionState = 'connecting' | 'ready' | 'degraded' | 'dead';
 
-// Removed logger
+/**
+ * Health snapshot of a pooled downstream session
+ */
+export interface SessionStatus {
+  sessionKey: string;
+  serverUuid: string;
+  serverName?: string;
+  state: SessionState;
+  reconnectAttempts: number;
+  consecutiveFailures: number;
+  lastPingAt?: number;
+  lastUsedAt: number;
+  lastError?: string;
+  activeRequests: number;
+  queuedRequests: number;
+}
 
-export const getSession = async (
-  sessionKey: string,
-  uuid: string,
-  params: ServerParameters
-): Promise<ConnectedClient | undefined> => {
-  if (sessionKey in _sessions) {
-    return _sessions[sessionKey];
+interface PooledSession {
+  sessionKey: string;
+  uuid: string;
+  /** Tenant that opened the session, in tenant mode */
+  tenant?: Tenant;
+  params: ServerParameters;
+  state: SessionState;
+  connected?: ConnectedClient;
+  connecting?: Promise<ConnectedClient | undefined>;
+  reconnectTimer?: NodeJS.Timeout;
+  reconnectAttempts: number;
+  consecutiveFailures: number;
+  lastPingAt?: number;
+  lastUsedAt: number;
+  lastError?: string;
+  pinging: boolean;
+  removed: boolean;
+}
+
+/**
+ * Concurrency slots of a downstream server
+ */
+interface ServerSlots {
+  active: number;
+  queue: Array<() => void>;
+}
+
+// Map of session key -> pooled downstream session
+const _sessions = new Map<string, PooledSession>();
+
+// Map of server key (see getServerKey) -> concurrency slots
+const _slots = new Map<string, ServerSlots>();
+
+// Map of server key -> number of holders keeping its session from idle eviction
+const _retained = new Map<string, number>();
+
+/**
+ * Keys per-server state by tenant and server UUID
+ */
+const getServerKey = (uuid: string, tenant: Tenant | undefined = getCurrentTenant()): string =>
+  tenant ? `${tenant.id}:${uuid}` : uuid;
+
+const closeListeners = new Set<(serverUuid: string) => void>();
+const connectListeners = new Set<(serverUuid: string, client: ConnectedClient['client']) => void>();
+
+let healthCheckInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Reads a non-negative integer limit from the environment
+ */
+function readLimit(varName: string, defaultValue: number): number {
+  const raw = process.env[varName];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    debugError(`[Sessions] Ignoring invalid ${varName}="${raw}", using ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
+const getIdleTimeoutMs = () =>
+  readLimit('PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS', DEFAULT_DOWNSTREAM_IDLE_TIMEOUT_MS);
+const getMaxSessions = () =>
+  readLimit('PLUGGEDIN_DOWNSTREAM_MAX_SESSIONS', DEFAULT_DOWNSTREAM_MAX_SESSIONS);
+const getMaxConcurrency = () =>
+  readLimit('PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY', DEFAULT_DOWNSTREAM_MAX_CONCURRENCY);
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const getServerLabel = (entry: PooledSession): string =>
+  entry.params.name || entry.uuid;
+
+/**
+ * Keeps global.sessions in sync with the connected clients of the pool
+ */
+function setGlobalSession(sessionKey: string, connected: ConnectedClient | undefined): void {
+  if (!(global as any).sessions) {
+    (global as any).sessions = {};
+  }
+  if (connected) {
+    (global as any).sessions[sessionKey] = connected;
   } else {
-    // Close existing session for this UUID if it exists with a different hash
-    const old_session_keys = Object.keys(_sessions).filter((k) =>
-      k.startsWith(`${uuid}_`)
-    );
-
-    await Promise.allSettled(
-      old_session_keys.map(async (old_session_key) => {
-        await _sessions[old_session_key].cleanup();
-        delete _sessions[old_session_key];
-      })
-    );
-
-    const { client, transport } = createPluggedinMCPClient(params);
-    if (!client || !transport) {
+    delete (global as any).sessions[sessionKey];
+  }
+}
+
+/**
+ * Gets the backoff delay before a reconnection attempt
+ * @param attempt - Zero-based reconnection attempt number
+ * @returns Delay in milliseconds, doubling per attempt up to the maximum
+ */
+export const getReconnectDelay = (attempt: number): number =>
+  Math.min(
+    DOWNSTREAM_RECONNECT_BASE_DELAY_MS * 2 ** attempt,
+    DOWNSTREAM_RECONNECT_MAX_DELAY_MS
+  );
+
+function clearReconnectTimer(entry: PooledSession): void {
+  if (entry.reconnectTimer) {
+    clearTimeout(entry.reconnectTimer);
+    entry.reconnectTimer = undefined;
+  }
+}
+
+/**
+ * Tells listeners that the connection of a server was lost or closed
+ */
+function notifySessionClosed(entry: PooledSession): void {
+  runWithTenant(entry.tenant, () => {
+    for (const listener of closeListeners) {
+      try {
+        listener(entry.uuid);
+      } catch (error) {
+        debugError(`[Sessions] Close listener failed for ${getServerLabel(entry)}:`, error);
+      }
+    }
+  });
+}
+
+/**
+ * Tells listeners that a server was connected, for the first time or again
+ */
+function notifySessionConnected(entry: PooledSession, connected: ConnectedClient): void {
+  runWithTenant(entry.tenant, () => {
+    for (const listener of connectListeners) {
+      try {
+        listener(entry.uuid, connected.client);
+      } catch (error) {
+        debugError(`[Sessions] Connect listener failed for ${getServerLabel(entry)}:`, error);
+      }
+    }
+  });
+}
+
+/**
+ * Subscribes to downstream connections being closed, whether they crashed,
+ * failed health checks, or were evicted. State tied to the old connection
+ * (such as resource subscriptions) is gone once this fires.
+ * @param listener - Called with the UUID of the downstream server, in the
+ * context of the tenant that opened the session
+ * @returns A function that removes the listener
+ */
+export const onSessionClosed = (listener: (serverUuid: string) => void): (() => void) => {
+  closeListeners.add(listener);
+  return () => {
+    closeListeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribes to downstream connections being established, including
+ * reconnects, e.g. to restore state the server lost with the old connection
+ * @param listener - Called with the UUID of the downstream server and its new
+ * client, in the context of the tenant that opened the session
+ * @returns A function that removes the listener
+ */
+export const onSessionConnected = (
+  listener: (serverUuid: string, client: ConnectedClient['client']) => void
+): (() => void) => {
+  connectListeners.add(listener);
+  return () => {
+    connectListeners.delete(listener);
+  };
+};
+
+/**
+ * Drops the current connection of a session without triggering crash handling
+ */
+async function disconnectSession(entry: PooledSession): Promise<void> {
+  const connected = entry.connected;
+  entry.connected = undefined;
+  setGlobalSession(entry.sessionKey, undefined);
+  if (connected) {
+    notifySessionClosed(entry);
+    await connected.cleanup().catch(error => {
+      debugError(`[Sessions] Error closing session for ${getServerLabel(entry)}:`, error);
+    });
+  }
+}
+
+function scheduleReconnect(entry: PooledSession): void {
+  if (entry.removed || entry.reconnectTimer) {
+    return;
+  }
+
+  if (entry.reconnectAttempts >= DOWNSTREAM_MAX_RECONNECT_ATTEMPTS) {
+    entry.state = 'dead';
+    debugError(`[Sessions] Giving up on ${getServerLabel(entry)} after ${entry.reconnectAttempts} reconnection attempts`);
+    return;
+  }
+
+  const delay = getReconnectDelay(entry.reconnectAttempts);
+  entry.reconnectAttempts++;
+  entry.state = 'degraded';
+  debugLog(`[Sessions] Reconnecting to ${getServerLabel(entry)} in ${delay}ms (attempt ${entry.reconnectAttempts}/${DOWNSTREAM_MAX_RECONNECT_ATTEMPTS})`);
+
+  entry.reconnectTimer = setTimeout(() => {
+    entry.reconnectTimer = undefined;
+    void runWithTenant(entry.tenant, () => connectSession(entry));
+  }, delay);
+  entry.reconnectTimer.unref?.();
+}
+
+/**
+ * Hooks crash detection into a freshly connected client
+ */
+function attachHealthHooks(entry: PooledSession, connected: ConnectedClient): void {
+  const { client } = connected;
+
+  client.onclose = () => {
+    // Intentional disconnects clear entry.connected before closing
+    if (entry.connected !== connected) {
       return;
     }
+    debugError(`[Sessions] Connection to ${getServerLabel(entry)} closed unexpectedly`);
+    entry.connected = undefined;
+    entry.lastError = 'Connection closed';
+    setGlobalSession(entry.sessionKey, undefined);
+    notifySessionClosed(entry);
+    scheduleReconnect(entry);
+  };
 
-    const newClient = await connectPluggedinMCPClient(client, transport);
-    if (!newClient) {
+  client.onerror = (error: Error) => {
+    if (entry.connected !== connected) {
       return;
     }
+    debugError(`[Sessions] Transport error for ${getServerLabel(entry)}:`, error);
+    entry.lastError = error.message;
+    entry.consecutiveFailures++;
+    if (entry.state === 'ready') {
+      entry.state = 'degraded';
+    }
+  };
+}
+
+function connectSession(entry: PooledSession): Promise<ConnectedClient | undefined> {
+  if (entry.connecting) {
+    return entry.connecting;
+  }
+
+  entry.state = 'connecting';
+  const attempt = (async (): Promise<ConnectedClient | undefined> => {
+    try {
+      const { client, transport } = createPluggedinMCPClient(entry.params);
+      if (!client || !transport) {
+        // Invalid configuration will not fix itself by retrying
+        entry.state = 'dead';
+        entry.lastError = 'Invalid server configuration';
+        return undefined;
+      }
+
+      const connected = await connectPluggedinMCPClient(client, transport);
+      if (!connected) {
+        throw new Error('Failed to connect to server');
+      }
+
+      if (entry.removed) {
+        await connected.cleanup().catch(() => {});
+        return undefined;
+      }
+
+      attachHealthHooks(entry, connected);
+      entry.connected = connected;
+      entry.state = 'ready';
+      entry.reconnectAttempts = 0;
+      entry.consecutiveFailures = 0;
+      entry.lastError = undefined;
+      setGlobalSession(entry.sessionKey, connected);
+      startHealthChecks();
+
+      debugLog(`[Sessions] Connected to ${getServerLabel(entry)}`);
+      notifySessionConnected(entry, connected);
+      return connected;
+    } catch (error) {
+      entry.lastError = getErrorMessage(error);
+      debugError(`[Sessions] Failed to connect to ${getServerLabel(entry)}:`, error);
+      scheduleReconnect(entry);
+      return undefined;
+    }
+  })();
 
-    _sessions[sessionKey] = newClient;
-    
-    // Maintain global.sessions
-    if (!(global as any).sessions) {
-      (global as any).sessions = {};
+  entry.connecting = attempt;
+  attempt.finally(() => {
+    if (entry.connecting === attempt) {
+      entry.connecting = undefined;
     }
-    (global as any).sessions[sessionKey] = newClient;
+  });
+  return attempt;
+}
 
-    return newClient;
+async function pingSession(entry: PooledSession): Promise<void> {
+  const connected = entry.connected;
+  if (!connected || entry.pinging) {
+    return;
   }
+
+  entry.pinging = true;
+  try {
+    await connected.client.ping({ timeout: DOWNSTREAM_PING_TIMEOUT_MS });
+    if (entry.connected !== connected) {
+      return;
+    }
+    entry.state = 'ready';
+    entry.consecutiveFailures = 0;
+    entry.lastPingAt = Date.now();
+  } catch (error) {
+    if (entry.connected !== connected) {
+      return;
+    }
+    // A server that rejects ping is still alive and answering
+    if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      entry.state = 'ready';
+      entry.lastPingAt = Date.now();
+      return;
+    }
+
+    entry.consecutiveFailures++;
+    entry.lastError = getErrorMessage(error);
+    entry.state = 'degraded';
+    debugError(`[Sessions] Ping to ${getServerLabel(entry)} failed (${entry.consecutiveFailures}/${DOWNSTREAM_MAX_PING_FAILURES}):`, error);
+
+    if (entry.consecutiveFailures >= DOWNSTREAM_MAX_PING_FAILURES) {
+      await disconnectSession(entry);
+      scheduleReconnect(entry);
+    }
+  } finally {
+    entry.pinging = false;
+  }
+}
+
+/**
+ * Pings every connected downstream session once and updates its state.
+ * Runs periodically while sessions exist; exported for on-demand checks.
+ */
+export const checkSessionHealth = async (): Promise<void> => {
+  await Promise.allSettled(Array.from(_sessions.values()).map(pingSession));
+};
+
+function startHealthChecks(): void {
+  if (healthCheckInterval) {
+    return;
+  }
+  healthCheckInterval = setInterval(() => {
+    // Close idle sessions first so they are not pinged needlessly
+    void evictIdleSessions().then(checkSessionHealth);
+  }, DOWNSTREAM_PING_INTERVAL_MS);
+  // Health checks must not keep the process alive on their own
+  healthCheckInterval.unref?.();
+}
+
+function stopHealthChecks(): void {
+  if (healthCheckInterval) {
+    clearInterval(healthCheckInterval);
+    healthCheckInterval = null;
+  }
+}
+
+async function removeSession(entry: PooledSession): Promise<void> {
+  entry.removed = true;
+  clearReconnectTimer(entry);
+  _sessions.delete(entry.sessionKey);
+  await disconnectSession(entry);
+}
+
+/**
+ * Checks whether a session's server has requests running or waiting for a
+ * slot, or is retained by a long-lived holder, for the session's tenant
+ */
+function isSessionBusy(entry: PooledSession): boolean {
+  const serverKey = getServerKey(entry.uuid, entry.tenant);
+  const slots = _slots.get(serverKey);
+  return (!!slots && (slots.active > 0 || slots.queue.length > 0)) || _retained.has(serverKey);
+}
+
+/**
+ * Keeps a server's session from being closed as idle or evicted by LRU,
+ * e.g. while clients hold resource subscriptions on it
+ * @param uuid - UUID of the downstream server
+ * @returns A function that releases the hold (safe to call more than once)
+ */
+export const retainServerSession = (uuid: string): (() => void) => {
+  const serverKey = getServerKey(uuid);
+  _retained.set(serverKey, (_retained.get(serverKey) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const count = (_retained.get(serverKey) ?? 1) - 1;
+    if (count > 0) {
+      _retained.set(serverKey, count);
+    } else {
+      _retained.delete(serverKey);
+    }
+  };
+};
+
+/**
+ * Closes sessions that have not been used within the idle timeout.
+ * Sessions with requests in flight or queued are never evicted.
+ */
+export const evictIdleSessions = async (): Promise<void> => {
+  const idleTimeoutMs = getIdleTimeoutMs();
+  if (idleTimeoutMs === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const idle = Array.from(_sessions.values()).filter((entry) =>
+    now - entry.lastUsedAt >= idleTimeoutMs && !isSessionBusy(entry)
+  );
+
+  await Promise.allSettled(idle.map(async (entry) => {
+    debugLog(`[Sessions] Closing idle session for ${getServerLabel(entry)}`);
+    await removeSession(entry);
+  }));
+};
+
+/**
+ * Evicts the least recently used idle session if the pool is at capacity
+ * (LRU eviction). If every session is busy, the pool temporarily grows instead.
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const maxSessions = getMaxSessions();
+  if (maxSessions === 0 || _sessions.size < maxSessions) {
+    return;
+  }
+
+  let oldest: PooledSession | undefined;
+  for (const entry of _sessions.values()) {
+    if (!isSessionBusy(entry) && (!oldest || entry.lastUsedAt < oldest.lastUsedAt)) {
+      oldest = entry;
+    }
+  }
+
+  if (!oldest) {
+    debugLog(`[Sessions] All ${_sessions.size} sessions are busy, exceeding the limit of ${maxSessions}`);
+    return;
+  }
+
+  debugLog(`[Sessions] Evicted least recently used session for ${getServerLabel(oldest)} (LRU eviction)`);
+  await removeSession(oldest);
+}
+
+function touchServer(uuid: string): void {
+  const now = Date.now();
+  const tenantId = getCurrentTenant()?.id;
+  for (const entry of _sessions.values()) {
+    if (entry.uuid === uuid && entry.tenant?.id === tenantId) {
+      entry.lastUsedAt = now;
+    }
+  }
+}
+
+/**
+ * Runs a downstream request within the server's concurrency limit.
+ *
+ * When the server already has the maximum number of requests in flight, the
+ * task waits in a FIFO queue. Aborting the signal while queued rejects without
+ * running the task.
+ *
+ * @param uuid - UUID of the downstream server
+ * @param signal - Optional signal that cancels the wait (e.g. client cancellation)
+ * @param task - The downstream request to run once a slot is free
+ * @returns The result of the task
+ */
+export const runWithSessionSlot = async <T>(
+  uuid: string,
+  signal: AbortSignal | undefined,
+  task: () => Promise<T>
+): Promise<T> => {
+  const maxConcurrency = getMaxConcurrency();
+  const serverKey = getServerKey(uuid);
+  let slots = _slots.get(serverKey);
+  if (!slots) {
+    slots = { active: 0, queue: [] };
+    _slots.set(serverKey, slots);
+  }
+  const serverSlots = slots;
+
+  if (maxConcurrency > 0 && serverSlots.active >= maxConcurrency) {
+    signal?.throwIfAborted();
+    debugLog(`[Sessions] ${serverSlots.active} requests in flight for ${uuid}, queueing request`);
+
+    await new Promise<void>((resolve, reject) => {
+      const onGranted = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = serverSlots.queue.indexOf(onGranted);
+        if (index !== -1) {
+          serverSlots.queue.splice(index, 1);
+        }
+        reject(signal?.reason ?? new Error('Request cancelled while queued'));
+      };
+      serverSlots.queue.push(onGranted);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    // The releasing request handed its slot over, so active is unchanged
+  } else {
+    serverSlots.active++;
+  }
+
+  touchServer(uuid);
+  try {
+    return await task();
+  } finally {
+    touchServer(uuid);
+    const next = serverSlots.queue.shift();
+    if (next) {
+      next();
+    } else {
+      serverSlots.active--;
+      if (serverSlots.active === 0 && _slots.get(serverKey) === serverSlots) {
+        _slots.delete(serverKey);
+      }
+    }
+  }
+};
+
+export const getSession = async (
+  sessionKey: string,
+  uuid: string,
+  params: ServerParameters
+): Promise<ConnectedClient | undefined> => {
+  const existing = _sessions.get(sessionKey);
+  if (existing) {
+    existing.lastUsedAt = Date.now();
+    if (existing.connected) {
+      return existing.connected;
+    }
+    if (existing.connecting) {
+      return existing.connecting;
+    }
+
+    // The session was lost: reconnect now rather than waiting for the backoff timer
+    clearReconnectTimer(existing);
+    if (existing.state === 'dead') {
+      existing.reconnectAttempts = 0;
+    }
+    return connectSession(existing);
+  }
+
+  // Close existing session for this UUID if it exists with a different hash
+  const tenant = getCurrentTenant();
+  const oldSessions = Array.from(_sessions.values()).filter((entry) =>
+    entry.sessionKey.startsWith(`${uuid}_`) && entry.tenant?.id === tenant?.id
+  );
+  await Promise.allSettled(oldSessions.map(removeSession));
+  await evictLeastRecentlyUsed();
+
+  const entry: PooledSession = {
+    sessionKey,
+    uuid,
+    tenant,
+    params,
+    state: 'connecting',
+    reconnectAttempts: 0,
+    consecutiveFailures: 0,
+    lastUsedAt: Date.now(),
+    pinging: false,
+    removed: false,
+  };
+  _sessions.set(sessionKey, entry);
+
+  return connectSession(entry);
+};
+
+const toSessionStatus = (entry: PooledSession): SessionStatus => {
+  const slots = _slots.get(getServerKey(entry.uuid, entry.tenant));
+  return {
+    sessionKey: entry.sessionKey,
+    serverUuid: entry.uuid,
+    serverName: entry.params.name,
+    state: entry.state,
+    reconnectAttempts: entry.reconnectAttempts,
+    consecutiveFailures: entry.consecutiveFailures,
+    lastPingAt: entry.lastPingAt,
+    lastUsedAt: entry.lastUsedAt,
+    lastError: entry.lastError,
+    activeRequests: slots?.active ?? 0,
+    queuedRequests: slots?.queue.length ?? 0,
+  };
+};
+
+/**
+ * Gets the health status of every pooled downstream session
+ */
+export const getSessionStatuses = (): SessionStatus[] =>
+  Array.from(_sessions.values()).map(toSessionStatus);
+
+const isCurrentTenant = (entry: PooledSession): boolean =>
+  entry.tenant?.id === getCurrentTenant()?.id;
+
+/**
+ * Gets the clients of the current tenant's connected downstream sessions
+ */
+export const getConnectedSessions = (): Array<{ serverUuid: string; client: ConnectedClient['client'] }> =>
+  Array.from(_sessions.values())
+    .filter((entry) => entry.connected && isCurrentTenant(entry))
+    .map((entry) => ({ serverUuid: entry.uuid, client: entry.connected!.client }));
+
+/**
+ * Gets the health status of the pooled session for a downstream server
+ * @param uuid - UUID of the downstream server
+ * @returns The session status, or undefined if no session was opened yet
+ */
+export const getServerSessionStatus = (uuid: string): SessionStatus | undefined => {
+  const entry = Array.from(_sessions.values()).find((candidate) => candidate.uuid === uuid && isCurrentTenant(candidate));
+  return entry && toSessionStatus(entry);
 };
 
 export const initSessions = async (): Promise<void> => {
@@ -62,23 +702,24 @@ export const initSessions = async (): Promise<void> => {
       try {
         await getSession(sessionKey, uuid, params);
       } catch (error) {
-        // Log errors during initial session establishment attempt
-        // logger.error(`Failed to initialize session for ${params.name || uuid} during initSessions:`, error); // Removed logging
+        debugError(`[Sessions] Failed to initialize session for ${params.name || uuid}:`, error);
       }
     })
   );
 };
 
 export const cleanupAllSessions = async (): Promise<void> => {
-  await Promise.allSettled(
-    Object.entries(_sessions).map(async ([sessionKey, session]) => {
-      await session.cleanup();
-      delete _sessions[sessionKey];
-      
-      // Clean up from global.sessions
-      if ((global as any).sessions && (global as any).sessions[sessionKey]) {
-        delete (global as any).sessions[sessionKey];
-      }
-    })
-  );
+  stopHealthChecks();
+  await Promise.allSettled(Array.from(_sessions.values()).map(removeSession));
+};
+
+/**
+ * Closes the sessions a tenant opened, leaving the other tenants' sessions running
+ * @param tenantId - The tenant's id
+ */
+export const cleanupTenantSessions = async (tenantId: string): Promise<void> => {
+  const owned = Array.from(_sessions.values()).filter((entry) => entry.tenant?.id === tenantId);
+  await Promise.allSettled(owned.map(removeSession));
 };
+
+onTenantDisposed(cleanupTenantSessions);
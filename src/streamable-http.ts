@@ -13,11 +13,22 @@
  * - -32603: Internal error (server-side exception)
  * - -32001: Server error - Unauthorized (auth failure)
  * - -32000: Server error - Generic application error (session not found, etc.)
+ *
+ * Tenant mode (see tenants.ts): every request must carry a Plugged.in API key
+ * as its bearer token. Every session (every request in stateless mode) is
+ * served by its own proxy server from createTenantServer, in the tenant's
+ * context, and a session only accepts requests with the key it was created
+ * with.
+ *
+ * Sessions are recorded in a session store (see session-store.ts), so a
+ * session unknown to this process is rebuilt from its record instead of
+ * failing, e.g. after a restart or behind a load balancer.
  */
 
 import express from 'express';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { debugLog, debugError } from './debug-log.js';
 import {
   MCP_SESSION_ID_HEADER,
@@ -25,20 +36,53 @@ import {
   SESSION_TTL_MS,
   SESSION_CLEANUP_INTERVAL_MS,
   MAX_SESSIONS,
+  SESSION_STORE_TOUCH_INTERVAL_MS,
 } from './constants.js';
 import {
-  corsMiddleware,
+  createCorsMiddleware,
+  createDnsRebindingMiddleware,
+  HttpAccessOptions,
   versionMiddleware,
   acceptMiddleware,
   createAuthMiddleware,
+  createOAuthMiddleware,
+  createProtectedResourceMetadataHandler,
   createWellKnownHandler,
+  getBearerToken,
   resolveTransport,
+  restoreInitializedSession,
 } from './middleware.js';
+import { getSessionStatuses, SessionState } from './sessions.js';
+import { getRateLimitStats } from './rate-limits.js';
+import { getPendingApprovalCount } from './approvals.js';
+import { validateBearerToken } from './security-utils.js';
+import { OAuthConfig } from './oauth.js';
+import { createSessionStore, SessionRecord, SessionStore } from './session-store.js';
+import { createSessionEventStore, SessionEventStore } from './event-store.js';
+import {
+  acquireTenant,
+  addTenantSession,
+  createTenantSessionServer,
+  disposeAllTenants,
+  disposeIdleTenants,
+  getTenantCount,
+  getTenantId,
+  removeTenantSession,
+  runWithTenant,
+  Tenant,
+  TenantServer,
+} from './tenants.js';
 
 // Session metadata interface
 interface SessionMetadata {
   transport: StreamableHTTPServerTransport;
   lastAccess: number;
+  /** Tenant the session is bound to, in tenant mode */
+  tenantId?: string;
+  /** When lastAccess was last written to the session store */
+  storedAt?: number;
+  /** Events of the session's SSE streams, kept until the session ends */
+  eventStore?: SessionEventStore;
 }
 
 // Map to store active sessions with metadata (for stateful mode)
@@ -46,9 +90,14 @@ const sessions = new Map<string, SessionMetadata>();
 
 /**
  * Clean up expired sessions based on TTL
+ *
+ * Only this process's transports are closed: another replica may be serving
+ * the session, so its stored record is deleted only if it expired as well.
+ *
+ * @param sessionStore - Store whose records of expired sessions are deleted
  * @returns Number of sessions cleaned up
  */
-function cleanupExpiredSessions(): number {
+function cleanupExpiredSessions(sessionStore: SessionStore): number {
   const now = Date.now();
   let cleanedCount = 0;
 
@@ -62,6 +111,10 @@ function cleanupExpiredSessions(): number {
         debugError(`Error closing expired session ${sessionId}:`, error);
       }
       sessions.delete(sessionId);
+      // Events are kept while another instance may still serve the session
+      deleteStoredSessionIfExpired(sessionStore, sessionId)
+        .then(deleted => deleted ? metadata.eventStore?.dispose() : undefined)
+        .catch(error => debugError(`Error deleting the record of session ${sessionId}:`, error));
       cleanedCount++;
     }
   }
@@ -74,42 +127,71 @@ function cleanupExpiredSessions(): number {
 }
 
 /**
- * Evict oldest session when max sessions limit is reached (LRU eviction)
+ * Checks whether a stored session expired on every instance
+ *
+ * Stored access times lag by up to the touch interval, so records are kept
+ * that much longer than the sessions of this process.
  */
-function evictOldestSession(): void {
-  if (sessions.size === 0) return;
-
-  let oldestSessionId: string | null = null;
-  let oldestAccessTime = Infinity;
-
-  // Find session with oldest access time
-  for (const [sessionId, metadata] of sessions.entries()) {
-    if (metadata.lastAccess < oldestAccessTime) {
-      oldestAccessTime = metadata.lastAccess;
-      oldestSessionId = sessionId;
-    }
-  }
+function isStoredSessionExpired(record: SessionRecord): boolean {
+  return Date.now() - record.lastAccess > SESSION_TTL_MS + SESSION_STORE_TOUCH_INTERVAL_MS;
+}
 
-  if (oldestSessionId) {
-    const metadata = sessions.get(oldestSessionId);
-    if (metadata) {
-      try {
-        metadata.transport.close().catch(error => {
-          debugError(`Error closing evicted session ${oldestSessionId}:`, error);
-        });
-      } catch (error) {
-        debugError(`Error closing evicted session ${oldestSessionId}:`, error);
-      }
-      sessions.delete(oldestSessionId);
-      debugLog(`Evicted oldest session ${oldestSessionId} (LRU eviction)`);
-    }
+/**
+ * Deletes the stored record of a session, unless some instance used it recently
+ * @returns Whether the record is gone
+ */
+async function deleteStoredSessionIfExpired(sessionStore: SessionStore, sessionId: string): Promise<boolean> {
+  const record = await sessionStore.get(sessionId);
+  if (record && !isStoredSessionExpired(record)) {
+    return false;
   }
+  await sessionStore.delete(sessionId);
+  return true;
 }
 
-export interface StreamableHTTPOptions {
+export interface StreamableHTTPOptions extends HttpAccessOptions {
   port: number;
   requireApiAuth?: boolean;
   stateless?: boolean;
+  /** Serve every API key's sessions with their own servers from createTenantServer */
+  tenantMode?: boolean;
+  /** Creates the server of a tenant's session, e.g. createServer from mcp-proxy */
+  createTenantServer?: () => Promise<TenantServer>;
+  /** Require OAuth access tokens instead of the API key (see oauth.ts) */
+  oauth?: OAuthConfig;
+  /** Where sessions are recorded, else the store PLUGGEDIN_SESSION_STORE selects */
+  sessionStore?: SessionStore;
+}
+
+/**
+ * Reads a comma-separated list from the environment
+ */
+function readListEnv(varName: string): string[] | undefined {
+  const items = process.env[varName]?.split(',').map(item => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+/**
+ * Counts pooled downstream sessions by state, for the health check
+ */
+function countSessionStates(): Record<SessionState | 'total', number> {
+  const counts = { total: 0, connecting: 0, ready: 0, degraded: 0, dead: 0 };
+  for (const status of getSessionStatuses()) {
+    counts.total++;
+    counts[status.state]++;
+  }
+  return counts;
+}
+
+/**
+ * Sends a JSON-RPC error response for a rejected HTTP request
+ */
+function sendHttpError(req: any, res: any, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: req.body?.id ?? null
+  });
 }
 
 /**
@@ -123,13 +205,54 @@ export async function startStreamableHTTPServer(
   options: StreamableHTTPOptions
 ): Promise<() => Promise<void>> {
   const app = express();
-  const { port, requireApiAuth = false, stateless = false } = options;
+  const { port, requireApiAuth = false, stateless = false, tenantMode = false, createTenantServer, oauth } = options;
+  const sessionStore = options.sessionStore ?? createSessionStore();
+
+  /**
+   * Gets the stored record of a session, unless it expired
+   */
+  const getStoredSession = async (sessionId: string): Promise<SessionRecord | undefined> => {
+    const record = await sessionStore.get(sessionId);
+    if (record && isStoredSessionExpired(record)) {
+      Promise.all([sessionStore.delete(sessionId), createSessionEventStore(sessionId)?.dispose()])
+        .catch(error => debugError(`Error deleting the record of session ${sessionId}:`, error));
+      return undefined;
+    }
+    return record;
+  };
+  if (tenantMode && !createTenantServer) {
+    throw new Error('Tenant mode needs a createTenantServer factory');
+  }
+  if (tenantMode && oauth) {
+    throw new Error('Tenant mode uses the bearer token as API key and cannot be combined with OAuth');
+  }
+
+  // Allowlists from the options, else from the environment
+  const access: HttpAccessOptions = {
+    allowedOrigins: options.allowedOrigins ?? readListEnv('PLUGGEDIN_ALLOWED_ORIGINS'),
+    allowedHosts: options.allowedHosts ?? readListEnv('PLUGGEDIN_ALLOWED_HOSTS'),
+    corsCredentials: options.corsCredentials ?? process.env.PLUGGEDIN_CORS_CREDENTIALS === 'true',
+  };
+  // Default to localhost for security, but allow override via BIND_HOST
+  // In Docker/Cloud (Smithery), Dockerfile sets BIND_HOST=0.0.0.0 to accept external connections
+  const host = process.env.BIND_HOST || 'localhost';
 
-  // Apply middleware in order: CORS, version validation, accept normalization
-  app.use(corsMiddleware);
+  // Apply middleware in order: CORS, DNS rebinding protection, version
+  // validation, accept normalization
+  app.use(createCorsMiddleware(access));
+  app.use(createDnsRebindingMiddleware(access, host));
   app.use(versionMiddleware);
   app.use(acceptMiddleware);
 
+  // OAuth protected resource metadata, at the root and at the resource's path (RFC 9728)
+  if (oauth) {
+    const resourcePath = new URL(oauth.resource).pathname.replace(/\/$/, '');
+    app.get(
+      Array.from(new Set(['/.well-known/oauth-protected-resource', `/.well-known/oauth-protected-resource${resourcePath}`])),
+      createProtectedResourceMetadataHandler(oauth)
+    );
+  }
+
   // Serve static files from .well-known directory (for Smithery discovery)
   // This must come AFTER CORS but BEFORE authentication
   const wellKnownHandler = createWellKnownHandler();
@@ -139,60 +262,45 @@ export async function startStreamableHTTPServer(
   // Middleware to parse JSON bodies
   app.use(express.json());
 
-  // Authentication middleware - only for MCP endpoint
-  app.use(createAuthMiddleware(requireApiAuth));
+  // Authentication middleware - only for MCP endpoint; in tenant mode every
+  // request is authenticated by its own key instead, and with OAuth by its
+  // access token
+  app.use(oauth ? createOAuthMiddleware(oauth) : createAuthMiddleware(requireApiAuth && !tenantMode));
+
+  /**
+   * Resolves the tenant of a request in tenant mode
+   * @returns The tenant, or undefined once an error response was sent
+   */
+  const resolveTenant = async (req: any, res: any): Promise<Tenant | undefined> => {
+    const apiKey = getBearerToken(req);
+    if (!apiKey || !validateBearerToken(apiKey)) {
+      sendHttpError(req, res, 401, JSON_RPC_ERROR_CODES.UNAUTHORIZED, 'Unauthorized: a Plugged.in API key is required as bearer token');
+      return undefined;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? sessions.get(sessionId) ?? await getStoredSession(sessionId) : undefined;
+    if (existing && existing.tenantId !== getTenantId(apiKey)) {
+      sendHttpError(req, res, 403, JSON_RPC_ERROR_CODES.UNAUTHORIZED, 'Forbidden: the session belongs to another API key');
+      return undefined;
+    }
+
+    const tenant = await acquireTenant(apiKey);
+    if (!tenant) {
+      sendHttpError(req, res, 503, JSON_RPC_ERROR_CODES.APPLICATION_ERROR, 'Too many tenants, try again later');
+      return undefined;
+    }
+    return tenant;
+  };
 
   // Shared MCP handler used for both /mcp and / routes
   const mcpHandler = async (req: any, res: any) => {
     try {
-      const transport = await resolveTransport(req, res, server, stateless, sessions);
-      const sessionId = stateless ? undefined : (req.headers['mcp-session-id'] as string);
-
-      // Handle different HTTP methods
-      switch (req.method) {
-        case 'POST':
-          // POST requests have req.body parsed by express.json() middleware
-          // Pass the parsed body to avoid "stream is not readable" error
-          await transport.handleRequest(req, res, req.body);
-          break;
-
-        case 'GET':
-          // GET requests (SSE) don't have a request body
-          // Pass undefined explicitly as body parameter is optional
-          await transport.handleRequest(req, res, undefined);
-          break;
-          
-        case 'DELETE':
-          // Handle session termination
-          if (stateless) {
-            // In stateless mode, always return success
-            res.status(200).json({ success: true, message: 'Stateless mode - no session to terminate' });
-          } else if (sessionId && sessions.has(sessionId)) {
-            // Session exists, delete it
-            const metadata = sessions.get(sessionId)!;
-            await metadata.transport.close();
-            sessions.delete(sessionId);
-            res.status(200).json({ success: true, message: 'Session terminated' });
-          } else {
-            // Session ID not provided or doesn't exist - return success as nothing to delete
-            res.status(200).json({ success: true, message: 'Session not found' });
-          }
-          break;
-
-        default:
-          res.status(405).json({
-            jsonrpc: '2.0',
-            error: {
-              code: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
-              message: `HTTP method ${req.method} not allowed`
-            }
-          });
-      }
-      
-      // Clean up transport in stateless mode
-      if (stateless && req.method !== 'GET') {
-        await transport.close();
+      const tenant = tenantMode ? await resolveTenant(req, res) : undefined;
+      if (tenantMode && !tenant) {
+        return;
       }
+      await runWithTenant(tenant, () => handleMcpRequest(req, res, tenant));
     } catch (error) {
       debugError('Error handling request:', error);
       res.status(500).json({
@@ -209,6 +317,130 @@ export async function startStreamableHTTPServer(
     }
   };
 
+  // Serves an MCP request with the server of its session in tenant mode, else the shared one
+  const handleMcpRequest = async (req: any, res: any, tenant: Tenant | undefined) => {
+    // Bind a new session to its tenant until the session ends
+    const bindToTenant = tenant && ((newSessionId: string, metadata: SessionMetadata) => {
+      metadata.tenantId = tenant.id;
+      addTenantSession(tenant.id, newSessionId);
+      const onclose = metadata.transport.onclose;
+      metadata.transport.onclose = () => {
+        onclose?.();
+        removeTenantSession(tenant.id, newSessionId);
+      };
+    });
+    const sessionId = stateless ? undefined : (req.headers['mcp-session-id'] as string);
+    // A session this process does not know may have been created by an
+    // earlier process or another replica
+    const stored = sessionId && !sessions.has(sessionId) ? await getStoredSession(sessionId) : undefined;
+
+    // A server connects to a single transport, so in tenant mode every new
+    // transport gets its own server, closed with the transport
+    const sessionServer = tenant && (!sessionId || !sessions.has(sessionId))
+      ? await createTenantSessionServer(tenant, createTenantServer!)
+      : undefined;
+    const mcpServer = sessionServer?.server ?? server;
+
+    let createdSessionId: string | undefined;
+    let transport: StreamableHTTPServerTransport;
+    try {
+      transport = await resolveTransport(req, res, mcpServer, stateless, sessions, (newSessionId, metadata) => {
+        createdSessionId = newSessionId;
+        metadata.storedAt = Date.now();
+        bindToTenant?.(newSessionId, metadata);
+      });
+    } catch (error) {
+      await sessionServer?.close();
+      throw error;
+    }
+    if (sessionServer) {
+      const onclose = transport.onclose;
+      transport.onclose = () => {
+        onclose?.();
+        void sessionServer.close();
+      };
+    }
+
+    if (stored) {
+      if (!await restoreInitializedSession(transport, mcpServer, stored)) {
+        // The client starts a new session on 404
+        const metadata = sessions.get(stored.sessionId);
+        sessions.delete(stored.sessionId);
+        await transport.close();
+        await sessionStore.delete(stored.sessionId);
+        await metadata?.eventStore?.dispose();
+        sendHttpError(req, res, 404, JSON_RPC_ERROR_CODES.APPLICATION_ERROR, 'Session not found');
+        return;
+      }
+      await sessionStore.touch(stored.sessionId);
+    } else if (createdSessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
+      // Recorded before the response, so the client's next request finds it
+      // on any instance
+      const now = Date.now();
+      await sessionStore.set({
+        sessionId: createdSessionId,
+        createdAt: now,
+        lastAccess: now,
+        tenantId: tenant?.id,
+        initialize: req.body.params,
+      });
+    } else if (sessionId) {
+      const metadata = sessions.get(sessionId);
+      if (metadata && Date.now() - (metadata.storedAt ?? 0) >= SESSION_STORE_TOUCH_INTERVAL_MS) {
+        metadata.storedAt = Date.now();
+        sessionStore.touch(sessionId).catch(error => debugError(`Error recording access to session ${sessionId}:`, error));
+      }
+    }
+
+    // Handle different HTTP methods
+    switch (req.method) {
+      case 'POST':
+        // POST requests have req.body parsed by express.json() middleware
+        // Pass the parsed body to avoid "stream is not readable" error
+        await transport.handleRequest(req, res, req.body);
+        break;
+
+      case 'GET':
+        // GET requests (SSE) don't have a request body
+        // Pass undefined explicitly as body parameter is optional
+        await transport.handleRequest(req, res, undefined);
+        break;
+        
+      case 'DELETE':
+        // Handle session termination
+        if (stateless) {
+          // In stateless mode, always return success
+          res.status(200).json({ success: true, message: 'Stateless mode - no session to terminate' });
+        } else if (sessionId && sessions.has(sessionId)) {
+          // Session exists, delete it
+          const metadata = sessions.get(sessionId)!;
+          await metadata.transport.close();
+          sessions.delete(sessionId);
+          await sessionStore.delete(sessionId);
+          await metadata.eventStore?.dispose();
+          res.status(200).json({ success: true, message: 'Session terminated' });
+        } else {
+          // Session ID not provided or doesn't exist - return success as nothing to delete
+          res.status(200).json({ success: true, message: 'Session not found' });
+        }
+        break;
+
+      default:
+        res.status(405).json({
+          jsonrpc: '2.0',
+          error: {
+            code: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+            message: `HTTP method ${req.method} not allowed`
+          }
+        });
+    }
+    
+    // Clean up transport in stateless mode
+    if (stateless && req.method !== 'GET') {
+      await transport.close();
+    }
+  };
+
   // MCP endpoint handler (preferred path)
   app.all('/mcp', mcpHandler);
 
@@ -221,23 +453,37 @@ export async function startStreamableHTTPServer(
       status: 'ok',
       transport: 'streamable-http',
       sessions: stateless ? 0 : sessions.size,
-      maxSessions: stateless ? 0 : MAX_SESSIONS
+      maxSessions: stateless ? 0 : MAX_SESSIONS,
+      // This endpoint is unauthenticated, so it reports aggregate counts only:
+      // no server UUIDs, names or per-server details (see
+      // pluggedin_discover_tools for those)
+      downstreamServers: countSessionStates(),
+      // Calls rejected by custom-instruction rate limits
+      rateLimitRejections: getRateLimitStats().reduce((total, stats) => total + stats.rejections, 0),
+      // Tool calls held until a person approves them
+      pendingApprovals: getPendingApprovalCount(),
+      ...(tenantMode && { tenants: getTenantCount() }),
     });
   });
 
-  // Set up periodic session cleanup (only in stateful mode)
+  // Set up periodic session cleanup (only in stateful mode), and disposal of
+  // idle tenants in tenant mode
   let cleanupInterval: NodeJS.Timeout | null = null;
-  if (!stateless) {
+  if (!stateless || tenantMode) {
     cleanupInterval = setInterval(() => {
-      cleanupExpiredSessions();
+      cleanupExpiredSessions(sessionStore);
+      // Stored access times lag by up to the touch interval, so records are
+      // kept that much longer than the sessions of this process
+      sessionStore.deleteExpired(SESSION_TTL_MS + SESSION_STORE_TOUCH_INTERVAL_MS)
+        .catch(error => debugError('Error deleting expired session records:', error));
+      if (tenantMode) {
+        disposeIdleTenants().catch(error => debugError('Error disposing idle tenants:', error));
+      }
     }, SESSION_CLEANUP_INTERVAL_MS);
     debugLog(`Session cleanup interval started (every ${SESSION_CLEANUP_INTERVAL_MS / 1000}s)`);
   }
 
   // Start the Express server
-  // Default to localhost for security, but allow override via BIND_HOST
-  // In Docker/Cloud (Smithery), Dockerfile sets BIND_HOST=0.0.0.0 to accept external connections
-  const host = process.env.BIND_HOST || 'localhost';
   // Await the `listening` event so callers (and the returned cleanup function)
   // only see a fully bound server. Resolving before the socket is bound caused
   // ECONNREFUSED races for any code that connects immediately after awaiting.
@@ -253,7 +499,11 @@ export async function startStreamableHTTPServer(
       } else {
         debugLog('Running in stateful mode (session-based)');
       }
-      if (requireApiAuth) {
+      if (tenantMode) {
+        debugLog('Running in tenant mode (sessions bound to their API key)');
+      } else if (oauth) {
+        debugLog(`OAuth access tokens from ${oauth.issuer} required`);
+      } else if (requireApiAuth) {
         debugLog('API authentication required');
       }
       resolve(srv);
@@ -269,7 +519,8 @@ export async function startStreamableHTTPServer(
       debugLog('Session cleanup interval stopped');
     }
 
-    // Close all active sessions
+    // Close all active sessions; their records stay in the session store, so
+    // clients can continue them once the server is back
     for (const [sessionId, metadata] of sessions) {
       try {
         await metadata.transport.close();
@@ -279,6 +530,10 @@ export async function startStreamableHTTPServer(
     }
     sessions.clear();
 
+    if (tenantMode) {
+      await disposeAllTenants();
+    }
+
     // Close the HTTP server
     return new Promise((resolve) => {
       httpServer.close(() => {
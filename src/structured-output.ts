@@ -0,0 +1,169 @@
+/**
+ * Structured output of downstream tools
+ *
+ * Tools may declare an `outputSchema` in `tools/list` and return a matching
+ * `structuredContent` object next to their content. The proxy passes both
+ * through unchanged; the schemas are recorded whenever tools are listed so
+ * results can be checked against them, depending on
+ * PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT:
+ * - off (default): results are not checked
+ * - warn: mismatches are logged and the result is passed through
+ * - strict: a result that does not match, or that is missing its
+ *   structuredContent, is replaced with an error result
+ *
+ * Results of tools whose schema is not known (e.g. called before listing) and
+ * error results are never checked.
+ *
+ * The proxy's own tools are always checked: structuredContent that does not
+ * match their schema is reported as an error. Clients reject successful
+ * results without structuredContent from tools that declare an outputSchema,
+ * so informational results such as the API key setup message are marked as
+ * errors, keeping their text.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import type { JsonSchemaValidator } from "@modelcontextprotocol/sdk/validation";
+import { ToolExecutionResult } from "./types.js";
+import { debugError } from "./debug-log.js";
+
+export type OutputValidationMode = 'off' | 'warn' | 'strict';
+
+interface OutputSchemaEntry {
+  schema: NonNullable<Tool['outputSchema']>;
+  // Compiled on first use; null if the schema could not be compiled
+  validator?: JsonSchemaValidator<unknown> | null;
+}
+
+// Output schemas per server and tool name
+const schemasByServer = new Map<string, Map<string, OutputSchemaEntry>>();
+// Output schemas of the proxy's own tools, by tool name
+const staticSchemas = new Map<string, OutputSchemaEntry>();
+let jsonSchemaValidator: AjvJsonSchemaValidator | undefined;
+
+/**
+ * Gets how structured results are checked, from PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT
+ */
+export function getOutputValidationMode(): OutputValidationMode {
+  const mode = process.env.PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT?.toLowerCase();
+  return mode === 'warn' || mode === 'strict' ? mode : 'off';
+}
+
+/**
+ * Records the output schema of a tool; a tool listed without one forgets its old schema
+ * @param serverUuid - UUID of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param outputSchema - The tool's outputSchema from `tools/list`
+ */
+export function recordOutputSchema(
+  serverUuid: string,
+  toolName: string,
+  outputSchema: Tool['outputSchema'] | undefined
+): void {
+  let entry = schemasByServer.get(serverUuid);
+  if (!outputSchema) {
+    entry?.delete(toolName);
+    return;
+  }
+  if (!entry) {
+    entry = new Map();
+    schemasByServer.set(serverUuid, entry);
+  }
+  entry.set(toolName, { schema: outputSchema });
+}
+
+/**
+ * Clears recorded output schemas
+ * @param serverUuid - Only clear this server's schemas, e.g. after its tool list changed
+ */
+export function clearOutputSchemas(serverUuid?: string): void {
+  if (serverUuid) {
+    schemasByServer.delete(serverUuid);
+  } else {
+    schemasByServer.clear();
+  }
+}
+
+function getValidator(entry: OutputSchemaEntry, toolName: string): JsonSchemaValidator<unknown> | null {
+  if (entry.validator === undefined) {
+    try {
+      jsonSchemaValidator ??= new AjvJsonSchemaValidator();
+      entry.validator = jsonSchemaValidator.getValidator(entry.schema as any);
+    } catch (error) {
+      debugError(`[Structured Output] Cannot compile the outputSchema of ${toolName}, results will not be checked:`, error);
+      entry.validator = null;
+    }
+  }
+  return entry.validator;
+}
+
+/**
+ * Checks the structuredContent of a downstream tool result against the tool's outputSchema
+ * @param serverUuid - UUID of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param result - The result returned by the downstream server
+ * @returns The result unchanged, or an error result in strict mode if it does not match
+ */
+export function checkStructuredOutput<T extends ToolExecutionResult>(
+  serverUuid: string,
+  toolName: string,
+  result: T
+): T | ToolExecutionResult {
+  const mode = getOutputValidationMode();
+  const entry = schemasByServer.get(serverUuid)?.get(toolName);
+  if (mode === 'off' || !entry || result.isError) {
+    return result;
+  }
+
+  const problem = result.structuredContent
+    ? findMismatch(entry, toolName, result.structuredContent)
+    : 'it returned no structuredContent';
+  if (!problem) {
+    return result;
+  }
+
+  const message = `Tool ${toolName} declares an outputSchema, but ${problem}`;
+  if (mode === 'warn') {
+    debugError(`[Structured Output] ${message}`);
+    return result;
+  }
+  return rejectResult(message);
+}
+
+/**
+ * Checks the structuredContent of one of the proxy's own tools against its outputSchema
+ * @param tool - The static tool that was called
+ * @param result - The result of its handler
+ * @returns The result unchanged, the result marked as an error if it has no
+ * structuredContent, or an error result if its structuredContent does not match
+ */
+export function checkStaticToolOutput<T extends ToolExecutionResult>(tool: Tool, result: T): T | ToolExecutionResult {
+  if (!tool.outputSchema || result.isError) {
+    return result;
+  }
+  if (!result.structuredContent) {
+    return { ...result, isError: true };
+  }
+  let entry = staticSchemas.get(tool.name);
+  if (!entry) {
+    entry = { schema: tool.outputSchema };
+    staticSchemas.set(tool.name, entry);
+  }
+  const problem = findMismatch(entry, tool.name, result.structuredContent);
+  return problem ? rejectResult(`Tool ${tool.name} declares an outputSchema, but ${problem}`) : result;
+}
+
+function findMismatch(entry: OutputSchemaEntry, toolName: string, structuredContent: unknown): string | undefined {
+  const validation = getValidator(entry, toolName)?.(structuredContent);
+  return validation && !validation.valid
+    ? `its structuredContent does not match the outputSchema: ${validation.errorMessage}`
+    : undefined;
+}
+
+function rejectResult(message: string): ToolExecutionResult {
+  debugError(`[Structured Output] Rejected result: ${message}`);
+  return {
+    content: [{ type: "text", text: `${message}.` }],
+    isError: true,
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Tenants of the multi-tenant Streamable HTTP mode
+ *
+ * With PLUGGEDIN_TENANT_MODE=true (or --tenant-mode), every HTTP session is
+ * bound to the Plugged.in API key it connected with as its bearer token. Each
+ * key is a tenant. Every session of a tenant gets its own proxy server,
+ * created by the same factory as the single-tenant server, and everything
+ * those servers do runs in the tenant's async context:
+ * - Plugged.in API calls are made with the tenant's key (getPluggedinMCPApiKey)
+ * - state that belongs to an account (the server list, tool names, the tool
+ *   catalog, client roots and downstream sessions) is kept per tenant through
+ *   createTenantState, or tagged with the tenant
+ *
+ * Outside tenant mode there is no tenant context and that state is shared, as
+ * before. A tenant without HTTP sessions is disposed after SESSION_TTL_MS
+ * without requests, which drops its state and tells onTenantDisposed
+ * listeners (e.g. to close its downstream sessions). At most PLUGGEDIN_MAX_TENANTS tenants are kept; a new one
+ * replaces the least recently used tenant without sessions, or is refused.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { debugError, debugLog } from "./debug-log.js";
+import { DEFAULT_MAX_TENANTS, SESSION_TTL_MS } from "./constants.js";
+
+/**
+ * A Plugged.in account served in tenant mode
+ */
+export interface Tenant {
+  /** Short hash of the API key, safe to log and to use as a key */
+  id: string;
+  apiKey: string;
+}
+
+/**
+ * A proxy server and its cleanup, as returned by createServer()
+ */
+export interface TenantServer {
+  server: Server;
+  cleanup: () => Promise<void>;
+}
+
+interface TenantEntry {
+  tenant: Tenant;
+  /** HTTP sessions bound to the tenant */
+  sessions: Set<string>;
+  lastAccess: number;
+}
+
+const storage = new AsyncLocalStorage<Tenant>();
+// Every per-tenant state map, so a disposed tenant's state can be dropped everywhere
+const tenantStates = new Set<Map<string, unknown>>();
+const tenants = new Map<string, TenantEntry>();
+const disposeListeners = new Set<(tenantId: string) => Promise<void>>();
+
+/**
+ * Whether the Streamable HTTP server binds sessions to per-request API keys
+ */
+export function isTenantMode(): boolean {
+  return process.env.PLUGGEDIN_TENANT_MODE === 'true';
+}
+
+/**
+ * Gets the tenant id of an API key
+ */
+export function getTenantId(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Gets the tenant the current request or task runs for, if any
+ */
+export function getCurrentTenant(): Tenant | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs a function, and everything it starts, in a tenant's context
+ * @param tenant - The tenant; the function runs as is without one
+ */
+export function runWithTenant<T>(tenant: Tenant | undefined, fn: () => T): T {
+  return tenant ? storage.run(tenant, fn) : fn();
+}
+
+/**
+ * Creates module state that is kept separately for every tenant
+ * @param create - Creates the state of a tenant on first use
+ * @returns A getter for the current tenant's state (shared state outside tenant mode)
+ */
+export function createTenantState<T>(create: () => T): () => T {
+  const states = new Map<string, T>();
+  tenantStates.add(states as Map<string, unknown>);
+  return () => {
+    const id = getCurrentTenant()?.id ?? '';
+    let state = states.get(id);
+    if (state === undefined) {
+      state = create();
+      states.set(id, state);
+    }
+    return state;
+  };
+}
+
+function getMaxTenants(): number {
+  const value = Number(process.env.PLUGGEDIN_MAX_TENANTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_TENANTS;
+}
+
+/**
+ * Subscribes to tenant disposal; listeners run in the disposed tenant's context
+ * @returns A function that removes the listener
+ */
+export function onTenantDisposed(listener: (tenantId: string) => Promise<void>): () => void {
+  disposeListeners.add(listener);
+  return () => {
+    disposeListeners.delete(listener);
+  };
+}
+
+async function disposeTenant(entry: TenantEntry): Promise<void> {
+  tenants.delete(entry.tenant.id);
+  await runWithTenant(entry.tenant, () => Promise.all(Array.from(disposeListeners, async listener => {
+    try {
+      await listener(entry.tenant.id);
+    } catch (error) {
+      debugError(`[Tenants] Error disposing tenant ${entry.tenant.id}:`, error);
+    }
+  })));
+  for (const states of tenantStates) {
+    states.delete(entry.tenant.id);
+  }
+  debugLog(`[Tenants] Disposed tenant ${entry.tenant.id}`);
+}
+
+// Makes room for a new tenant; false if every tenant has sessions
+async function evictIdleTenant(): Promise<boolean> {
+  let oldest: TenantEntry | undefined;
+  for (const entry of tenants.values()) {
+    if (entry.sessions.size === 0 && (!oldest || entry.lastAccess < oldest.lastAccess)) {
+      oldest = entry;
+    }
+  }
+  if (!oldest) {
+    return false;
+  }
+  await disposeTenant(oldest);
+  return true;
+}
+
+/**
+ * Gets the tenant of an API key, creating it on first use
+ * @param apiKey - The bearer token of the request
+ * @returns The tenant, or undefined if the tenant limit is reached
+ */
+export async function acquireTenant(apiKey: string): Promise<Tenant | undefined> {
+  const id = getTenantId(apiKey);
+  let entry = tenants.get(id);
+
+  if (!entry) {
+    if (tenants.size >= getMaxTenants() && !(await evictIdleTenant())) {
+      debugError(`[Tenants] Refusing tenant ${id}: all ${tenants.size} tenants have active sessions`);
+      return undefined;
+    }
+    // Another request of the tenant may have created it during the eviction
+    entry = tenants.get(id);
+    if (!entry) {
+      entry = { tenant: { id, apiKey }, sessions: new Set(), lastAccess: Date.now() };
+      tenants.set(id, entry);
+      debugLog(`[Tenants] Created tenant ${id}`);
+    }
+  }
+
+  entry.lastAccess = Date.now();
+  return entry.tenant;
+}
+
+/**
+ * Creates a proxy server for one HTTP session of a tenant
+ * @param tenant - The tenant the session is bound to
+ * @param createServer - Creates a proxy server; runs in the tenant's context
+ * @returns The server, and a close function that cleans it up in the tenant's context
+ */
+export async function createTenantSessionServer(
+  tenant: Tenant,
+  createServer: () => Promise<TenantServer>
+): Promise<{ server: Server; close: () => Promise<void> }> {
+  const { server, cleanup } = await runWithTenant(tenant, createServer);
+  return {
+    server,
+    close: () => runWithTenant(tenant, async () => {
+      try {
+        await cleanup();
+        await server.close();
+      } catch (error) {
+        debugError(`[Tenants] Error closing a server of tenant ${tenant.id}:`, error);
+      }
+    }),
+  };
+}
+
+/**
+ * Binds an HTTP session to its tenant, keeping the tenant alive while it lasts
+ */
+export function addTenantSession(tenantId: string, sessionId: string): void {
+  tenants.get(tenantId)?.sessions.add(sessionId);
+}
+
+/**
+ * Unbinds an ended HTTP session from its tenant
+ */
+export function removeTenantSession(tenantId: string, sessionId: string): void {
+  const entry = tenants.get(tenantId);
+  if (entry) {
+    entry.sessions.delete(sessionId);
+    entry.lastAccess = Date.now();
+  }
+}
+
+/**
+ * Disposes tenants without sessions that had no requests within SESSION_TTL_MS
+ * @returns Number of tenants disposed
+ */
+export async function disposeIdleTenants(): Promise<number> {
+  const now = Date.now();
+  const idle = Array.from(tenants.values())
+    .filter(entry => entry.sessions.size === 0 && now - entry.lastAccess > SESSION_TTL_MS);
+  await Promise.allSettled(idle.map(disposeTenant));
+  return idle.length;
+}
+
+/**
+ * Disposes every tenant, e.g. on shutdown
+ */
+export async function disposeAllTenants(): Promise<void> {
+  await Promise.allSettled(Array.from(tenants.values()).map(disposeTenant));
+}
+
+/**
+ * Gets the number of active tenants
+ */
+export function getTenantCount(): number {
+  return tenants.size;
+}
@@ -0,0 +1,95 @@
+/**
+ * Tool annotations of downstream servers
+ *
+ * Read-only and no-write constraints are enforced from the `annotations` a
+ * server publishes for its tools in `tools/list` (readOnlyHint,
+ * destructiveHint, idempotentHint). Annotations are recorded whenever tools
+ * are listed; when a tool is called before its annotations are known, the
+ * server's tools are listed once and cached until its tool list changes.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolBehaviorHints } from "./utils/custom-instructions.js";
+import { debugLog } from "./debug-log.js";
+
+// Annotations per server and tool name; null marks a tool listed without annotations
+const annotationsByServer = new Map<string, Map<string, ToolBehaviorHints | null>>();
+// Servers whose complete tool list has been recorded
+const completeServers = new Set<string>();
+
+function getServerEntry(serverUuid: string): Map<string, ToolBehaviorHints | null> {
+  let entry = annotationsByServer.get(serverUuid);
+  if (!entry) {
+    entry = new Map();
+    annotationsByServer.set(serverUuid, entry);
+  }
+  return entry;
+}
+
+/**
+ * Records the annotations of a single tool, e.g. from the Plugged.in API tool list
+ * @param serverUuid - UUID of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param annotations - The tool's annotations; ignored when missing
+ */
+export function recordToolAnnotations(
+  serverUuid: string,
+  toolName: string,
+  annotations: Tool['annotations'] | undefined
+): void {
+  if (annotations) {
+    getServerEntry(serverUuid).set(toolName, annotations);
+  }
+}
+
+/**
+ * Records the complete tool list of a downstream server
+ * @param serverUuid - UUID of the downstream server
+ * @param tools - All tools from the server's `tools/list`, with their original names
+ */
+export function recordServerTools(serverUuid: string, tools: Pick<Tool, 'name' | 'annotations'>[]): void {
+  const entry = new Map<string, ToolBehaviorHints | null>();
+  for (const tool of tools) {
+    entry.set(tool.name, tool.annotations ?? null);
+  }
+  annotationsByServer.set(serverUuid, entry);
+  completeServers.add(serverUuid);
+}
+
+/**
+ * Gets the annotations of a tool, listing the server's tools if they are not known yet
+ * @param serverUuid - UUID of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param listTools - Lists all tools of the server
+ * @returns The annotations, or undefined if the tool has none
+ */
+export async function getToolAnnotations(
+  serverUuid: string,
+  toolName: string,
+  listTools: () => Promise<Pick<Tool, 'name' | 'annotations'>[]>
+): Promise<ToolBehaviorHints | undefined> {
+  const known = annotationsByServer.get(serverUuid);
+  if (known?.has(toolName)) {
+    return known.get(toolName) ?? undefined;
+  }
+  if (completeServers.has(serverUuid)) {
+    return undefined;
+  }
+
+  debugLog(`[Tool Annotations] Listing tools of ${serverUuid} to classify ${toolName}`);
+  recordServerTools(serverUuid, await listTools());
+  return annotationsByServer.get(serverUuid)?.get(toolName) ?? undefined;
+}
+
+/**
+ * Forgets recorded annotations, for one server or all of them
+ */
+export function clearToolAnnotations(serverUuid?: string): void {
+  if (serverUuid) {
+    annotationsByServer.delete(serverUuid);
+    completeServers.delete(serverUuid);
+  } else {
+    annotationsByServer.clear();
+    completeServers.clear();
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Names of downstream tools as the client sees them
+ *
+ * Every listing (tools/list, pluggedin_discover_tools, manifest mode) names
+ * downstream tools through this registry, and tools/call resolves names back
+ * to their server and original name through it. PLUGGEDIN_TOOL_NAMING picks
+ * the naming strategy:
+ * - uuid (default): {server_uuid}__{tool}
+ * - slug: {server_slug}__{tool}; servers with the same slug get -1, -2, ...
+ *   in UUID order
+ * - server-name: {server_name}_{tool}, lower-cased with other characters
+ *   replaced by _
+ * - none: the tool's own name
+ * PLUGGEDIN_UUID_TOOL_PREFIXING=false still selects `none` when
+ * PLUGGEDIN_TOOL_NAMING is not set.
+ *
+ * PLUGGEDIN_TOOL_ALIASES renames single tools, as a JSON object of
+ * "<server name, slug or UUID>/<tool>" to the name the client should see.
+ * A rename from the tool overrides takes precedence over it.
+ *
+ * When two tools would get the same name, the aliased tool wins, then the
+ * server with the lowest UUID; the other tool gets the first eight characters
+ * of its server UUID appended, or the UUID prefix if that is taken too. Tools
+ * named by an earlier page of a listing keep their name. The names of the
+ * proxy's own static and composite tools are reserved: a downstream tool
+ * named like one gets the same fallback.
+ *
+ * In tenant mode every tenant has its own registry.
+ */
+
+import { generateSlug, generateUniqueSlug, parsePrefixedToolName } from "./slug-utils.js";
+import { sanitizeName } from "./utils.js";
+import { debugError } from "./debug-log.js";
+import { TOOL_NAME_COLLISION_SUFFIX_LENGTH } from "./constants.js";
+import { createTenantState } from "./tenants.js";
+import { allStaticTools } from "./tools/static-tools.js";
+import { getCompositeTools } from "./composite-tools.js";
+
+export type ToolNamingStrategy = 'uuid' | 'slug' | 'server-name' | 'none';
+
+const STRATEGIES: ToolNamingStrategy[] = ['uuid', 'slug', 'server-name', 'none'];
+
+/**
+ * A downstream tool to be named
+ */
+export interface ToolNameSource {
+  /** The tool's name on the downstream server */
+  originalName: string;
+  serverUuid: string;
+  serverName?: string;
+  /** Name from a tool override, used instead of the strategy and alias table */
+  alias?: string;
+}
+
+/**
+ * A downstream tool and the name the client sees
+ */
+export interface RegisteredToolName extends ToolNameSource {
+  name: string;
+}
+
+interface ToolNameRegistry {
+  /** Registered tools by client name */
+  toolsByName: Map<string, RegisteredToolName>;
+  /** Client names by server and original name */
+  namesByOriginal: Map<string, string>;
+  /** Unique slug of every server seen since the last full listing */
+  serverSlugs: Map<string, string>;
+}
+
+// Each tenant names the tools of its own servers
+const getRegistry = createTenantState<ToolNameRegistry>(() => ({
+  toolsByName: new Map(),
+  namesByOriginal: new Map(),
+  serverSlugs: new Map(),
+}));
+
+let parsedAliases: { raw: string; aliases: Map<string, string> } | undefined;
+
+const originalKey = (serverUuid: string, originalName: string) => `${serverUuid}/${originalName}`;
+
+/**
+ * Gets the naming strategy from PLUGGEDIN_TOOL_NAMING
+ */
+export function getToolNamingStrategy(): ToolNamingStrategy {
+  const value = process.env.PLUGGEDIN_TOOL_NAMING?.trim().toLowerCase();
+  if (!value) {
+    return process.env.PLUGGEDIN_UUID_TOOL_PREFIXING === 'false' ? 'none' : 'uuid';
+  }
+  if (STRATEGIES.includes(value as ToolNamingStrategy)) {
+    return value as ToolNamingStrategy;
+  }
+  debugError(`[Tool Naming] Unknown PLUGGEDIN_TOOL_NAMING "${value}", using uuid`);
+  return 'uuid';
+}
+
+/**
+ * Gets the alias table from PLUGGEDIN_TOOL_ALIASES
+ * @returns Aliases by "<server>/<tool>"; empty if the variable is unset or invalid
+ */
+export function getToolAliases(): Map<string, string> {
+  const raw = process.env.PLUGGEDIN_TOOL_ALIASES?.trim() ?? '';
+  if (parsedAliases?.raw === raw) {
+    return parsedAliases.aliases;
+  }
+
+  const aliases = new Map<string, string>();
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('expected an object of "<server>/<tool>": "<alias>"');
+      }
+      for (const [key, alias] of Object.entries(parsed)) {
+        if (!key.includes('/') || typeof alias !== 'string' || !alias.trim()) {
+          debugError(`[Tool Naming] Ignoring tool alias ${key}: expected "<server>/<tool>": "<alias>"`);
+          continue;
+        }
+        aliases.set(key, alias.trim());
+      }
+    } catch (error) {
+      debugError('[Tool Naming] Invalid PLUGGEDIN_TOOL_ALIASES, no aliases are applied:', error);
+    }
+  }
+  parsedAliases = { raw, aliases };
+  return aliases;
+}
+
+function findAlias(source: ToolNameSource, aliases: Map<string, string>): string | undefined {
+  const { serverSlugs } = getRegistry();
+  if (source.alias || aliases.size === 0) {
+    return source.alias;
+  }
+  const servers = [source.serverUuid, serverSlugs.get(source.serverUuid), source.serverName];
+  for (const server of servers) {
+    const alias = server && aliases.get(`${server}/${source.originalName}`);
+    if (alias) {
+      return alias;
+    }
+  }
+  return undefined;
+}
+
+function formatToolName(strategy: ToolNamingStrategy, source: ToolNameSource): string {
+  const { serverSlugs } = getRegistry();
+  switch (strategy) {
+    case 'slug':
+      return `${serverSlugs.get(source.serverUuid)}__${source.originalName}`;
+    case 'server-name':
+      return sanitizeName(`${source.serverName || source.serverUuid}_${source.originalName}`);
+    case 'none':
+      return source.originalName;
+    default:
+      return `${source.serverUuid}__${source.originalName}`;
+  }
+}
+
+/**
+ * Gets the names of the proxy's own tools, which downstream tools never get
+ */
+function getReservedToolNames(): Set<string> {
+  return new Set([...allStaticTools, ...getCompositeTools()].map(tool => tool.name));
+}
+
+// Gives a tool its preferred name, or the first collision fallback that is free
+function claimName(preferred: string, source: ToolNameSource, reserved: ReadonlySet<string>): string {
+  const { toolsByName } = getRegistry();
+  const isFree = (candidate: string) => !toolsByName.has(candidate) && !reserved.has(candidate);
+  const candidates = [
+    preferred,
+    `${preferred}_${source.serverUuid.slice(0, TOOL_NAME_COLLISION_SUFFIX_LENGTH)}`,
+    `${source.serverUuid}__${source.originalName}`,
+  ];
+  let name = candidates.find(isFree);
+  for (let counter = 2; !name; counter++) {
+    const candidate = `${candidates[2]}_${counter}`;
+    if (isFree(candidate)) {
+      name = candidate;
+    }
+  }
+  if (name !== preferred) {
+    const owner = toolsByName.get(preferred);
+    const usedBy = owner ? `${owner.originalName} on ${owner.serverName || owner.serverUuid}` : 'a tool of the proxy';
+    debugError(`[Tool Naming] ${preferred} is already used by ${usedBy}; ${source.originalName} on ${source.serverName || source.serverUuid} is named ${name}`);
+  }
+  return name;
+}
+
+function assignServerSlugs(sources: ToolNameSource[]): void {
+  const { serverSlugs } = getRegistry();
+  const newServers = new Map<string, string | undefined>();
+  for (const source of sources) {
+    if (!serverSlugs.has(source.serverUuid)) {
+      newServers.set(source.serverUuid, source.serverName);
+    }
+  }
+  const taken = Array.from(serverSlugs.values());
+  for (const serverUuid of Array.from(newServers.keys()).sort()) {
+    const slug = generateUniqueSlug(generateSlug(newServers.get(serverUuid)?.trim() || serverUuid), taken);
+    serverSlugs.set(serverUuid, slug);
+    taken.push(slug);
+  }
+}
+
+/**
+ * Names listed downstream tools and registers them for lookup
+ * @param sources - The tools with their servers
+ * @param options.replace - Drop all previous names first, e.g. on the first page of a listing
+ * @returns The registered tools, in the order of `sources`
+ */
+export function registerToolNames(sources: ToolNameSource[], options: { replace?: boolean } = {}): RegisteredToolName[] {
+  const { toolsByName, namesByOriginal } = getRegistry();
+  if (options.replace) {
+    clearToolNames();
+  }
+  assignServerSlugs(sources);
+
+  const strategy = getToolNamingStrategy();
+  const aliases = getToolAliases();
+  const pending = sources.map((source, index) => ({ source, index, alias: findAlias(source, aliases) }));
+  // Aliases first, then by server UUID, so collisions always end the same way
+  const ordered = [...pending].sort((a, b) =>
+    Number(!a.alias) - Number(!b.alias) ||
+    a.source.serverUuid.localeCompare(b.source.serverUuid) ||
+    a.source.originalName.localeCompare(b.source.originalName)
+  );
+
+  const reserved = getReservedToolNames();
+  const registered: RegisteredToolName[] = new Array(sources.length);
+  for (const { source, index, alias } of ordered) {
+    const key = originalKey(source.serverUuid, source.originalName);
+    const known = namesByOriginal.get(key);
+    // A composite tool may have been added under a name given out earlier
+    const name = known && !reserved.has(known)
+      ? known
+      : claimName(alias ?? formatToolName(strategy, source), source, reserved);
+    if (known && known !== name) {
+      toolsByName.delete(known);
+    }
+    const entry: RegisteredToolName = { ...source, name };
+    toolsByName.set(name, entry);
+    namesByOriginal.set(key, name);
+    registered[index] = entry;
+  }
+  return registered;
+}
+
+/**
+ * Gets the name a registered downstream tool is listed under
+ */
+export function getRegisteredToolName(serverUuid: string, originalName: string): string | undefined {
+  const { namesByOriginal } = getRegistry();
+  return namesByOriginal.get(originalKey(serverUuid, originalName));
+}
+
+/**
+ * Resolves a tool name from the client to its server and original name
+ *
+ * Names in UUID or slug prefix form are accepted for tools registered under
+ * another name, so clients that kept names from another strategy still work.
+ * @param name - The tool name the client called
+ * @returns The registered tool, or undefined if the name is unknown
+ */
+export function resolveToolName(name: string): RegisteredToolName | undefined {
+  const { toolsByName, namesByOriginal, serverSlugs } = getRegistry();
+  const registered = toolsByName.get(name);
+  if (registered) {
+    return registered;
+  }
+
+  const parsed = parsePrefixedToolName(name);
+  if (!parsed) {
+    return undefined;
+  }
+  const serverUuid = parsed.prefixType === 'uuid'
+    ? parsed.serverIdentifier
+    : Array.from(serverSlugs.entries()).find(([, slug]) => slug === parsed.serverIdentifier)?.[0];
+  const registeredName = serverUuid && namesByOriginal.get(originalKey(serverUuid, parsed.originalName));
+  return registeredName ? toolsByName.get(registeredName) : undefined;
+}
+
+/**
+ * Drops the names of a server's tools, e.g. after its tool list changed
+ */
+export function removeServerToolNames(serverUuid: string): void {
+  const { toolsByName, namesByOriginal } = getRegistry();
+  for (const [name, entry] of toolsByName) {
+    if (entry.serverUuid === serverUuid) {
+      toolsByName.delete(name);
+      namesByOriginal.delete(originalKey(entry.serverUuid, entry.originalName));
+    }
+  }
+}
+
+/** Clear all registered names and server slugs (for testing and cleanup). */
+export function clearToolNames(): void {
+  const { toolsByName, namesByOriginal, serverSlugs } = getRegistry();
+  toolsByName.clear();
+  namesByOriginal.clear();
+  serverSlugs.clear();
+}
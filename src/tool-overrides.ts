@@ -0,0 +1,243 @@
+/**
+ * Per-tool overrides of downstream tools
+ *
+ * Overrides change a downstream tool before the client sees it: its name,
+ * its description, and its arguments. They come from two places:
+ * - custom instructions, one phrase per line:
+ *     "tool search: rename to code_search"
+ *     "tool search: description: Search the company code base"
+ *     "tool search: append description: Only public repositories are indexed."
+ *     "tool search: default per_page = 20"
+ *     "tool search: hide arguments debug, trace"
+ *     "tool search: pin owner = acme"
+ * - a local overrides file (PLUGGEDIN_TOOL_OVERRIDES_PATH or
+ *   `tool_overrides_path` in the credentials file), YAML or JSON:
+ *
+ *     overrides:
+ *       - server: github            # server name or UUID, all servers if omitted
+ *         tool: search
+ *         name: code_search
+ *         appendDescription: Only public repositories are indexed.
+ *         defaults: { per_page: 20 }
+ *         hide: [debug]
+ *         pin: { owner: acme }
+ *
+ * The file is applied after the custom instructions, so its values win.
+ * Values in phrases are JSON if they parse ("default limit = 10" is a number)
+ * and strings otherwise. Defaults and pinned values are also applied to every
+ * call before it is checked and forwarded. Only optional arguments can be
+ * hidden, unless they have a default.
+ */
+
+import { readFileSync, statSync } from "fs";
+import { extname, resolve } from "path";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { Constraints, ToolOverride } from "./utils/custom-instructions.js";
+import { getSettingsEnvVar } from "./config-loader.js";
+import { debugError, debugLog } from "./debug-log.js";
+
+const OverrideEntrySchema = z.object({
+  server: z.string().min(1).optional(),
+  tool: z.string().min(1),
+  name: z.string().regex(/^[\w.-]+$/, 'name may only contain letters, digits, _, . and -').optional(),
+  description: z.string().min(1).optional(),
+  appendDescription: z.string().min(1).optional(),
+  defaults: z.record(z.string(), z.unknown()).optional(),
+  hide: z.array(z.string().min(1)).min(1).optional(),
+  pin: z.record(z.string(), z.unknown()).optional(),
+});
+
+const OverridesFileSchema = z.object({
+  overrides: z.array(OverrideEntrySchema),
+});
+
+/**
+ * An override from the overrides file
+ */
+export interface OverrideFileEntry extends ToolOverride {
+  /** Server name or UUID the override is limited to */
+  server?: string;
+  /** Lower-cased tool name */
+  tool: string;
+}
+
+interface OverridesCache {
+  path: string;
+  mtimeMs: number;
+  entries: OverrideFileEntry[];
+}
+
+let overridesCache: OverridesCache | null = null;
+
+/**
+ * Gets the configured overrides file path, if any
+ */
+export function getToolOverridesPath(): string | undefined {
+  const path = process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH || getSettingsEnvVar('PLUGGEDIN_TOOL_OVERRIDES_PATH');
+  return path ? resolve(path) : undefined;
+}
+
+/**
+ * Parses and validates overrides file content
+ * @param content - The file content
+ * @param filePath - Path of the overrides file, used to pick the format and in errors
+ * @throws Error if the content cannot be parsed or does not match the format
+ */
+export function parseToolOverridesFile(content: string, filePath: string): OverrideFileEntry[] {
+  let raw: unknown;
+  try {
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid tool overrides file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = OverridesFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid tool overrides file ${filePath}: ${issues}`);
+  }
+
+  return result.data.overrides.map(entry => ({ ...entry, tool: entry.tool.toLowerCase() }));
+}
+
+/**
+ * Loads the overrides file, re-reading it when it changes
+ * @param filePath - Overrides file path, defaults to the configured one
+ * @returns The overrides, or an empty list when no file is configured
+ * @throws Error if the file cannot be read or parsed, so pinned values are never silently dropped
+ */
+export function loadToolOverrides(filePath: string | undefined = getToolOverridesPath()): OverrideFileEntry[] {
+  if (!filePath) {
+    return [];
+  }
+
+  const { mtimeMs } = statSync(filePath);
+  if (overridesCache && overridesCache.path === filePath && overridesCache.mtimeMs === mtimeMs) {
+    return overridesCache.entries;
+  }
+
+  const entries = parseToolOverridesFile(readFileSync(filePath, 'utf-8'), filePath);
+  overridesCache = { path: filePath, mtimeMs, entries };
+  debugLog(`[Tool Overrides] Loaded ${entries.length} overrides from ${filePath}`);
+  return entries;
+}
+
+/** Clear the overrides file cache (for testing). */
+export function clearToolOverridesCache(): void {
+  overridesCache = null;
+}
+
+function mergeOverride(base: ToolOverride | undefined, next: ToolOverride): ToolOverride {
+  return {
+    ...base,
+    ...(next.name && { name: next.name }),
+    ...(next.description && { description: next.description }),
+    ...(next.appendDescription && { appendDescription: next.appendDescription }),
+    ...(next.defaults && { defaults: { ...base?.defaults, ...next.defaults } }),
+    ...(next.hide && { hide: [...(base?.hide ?? []), ...next.hide] }),
+    ...(next.pin && { pin: { ...base?.pin, ...next.pin } }),
+  };
+}
+
+/**
+ * Gets the override of a downstream tool from custom instructions and the overrides file
+ * @param server - UUID and name of the downstream server
+ * @param toolName - The tool's name on the downstream server
+ * @param constraints - The server's parsed constraints, if it has custom instructions
+ * @returns The merged override, or undefined if the tool has none
+ * @throws Error if the overrides file is configured but cannot be loaded
+ */
+export function getToolOverride(
+  server: { uuid: string; name?: string },
+  toolName: string,
+  constraints: Constraints | undefined
+): ToolOverride | undefined {
+  const lowerToolName = toolName.toLowerCase();
+  const serverName = server.name?.toLowerCase();
+  let override = constraints?.toolOverrides?.[lowerToolName];
+
+  for (const { server: entryServer, tool, ...entry } of loadToolOverrides()) {
+    if (tool === lowerToolName && (!entryServer || entryServer === server.uuid || entryServer.toLowerCase() === serverName)) {
+      override = mergeOverride(override, entry);
+    }
+  }
+  return override;
+}
+
+/**
+ * Gets a tool's description with an override's replacement and addition applied
+ */
+export function overrideDescription(description: string | undefined, override: ToolOverride | undefined): string | undefined {
+  const replaced = override?.description ?? description;
+  if (!override?.appendDescription) {
+    return replaced;
+  }
+  return replaced ? `${replaced}\n\n${override.appendDescription}` : override.appendDescription;
+}
+
+/**
+ * Applies an override's description and argument changes to a listed tool
+ *
+ * The name is not changed here: renames are aliases in the tool naming registry.
+ * @returns A copy of the tool, or the tool itself without an override
+ */
+export function applyToolOverride(tool: Tool, override: ToolOverride | undefined): Tool {
+  if (!override) {
+    return tool;
+  }
+
+  const description = overrideDescription(tool.description, override);
+  const properties: Record<string, any> = { ...(tool.inputSchema.properties as Record<string, any> | undefined) };
+  let required = [...(tool.inputSchema.required ?? [])];
+
+  for (const [argument, value] of Object.entries(override.defaults ?? {})) {
+    if (properties[argument] && typeof properties[argument] === 'object') {
+      properties[argument] = { ...properties[argument], default: value };
+    }
+    required = required.filter(name => name !== argument);
+  }
+  for (const argument of override.hide ?? []) {
+    if (required.includes(argument)) {
+      debugError(`[Tool Overrides] Not hiding required argument ${argument} of ${tool.name}; give it a default or pin it`);
+      continue;
+    }
+    delete properties[argument];
+  }
+  for (const argument of Object.keys(override.pin ?? {})) {
+    delete properties[argument];
+    required = required.filter(name => name !== argument);
+  }
+
+  const inputSchema: Tool['inputSchema'] = { ...tool.inputSchema, properties };
+  if (required.length > 0) {
+    inputSchema.required = required;
+  } else {
+    delete inputSchema.required;
+  }
+  return { ...tool, description, inputSchema };
+}
+
+/**
+ * Applies an override's defaults and pinned values to the arguments of a call
+ * @returns The arguments to forward
+ */
+export function applyArgumentOverrides(
+  args: Record<string, unknown> | undefined,
+  override: ToolOverride | undefined
+): Record<string, unknown> | undefined {
+  if (!override || !(override.defaults || override.pin)) {
+    return args;
+  }
+
+  const result: Record<string, unknown> = { ...args };
+  for (const [argument, value] of Object.entries(override.defaults ?? {})) {
+    if (result[argument] === undefined) {
+      result[argument] = value;
+    }
+  }
+  return { ...result, ...override.pin };
+}
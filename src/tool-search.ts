@@ -0,0 +1,217 @@
+/**
+ * Search over the downstream tools (pluggedin_find_tools)
+ *
+ * Every tools listing records the downstream tools, as the client sees them,
+ * in a catalog. pluggedin_find_tools ranks the catalog by the words of a
+ * query: matches in the tool name count most, then the description, then the
+ * names and descriptions of its arguments. Words of four letters or more also
+ * match misspelled name words ("githb" finds github_create_issue).
+ *
+ * With PLUGGEDIN_LAZY_TOOLS=true, tools/list returns only the static tools
+ * and the downstream tools pluggedin_find_tools has returned so far; the
+ * client is told about newly found tools with notifications/tools/list_changed.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { splitToolName } from "./utils/custom-instructions.js";
+import { FIND_TOOLS_FUZZY_THRESHOLD } from "./constants.js";
+import { createTenantState } from "./tenants.js";
+
+const NAME_WORD_SCORE = 10;
+const NAME_SUBSTRING_SCORE = 6;
+const NAME_FUZZY_SCORE = 5; // Scaled by the similarity
+const DESCRIPTION_WORD_SCORE = 3;
+const DESCRIPTION_SUBSTRING_SCORE = 2;
+const ARGUMENT_SCORE = 1;
+const EXACT_NAME_BONUS = 20;
+const MIN_PARTIAL_TERM_LENGTH = 4;
+const MAX_SCHEMA_DEPTH = 3;
+
+/**
+ * A downstream tool in the search catalog
+ */
+export interface CatalogTool {
+  /** The tool as listed to the client */
+  tool: Tool;
+  serverUuid: string;
+  serverName?: string;
+}
+
+/**
+ * A search result, best first
+ */
+export interface ToolMatch extends CatalogTool {
+  score: number;
+}
+
+// Catalog by the tool name the client sees, per tenant in tenant mode
+const getCatalog = createTenantState(() => new Map<string, CatalogTool>());
+
+/**
+ * Whether tools/list is limited to the static tools and the tools found so far
+ */
+export function isLazyToolsMode(): boolean {
+  return process.env.PLUGGEDIN_LAZY_TOOLS === 'true';
+}
+
+/**
+ * Records listed downstream tools in the catalog
+ * @param entries - The tools with their servers
+ * @param replace - Drop the previous catalog first, e.g. on the first page of a listing
+ */
+export function recordToolCatalog(entries: CatalogTool[], replace: boolean): void {
+  const catalog = getCatalog();
+  if (replace) {
+    catalog.clear();
+  }
+  for (const entry of entries) {
+    catalog.set(entry.tool.name, entry);
+  }
+}
+
+/**
+ * Gets the catalog, in listing order
+ */
+export function getToolCatalog(): CatalogTool[] {
+  return Array.from(getCatalog().values());
+}
+
+/**
+ * Drops the tools of a server, e.g. after its tool list changed
+ */
+export function removeServerFromToolCatalog(serverUuid: string): void {
+  const catalog = getCatalog();
+  for (const [name, entry] of catalog) {
+    if (entry.serverUuid === serverUuid) {
+      catalog.delete(name);
+    }
+  }
+}
+
+/** Clear the catalog (for testing and cleanup). */
+export function clearToolCatalog(): void {
+  getCatalog().clear();
+}
+
+function collectArgumentWords(schema: unknown, depth: number, words: Set<string>): void {
+  if (!schema || typeof schema !== 'object' || depth > MAX_SCHEMA_DEPTH) {
+    return;
+  }
+  const { properties, items, description } = schema as Record<string, any>;
+  if (typeof description === 'string') {
+    splitToolName(description.toLowerCase()).forEach(word => words.add(word));
+  }
+  if (properties && typeof properties === 'object') {
+    for (const [name, property] of Object.entries(properties)) {
+      splitToolName(name).forEach(word => words.add(word));
+      collectArgumentWords(property, depth + 1, words);
+    }
+  }
+  collectArgumentWords(items, depth + 1, words);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// Treats a plural and its singular as the same word ("issues" matches "issue")
+function hasWord(words: Iterable<string>, term: string): boolean {
+  for (const word of words) {
+    if (word === term || word === `${term}s` || term === `${word}s`) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function scoreTerm(term: string, tool: Tool, nameWords: string[], description: string, descriptionWords: Set<string>, argumentWords: Set<string>): number {
+  let score = 0;
+  const partial = term.length >= MIN_PARTIAL_TERM_LENGTH;
+
+  if (hasWord(nameWords, term)) {
+    score = NAME_WORD_SCORE;
+  } else if (tool.name.toLowerCase().includes(term)) {
+    score = NAME_SUBSTRING_SCORE;
+  } else if (partial) {
+    const best = Math.max(0, ...nameWords.map(word => similarity(term, word)));
+    if (best >= FIND_TOOLS_FUZZY_THRESHOLD) {
+      score = NAME_FUZZY_SCORE * best;
+    }
+  }
+
+  if (hasWord(descriptionWords, term)) {
+    score += DESCRIPTION_WORD_SCORE;
+  } else if (partial && description.includes(term)) {
+    score += DESCRIPTION_SUBSTRING_SCORE;
+  }
+
+  if (hasWord(argumentWords, term)) {
+    score += ARGUMENT_SCORE;
+  }
+  return score;
+}
+
+/**
+ * Ranks tools by how well they match a query
+ * @param tools - The tools to search
+ * @param query - Keywords, e.g. "create github issue"
+ * @param limit - Maximum number of results
+ * @returns Matching tools, best first; tools that match none of the words are left out
+ */
+export function searchTools(tools: CatalogTool[], query: string, limit: number): ToolMatch[] {
+  const terms = Array.from(new Set(splitToolName(query.toLowerCase())));
+  if (terms.length === 0) {
+    return [];
+  }
+  const normalizedQuery = query.trim().toLowerCase();
+
+  const matches: ToolMatch[] = [];
+  for (const entry of tools) {
+    const { tool } = entry;
+    const nameWords = splitToolName(tool.name);
+    const description = (tool.description ?? '').toLowerCase();
+    const descriptionWords = new Set(splitToolName(description));
+    const argumentWords = new Set<string>();
+    collectArgumentWords(tool.inputSchema, 0, argumentWords);
+
+    let score = 0;
+    let matchedTerms = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(term, tool, nameWords, description, descriptionWords, argumentWords);
+      if (termScore > 0) {
+        matchedTerms++;
+        score += termScore;
+      }
+    }
+    if (matchedTerms === 0) {
+      continue;
+    }
+
+    // Tools that match more of the query rank first
+    score *= matchedTerms / terms.length;
+    if (tool.name.toLowerCase() === normalizedQuery) {
+      score += EXACT_NAME_BONUS;
+    }
+    matches.push({ ...entry, score: Math.round(score * 100) / 100 });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.tool.name.localeCompare(b.tool.name))
+    .slice(0, limit);
+}
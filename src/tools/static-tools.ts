@@ -2,6 +2,7 @@ import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import {
   DiscoverToolsInputSchema,
+  FindToolsInputSchema,
   AskKnowledgeBaseInputSchema,
   SendNotificationInputSchema,
   ListNotificationsInputSchema,
@@ -26,9 +27,27 @@ import {
   CBPQueryInputSchema,
   CBPFeedbackInputSchema,
   MemorySearchWithContextInputSchema,
-  MemoryIndividuationInputSchema
+  MemoryIndividuationInputSchema,
+  ClipboardDeleteOutputSchema,
+  ClipboardEntriesOutputSchema,
+  ClipboardEntryResultOutputSchema,
+  CreateDocumentOutputSchema,
+  FindToolsOutputSchema,
+  GetDocumentOutputSchema,
+  ListDocumentsOutputSchema,
+  MemoryDetailsOutputSchema,
+  MemoryObserveOutputSchema,
+  MemorySearchOutputSchema,
+  MemorySessionEndOutputSchema,
+  MemorySessionStartOutputSchema,
+  SearchDocumentsOutputSchema,
+  UpdateDocumentOutputSchema
 } from '../schemas/index.js';
 
+// Inline shared definitions, since clients may not resolve $refs in outputSchema
+const toOutputSchema = (schema: Parameters<typeof zodToJsonSchema>[0]) =>
+  zodToJsonSchema(schema, { $refStrategy: 'none' }) as Tool['outputSchema'];
+
 // Define the setup tool that works without API key
 export const setupStaticTool: Tool = {
   name: "pluggedin_setup",
@@ -63,6 +82,19 @@ export const discoverToolsStaticTool: Tool = {
   }
 };
 
+// Define the static tool for searching the downstream tools
+export const findToolsStaticTool: Tool = {
+  name: "pluggedin_find_tools",
+  description: "Find tools of the connected MCP servers by keywords, e.g. 'create github issue'. Returns the best matching tools, which can then be called by name. Use this instead of scanning the full tool list.",
+  inputSchema: zodToJsonSchema(FindToolsInputSchema) as any,
+  outputSchema: toOutputSchema(FindToolsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
+  }
+};
+
 // Define the static tool for asking questions to the knowledge base
 const askKnowledgeBaseSchema = zodToJsonSchema(AskKnowledgeBaseInputSchema) as any;
 askKnowledgeBaseSchema.examples = [{
@@ -156,6 +188,7 @@ export const createDocumentStaticTool: Tool = {
   name: "pluggedin_create_document",
   description: "Create and save AI-generated documents to the user's library in Plugged.in (requires API key)",
   inputSchema: createDocumentSchema,
+  outputSchema: toOutputSchema(CreateDocumentOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -168,6 +201,7 @@ export const listDocumentsStaticTool: Tool = {
   name: "pluggedin_list_documents",
   description: "List documents with filtering options from the user's library (requires API key)",
   inputSchema: zodToJsonSchema(ListDocumentsInputSchema) as any,
+  outputSchema: toOutputSchema(ListDocumentsOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -193,6 +227,7 @@ export const searchDocumentsStaticTool: Tool = {
   name: "pluggedin_search_documents",
   description: "Search for specific documents in your library. Returns document metadata (ID, title, snippet). To retrieve full content, use pluggedin_get_document with the returned document ID.",
   inputSchema: searchDocumentsSchema,
+  outputSchema: toOutputSchema(SearchDocumentsOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -215,6 +250,7 @@ export const getDocumentStaticTool: Tool = {
   name: "pluggedin_get_document",
   description: "Retrieve a specific document's full content by ID. Use this after pluggedin_search_documents to get the complete content of documents you found. Set includeContent=true to get the full text.",
   inputSchema: getDocumentSchema,
+  outputSchema: toOutputSchema(GetDocumentOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -237,6 +273,7 @@ export const updateDocumentStaticTool: Tool = {
   name: "pluggedin_update_document",
   description: "Update or append to an existing AI-generated document (requires API key)",
   inputSchema: updateDocumentSchema,
+  outputSchema: toOutputSchema(UpdateDocumentOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -262,6 +299,7 @@ export const clipboardSetStaticTool: Tool = {
   name: "pluggedin_clipboard_set",
   description: "Set a clipboard entry by name (semantic key) or index (array-like). Named entries are upserted; indexed entries fail if index exists. Max 2MB per entry.",
   inputSchema: clipboardSetSchema,
+  outputSchema: toOutputSchema(ClipboardEntryResultOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -284,6 +322,7 @@ export const clipboardGetStaticTool: Tool = {
   name: "pluggedin_clipboard_get",
   description: "Get clipboard entries. Specify name or idx for a single entry, or omit both to list all entries with pagination.",
   inputSchema: clipboardGetSchema,
+  outputSchema: toOutputSchema(ClipboardEntriesOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -305,6 +344,7 @@ export const clipboardDeleteStaticTool: Tool = {
   name: "pluggedin_clipboard_delete",
   description: "Delete clipboard entries by name, index, or clear all entries.",
   inputSchema: clipboardDeleteSchema,
+  outputSchema: toOutputSchema(ClipboardDeleteOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: true,
@@ -317,6 +357,7 @@ export const clipboardListStaticTool: Tool = {
   name: "pluggedin_clipboard_list",
   description: "List all clipboard entries with metadata. Image values are truncated to first 1000 chars for preview.",
   inputSchema: zodToJsonSchema(ClipboardListInputSchema) as any,
+  outputSchema: toOutputSchema(ClipboardEntriesOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -339,6 +380,7 @@ export const clipboardPushStaticTool: Tool = {
   name: "pluggedin_clipboard_push",
   description: "Push a value to the indexed clipboard with auto-incrementing index. Useful for building ordered pipelines or stack-like operations.",
   inputSchema: clipboardPushSchema,
+  outputSchema: toOutputSchema(ClipboardEntryResultOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -351,6 +393,7 @@ export const clipboardPopStaticTool: Tool = {
   name: "pluggedin_clipboard_pop",
   description: "Pop the highest-indexed entry from the clipboard (LIFO behavior). Returns the entry value and removes it.",
   inputSchema: zodToJsonSchema(ClipboardPopInputSchema) as any,
+  outputSchema: toOutputSchema(ClipboardEntryResultOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: true,
@@ -372,6 +415,7 @@ export const memorySessionStartStaticTool: Tool = {
   name: "pluggedin_memory_session_start",
   description: "Start a new memory session to begin capturing observations. Returns a session UUID and memory_session_id for subsequent operations.",
   inputSchema: memorySessionStartSchema,
+  outputSchema: toOutputSchema(MemorySessionStartOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -388,6 +432,7 @@ export const memorySessionEndStaticTool: Tool = {
   name: "pluggedin_memory_session_end",
   description: "End a memory session and trigger Z-report generation (AI-compressed session summary).",
   inputSchema: memorySessionEndSchema,
+  outputSchema: toOutputSchema(MemorySessionEndOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -413,6 +458,7 @@ export const memoryObserveStaticTool: Tool = {
   name: "pluggedin_memory_observe",
   description: "Record an observation during a memory session. Observations are classified by the Analytics Agent into memory ring types (procedures, practice, longterm, shocks).",
   inputSchema: memoryObserveSchema,
+  outputSchema: toOutputSchema(MemoryObserveOutputSchema),
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -434,6 +480,7 @@ export const memorySearchStaticTool: Tool = {
   name: "pluggedin_memory_search",
   description: "Search memories using semantic similarity. Returns lightweight results (50-150 tokens each) for token-efficient progressive disclosure. Use pluggedin_memory_details for full content.",
   inputSchema: memorySearchSchema,
+  outputSchema: toOutputSchema(MemorySearchOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -450,6 +497,7 @@ export const memoryDetailsStaticTool: Tool = {
   name: "pluggedin_memory_details",
   description: "Get full details for selected memories (progressive disclosure Layer 3). Use after pluggedin_memory_search to retrieve complete content for specific memories.",
   inputSchema: memoryDetailsSchema,
+  outputSchema: toOutputSchema(MemoryDetailsOutputSchema),
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -536,6 +584,7 @@ export const memoryIndividuationStaticTool: Tool = {
 export const allStaticTools: Tool[] = [
   setupStaticTool,
   discoverToolsStaticTool,
+  findToolsStaticTool,
   askKnowledgeBaseStaticTool,
   sendNotificationStaticTool,
   listNotificationsStaticTool,
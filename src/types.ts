@@ -61,7 +61,15 @@ export interface Tool {
   name: string;
   description?: string;
   inputSchema: ToolSchema;
-  // Add outputSchema if needed/available
+  /** JSON Schema of the tool's structuredContent, if it returns structured results */
+  outputSchema?: ToolSchema;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
 }
 
 /**
@@ -73,9 +81,16 @@ export interface ToolExecutionResult {
   content?: Array< // Made content optional
     | { type: "text"; text: string }
     | { type: "image"; data: string; mimeType: string }
+    | { type: "audio"; data: string; mimeType: string }
+    | { type: "resource_link"; uri: string; name: string; description?: string; mimeType?: string }
+    | { type: "resource"; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
     | Record<string, any> // Allow other potential object types as a fallback
   >;
+  /** Structured result matching the tool's outputSchema, passed through unchanged */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
+  // Results are passthrough objects in the SDK, e.g. for a downstream _meta
+  [key: string]: unknown;
 }
 
 /**
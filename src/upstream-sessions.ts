@@ -0,0 +1,138 @@
+/**
+ * Registry of connected upstream (client-facing) sessions
+ *
+ * Handler-scoped `sendNotification` only reaches the stream of the request
+ * being handled. Notifications that arrive later from a downstream server
+ * (e.g. `notifications/resources/updated`) must be delivered to a specific
+ * client session instead, so each transport registers a sender here:
+ * - Streamable HTTP: one entry per stateful session, keyed by Mcp-Session-Id
+ * - STDIO: a single entry keyed by STDIO_SESSION_ID
+ *
+ * Listeners are told when a session goes away so per-session state (such as
+ * resource subscriptions) can be released.
+ *
+ * Sessions also expose their client's capabilities, so downstream clients can
+ * advertise only what the connected clients can answer (see
+ * getRelayedClientCapabilities).
+ */
+
+import type { ClientCapabilities, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { debugLog, debugError } from "./debug-log.js";
+import { getCurrentTenant } from "./tenants.js";
+
+/**
+ * Session id used for the single STDIO client, whose requests carry no session id
+ */
+export const STDIO_SESSION_ID = 'stdio';
+
+/**
+ * Sends a notification to one upstream session
+ */
+export type UpstreamNotificationSender = (notification: ServerNotification) => Promise<void>;
+
+interface UpstreamSession {
+  send: UpstreamNotificationSender;
+  /** Capabilities the session's client sent in its initialize request */
+  getClientCapabilities?: () => ClientCapabilities | undefined;
+  /** Tenant of the session, in tenant mode */
+  tenantId?: string;
+}
+
+// Map of upstream session id -> connected session
+const upstreamSessions = new Map<string, UpstreamSession>();
+
+const closeListeners = new Set<(sessionId: string) => void>();
+
+/**
+ * Gets the registry key for the upstream session of a request
+ * @param sessionId - The `sessionId` from the handler context, if any
+ */
+export function getUpstreamSessionId(sessionId: string | undefined): string {
+  return sessionId ?? STDIO_SESSION_ID;
+}
+
+/**
+ * Registers a connected upstream session of the current tenant
+ * @param sessionId - Mcp-Session-Id of the session, or STDIO_SESSION_ID
+ * @param send - Delivers a notification to the session outside of any request
+ * @param getClientCapabilities - Reads the capabilities of the session's client, once initialized
+ */
+export function registerUpstreamSession(
+  sessionId: string,
+  send: UpstreamNotificationSender,
+  getClientCapabilities?: () => ClientCapabilities | undefined
+): void {
+  upstreamSessions.set(sessionId, { send, getClientCapabilities, tenantId: getCurrentTenant()?.id });
+  debugLog(`[Upstream Sessions] Registered session ${sessionId}`);
+}
+
+/**
+ * Removes an upstream session and notifies close listeners
+ * @param sessionId - The session that disconnected
+ */
+export function unregisterUpstreamSession(sessionId: string): void {
+  if (!upstreamSessions.delete(sessionId)) {
+    return;
+  }
+  debugLog(`[Upstream Sessions] Session ${sessionId} closed`);
+  for (const listener of closeListeners) {
+    try {
+      listener(sessionId);
+    } catch (error) {
+      debugError(`[Upstream Sessions] Close listener failed for ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Checks whether an upstream session can receive notifications
+ */
+export function hasUpstreamSession(sessionId: string): boolean {
+  return upstreamSessions.has(sessionId);
+}
+
+/**
+ * Sends a notification to a registered upstream session
+ * @param sessionId - The target session
+ * @param notification - The notification to deliver
+ * @returns false if the session is not registered
+ */
+export async function sendToUpstreamSession(
+  sessionId: string,
+  notification: ServerNotification
+): Promise<boolean> {
+  const session = upstreamSessions.get(sessionId);
+  if (!session) {
+    return false;
+  }
+  await session.send(notification);
+  return true;
+}
+
+/**
+ * Gets the capabilities of the initialized clients of a tenant's sessions
+ * @param tenantId - Tenant of the sessions, in tenant mode
+ */
+export function getUpstreamClientCapabilities(
+  tenantId: string | undefined = getCurrentTenant()?.id
+): ClientCapabilities[] {
+  const capabilities: ClientCapabilities[] = [];
+  for (const session of upstreamSessions.values()) {
+    const clientCapabilities = session.tenantId === tenantId ? session.getClientCapabilities?.() : undefined;
+    if (clientCapabilities) {
+      capabilities.push(clientCapabilities);
+    }
+  }
+  return capabilities;
+}
+
+/**
+ * Subscribes to upstream session disconnects
+ * @returns A function that removes the listener
+ */
+export function onUpstreamSessionClosed(listener: (sessionId: string) => void): () => void {
+  closeListeners.add(listener);
+  return () => {
+    closeListeners.delete(listener);
+  };
+}
@@ -3,9 +3,12 @@ import { ServerParameters } from "./types.js"; // Corrected import path
 import { validateBearerToken, validateApiUrl, validateEnvVarName } from "./security-utils.js";
 import { debugError } from "./debug-log.js";
 import { getSettingsEnvVar } from "./config-loader.js";
+import { getCurrentTenant } from "./tenants.js";
 
 export const getSessionKey = (uuid: string, params: ServerParameters): string => {
   const hash = crypto.createHash("sha256");
+  // Tenants never share a downstream session, even with identical parameters
+  hash.update(getCurrentTenant()?.id ?? '');
   hash.update(JSON.stringify(params));
   return `${uuid}_${hash.digest("hex")}`;
 };
@@ -16,9 +19,10 @@ export const sanitizeName = (name: string): string => {
 
 // Helper function to get the API key, prioritizing argument over environment variable
 export const getPluggedinMCPApiKey = (apiKey?: string): string | undefined => {
-  // Prioritize argument, then environment variable, then settings.local.json
+  // Prioritize argument, then the tenant's key in tenant mode, then environment variable,
+  // then settings.local.json
   // Use || instead of ?? so empty strings (from unexpanded ${PLUGGEDIN_API_KEY}) trigger fallback
-  const key = apiKey || process.env.PLUGGEDIN_API_KEY || getSettingsEnvVar('PLUGGEDIN_API_KEY');
+  const key = apiKey || getCurrentTenant()?.apiKey || process.env.PLUGGEDIN_API_KEY || getSettingsEnvVar('PLUGGEDIN_API_KEY');
   
   // Validate token format if present
   if (key && !validateBearerToken(key)) {
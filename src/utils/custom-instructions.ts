@@ -11,6 +11,52 @@ export interface McpMessage {
   content: Array<{ type: "text"; text: string }> | string;
 }
 
+/**
+ * A rate limit of `count` requests per `unit`
+ */
+export interface RateLimitRule {
+  count: number;
+  unit: 'second' | 'minute' | 'hour';
+}
+
+/**
+ * A check applied to the values of a tool argument
+ */
+export type ArgumentCheck =
+  | { type: 'under'; paths: string[] }
+  | { type: 'notContains'; terms: string[] }
+  | { type: 'matches'; pattern: string; flags: string }
+  | { type: 'hosts'; hosts: string[] };
+
+/**
+ * An argument-level policy rule for tool calls
+ */
+export interface ArgumentRule {
+  /** Lower-cased tool name the rule is limited to; all tools when missing */
+  tool?: string;
+  /** Argument name, a dotted path into nested objects, or "*" for every argument */
+  argument: string;
+  check: ArgumentCheck;
+}
+
+/**
+ * Changes to a downstream tool before the client sees it
+ */
+export interface ToolOverride {
+  /** Name the tool is listed and called under */
+  name?: string;
+  /** Replaces the tool's description */
+  description?: string;
+  /** Appended to the (replaced) description */
+  appendDescription?: string;
+  /** Argument values used when the call leaves them out */
+  defaults?: Record<string, unknown>;
+  /** Optional arguments removed from the input schema */
+  hide?: string[];
+  /** Argument values forced on every call, removed from the input schema */
+  pin?: Record<string, unknown>;
+}
+
 /**
  * Represents parsed constraints from custom instructions
  */
@@ -19,12 +65,50 @@ export interface Constraints {
   noWrites?: boolean;
   noDeletes?: boolean;
   noUpdates?: boolean;
-  rateLimit?: {
-    count: number;
-    unit: 'second' | 'minute' | 'hour';
-  };
+  rateLimit?: RateLimitRule;
+  /** Per-tool limits keyed by lower-cased tool name */
+  toolRateLimits?: Record<string, RateLimitRule>;
   allowedOperations?: string[];
   deniedOperations?: string[];
+  noSampling?: boolean;
+  noElicitation?: boolean;
+  samplingMaxTokens?: number;
+  noRoots?: boolean;
+  allowedRoots?: string[];
+  /** Tools declared as read-only for this server (lower-cased names) */
+  readTools?: string[];
+  /** Tools declared as additive writes for this server (lower-cased names) */
+  writeTools?: string[];
+  /** Tools declared as destructive for this server (lower-cased names) */
+  destructiveTools?: string[];
+  argumentRules?: ArgumentRule[];
+  /** Hold destructive (or all write) tool calls until a person approves them */
+  requireApproval?: 'destructive' | 'write';
+  /** Per-tool overrides keyed by lower-cased tool name */
+  toolOverrides?: Record<string, ToolOverride>;
+  /** How long results of read-only tools are cached; 0 never caches them */
+  cacheTtlMs?: number;
+}
+
+/**
+ * Behaviour hints a server publishes for a tool in `tools/list`
+ */
+export interface ToolBehaviorHints {
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+}
+
+/**
+ * What a tool does to its environment, and how that was decided
+ */
+export interface ToolClassification {
+  access: 'read' | 'write' | 'destructive' | 'unknown';
+  /** For destructive tools classified by name: whether it updates or deletes */
+  operation?: 'update' | 'delete';
+  source: 'annotations' | 'server list' | 'name';
+  /** Why the tool got this classification, e.g. "name contains 'delete'" */
+  detail: string;
 }
 
 /**
@@ -48,6 +132,12 @@ export interface ServerContext {
   constraints?: string[];
 }
 
+const CACHE_TTL_UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
 /**
  * Processes custom instructions in a single pass to extract both formatted context and constraints
  */
@@ -98,8 +188,22 @@ export function processInstructions(
     constraints.noUpdates = true;
   }
   
-  // Extract rate limits
-  const rateLimitMatch = rawInstructions.match(/(\d+)\s*requests?\s*per\s*(second|minute|hour)/i);
+  // Extract per-tool rate limits ("tool search: 5 requests per minute")
+  const toolRateLimitPattern = /\btool\s+([\w.-]+)\s*:?\s*(\d+)\s*requests?\s*per\s*(second|minute|hour)/gi;
+  for (const match of rawInstructions.matchAll(toolRateLimitPattern)) {
+    constraints.toolRateLimits = {
+      ...constraints.toolRateLimits,
+      [match[1].toLowerCase()]: {
+        count: parseInt(match[2], 10),
+        unit: match[3].toLowerCase() as 'second' | 'minute' | 'hour'
+      }
+    };
+  }
+
+  // Extract rate limits (server-wide, ignoring the per-tool ones)
+  const rateLimitMatch = rawInstructions
+    .replace(toolRateLimitPattern, '')
+    .match(/(\d+)\s*requests?\s*per\s*(second|minute|hour)/i);
   if (rateLimitMatch) {
     constraints.rateLimit = {
       count: parseInt(rateLimitMatch[1], 10),
@@ -125,6 +229,82 @@ export function processInstructions(
       .filter(Boolean);
   }
   
+  // Check for server-to-client request restrictions
+  if (lowerInstructions.includes('no sampling')) {
+    constraints.noSampling = true;
+  }
+  if (lowerInstructions.includes('no elicitation')) {
+    constraints.noElicitation = true;
+  }
+  const samplingTokensMatch = rawInstructions.match(/max(?:imum)?\s*sampling\s*tokens?\s*:?\s*(\d+)/i);
+  if (samplingTokensMatch) {
+    constraints.samplingMaxTokens = parseInt(samplingTokensMatch[1], 10);
+  }
+  
+  // Check which client roots the server may see
+  if (lowerInstructions.includes('no roots')) {
+    constraints.noRoots = true;
+  }
+  const allowedRootsMatch = rawInstructions.match(/allowed\s*roots?:\s*([^\n]+)/i);
+  if (allowedRootsMatch) {
+    constraints.allowedRoots = allowedRootsMatch[1]
+      .split(/[,;]/)
+      .map(root => root.trim())
+      .filter(Boolean);
+  }
+  
+  // Explicit tool classification ("read tools: list_rows, stats")
+  const toolListPatterns: Array<['readTools' | 'writeTools' | 'destructiveTools', RegExp]> = [
+    ['readTools', /\bread\s*tools?:\s*([^\n]+)/i],
+    ['writeTools', /\bwrite\s*tools?:\s*([^\n]+)/i],
+    ['destructiveTools', /\bdestructive\s*tools?:\s*([^\n]+)/i],
+  ];
+  for (const [key, pattern] of toolListPatterns) {
+    const match = rawInstructions.match(pattern);
+    if (match) {
+      constraints[key] = match[1]
+        .split(/[,;]/)
+        .map(tool => tool.trim().toLowerCase())
+        .filter(Boolean);
+    }
+  }
+  
+  // Check whether tool calls need approval ("require approval for writes")
+  const approvalMatch = rawInstructions.match(/\brequires?\s+approval(?:\s+for\s+(\w+))?/i);
+  if (approvalMatch) {
+    constraints.requireApproval = approvalMatch[1]?.toLowerCase().startsWith('write') ? 'write' : 'destructive';
+  }
+  
+  // Extract argument policies ("argument path must be under /workspace")
+  const argumentRulePattern = /(?:\btool\s+([\w.-]+)\s*:?\s*)?\bargument\s+([\w.*-]+)\s+(must\s+be\s+under|must\s+not\s+contain|must\s+match|host\s+must\s+be\s+(?:one\s+of|in))\s*:?\s*([^\n]+)/gi;
+  for (const match of rawInstructions.matchAll(argumentRulePattern)) {
+    const check = parseArgumentCheck(match[3], match[4].trim());
+    if (check) {
+      constraints.argumentRules = [
+        ...(constraints.argumentRules ?? []),
+        { tool: match[1]?.toLowerCase(), argument: match[2], check }
+      ];
+    }
+  }
+  
+  // Check how long read-only results may be cached ("cache results for 5 minutes", "no caching")
+  const cacheTtlMatch = rawInstructions.match(/\bcache\s+(?:results?\s+)?for\s+(\d+)\s*(second|minute|hour)s?\b/i);
+  if (lowerInstructions.includes('no cach')) {
+    constraints.cacheTtlMs = 0;
+  } else if (cacheTtlMatch) {
+    constraints.cacheTtlMs = parseInt(cacheTtlMatch[1], 10) * CACHE_TTL_UNIT_MS[cacheTtlMatch[2].toLowerCase()];
+  }
+  
+  // Extract tool overrides ("tool search: rename to code_search", "tool search: pin owner = acme")
+  const toolOverridePattern = /\btool\s+([\w.-]+)\s*:\s*(rename\s+to|description\s*:|append\s+description\s*:|default|hide\s+arguments?|pin)\s+([^\n]+)/gi;
+  for (const match of rawInstructions.matchAll(toolOverridePattern)) {
+    const tool = match[1].toLowerCase();
+    const override = parseToolOverride(match[2], match[3].trim(), constraints.toolOverrides?.[tool]);
+    if (override) {
+      constraints.toolOverrides = { ...constraints.toolOverrides, [tool]: override };
+    }
+  }
+  
   // Format the instructions for display
   let formattedContext = `### Server Context: ${serverName}\n\n`;
   
@@ -149,12 +329,53 @@ export function processInstructions(
     if (constraints.rateLimit) {
       formattedContext += `- Rate limit: ${constraints.rateLimit.count} requests per ${constraints.rateLimit.unit}\n`;
     }
+    if (constraints.toolRateLimits) {
+      for (const [tool, limit] of Object.entries(constraints.toolRateLimits)) {
+        formattedContext += `- Rate limit for ${tool}: ${limit.count} requests per ${limit.unit}\n`;
+      }
+    }
     if (constraints.allowedOperations) {
       formattedContext += `- Allowed operations: ${constraints.allowedOperations.join(', ')}\n`;
     }
     if (constraints.deniedOperations) {
       formattedContext += `- Denied operations: ${constraints.deniedOperations.join(', ')}\n`;
     }
+    if (constraints.noSampling) formattedContext += '- No sampling requests\n';
+    if (constraints.noElicitation) formattedContext += '- No elicitation requests\n';
+    if (constraints.samplingMaxTokens) {
+      formattedContext += `- Max sampling tokens: ${constraints.samplingMaxTokens}\n`;
+    }
+    if (constraints.noRoots) formattedContext += '- No access to client roots\n';
+    if (constraints.allowedRoots) {
+      formattedContext += `- Allowed roots: ${constraints.allowedRoots.join(', ')}\n`;
+    }
+    if (constraints.readTools) {
+      formattedContext += `- Read tools: ${constraints.readTools.join(', ')}\n`;
+    }
+    if (constraints.writeTools) {
+      formattedContext += `- Write tools: ${constraints.writeTools.join(', ')}\n`;
+    }
+    if (constraints.destructiveTools) {
+      formattedContext += `- Destructive tools: ${constraints.destructiveTools.join(', ')}\n`;
+    }
+    if (constraints.requireApproval) {
+      formattedContext += `- ${constraints.requireApproval === 'write' ? 'Write' : 'Destructive'} tool calls require approval\n`;
+    }
+    if (constraints.argumentRules) {
+      for (const rule of constraints.argumentRules) {
+        formattedContext += `- Argument ${rule.argument}${rule.tool ? ` of ${rule.tool}` : ''} ${describeArgumentCheck(rule.check)}\n`;
+      }
+    }
+    if (constraints.toolOverrides) {
+      for (const [tool, override] of Object.entries(constraints.toolOverrides)) {
+        formattedContext += `- Tool ${tool}: ${describeToolOverride(override)}\n`;
+      }
+    }
+    if (constraints.cacheTtlMs !== undefined) {
+      formattedContext += constraints.cacheTtlMs > 0
+        ? `- Read-only results are cached for ${constraints.cacheTtlMs / 1000}s\n`
+        : '- Results are never cached\n';
+    }
   }
   
   return {
@@ -166,6 +387,121 @@ export function processInstructions(
   };
 }
 
+/**
+ * Parses the check of an argument policy phrase
+ * @param verb - The phrase's verb, e.g. "must be under"
+ * @param value - The rest of the line: a list of values, or a /regex/ for "must match"
+ * @returns The check, or null if the value is empty or not a valid regular expression
+ */
+export function parseArgumentCheck(verb: string, value: string): ArgumentCheck | null {
+  const lowerVerb = verb.toLowerCase().replace(/\s+/g, ' ');
+  
+  if (lowerVerb === 'must match') {
+    const regexMatch = value.match(/^\/(.+)\/([a-z]*)$/);
+    const pattern = regexMatch ? regexMatch[1] : value;
+    const flags = regexMatch ? regexMatch[2] : '';
+    try {
+      new RegExp(pattern, flags);
+    } catch {
+      return null;
+    }
+    return pattern ? { type: 'matches', pattern, flags } : null;
+  }
+  
+  // A sentence may end after the list
+  const values = value
+    .replace(/\.$/, '')
+    .split(/[,;]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+  if (values.length === 0) {
+    return null;
+  }
+  
+  if (lowerVerb === 'must be under') {
+    return { type: 'under', paths: values };
+  }
+  if (lowerVerb === 'must not contain') {
+    return { type: 'notContains', terms: values };
+  }
+  return { type: 'hosts', hosts: values.map(host => host.toLowerCase()) };
+}
+
+// Reads "name = value"; the value is JSON if it parses, a string otherwise
+function parseArgumentValue(value: string): [string, unknown] | null {
+  const match = value.match(/^([\w.-]+)\s*=\s*(.+)$/);
+  if (!match) {
+    return null;
+  }
+  const raw = match[2].trim();
+  try {
+    return [match[1], JSON.parse(raw)];
+  } catch {
+    return [match[1], raw];
+  }
+}
+
+/**
+ * Adds one override phrase to a tool's override
+ * @param verb - The phrase's verb, e.g. "rename to" or "pin"
+ * @param value - The rest of the line
+ * @param override - The tool's override so far
+ * @returns The extended override, or null if the value is not valid for the verb
+ */
+export function parseToolOverride(verb: string, value: string, override: ToolOverride = {}): ToolOverride | null {
+  const lowerVerb = verb.toLowerCase().replace(/\s+/g, ' ').replace(/\s*:$/, '');
+  
+  if (lowerVerb === 'rename to') {
+    const name = value.replace(/\.$/, '');
+    return /^[\w.-]+$/.test(name) ? { ...override, name } : null;
+  }
+  if (lowerVerb === 'description') {
+    return { ...override, description: value };
+  }
+  if (lowerVerb === 'append description') {
+    return { ...override, appendDescription: value };
+  }
+  if (lowerVerb.startsWith('hide')) {
+    const hide = value.replace(/\.$/, '').split(/[,;]/).map(item => item.trim()).filter(Boolean);
+    return hide.length > 0 ? { ...override, hide: [...(override.hide ?? []), ...hide] } : null;
+  }
+  
+  const argument = parseArgumentValue(value);
+  if (!argument) {
+    return null;
+  }
+  const [name, argumentValue] = argument;
+  return lowerVerb === 'default'
+    ? { ...override, defaults: { ...override.defaults, [name]: argumentValue } }
+    : { ...override, pin: { ...override.pin, [name]: argumentValue } };
+}
+
+/**
+ * Describes a tool override, e.g. "renamed to code_search, pins owner"
+ */
+export function describeToolOverride(override: ToolOverride): string {
+  const parts: string[] = [];
+  if (override.name) parts.push(`renamed to ${override.name}`);
+  if (override.description) parts.push('description replaced');
+  if (override.appendDescription) parts.push('description extended');
+  if (override.defaults) parts.push(`defaults for ${Object.keys(override.defaults).join(', ')}`);
+  if (override.hide) parts.push(`hides ${override.hide.join(', ')}`);
+  if (override.pin) parts.push(`pins ${Object.keys(override.pin).join(', ')}`);
+  return parts.join(', ');
+}
+
+/**
+ * Describes an argument check, e.g. "must be under /workspace"
+ */
+export function describeArgumentCheck(check: ArgumentCheck): string {
+  switch (check.type) {
+    case 'under': return `must be under ${check.paths.join(', ')}`;
+    case 'notContains': return `must not contain ${check.terms.join(', ')}`;
+    case 'matches': return `must match /${check.pattern}/${check.flags}`;
+    case 'hosts': return `host must be one of ${check.hosts.join(', ')}`;
+  }
+}
+
 /**
  * Extract custom instructions from server data
  */
@@ -206,14 +542,121 @@ export function extractCustomInstructions(serverData: any): McpMessage[] | null
   return null;
 }
 
+// Name heuristics, matched against whole words of the tool name
+const DELETE_WORDS = ['delete', 'remove', 'drop', 'destroy', 'purge', 'truncate', 'erase'];
+const UPDATE_WORDS = ['update', 'modify', 'alter', 'patch', 'edit', 'change', 'rename', 'rollback'];
+const WRITE_WORDS = ['write', 'create', 'insert', 'add', 'put', 'post', 'upsert', 'append',
+                     'save', 'upload', 'set', 'execute', 'exec', 'commit'];
+const READ_WORDS = ['select', 'fetch', 'get', 'read', 'list', 'search', 'find', 'check',
+                    'describe', 'view', 'show', 'inspect', 'browse', 'query', 'scan', 'count'];
+
+/**
+ * Splits a tool name into lower-cased words ("getUserRows" and "get_user-rows" give get, user, rows)
+ */
+export function splitToolName(toolName: string): string[] {
+  return toolName
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether the constraints restrict tools by what they do to their environment
+ */
+export function needsToolClassification(constraints: Constraints): boolean {
+  return Boolean(constraints.readonly || constraints.noWrites || constraints.noDeletes || constraints.noUpdates);
+}
+
+/**
+ * Classifies a tool as read, write or destructive
+ *
+ * The tool's MCP annotations decide first. Without them, the server's explicit
+ * read/write/destructive tool lists are used, and only then the words in the
+ * tool name. Write words win over read words, so `get_and_delete_rows` counts
+ * as destructive.
+ */
+export function classifyTool(
+  toolName: string,
+  constraints: Constraints,
+  annotations?: ToolBehaviorHints
+): ToolClassification {
+  if (annotations?.readOnlyHint === true) {
+    return { access: 'read', source: 'annotations', detail: 'readOnlyHint=true' };
+  }
+  // destructiveHint defaults to true for tools that are not read-only
+  if (annotations?.readOnlyHint === false || annotations?.destructiveHint === true) {
+    const hints = (['readOnlyHint', 'destructiveHint', 'idempotentHint'] as const)
+      .filter(hint => annotations[hint] !== undefined)
+      .map(hint => `${hint}=${annotations[hint]}`)
+      .join(', ');
+    return {
+      access: annotations.destructiveHint === false ? 'write' : 'destructive',
+      source: 'annotations',
+      detail: hints
+    };
+  }
+  
+  const lowerToolName = toolName.toLowerCase();
+  if (constraints.destructiveTools?.includes(lowerToolName)) {
+    return { access: 'destructive', source: 'server list', detail: 'listed in destructive tools' };
+  }
+  if (constraints.writeTools?.includes(lowerToolName)) {
+    return { access: 'write', source: 'server list', detail: 'listed in write tools' };
+  }
+  if (constraints.readTools?.includes(lowerToolName)) {
+    return { access: 'read', source: 'server list', detail: 'listed in read tools' };
+  }
+  
+  const words = splitToolName(toolName);
+  const findWord = (candidates: string[]) => words.find(word => candidates.includes(word));
+  
+  const deleteWord = findWord(DELETE_WORDS);
+  if (deleteWord) {
+    return { access: 'destructive', operation: 'delete', source: 'name', detail: `name contains '${deleteWord}'` };
+  }
+  const updateWord = findWord(UPDATE_WORDS);
+  if (updateWord) {
+    return { access: 'destructive', operation: 'update', source: 'name', detail: `name contains '${updateWord}'` };
+  }
+  const writeWord = findWord(WRITE_WORDS);
+  if (writeWord) {
+    return { access: 'write', source: 'name', detail: `name contains '${writeWord}'` };
+  }
+  const readWord = findWord(READ_WORDS);
+  if (readWord) {
+    return { access: 'read', source: 'name', detail: `name contains '${readWord}'` };
+  }
+  return { access: 'unknown', source: 'name', detail: 'no read or write words in the name' };
+}
+
+function describeAccess(classification: ToolClassification): string {
+  switch (classification.access) {
+    case 'read': return 'a read-only tool';
+    case 'write': return 'a write tool';
+    case 'destructive': return 'a destructive tool';
+    default: return 'not classified';
+  }
+}
+
+function describeSource(classification: ToolClassification): string {
+  switch (classification.source) {
+    case 'annotations': return `tool annotations: ${classification.detail}`;
+    case 'server list': return `server configuration: ${classification.detail}`;
+    default: return `name heuristic: ${classification.detail}`;
+  }
+}
+
 /**
  * Validates a tool invocation against constraints using server UUID lookup
+ * @param annotations - The tool's annotations from the downstream `tools/list`, if known
  */
 export function validateToolAgainstConstraints(
   toolName: string,
   serverUuid: string,
-  constraintMap: Map<string, Constraints>
-): { valid: boolean; reason?: string } {
+  constraintMap: Map<string, Constraints>,
+  annotations?: ToolBehaviorHints
+): { valid: boolean; reason?: string; classification?: ToolClassification } {
   const constraints = constraintMap.get(serverUuid);
   if (!constraints) {
     return { valid: true }; // No constraints means allowed
@@ -247,65 +690,52 @@ export function validateToolAgainstConstraints(
     }
   }
   
+  if (!needsToolClassification(constraints)) {
+    return { valid: true };
+  }
+  
+  const classification = classifyTool(toolName, constraints, annotations);
+  const because = `${toolName} is ${describeAccess(classification)} (${describeSource(classification)})`;
+  const isWrite = classification.access === 'write' || classification.access === 'destructive';
+  const isDestructive = classification.access === 'destructive';
+  
   // Check read-only constraint
-  if (constraints.readonly) {
-    const readPatterns = ['select', 'fetch', 'get', 'read', 'list', 'search', 'find', 
-                         'check', 'describe', 'view', 'show', 'inspect', 'browse', 'query', 'scan'];
-    const writePatterns = ['write', 'update', 'delete', 'create', 'insert', 'modify', 
-                          'alter', 'drop', 'truncate', 'execute', 'commit', 'rollback', 'put', 'post', 'patch'];
-    
-    // If it explicitly has a read pattern, it's likely safe
-    const hasReadPattern = readPatterns.some(pattern => lowerToolName.includes(pattern));
-    
-    // If it has a write pattern, it's not allowed
-    const hasWritePattern = writePatterns.some(pattern => lowerToolName.includes(pattern));
-    
-    if (hasWritePattern && !hasReadPattern) {
-      return { 
-        valid: false, 
-        reason: 'This server is configured as read-only. Write operations are not allowed.' 
-      };
-    }
+  if (constraints.readonly && isWrite) {
+    return { 
+      valid: false, 
+      reason: `This server is configured as read-only. Write operations are not allowed: ${because}.`,
+      classification
+    };
   }
   
   // Check specific constraints
-  if (constraints.noWrites) {
-    const writePatterns = ['write', 'create', 'insert', 'add', 'put', 'post'];
-    const hasWritePattern = writePatterns.some(pattern => lowerToolName.includes(pattern));
-    if (hasWritePattern) {
-      return { 
-        valid: false, 
-        reason: 'Write operations are not allowed for this server.' 
-      };
-    }
+  if (constraints.noWrites && isWrite) {
+    return { 
+      valid: false, 
+      reason: `Write operations are not allowed for this server: ${because}.`,
+      classification
+    };
   }
   
-  if (constraints.noDeletes) {
-    const deletePatterns = ['delete', 'remove', 'drop', 'destroy', 'purge'];
-    const hasDeletePattern = deletePatterns.some(pattern => lowerToolName.includes(pattern));
-    if (hasDeletePattern) {
-      return { 
-        valid: false, 
-        reason: 'Delete operations are not allowed for this server.' 
-      };
-    }
+  if (constraints.noDeletes && isDestructive && classification.operation !== 'update') {
+    return { 
+      valid: false, 
+      reason: `Delete operations are not allowed for this server: ${because}.`,
+      classification
+    };
   }
   
-  if (constraints.noUpdates) {
-    const updatePatterns = ['update', 'modify', 'alter', 'patch', 'edit', 'change'];
-    const hasUpdatePattern = updatePatterns.some(pattern => lowerToolName.includes(pattern));
-    if (hasUpdatePattern) {
-      return { 
-        valid: false, 
-        reason: 'Update operations are not allowed for this server.' 
-      };
-    }
+  if (constraints.noUpdates && isDestructive && classification.operation !== 'delete') {
+    return { 
+      valid: false, 
+      reason: `Update operations are not allowed for this server: ${because}.`,
+      classification
+    };
   }
   
-  // Rate limiting would need to be implemented with actual tracking
-  // For now, we just acknowledge the constraint exists
+  // Rate limits need call history and are enforced separately (see rate-limits.ts)
   
-  return { valid: true };
+  return { valid: true, classification };
 }
 
 /**
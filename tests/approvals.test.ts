@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import axios from 'axios';
+import {
+  clearApprovalAudit,
+  getApprovalAudit,
+  getApprovalScope,
+  getPendingApprovalCount,
+  needsApproval,
+  requireApproval,
+  ApprovalRequest,
+} from '../src/approvals';
+import { classifyTool, processInstructions } from '../src/utils/custom-instructions';
+import { ErrorType, McpProxyError } from '../src/error-handler';
+import { APPROVAL_POLL_INTERVAL_MS } from '../src/constants';
+
+vi.mock('axios');
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const API_KEY = `pg_in_${'a'.repeat(40)}`;
+const originalEnv = { ...process.env };
+
+const REQUEST: ApprovalRequest = {
+  serverUuid: SERVER_UUID,
+  serverName: 'prod-db',
+  toolName: 'drop_table',
+  args: { table: 'users' },
+  classification: classifyTool('drop_table', {}),
+};
+
+const catchError = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as McpProxyError;
+  }
+  throw new Error('Expected the promise to reject');
+};
+
+describe('Approvals', () => {
+  beforeEach(() => {
+    delete process.env.PLUGGEDIN_API_KEY;
+    delete process.env.PLUGGEDIN_API_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    clearApprovalAudit();
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.get).mockReset();
+    vi.useRealTimers();
+  });
+
+  describe('scope', () => {
+    it('reads the scope from custom instructions, then the environment', () => {
+      const parse = (text: string) =>
+        processInstructions('db', SERVER_UUID, [{ role: 'user', content: text }])!.constraints;
+
+      expect(getApprovalScope(parse('Require approval for writes'))).toBe('write');
+      expect(getApprovalScope(parse('Destructive calls require approval.'))).toBe('destructive');
+      expect(getApprovalScope(parse('Read-only access'))).toBeUndefined();
+
+      process.env.PLUGGEDIN_REQUIRE_APPROVAL = 'destructive';
+      expect(getApprovalScope(undefined)).toBe('destructive');
+    });
+
+    it('holds destructive calls, and all writes in write scope', () => {
+      const write = classifyTool('create_row', {});
+      const destructive = classifyTool('delete_row', {});
+      const read = classifyTool('list_rows', {});
+
+      expect(needsApproval('destructive', destructive)).toBe(true);
+      expect(needsApproval('destructive', write)).toBe(false);
+      expect(needsApproval('write', write)).toBe(true);
+      expect(needsApproval('write', read)).toBe(false);
+    });
+  });
+
+  describe('elicitation', () => {
+    it('runs the call once the user approves it', async () => {
+      const elicit = vi.fn().mockResolvedValue({ action: 'accept', content: { approve: true } });
+
+      await requireApproval(REQUEST, { elicit });
+
+      expect(elicit.mock.calls[0][0].message).toContain(
+        "drop_table on prod-db was classified as destructive (name: name contains 'drop')"
+      );
+      expect(elicit.mock.calls[0][0].message).toContain('{"table":"users"}');
+      expect(getApprovalAudit()).toEqual([
+        expect.objectContaining({
+          toolName: 'drop_table',
+          arguments: '{"table":"users"}',
+          channel: 'elicitation',
+          decision: 'approved',
+        }),
+      ]);
+    });
+
+    it('rejects the call when the user declines', async () => {
+      const elicit = vi.fn().mockResolvedValue({ action: 'decline' });
+
+      const error = await catchError(requireApproval(REQUEST, { elicit }));
+
+      expect(error).toBeInstanceOf(McpProxyError);
+      expect(error.type).toBe(ErrorType.AUTHORIZATION);
+      expect(error.message).toMatch(/^Tool call drop_table on prod-db needs approval as a destructive call, but the user declined it\. \(Approval ID: /);
+      expect(getApprovalAudit()[0]).toMatchObject({ decision: 'declined', reason: 'the user declined it' });
+    });
+
+    it('passes the approval timeout to the elicitation request', async () => {
+      process.env.PLUGGEDIN_APPROVAL_TIMEOUT_MS = '30000';
+      const elicit = vi.fn().mockRejectedValue(new Error('Request timed out'));
+
+      const error = await catchError(requireApproval(REQUEST, { elicit }));
+
+      expect(elicit.mock.calls[0][1]).toMatchObject({ timeout: 30000 });
+      expect(error.message).toContain('it was not approved within 30s');
+      expect(error.details).toMatchObject({ decision: 'timeout' });
+    });
+  });
+
+  describe('notifications', () => {
+    beforeEach(() => {
+      process.env.PLUGGEDIN_API_KEY = API_KEY;
+      process.env.PLUGGEDIN_API_BASE_URL = 'https://plugged.in';
+      vi.useFakeTimers();
+    });
+
+    const notificationsWith = (approvalId: string, completed: boolean) => ({
+      data: { notifications: [{ id: 'n1', message: `... Approval ID: ${approvalId}`, completed }] },
+    });
+
+    it('waits until the notification is marked done', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      const approval = requireApproval(REQUEST);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const posted = vi.mocked(axios.post).mock.calls[0];
+      expect(posted[0]).toBe('https://plugged.in/api/notifications/custom');
+      const approvalId = (posted[1] as any).message.match(/Approval ID: (\S+)/)[1];
+      expect(getPendingApprovalCount()).toBe(1);
+
+      vi.mocked(axios.get).mockResolvedValueOnce(notificationsWith(approvalId, false));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+      vi.mocked(axios.get).mockResolvedValueOnce(notificationsWith(approvalId, true));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+
+      await expect(approval).resolves.toBeUndefined();
+      expect(getPendingApprovalCount()).toBe(0);
+      expect(getApprovalAudit()[0]).toMatchObject({ id: approvalId, channel: 'notification', decision: 'approved' });
+    });
+
+    it('rejects the call when the notification is deleted', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      const approval = catchError(requireApproval(REQUEST));
+      await vi.advanceTimersByTimeAsync(0);
+      const approvalId = (vi.mocked(axios.post).mock.calls[0][1] as any).message.match(/Approval ID: (\S+)/)[1];
+
+      vi.mocked(axios.get).mockResolvedValueOnce(notificationsWith(approvalId, false));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+      vi.mocked(axios.get).mockResolvedValueOnce({ data: { notifications: [] } });
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+
+      expect((await approval).message).toContain('the approval notification was deleted');
+    });
+
+    it('keeps waiting when the notification is not on a full page', async () => {
+      process.env.PLUGGEDIN_APPROVAL_TIMEOUT_MS = String(APPROVAL_POLL_INTERVAL_MS * 10);
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      const approval = requireApproval(REQUEST);
+      await vi.advanceTimersByTimeAsync(0);
+      const approvalId = (vi.mocked(axios.post).mock.calls[0][1] as any).message.match(/Approval ID: (\S+)/)[1];
+      const newer = Array.from({ length: 100 }, (_, n) => ({ id: `newer-${n}`, message: 'unrelated', completed: false }));
+
+      vi.mocked(axios.get).mockResolvedValueOnce(notificationsWith(approvalId, false));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+      vi.mocked(axios.get).mockResolvedValueOnce({ data: { notifications: newer } });
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+      vi.mocked(axios.get).mockResolvedValueOnce(notificationsWith(approvalId, true));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS);
+
+      await expect(approval).resolves.toBeUndefined();
+    });
+
+    it('times out and writes the decision to the audit file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'pluggedin-approvals-'));
+      process.env.PLUGGEDIN_APPROVAL_AUDIT_PATH = join(dir, 'audit.jsonl');
+      process.env.PLUGGEDIN_APPROVAL_TIMEOUT_MS = String(APPROVAL_POLL_INTERVAL_MS * 2);
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      vi.mocked(axios.get).mockResolvedValue({ data: { notifications: [] } });
+
+      const approval = catchError(requireApproval(REQUEST));
+      await vi.advanceTimersByTimeAsync(APPROVAL_POLL_INTERVAL_MS * 2);
+
+      expect((await approval).details).toMatchObject({ decision: 'timeout' });
+      vi.useRealTimers();
+      await vi.waitFor(() => {
+        const [line] = readFileSync(join(dir, 'audit.jsonl'), 'utf-8').trim().split('\n');
+        expect(JSON.parse(line)).toMatchObject({ toolName: 'drop_table', decision: 'timeout', channel: 'notification' });
+      });
+      expect(statSync(join(dir, 'audit.jsonl')).mode & 0o777).toBe(0o600);
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  it('rejects the call when there is no way to ask for approval', async () => {
+    const error = await catchError(requireApproval(REQUEST));
+
+    expect(error.message).toContain('the client does not support elicitation');
+    expect(getApprovalAudit()[0]).toMatchObject({ channel: 'none', decision: 'unavailable' });
+  });
+});
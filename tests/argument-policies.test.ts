@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  checkArgumentPolicies,
+  clearPolicyCache,
+  loadPolicyRules,
+  parsePolicyFile,
+} from '../src/argument-policies';
+import { Constraints, processInstructions } from '../src/utils/custom-instructions';
+
+const SERVER = { uuid: '550e8400-e29b-41d4-a716-446655440000', name: 'db' };
+
+const parseConstraints = (text: string): Constraints =>
+  processInstructions(SERVER.name, SERVER.uuid, [{ role: 'user', content: text }])!.constraints;
+
+const check = (toolName: string, args: Record<string, unknown>, constraints?: Constraints) =>
+  checkArgumentPolicies(SERVER, toolName, args, constraints);
+
+describe('Argument policies', () => {
+  describe('parsing custom instructions', () => {
+    it('reads one rule per phrase, optionally limited to a tool', () => {
+      const constraints = parseConstraints([
+        'Argument path must be under /workspace, /tmp.',
+        'tool query: argument sql must not contain DROP, TRUNCATE',
+        'argument sql must match /^select\\b/i',
+        'argument url host must be one of Example.com, *.example.org',
+      ].join('\n'));
+
+      expect(constraints.argumentRules).toEqual([
+        { tool: undefined, argument: 'path', check: { type: 'under', paths: ['/workspace', '/tmp'] } },
+        { tool: 'query', argument: 'sql', check: { type: 'notContains', terms: ['DROP', 'TRUNCATE'] } },
+        { tool: undefined, argument: 'sql', check: { type: 'matches', pattern: '^select\\b', flags: 'i' } },
+        { tool: undefined, argument: 'url', check: { type: 'hosts', hosts: ['example.com', '*.example.org'] } },
+      ]);
+    });
+
+    it('ignores rules with an invalid regular expression', () => {
+      expect(parseConstraints('argument sql must match /([/').argumentRules).toBeUndefined();
+    });
+  });
+
+  describe('checkArgumentPolicies', () => {
+    it('keeps paths under the allowed directories', () => {
+      const constraints = parseConstraints('argument path must be under /workspace');
+
+      expect(check('read_file', { path: '/workspace/src/a.ts' }, constraints).valid).toBe(true);
+      expect(check('read_file', { path: 'file:///workspace/b.txt' }, constraints).valid).toBe(true);
+      expect(check('read_file', { path: '/workspace/../etc/passwd' }, constraints)).toEqual({
+        valid: false,
+        reason: 'Blocked by argument policy (custom instructions): argument path of read_file must be under /workspace, got "/workspace/../etc/passwd".',
+      });
+      expect(check('read_file', { path: '/workspace-other/a' }, constraints).valid).toBe(false);
+      expect(check('read_file', { path: 'relative/a' }, constraints).valid).toBe(false);
+    });
+
+    it('matches forbidden terms as whole words, case-insensitively', () => {
+      const constraints = parseConstraints('argument sql must not contain DROP');
+
+      expect(check('query', { sql: 'select * from dropdown_items' }, constraints).valid).toBe(true);
+      expect(check('query', { sql: 'SELECT 1; drop table users' }, constraints).valid).toBe(false);
+    });
+
+    it('checks URL hosts against the allowlist', () => {
+      const constraints = parseConstraints('argument url host must be one of example.com, *.example.org');
+
+      expect(check('fetch', { url: 'https://example.com/a' }, constraints).valid).toBe(true);
+      expect(check('fetch', { url: 'https://api.example.org/b' }, constraints).valid).toBe(true);
+      expect(check('fetch', { url: 'https://example.com.evil.net/' }, constraints).valid).toBe(false);
+      expect(check('fetch', { url: 'not a url' }, constraints).valid).toBe(false);
+    });
+
+    it('checks nested, array and wildcard arguments and skips missing ones', () => {
+      const nested = parseConstraints('argument options.target must be under /workspace');
+      expect(check('copy', { options: { target: ['/workspace/a', '/etc/b'] } }, nested).valid).toBe(false);
+      expect(check('copy', {}, nested).valid).toBe(true);
+
+      const anywhere = parseConstraints('argument * must not contain rm -rf');
+      expect(check('run', { steps: [{ cmd: 'rm -rf /' }] }, anywhere).valid).toBe(false);
+    });
+
+    it('applies tool-specific rules only to that tool', () => {
+      const constraints = parseConstraints('tool Query: argument sql must not contain DROP');
+
+      expect(check('query', { sql: 'DROP TABLE a' }, constraints).valid).toBe(false);
+      expect(check('explain', { sql: 'DROP TABLE a' }, constraints).valid).toBe(true);
+    });
+  });
+
+  describe('policy file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'pluggedin-policy-'));
+      clearPolicyCache();
+    });
+
+    afterEach(() => {
+      delete process.env.PLUGGEDIN_POLICY_PATH;
+      clearPolicyCache();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('expands each policy into one rule per check', () => {
+      const rules = parsePolicyFile(
+        'policies:\n  - server: db\n    tool: Query\n    argument: sql\n    notContains: [DROP]\n    matches: /^select/i\n',
+        'policy.yaml'
+      );
+
+      expect(rules).toEqual([
+        { server: 'db', tool: 'query', argument: 'sql', check: { type: 'notContains', terms: ['DROP'] } },
+        { server: 'db', tool: 'query', argument: 'sql', check: { type: 'matches', pattern: '^select', flags: 'i' } },
+      ]);
+    });
+
+    it('rejects policies without a check or with a broken regular expression', () => {
+      expect(() => parsePolicyFile('{"policies": [{"argument": "sql"}]}', 'policy.json'))
+        .toThrow(/Invalid policy file policy\.json: policies\.0: Each policy needs/);
+      expect(() => parsePolicyFile('{"policies": [{"argument": "sql", "matches": "("}]}', 'policy.json'))
+        .toThrow(/not a valid regular expression/);
+    });
+
+    it('applies file rules to matching servers alongside custom instructions', () => {
+      const path = join(dir, 'policy.json');
+      writeFileSync(path, JSON.stringify({
+        policies: [
+          { server: 'DB', argument: 'sql', notContains: ['DROP'] },
+          { server: 'other', argument: 'sql', notContains: ['SELECT'] },
+        ],
+      }));
+      process.env.PLUGGEDIN_POLICY_PATH = path;
+
+      expect(check('query', { sql: 'select 1' }).valid).toBe(true);
+      expect(check('query', { sql: 'drop table a' }).reason)
+        .toMatch(/^Blocked by argument policy \(policy file\): argument sql of query must not contain DROP/);
+      expect(loadPolicyRules()).toHaveLength(2);
+    });
+
+    it('blocks calls when the configured policy file cannot be read', () => {
+      process.env.PLUGGEDIN_POLICY_PATH = join(dir, 'missing.yaml');
+      expect(() => check('query', { sql: 'select 1' })).toThrow(/ENOENT/);
+    });
+  });
+});
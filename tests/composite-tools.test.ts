@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  clearCompositeToolsCache,
+  CompositeTool,
+  CompositeStepRunner,
+  getCompositeTools,
+  parseCompositeToolsFile,
+  resolveReferences,
+  runCompositeTool,
+  toListedTool,
+} from '../src/composite-tools';
+
+const RESEARCH_YAML = [
+  'tools:',
+  '  - name: research_topic',
+  '    inputSchema:',
+  '      type: object',
+  '      properties: { query: { type: string } }',
+  '      required: [query]',
+  '    steps:',
+  '      - id: search',
+  '        server: brave',
+  '        tool: web_search',
+  '        arguments: { query: "{{input.query}}", count: 1 }',
+  '      - id: page',
+  '        server: fetch',
+  '        tool: fetch',
+  '        arguments: { url: "{{steps.search.json.results.0.url}}" }',
+  '      - tool: pluggedin_create_document',
+  '        arguments:',
+  '          title: "Research: {{input.query}}"',
+  '          content: "{{steps.page.text}}"',
+].join('\n');
+
+const text = (value: string) => ({ content: [{ type: 'text' as const, text: value }] });
+
+describe('Composite tools', () => {
+  let research: CompositeTool;
+
+  beforeEach(() => {
+    [research] = parseCompositeToolsFile(RESEARCH_YAML, 'composite.yaml');
+  });
+
+  describe('parsing', () => {
+    it('reads tools and defaults step ids to tool names', () => {
+      expect(research.steps.map(step => step.id)).toEqual(['search', 'page', 'pluggedin_create_document']);
+      expect(toListedTool(research)).toEqual({
+        name: 'research_topic',
+        description: 'Runs brave/web_search → fetch/fetch → pluggedin_create_document',
+        inputSchema: research.inputSchema,
+      });
+    });
+
+    it('rejects reserved names and duplicate step ids', () => {
+      expect(() => parseCompositeToolsFile(JSON.stringify({
+        tools: [{ name: 'pluggedin_research', steps: [{ tool: 'fetch' }] }],
+      }), 'composite.json')).toThrow(/Invalid composite tools file composite\.json: tools\.0\.name: the pluggedin_ prefix is reserved/);
+
+      expect(() => parseCompositeToolsFile(JSON.stringify({
+        tools: [{ name: 'twice', steps: [{ tool: 'fetch' }, { tool: 'fetch' }] }],
+      }), 'composite.json')).toThrow(/tools\.0\.steps\.1\.id: duplicate step id fetch/);
+    });
+  });
+
+  describe('resolveReferences', () => {
+    const scope = { input: { query: 'mcp', limit: 3 }, steps: { search: { json: { hits: [{ url: 'https://a' }] } } } };
+
+    it('keeps the type of whole references and leaves out missing ones', () => {
+      expect(resolveReferences({
+        limit: '{{input.limit}}',
+        first: '{{ steps.search.json.hits.0 }}',
+        missing: '{{steps.page.text}}',
+      }, scope)).toEqual({ limit: 3, first: { url: 'https://a' } });
+    });
+
+    it('replaces references inside longer strings by their text', () => {
+      expect(resolveReferences(['Search {{input.query}} ({{input.limit}}) {{steps.search.json.hits.0}}{{input.none}}'], scope))
+        .toEqual(['Search mcp (3) {"url":"https://a"}']);
+    });
+
+    it('only follows own properties', () => {
+      expect(resolveReferences('{{input.constructor}}', scope)).toBeUndefined();
+    });
+  });
+
+  describe('runCompositeTool', () => {
+    it('passes earlier results into later steps and returns the last result', async () => {
+      const runStep = vi.fn<CompositeStepRunner>(async step => {
+        if (step.id === 'search') return text(JSON.stringify({ results: [{ url: 'https://example.com' }] }));
+        if (step.id === 'page') return text('Page body');
+        return text('Document created');
+      });
+      const onStep = vi.fn();
+
+      const result = await runCompositeTool(research, { query: 'mcp' }, runStep, onStep);
+
+      expect(result).toEqual(text('Document created'));
+      expect(runStep.mock.calls.map(([, args]) => args)).toEqual([
+        { query: 'mcp', count: 1 },
+        { url: 'https://example.com' },
+        { title: 'Research: mcp', content: 'Page body' },
+      ]);
+      expect(onStep).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops at the first failing step and names it', async () => {
+      const runStep = vi.fn<CompositeStepRunner>(async () => ({ ...text('rate limited'), isError: true }));
+
+      const result = await runCompositeTool(research, { query: 'mcp' }, runStep);
+
+      expect(runStep).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        content: [
+          { type: 'text', text: 'Step 1 (brave/web_search) of research_topic failed:' },
+          { type: 'text', text: 'rate limited' },
+        ],
+        isError: true,
+      });
+    });
+
+    it('names the step whose call throws', async () => {
+      const runStep = vi.fn<CompositeStepRunner>(async step => {
+        if (step.id === 'page') throw new Error('Server not found: fetch');
+        return text('{}');
+      });
+
+      await expect(runCompositeTool(research, { query: 'mcp' }, runStep))
+        .rejects.toThrow('Step 2 (fetch/fetch) of research_topic failed: Server not found: fetch');
+    });
+
+    it('checks the input against the input schema before running any step', async () => {
+      const runStep = vi.fn<CompositeStepRunner>();
+
+      const result = await runCompositeTool(research, {}, runStep);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]).toMatchObject({ text: expect.stringContaining('Invalid arguments for research_topic') });
+      expect(runStep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('composite tools file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'pluggedin-composite-'));
+      clearCompositeToolsCache();
+    });
+
+    afterEach(() => {
+      delete process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH;
+      clearCompositeToolsCache();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('lists the tools of the configured file', () => {
+      process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH = join(dir, 'composite.yaml');
+      writeFileSync(process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH, RESEARCH_YAML);
+
+      expect(getCompositeTools().map(tool => tool.name)).toEqual(['research_topic']);
+    });
+
+    it('lists no composite tools when the file is broken', () => {
+      process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH = join(dir, 'composite.yaml');
+      writeFileSync(process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH, 'tools: [{ name: broken }]');
+
+      expect(getCompositeTools()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createSessionEventStore,
+  FileEventStore,
+  getEventStoreFile,
+  MemoryEventStore,
+  removeExpiredEventFiles,
+  SessionEventStore,
+} from '../src/event-store';
+
+const limits = { maxEvents: 3, ttlMs: 60_000 };
+const originalEnv = { ...process.env };
+
+const notification = (n: number): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  method: 'notifications/message',
+  params: { level: 'info', data: n },
+});
+
+async function replay(store: SessionEventStore, lastEventId: string) {
+  const sent: Array<[string, JSONRPCMessage]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => { sent.push([eventId, message]); },
+  });
+  return { streamId, sent };
+}
+
+describe('Event stores', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'event-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    process.env = { ...originalEnv };
+    vi.useRealTimers();
+  });
+
+  describe.each([
+    ['MemoryEventStore', () => new MemoryEventStore(limits)],
+    ['FileEventStore', () => new FileEventStore(join(dir, 'session.jsonl'), limits)],
+  ])('%s', (_name, createStore) => {
+    it('replays the later events of the same stream', async () => {
+      const store = createStore();
+      const priming = await store.storeEvent('_GET_stream', {} as JSONRPCMessage);
+      const first = await store.storeEvent('_GET_stream', notification(1));
+      await store.storeEvent('request-stream', notification(2));
+      const third = await store.storeEvent('_GET_stream', notification(3));
+
+      expect(await store.getStreamIdForEventId!(first)).toBe('_GET_stream');
+      expect(await replay(store, priming)).toEqual({
+        streamId: '_GET_stream',
+        sent: [[first, notification(1)], [third, notification(3)]],
+      });
+      expect((await replay(store, 'not-an-event-id')).sent).toEqual([]);
+    });
+
+    it('keeps only the newest events within the TTL', async () => {
+      vi.useFakeTimers();
+      const store = createStore();
+      const ids: string[] = [];
+      for (let n = 1; n <= 5; n++) {
+        ids.push(await store.storeEvent('s', notification(n)));
+      }
+
+      // The first event was dropped, but its ID still marks the position
+      expect((await replay(store, ids[0])).sent.map(([id]) => id)).toEqual(ids.slice(2));
+
+      vi.advanceTimersByTime(limits.ttlMs);
+      expect((await replay(store, ids[0])).sent).toEqual([]);
+    });
+
+    it('deletes its events when disposed', async () => {
+      const store = createStore();
+      const id = await store.storeEvent('s', notification(1));
+      await store.storeEvent('s', notification(2));
+
+      await store.dispose();
+
+      expect((await replay(store, id)).sent).toEqual([]);
+    });
+  });
+
+  describe('FileEventStore', () => {
+    it('continues a session written by another process', async () => {
+      const path = join(dir, 'nested', 'session.jsonl');
+      const first = await new FileEventStore(path, limits).storeEvent('s', notification(1));
+      writeFileSync(path, readFileSync(path, 'utf8') + '{"seq": 2, "stre\n');
+
+      const reopened = new FileEventStore(path, limits);
+      const second = await reopened.storeEvent('s', notification(2));
+
+      expect(second).toBe('2-s');
+      expect((await replay(reopened, first)).sent).toEqual([[second, notification(2)]]);
+    });
+
+    it('rewrites the file once it holds twice the event limit', async () => {
+      const path = join(dir, 'session.jsonl');
+      const store = new FileEventStore(path, limits);
+      for (let n = 1; n <= 6; n++) {
+        await store.storeEvent('s', notification(n));
+      }
+
+      expect(readFileSync(path, 'utf8').trim().split('\n')).toHaveLength(3);
+    });
+
+    it('deletes its file when disposed', async () => {
+      const path = join(dir, 'session.jsonl');
+      const store = new FileEventStore(path, limits);
+      await store.storeEvent('s', notification(1));
+
+      await store.dispose();
+
+      expect(existsSync(path)).toBe(false);
+    });
+  });
+
+  describe('createSessionEventStore', () => {
+    it('creates the configured store', () => {
+      delete process.env.PLUGGEDIN_EVENT_STORE;
+      expect(createSessionEventStore('session')).toBeInstanceOf(MemoryEventStore);
+
+      process.env.PLUGGEDIN_EVENT_STORE = 'off';
+      expect(createSessionEventStore('session')).toBeUndefined();
+
+      process.env.PLUGGEDIN_EVENT_STORE = 'disk';
+      process.env.PLUGGEDIN_EVENT_STORE_DIR = dir;
+      expect(createSessionEventStore('session')).toBeInstanceOf(FileEventStore);
+    });
+
+    it('never uses session IDs as file names', () => {
+      process.env.PLUGGEDIN_EVENT_STORE_DIR = dir;
+
+      const file = getEventStoreFile('../../etc/passwd');
+
+      expect(file.startsWith(dir)).toBe(true);
+      expect(file).toMatch(/[0-9a-f]{32}\.jsonl$/);
+    });
+
+    it('removes files of expired sessions', async () => {
+      const expired = join(dir, 'expired.jsonl');
+      const current = join(dir, 'current.jsonl');
+      writeFileSync(expired, '');
+      writeFileSync(current, '');
+      const past = new Date(Date.now() - 2 * limits.ttlMs);
+      utimesSync(expired, past, past);
+
+      expect(await removeExpiredEventFiles(dir, limits.ttlMs)).toBe(1);
+      expect(existsSync(expired)).toBe(false);
+      expect(existsSync(current)).toBe(true);
+    });
+  });
+});
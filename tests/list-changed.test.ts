@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  onDownstreamListChanged,
+  emitDownstreamListChanged,
+  registerListChangedHandlers,
+  createListChangedForwarder,
+} from '../src/list-changed';
+import { runWithTenant } from '../src/tenants';
+
+const SERVER_A = '550e8400-e29b-41d4-a716-446655440000';
+const SERVER_B = '123e4567-e89b-12d3-a456-426614174000';
+
+function createUpstreamMock() {
+  return {
+    sendToolListChanged: vi.fn().mockResolvedValue(undefined),
+    sendResourceListChanged: vi.fn().mockResolvedValue(undefined),
+    sendPromptListChanged: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('registerListChangedHandlers', () => {
+  it('publishes list_changed notifications sent by a downstream server', async () => {
+    const downstream = new Server(
+      { name: 'downstream', version: '1.0.0' },
+      { capabilities: { tools: { listChanged: true }, resources: { listChanged: true }, prompts: { listChanged: true } } }
+    );
+    const client = new Client({ name: 'proxy', version: '1.0.0' });
+    registerListChangedHandlers(client, SERVER_A);
+
+    const events: string[] = [];
+    const unsubscribe = onDownstreamListChanged((kind, serverUuid) => events.push(`${kind}:${serverUuid}`));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([downstream.connect(serverTransport), client.connect(clientTransport)]);
+
+    await downstream.sendToolListChanged();
+    await downstream.sendResourceListChanged();
+    await downstream.sendPromptListChanged();
+
+    await vi.waitFor(() => expect(events).toEqual([
+      `tools:${SERVER_A}`,
+      `resources:${SERVER_A}`,
+      `prompts:${SERVER_A}`,
+    ]));
+
+    unsubscribe();
+    await client.close();
+    await downstream.close();
+  });
+});
+
+describe('createListChangedForwarder', () => {
+  let stop: (() => void) | undefined;
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    vi.useRealTimers();
+  });
+
+  it('coalesces a burst of changes into one notification per kind', async () => {
+    vi.useFakeTimers();
+    const upstream = createUpstreamMock();
+    stop = createListChangedForwarder(upstream, { debounceMs: 100 });
+
+    emitDownstreamListChanged('tools', SERVER_A);
+    emitDownstreamListChanged('tools', SERVER_B);
+    emitDownstreamListChanged('tools', SERVER_A);
+    emitDownstreamListChanged('prompts', SERVER_B);
+
+    expect(upstream.sendToolListChanged).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(upstream.sendToolListChanged).toHaveBeenCalledTimes(1);
+    expect(upstream.sendPromptListChanged).toHaveBeenCalledTimes(1);
+    expect(upstream.sendResourceListChanged).not.toHaveBeenCalled();
+  });
+
+  it('invalidates each affected server once before notifying', async () => {
+    vi.useFakeTimers();
+    const upstream = createUpstreamMock();
+    const order: string[] = [];
+    const onInvalidate = vi.fn(async (serverUuid: string) => {
+      order.push(`invalidate:${serverUuid}`);
+    });
+    upstream.sendToolListChanged.mockImplementation(async () => {
+      order.push('notify:tools');
+    });
+    stop = createListChangedForwarder(upstream, { debounceMs: 100, onInvalidate });
+
+    emitDownstreamListChanged('tools', SERVER_A);
+    emitDownstreamListChanged('resources', SERVER_A);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onInvalidate).toHaveBeenCalledTimes(1);
+    expect(onInvalidate).toHaveBeenCalledWith(SERVER_A, new Set(['tools', 'resources']));
+    expect(order).toEqual([`invalidate:${SERVER_A}`, 'notify:tools']);
+  });
+
+  it('invalidates once for all servers of a tenant and notifies each of them', async () => {
+    vi.useFakeTimers();
+    const tenant = { id: 'tenant-a', apiKey: 'key-a' };
+    const first = createUpstreamMock();
+    const second = createUpstreamMock();
+    const onInvalidate = vi.fn();
+    const stops = runWithTenant(tenant, () => [
+      createListChangedForwarder(first, { debounceMs: 100, onInvalidate }),
+      createListChangedForwarder(second, { debounceMs: 100, onInvalidate }),
+    ]);
+    stop = () => stops.forEach(item => item());
+
+    runWithTenant(tenant, () => emitDownstreamListChanged('tools', SERVER_A));
+    emitDownstreamListChanged('tools', SERVER_B);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onInvalidate).toHaveBeenCalledTimes(1);
+    expect(onInvalidate).toHaveBeenCalledWith(SERVER_A, new Set(['tools']));
+    expect(first.sendToolListChanged).toHaveBeenCalledTimes(1);
+    expect(second.sendToolListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('still notifies when invalidation or sending fails', async () => {
+    vi.useFakeTimers();
+    const upstream = createUpstreamMock();
+    upstream.sendToolListChanged.mockRejectedValue(new Error('Not connected'));
+    stop = createListChangedForwarder(upstream, {
+      debounceMs: 100,
+      onInvalidate: async () => { throw new Error('discovery failed'); },
+    });
+
+    emitDownstreamListChanged('tools', SERVER_A);
+    emitDownstreamListChanged('resources', SERVER_A);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(upstream.sendToolListChanged).toHaveBeenCalledTimes(1);
+    expect(upstream.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops forwarding once disposed', async () => {
+    vi.useFakeTimers();
+    const upstream = createUpstreamMock();
+    const dispose = createListChangedForwarder(upstream, { debounceMs: 100 });
+
+    emitDownstreamListChanged('tools', SERVER_A);
+    dispose();
+    emitDownstreamListChanged('tools', SERVER_A);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(upstream.sendToolListChanged).not.toHaveBeenCalled();
+  });
+});
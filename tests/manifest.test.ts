@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import axios from 'axios';
+import {
+  clearManifestCache,
+  getManifestPath,
+  isManifestMode,
+  loadManifestServers,
+  manifestServerUuid,
+  parseManifest,
+} from '../src/manifest';
+import { getMcpServers } from '../src/fetch-pluggedinmcp';
+import { isValidUuid } from '../src/slug-utils';
+import { extractCustomInstructions, processInstructions } from '../src/utils/custom-instructions';
+
+vi.mock('axios');
+
+const YAML_MANIFEST = `
+servers:
+  - name: filesystem
+    command: npx
+    args: ["-y", "@modelcontextprotocol/server-filesystem", "/data"]
+    env:
+      LOG_LEVEL: debug
+    customInstructions: Only touch files below /data.
+    constraints:
+      - read-only
+      - no sampling
+  - name: search
+    url: http://localhost:9000/mcp
+    headers:
+      Authorization: Bearer local
+`;
+
+describe('Server manifest', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pluggedin-manifest-'));
+    clearManifestCache();
+  });
+
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_MANIFEST_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseManifest', () => {
+    it('reads servers from YAML with derived UUIDs and defaults', () => {
+      const [filesystem, search] = parseManifest(YAML_MANIFEST, 'servers.yaml');
+
+      expect(filesystem).toMatchObject({
+        name: 'filesystem',
+        type: 'STDIO',
+        command: 'npx',
+        args: ['-y', '@modelcontextprotocol/server-filesystem', '/data'],
+        env: { LOG_LEVEL: 'debug' },
+      });
+      expect(search).toMatchObject({
+        name: 'search',
+        type: 'STREAMABLE_HTTP',
+        url: 'http://localhost:9000/mcp',
+        headers: { Authorization: 'Bearer local' },
+      });
+      expect(isValidUuid(filesystem.uuid)).toBe(true);
+      expect(filesystem.uuid).toBe(manifestServerUuid('filesystem'));
+      expect(filesystem.uuid).not.toBe(search.uuid);
+    });
+
+    it('appends constraints to the custom instructions', () => {
+      const [filesystem] = parseManifest(YAML_MANIFEST, 'servers.yml');
+      const context = processInstructions(
+        filesystem.name,
+        filesystem.uuid,
+        extractCustomInstructions(filesystem)!
+      );
+
+      expect(context?.rawInstructions).toContain('Only touch files below /data.');
+      expect(context?.constraints).toMatchObject({ readonly: true, noSampling: true });
+    });
+
+    it('accepts the mcpServers map used by desktop clients', () => {
+      const manifest = JSON.stringify({
+        mcpServers: {
+          memory: { command: 'node', args: ['memory.js'], uuid: '550e8400-e29b-41d4-a716-446655440000' },
+        },
+      });
+
+      expect(parseManifest(manifest, 'servers.json')).toEqual([
+        expect.objectContaining({
+          uuid: '550e8400-e29b-41d4-a716-446655440000',
+          name: 'memory',
+          type: 'STDIO',
+          command: 'node',
+        }),
+      ]);
+    });
+
+    it('rejects malformed and incomplete manifests', () => {
+      expect(() => parseManifest('{ "servers": [', 'servers.json')).toThrow(/Invalid server manifest servers\.json/);
+      expect(() => parseManifest('servers:\n  - name: broken\n', 'servers.yaml'))
+        .toThrow(/needs a command \(STDIO\) or a url/);
+      expect(() => parseManifest('other: true\n', 'servers.yaml')).toThrow(/"servers" or "mcpServers"/);
+    });
+
+    it('rejects servers that end up with the same UUID', () => {
+      const manifest = 'servers:\n  - name: a\n    command: x\n  - name: a\n    command: y\n';
+      expect(() => parseManifest(manifest, 'servers.yaml')).toThrow(/duplicate server a/);
+    });
+  });
+
+  describe('loadManifestServers', () => {
+    it('re-reads the manifest when the file changes', () => {
+      const path = join(dir, 'servers.yaml');
+      writeFileSync(path, 'servers:\n  - name: one\n    command: one\n');
+      expect(loadManifestServers(path).map(server => server.name)).toEqual(['one']);
+
+      writeFileSync(path, 'servers:\n  - name: two\n    command: two\n');
+      const later = new Date(Date.now() + 5000);
+      utimesSync(path, later, later);
+      expect(loadManifestServers(path).map(server => server.name)).toEqual(['two']);
+    });
+  });
+
+  describe('getMcpServers in manifest mode', () => {
+    it('returns manifest servers without calling the Plugged.in API', async () => {
+      const path = join(dir, 'servers.yaml');
+      writeFileSync(path, YAML_MANIFEST);
+      process.env.PLUGGEDIN_MANIFEST_PATH = path;
+
+      expect(isManifestMode()).toBe(true);
+      expect(getManifestPath()).toBe(path);
+
+      const servers = await getMcpServers(true);
+      const filesystem = servers[manifestServerUuid('filesystem')];
+
+      expect(Object.keys(servers)).toHaveLength(2);
+      // STDIO servers get the default environment merged with their own
+      expect(filesystem.env).toMatchObject({ LOG_LEVEL: 'debug' });
+      expect(filesystem.env).toHaveProperty('PATH');
+      expect(vi.mocked(axios.get)).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import {
+  clearJwksCache,
+  DEFAULT_OAUTH_SCOPES,
+  getAuthorizationServerMetadataUrls,
+  getOAuthConfig,
+  getProtectedResourceMetadataUrl,
+  getScopesFor,
+  OAuthConfig,
+  verifyAccessToken,
+} from '../src/oauth';
+import { startStreamableHTTPServer } from '../src/streamable-http';
+
+vi.mock('@modelcontextprotocol/sdk/server/streamableHttp.js', () => ({
+  StreamableHTTPServerTransport: vi.fn().mockImplementation(function () { return ({
+    handleRequest: vi.fn((req: any, res: any) => {
+      res.json({ jsonrpc: '2.0', result: { authInfo: req.auth?.clientId }, id: req.body?.id });
+    }),
+    close: vi.fn()
+  }); })
+}));
+
+const ISSUER = 'https://auth.example.com';
+const RESOURCE = 'http://localhost:3044/mcp';
+const originalEnv = { ...process.env };
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const stranger = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function createToken(
+  claims: Record<string, unknown>,
+  { alg = 'RS256', kid = 'rsa-key', key = rsa.privateKey }: { alg?: string; kid?: string; key?: KeyObject } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const data = `${encode({ alg, kid, typ: 'JWT' })}.${encode({ iss: ISSUER, aud: RESOURCE, exp: now + 300, ...claims })}`;
+  const signature = alg === 'ES256'
+    ? sign('sha256', Buffer.from(data), { key, dsaEncoding: 'ieee-p1363' })
+    : sign('sha256', Buffer.from(data), key);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+describe('OAuth', () => {
+  let dir: string;
+  let config: OAuthConfig;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oauth-'));
+    const jwksPath = join(dir, 'jwks.json');
+    writeFileSync(jwksPath, JSON.stringify({
+      keys: [
+        { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-key', use: 'sig', alg: 'RS256' },
+        { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-key', use: 'sig' },
+      ],
+    }));
+    config = {
+      issuer: ISSUER,
+      resource: RESOURCE,
+      audience: RESOURCE,
+      jwksPath,
+      scopes: {
+        ...DEFAULT_OAUTH_SCOPES,
+        'github:tools': { methods: ['tools/call'], tools: ['github_*'] },
+      },
+    };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    clearJwksCache();
+  });
+
+  describe('settings', () => {
+    it('is off without an issuer and needs the resource URL with one', () => {
+      delete process.env.PLUGGEDIN_OAUTH_ISSUER;
+      expect(getOAuthConfig()).toBeUndefined();
+
+      process.env.PLUGGEDIN_OAUTH_ISSUER = ISSUER;
+      expect(() => getOAuthConfig()).toThrow('PLUGGEDIN_OAUTH_RESOURCE');
+
+      process.env.PLUGGEDIN_OAUTH_RESOURCE = RESOURCE;
+      process.env.PLUGGEDIN_OAUTH_SCOPES = '{"db:read": {"methods": ["tools/call"], "tools": ["db_query"]}}';
+      expect(getOAuthConfig()).toMatchObject({
+        audience: RESOURCE,
+        scopes: { 'db:read': { methods: ['tools/call'], tools: ['db_query'] } },
+      });
+
+      process.env.PLUGGEDIN_OAUTH_SCOPES = '{"db:read": {"tools": ["db_query"]}}';
+      expect(() => getOAuthConfig()).toThrow('"db:read" needs "methods"');
+    });
+
+    it('builds the metadata URLs of the resource and the issuer', () => {
+      expect(getProtectedResourceMetadataUrl('https://mcp.example.com/mcp'))
+        .toBe('https://mcp.example.com/.well-known/oauth-protected-resource/mcp');
+      expect(getAuthorizationServerMetadataUrls('https://auth.example.com/tenant1')).toEqual([
+        'https://auth.example.com/.well-known/oauth-authorization-server/tenant1',
+        'https://auth.example.com/.well-known/openid-configuration/tenant1',
+        'https://auth.example.com/tenant1/.well-known/openid-configuration',
+      ]);
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    it('accepts RSA and EC signed tokens of the issuer for the resource', async () => {
+      const info = await verifyAccessToken(createToken({ client_id: 'app', scope: 'mcp:read mcp:tools' }), config);
+      const ecInfo = await verifyAccessToken(
+        createToken({ azp: 'ec-app', scp: ['mcp:read'], aud: ['other', RESOURCE] }, { alg: 'ES256', kid: 'ec-key', key: ec.privateKey }),
+        config
+      );
+
+      expect(info).toMatchObject({ clientId: 'app', scopes: ['mcp:read', 'mcp:tools'] });
+      expect(ecInfo).toMatchObject({ clientId: 'ec-app', scopes: ['mcp:read'] });
+    });
+
+    it.each([
+      ['another issuer', createToken({ iss: 'https://evil.example.com' }), 'another issuer'],
+      ['another audience', createToken({ aud: 'https://other.example.com' }), 'not meant for this resource'],
+      ['an expired token', createToken({ exp: Math.floor(Date.now() / 1000) - 3600 }), 'expired'],
+      ['an unknown key', createToken({}, { key: stranger.privateKey }), 'signature'],
+      ['an unsigned token', `${encode({ alg: 'none' })}.${encode({ iss: ISSUER })}.`, 'Unsupported token algorithm'],
+      ['a token that is no JWT', 'pg_in_notajwt', 'not a JWT'],
+    ])('rejects %s', async (_case, token, message) => {
+      const verification = verifyAccessToken(token, config);
+      await expect(verification).rejects.toThrow(InvalidTokenError);
+      await expect(verification).rejects.toThrow(message);
+    });
+  });
+
+  describe('getScopesFor', () => {
+    it('maps methods and tools to the scopes that allow them', () => {
+      expect(getScopesFor('initialize', undefined, config.scopes)).toBeNull();
+      expect(getScopesFor('notifications/initialized', undefined, config.scopes)).toBeNull();
+      expect(getScopesFor('resources/read', undefined, config.scopes)).toEqual(['mcp:read']);
+      expect(getScopesFor('tools/call', 'github_search', config.scopes)).toEqual(['mcp:tools', 'github:tools']);
+      expect(getScopesFor('tools/call', 'slack_post', config.scopes)).toEqual(['mcp:tools']);
+      expect(getScopesFor('sampling/createMessage', undefined, config.scopes)).toEqual([]);
+    });
+  });
+
+  describe('HTTP transport', () => {
+    let cleanup: (() => Promise<void>) | undefined;
+    const mockServer = { connect: vi.fn(), setRequestHandler: vi.fn(), close: vi.fn() } as any;
+    const base = 'http://localhost:3044';
+
+    afterEach(async () => {
+      await cleanup?.();
+      cleanup = undefined;
+    });
+
+    it('serves the protected resource metadata and checks tokens and scopes', async () => {
+      cleanup = await startStreamableHTTPServer(mockServer, { port: 3044, oauth: config });
+
+      const metadata = await request(base).get('/.well-known/oauth-protected-resource/mcp');
+      const anonymous = await request(base).post('/mcp').send({ jsonrpc: '2.0', method: 'initialize', params: {}, id: 1 });
+      const readOnly = createToken({ client_id: 'app', scope: 'mcp:read github:tools' });
+      const listing = await request(base).post('/mcp')
+        .set('Authorization', `Bearer ${readOnly}`)
+        .send({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 2 });
+      const allowedCall = await request(base).post('/mcp')
+        .set('Authorization', `Bearer ${readOnly}`)
+        .send({ jsonrpc: '2.0', method: 'tools/call', params: { name: 'github_search' }, id: 3 });
+      const deniedCall = await request(base).post('/mcp')
+        .set('Authorization', `Bearer ${readOnly}`)
+        .send([{ jsonrpc: '2.0', method: 'tools/call', params: { name: 'slack_post' }, id: 4 }]);
+
+      expect(metadata.body).toMatchObject({
+        resource: RESOURCE,
+        authorization_servers: [ISSUER],
+        scopes_supported: ['mcp:read', 'mcp:tools', 'github:tools'],
+      });
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers['www-authenticate'])
+        .toContain('resource_metadata="http://localhost:3044/.well-known/oauth-protected-resource/mcp"');
+      expect(listing.status).toBe(200);
+      expect(allowedCall.body.result).toEqual({ authInfo: 'app' });
+      expect(deniedCall.status).toBe(403);
+      expect(deniedCall.headers['www-authenticate']).toContain('error="insufficient_scope", error_description="Insufficient scope for tools/call (slack_post)", scope="mcp:tools"');
+    }, 10000);
+  });
+});
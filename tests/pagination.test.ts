@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  clearListSnapshots,
+  getListPageSize,
+  paginateList,
+  readUpstreamPage,
+  UpstreamPage,
+} from '../src/pagination';
+import { DEFAULT_LIST_PAGE_SIZE, LIST_SNAPSHOT_TTL_MS } from '../src/constants';
+import { runWithTenant } from '../src/tenants';
+
+const items = (count: number) => Array.from({ length: count }, (_, i) => ({ name: `tool_${i}` }));
+
+/**
+ * Reads every page of a list, returning the pages in order
+ */
+async function readAllPages<T>(fetchPage: () => Promise<UpstreamPage<T>>) {
+  const pages: T[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await paginateList('tools', cursor, fetchPage);
+    pages.push(page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('List pagination', () => {
+  beforeEach(() => {
+    process.env.PLUGGEDIN_LIST_PAGE_SIZE = '10';
+  });
+
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_LIST_PAGE_SIZE;
+    clearListSnapshots();
+    vi.useRealTimers();
+  });
+
+  describe('getListPageSize', () => {
+    it('falls back to the default for missing or invalid values', () => {
+      delete process.env.PLUGGEDIN_LIST_PAGE_SIZE;
+      // Off unless configured, for clients that never follow nextCursor
+      expect(getListPageSize()).toBe(0);
+      expect(DEFAULT_LIST_PAGE_SIZE).toBe(0);
+      process.env.PLUGGEDIN_LIST_PAGE_SIZE = '-3';
+      expect(getListPageSize()).toBe(DEFAULT_LIST_PAGE_SIZE);
+      process.env.PLUGGEDIN_LIST_PAGE_SIZE = '0';
+      expect(getListPageSize()).toBe(0);
+    });
+  });
+
+  describe('readUpstreamPage', () => {
+    it('treats bare arrays and objects without nextCursor as complete lists', () => {
+      expect(readUpstreamPage([1, 2], 'tools')).toEqual({ items: [1, 2], paginated: false });
+      expect(readUpstreamPage({ tools: [1], message: 'ok' }, 'tools')).toEqual({ items: [1], paginated: false });
+      expect(readUpstreamPage(null, 'tools')).toEqual({ items: [], paginated: false });
+    });
+
+    it('recognizes paginated API responses', () => {
+      expect(readUpstreamPage({ prompts: [1], nextCursor: 'abc' }, 'prompts')).toEqual({
+        items: [1],
+        nextCursor: 'abc',
+        paginated: true,
+      });
+      expect(readUpstreamPage({ prompts: [2], nextCursor: null }, 'prompts')).toEqual({
+        items: [2],
+        nextCursor: undefined,
+        paginated: true,
+      });
+    });
+  });
+
+  describe('snapshot pagination', () => {
+    it('serves a stable snapshot in pages of the configured size', async () => {
+      let version = 0;
+      const fetchPage = vi.fn(async () => {
+        version++;
+        return { items: items(25).map(item => ({ ...item, version })), paginated: false };
+      });
+
+      const pages = await readAllPages(fetchPage);
+
+      expect(pages.map(page => page.length)).toEqual([10, 10, 5]);
+      expect(pages.flat().map(item => item.name)).toEqual(items(25).map(item => item.name));
+      // Only the first request hits the API; later pages come from the snapshot
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+      expect(new Set(pages.flat().map(item => item.version))).toEqual(new Set([1]));
+    });
+
+    it('returns short lists without a cursor', async () => {
+      const page = await paginateList('prompts', undefined, async () => ({ items: items(3), paginated: false }));
+      expect(page).toEqual({ items: items(3) });
+    });
+
+    it('returns everything when pagination is disabled', async () => {
+      process.env.PLUGGEDIN_LIST_PAGE_SIZE = '0';
+      const page = await paginateList('resources', undefined, async () => ({ items: items(250), paginated: false }));
+      expect(page.items).toHaveLength(250);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it('expires snapshots that are no longer read', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const first = await paginateList('tools', undefined, async () => ({ items: items(15), paginated: false }));
+
+      vi.setSystemTime(Date.now() + LIST_SNAPSHOT_TTL_MS + 1);
+
+      await expect(paginateList('tools', first.nextCursor, async () => ({ items: [], paginated: false })))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+
+  describe('upstream pagination', () => {
+    it('passes the API cursor and page size through opaque cursors', async () => {
+      const fetchPage = vi.fn(async (upstreamCursor: string | undefined, limit: number) => {
+        expect(limit).toBe(10);
+        return upstreamCursor === 'page-2'
+          ? { items: items(2), paginated: true }
+          : { items: items(10), nextCursor: 'page-2', paginated: true };
+      });
+
+      const first = await paginateList('resourceTemplates', undefined, fetchPage);
+      expect(first.items).toHaveLength(10);
+      expect(first.nextCursor).toBeDefined();
+      expect(first.nextCursor).not.toContain('page-2');
+
+      const second = await paginateList('resourceTemplates', first.nextCursor, fetchPage);
+      expect(second).toEqual({ items: items(2), nextCursor: undefined });
+      expect(fetchPage).toHaveBeenLastCalledWith('page-2', 10);
+    });
+
+    it('asks the API for fewer items on the first page by the number of leading items', async () => {
+      const leadingItems = [{ name: 'static_a' }, { name: 'static_b' }, { name: 'static_c' }];
+      const fetchPage = vi.fn(async (_upstreamCursor: string | undefined, limit: number) =>
+        ({ items: items(limit), nextCursor: 'page-2', paginated: true }));
+
+      const first = await paginateList('tools', undefined, fetchPage, { leadingItems });
+      const second = await paginateList('tools', first.nextCursor, fetchPage, { leadingItems });
+
+      expect(fetchPage).toHaveBeenNthCalledWith(1, undefined, 7);
+      expect(first.items).toEqual([...leadingItems, ...items(7)]);
+      expect(second.items).toEqual(items(10));
+    });
+
+    it('pages leading items that fill whole pages before asking the API', async () => {
+      const leadingItems = Array.from({ length: 13 }, (_, i) => ({ name: `static_${i}` }));
+      const fetchPage = vi.fn(async (upstreamCursor: string | undefined, limit: number) => upstreamCursor === 'page-2'
+        ? { items: [{ name: 'last' }], paginated: true }
+        : { items: items(limit), nextCursor: 'page-2', paginated: true });
+
+      const pages: Array<Array<{ name: string }>> = [];
+      let cursor: string | undefined;
+      do {
+        const page = await paginateList('tools', cursor, fetchPage, { leadingItems });
+        pages.push(page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(pages).toEqual([leadingItems.slice(0, 10), [...leadingItems.slice(10), ...items(7)], [{ name: 'last' }]]);
+      expect(fetchPage.mock.calls).toEqual([[undefined, 7], ['page-2', 10]]);
+    });
+
+    it('snapshots the remaining leading items with a list the API does not paginate', async () => {
+      const leadingItems = Array.from({ length: 12 }, (_, i) => ({ name: `static_${i}` }));
+      const fetchPage = vi.fn(async () => ({ items: items(9), paginated: false }));
+
+      const first = await paginateList('tools', undefined, fetchPage, { leadingItems });
+      const second = await paginateList('tools', first.nextCursor, fetchPage, { leadingItems });
+      const third = await paginateList('tools', second.nextCursor, fetchPage, { leadingItems });
+
+      expect(first.items).toEqual(leadingItems.slice(0, 10));
+      expect(second.items).toEqual([...leadingItems.slice(10), ...items(8)]);
+      expect(third).toEqual({ items: items(9).slice(8), nextCursor: undefined });
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('reads every API page when pagination is disabled', async () => {
+      process.env.PLUGGEDIN_LIST_PAGE_SIZE = '0';
+      const fetchPage = vi.fn(async (upstreamCursor: string | undefined) => upstreamCursor === 'page-2'
+        ? { items: [{ name: 'last' }], paginated: true }
+        : { items: items(3), nextCursor: 'page-2', paginated: true });
+
+      const page = await paginateList('tools', undefined, fetchPage, { leadingItems: [{ name: 'static' }] });
+
+      expect(page).toEqual({ items: [{ name: 'static' }, ...items(3), { name: 'last' }] });
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(fetchPage).toHaveBeenLastCalledWith('page-2', 0);
+    });
+  });
+
+  describe('invalid cursors', () => {
+    const fetchPage = async () => ({ items: items(30), paginated: false });
+
+    it('rejects malformed cursors with InvalidParams', async () => {
+      const error = await paginateList('tools', 'not-a-cursor', fetchPage).catch(e => e);
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidParams);
+    });
+
+    it('rejects cursors issued for another list', async () => {
+      const tools = await paginateList('tools', undefined, fetchPage);
+      await expect(paginateList('prompts', tools.nextCursor, fetchPage))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+
+    it('rejects cursors handed to another tenant', async () => {
+      const tenantA = { id: 'tenant-a', apiKey: 'key-a' };
+      const tenantB = { id: 'tenant-b', apiKey: 'key-b' };
+      const tools = await runWithTenant(tenantA, () => paginateList('tools', undefined, fetchPage));
+
+      await expect(runWithTenant(tenantB, () => paginateList('tools', tools.nextCursor, fetchPage)))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      await expect(runWithTenant(tenantA, () => paginateList('tools', tools.nextCursor, fetchPage)))
+        .resolves.toMatchObject({ items: items(30).slice(10, 20) });
+    });
+
+    it('rejects cursors of cleared snapshots', async () => {
+      const tools = await paginateList('tools', undefined, fetchPage);
+      clearListSnapshots();
+      await expect(paginateList('tools', tools.nextCursor, fetchPage))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+});
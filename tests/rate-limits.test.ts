@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { enforceRateLimit, getRateLimitStats, resetRateLimits } from '../src/rate-limits';
+import { Constraints, processInstructions } from '../src/utils/custom-instructions';
+import { ErrorType, McpProxyError } from '../src/error-handler';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+const parseConstraints = (text: string): Constraints =>
+  processInstructions('db', SERVER_UUID, [{ role: 'user', content: text }])!.constraints;
+
+const call = (toolName: string, constraints: Constraints) =>
+  enforceRateLimit(SERVER_UUID, 'db', toolName, constraints);
+
+describe('Rate limits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    resetRateLimits();
+    vi.useRealTimers();
+  });
+
+  describe('parsing', () => {
+    it('separates per-tool limits from the server-wide limit', () => {
+      const constraints = parseConstraints(
+        'Tool search: 2 requests per second\nOverall 30 requests per minute'
+      );
+
+      expect(constraints.toolRateLimits).toEqual({ search: { count: 2, unit: 'second' } });
+      expect(constraints.rateLimit).toEqual({ count: 30, unit: 'minute' });
+    });
+
+    it('does not turn a per-tool limit into a server-wide one', () => {
+      const constraints = parseConstraints('tool export_csv 1 request per hour');
+
+      expect(constraints.toolRateLimits).toEqual({ export_csv: { count: 1, unit: 'hour' } });
+      expect(constraints.rateLimit).toBeUndefined();
+    });
+  });
+
+  describe('enforceRateLimit', () => {
+    const serverLimit = parseConstraints('3 requests per minute');
+
+    it('allows a burst up to the limit and then rejects with a retry-after time', () => {
+      call('query', serverLimit);
+      call('query', serverLimit);
+      call('query', serverLimit);
+
+      const error = (() => {
+        try {
+          call('query', serverLimit);
+        } catch (e) {
+          return e;
+        }
+      })() as McpProxyError;
+
+      expect(error).toBeInstanceOf(McpProxyError);
+      expect(error.type).toBe(ErrorType.RATE_LIMIT);
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toBe('Rate limit exceeded for server db (3 requests per minute). Retry after 20s.');
+      expect(error.details).toEqual({ retryAfterMs: 20000 });
+    });
+
+    it('refills tokens over time', () => {
+      for (let i = 0; i < 3; i++) call('query', serverLimit);
+      expect(() => call('query', serverLimit)).toThrow(/Retry after 20s/);
+
+      vi.advanceTimersByTime(15000);
+      expect(() => call('query', serverLimit)).toThrow(/Retry after 5s/);
+
+      vi.advanceTimersByTime(5000);
+      expect(() => call('query', serverLimit)).not.toThrow();
+    });
+
+    it('limits a tool on its own without affecting other tools', () => {
+      const constraints = parseConstraints('tool search: 1 request per second');
+
+      call('search', constraints);
+      expect(() => call('Search', constraints)).toThrow(/tool Search on db \(1 request per second\)/);
+      expect(() => call('lookup', constraints)).not.toThrow();
+    });
+
+    it('does not consume server tokens for calls rejected by a tool limit', () => {
+      const constraints = parseConstraints('2 requests per minute. tool search: 1 request per minute');
+
+      call('search', constraints);
+      expect(() => call('search', constraints)).toThrow(/tool search/);
+      // The rejected call left the second server token in place
+      expect(() => call('lookup', constraints)).not.toThrow();
+      expect(() => call('lookup', constraints)).toThrow(/server db/);
+    });
+
+    it('restarts the bucket when the configured limit changes', () => {
+      for (let i = 0; i < 3; i++) call('query', serverLimit);
+      expect(() => call('query', serverLimit)).toThrow();
+
+      expect(() => call('query', parseConstraints('10 requests per minute'))).not.toThrow();
+    });
+
+    it('ignores servers without rate limits', () => {
+      const constraints = parseConstraints('Read-only access');
+      for (let i = 0; i < 100; i++) call('query', constraints);
+      expect(getRateLimitStats()).toEqual([]);
+    });
+  });
+
+  describe('getRateLimitStats', () => {
+    it('counts rejections per server and tool', () => {
+      const constraints = parseConstraints('1 request per minute');
+      call('query', constraints);
+      expect(() => call('query', constraints)).toThrow();
+      expect(() => call('insert', constraints)).toThrow();
+      expect(() => call('query', constraints)).toThrow();
+
+      expect(getRateLimitStats()).toEqual([{
+        serverUuid: SERVER_UUID,
+        rejections: 3,
+        toolRejections: { query: 2, insert: 1 },
+        lastRejectedAt: Date.now(),
+      }]);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  CompatibilityCallToolResultSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  createProgressRelay,
+  findUpstreamRequest,
+  trackDownstreamRequest,
+  getInFlightRequestCount,
+} from '../src/request-forwarding';
+
+/**
+ * Creates a downstream server connected to a client over in-memory transports.
+ * Tools report progress three times when asked to; `hanging_tool` only returns
+ * once its request is cancelled.
+ */
+async function createDownstreamPair() {
+  const downstreamStarted: string[] = [];
+  const downstreamAborts: string[] = [];
+  const downstream = new Server(
+    { name: 'downstream', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  downstream.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    downstreamStarted.push(request.params.name);
+    const token = request.params._meta?.progressToken;
+    if (token !== undefined) {
+      for (let step = 1; step <= 3; step++) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken: token, progress: step, total: 3, message: `step ${step}` },
+        });
+      }
+    }
+    if (request.params.name === 'hanging_tool') {
+      // Block until the proxy cancels the request
+      await new Promise<void>((resolve) => {
+        extra.signal.addEventListener('abort', () => resolve(), { once: true });
+      });
+      downstreamAborts.push(String(extra.signal.reason ?? 'aborted'));
+      return { content: [{ type: 'text', text: 'cancelled' }] };
+    }
+    return { content: [{ type: 'text', text: 'done' }] };
+  });
+
+  const client = new Client({ name: 'proxy', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([downstream.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { downstream, client, downstreamStarted, downstreamAborts };
+}
+
+describe('createProgressRelay', () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  it('returns no options when the client did not request progress', () => {
+    const sendNotification = vi.fn();
+    expect(createProgressRelay(undefined, { sendNotification })).toEqual({});
+    expect(createProgressRelay({}, { sendNotification })).toEqual({});
+  });
+
+  it('enables timeout reset on progress when a token is present', () => {
+    const options = createProgressRelay({ progressToken: 'abc' }, { sendNotification: vi.fn() });
+    expect(options.onprogress).toBeTypeOf('function');
+    expect(options.resetTimeoutOnProgress).toBe(true);
+  });
+
+  it('forwards every downstream progress notification with the upstream token', async () => {
+    const { downstream, client } = await createDownstreamPair();
+    cleanup = async () => {
+      await client.close();
+      await downstream.close();
+    };
+
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const result = await client.request(
+      { method: 'tools/call', params: { name: 'slow_tool', arguments: {} } },
+      CompatibilityCallToolResultSchema,
+      createProgressRelay({ progressToken: 'upstream-token-42' }, { sendNotification })
+    );
+
+    expect(result.content).toEqual([{ type: 'text', text: 'done' }]);
+    expect(sendNotification).toHaveBeenCalledTimes(3);
+    expect(sendNotification).toHaveBeenNthCalledWith(1, {
+      method: 'notifications/progress',
+      params: { progressToken: 'upstream-token-42', progress: 1, total: 3, message: 'step 1' },
+    });
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'upstream-token-42', progress: 3, total: 3, message: 'step 3' },
+    });
+  });
+
+  it('keeps the call alive when forwarding progress upstream fails', async () => {
+    const { downstream, client } = await createDownstreamPair();
+    cleanup = async () => {
+      await client.close();
+      await downstream.close();
+    };
+
+    const sendNotification = vi.fn().mockRejectedValue(new Error('upstream gone'));
+    const result = await client.request(
+      { method: 'tools/call', params: { name: 'slow_tool', arguments: {} } },
+      CompatibilityCallToolResultSchema,
+      createProgressRelay({ progressToken: 7 }, { sendNotification })
+    );
+
+    expect(result.content).toEqual([{ type: 'text', text: 'done' }]);
+    expect(sendNotification).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('trackDownstreamRequest', () => {
+  const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+  it('registers and releases in-flight requests per upstream request id', () => {
+    const upstream = new AbortController();
+    const first = trackDownstreamRequest(
+      { requestId: 1, sessionId: 'session-a', signal: upstream.signal }, SERVER_UUID, 'tools/call'
+    );
+    const second = trackDownstreamRequest(
+      { requestId: 1, sessionId: 'session-b', signal: upstream.signal }, SERVER_UUID, 'resources/read'
+    );
+
+    expect(getInFlightRequestCount()).toBe(2);
+    expect(getInFlightRequestCount(SERVER_UUID)).toBe(2);
+    expect(getInFlightRequestCount('other-server')).toBe(0);
+
+    first.release();
+    second.release();
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+
+  it('aborts the downstream signal when the client cancels', () => {
+    const upstream = new AbortController();
+    const tracked = trackDownstreamRequest(
+      { requestId: 'req-1', signal: upstream.signal }, SERVER_UUID, 'prompts/get'
+    );
+
+    expect(tracked.signal.aborted).toBe(false);
+    upstream.abort('user cancelled');
+    expect(tracked.signal.aborted).toBe(true);
+    expect(tracked.signal.reason).toBe('user cancelled');
+
+    tracked.release();
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+
+  it('returns an already-aborted signal if the client cancelled first', () => {
+    const upstream = new AbortController();
+    upstream.abort('too late');
+    const tracked = trackDownstreamRequest(
+      { requestId: 2, signal: upstream.signal }, SERVER_UUID, 'tools/call'
+    );
+
+    expect(tracked.signal.aborted).toBe(true);
+    tracked.release();
+  });
+
+  it('sends the cancellation to the downstream server and frees the slot', async () => {
+    const { downstream, client, downstreamStarted, downstreamAborts } = await createDownstreamPair();
+
+    const upstream = new AbortController();
+    const tracked = trackDownstreamRequest(
+      { requestId: 3, sessionId: 'session-c', signal: upstream.signal }, SERVER_UUID, 'tools/call'
+    );
+
+    const pending = client.request(
+      { method: 'tools/call', params: { name: 'hanging_tool', arguments: {} } },
+      CompatibilityCallToolResultSchema,
+      { signal: tracked.signal }
+    ).finally(() => tracked.release());
+
+    expect(getInFlightRequestCount(SERVER_UUID)).toBe(1);
+    // Cancel only once the downstream server is actually running the tool
+    await vi.waitFor(() => expect(downstreamStarted).toContain('hanging_tool'));
+    upstream.abort('client cancelled');
+
+    await expect(pending).rejects.toBeDefined();
+    await vi.waitFor(() => expect(downstreamAborts).toEqual(['client cancelled']));
+    expect(getInFlightRequestCount()).toBe(0);
+
+    await client.close();
+    await downstream.close();
+  });
+});
+
+describe('findUpstreamRequest', () => {
+  const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+  const track = (requestId: number, sessionId: string) => {
+    const sendRequest = vi.fn();
+    const tracked = trackDownstreamRequest(
+      { requestId, sessionId, signal: new AbortController().signal, sendRequest }, SERVER_UUID, 'tools/call'
+    );
+    return { sendRequest, release: tracked.release };
+  };
+
+  it('routes to the most recent request of a single client session', () => {
+    const first = track(1, 'session-a');
+    const second = track(2, 'session-a');
+
+    expect(findUpstreamRequest(SERVER_UUID)?.sendRequest).toBe(second.sendRequest);
+    expect(findUpstreamRequest(SERVER_UUID, 'other-tenant')).toBeUndefined();
+
+    first.release();
+    second.release();
+  });
+
+  it('refuses requests when calls of several client sessions are in flight', () => {
+    const first = track(1, 'session-a');
+    const second = track(1, 'session-b');
+
+    expect(() => findUpstreamRequest(SERVER_UUID)).toThrow(McpError);
+    expect(() => findUpstreamRequest(SERVER_UUID)).toThrow('Requests of 2 client sessions are in flight');
+
+    second.release();
+    expect(findUpstreamRequest(SERVER_UUID)?.sendRequest).toBe(first.sendRequest);
+    first.release();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const pool = vi.hoisted(() => ({
+  closeListeners: [] as Array<(serverUuid: string) => void>,
+  connectListeners: [] as Array<(serverUuid: string, client: unknown) => void>,
+  retained: new Map<string, number>(),
+}));
+
+// Only the session pool hooks used by the subscription registry are needed
+vi.mock('../src/sessions', () => ({
+  onSessionClosed: (listener: (serverUuid: string) => void) => {
+    pool.closeListeners.push(listener);
+    return () => {};
+  },
+  onSessionConnected: (listener: (serverUuid: string, client: unknown) => void) => {
+    pool.connectListeners.push(listener);
+    return () => {};
+  },
+  retainServerSession: (uuid: string) => {
+    pool.retained.set(uuid, (pool.retained.get(uuid) ?? 0) + 1);
+    return () => pool.retained.set(uuid, pool.retained.get(uuid)! - 1);
+  },
+}));
+
+import {
+  subscribeToResource,
+  unsubscribeFromResource,
+  getResourceSubscriptionCount,
+} from '../src/resource-subscriptions';
+import { registerUpstreamSession, unregisterUpstreamSession } from '../src/upstream-sessions';
+import { runWithTenant } from '../src/tenants';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Creates a downstream server that supports subscriptions, connected to a client
+ */
+async function createDownstreamPair(options: { failSubscribe?: boolean } = {}) {
+  const subscribed: string[] = [];
+  const unsubscribed: string[] = [];
+  const downstream = new Server(
+    { name: 'downstream', version: '1.0.0' },
+    { capabilities: { resources: { subscribe: true } } }
+  );
+  downstream.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (options.failSubscribe) {
+      throw new Error('subscriptions unavailable');
+    }
+    subscribed.push(request.params.uri);
+    return {};
+  });
+  downstream.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribed.push(request.params.uri);
+    return {};
+  });
+
+  const client = new Client({ name: 'proxy', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([downstream.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { downstream, client, subscribed, unsubscribed };
+}
+
+describe('Resource subscriptions', () => {
+  let pair: Awaited<ReturnType<typeof createDownstreamPair>>;
+  const sendA = vi.fn();
+  const sendB = vi.fn();
+
+  beforeEach(async () => {
+    pair = await createDownstreamPair();
+    sendA.mockReset().mockResolvedValue(undefined);
+    sendB.mockReset().mockResolvedValue(undefined);
+    registerUpstreamSession('session-a', sendA);
+    registerUpstreamSession('session-b', sendB);
+  });
+
+  afterEach(async () => {
+    unregisterUpstreamSession('session-a');
+    unregisterUpstreamSession('session-b');
+    await pair.client.close();
+    await pair.downstream.close();
+  });
+
+  it('shares one downstream subscription and fans updates out to every subscriber', async () => {
+    await subscribeToResource('file:///notes.md', 'session-a', SERVER_UUID, pair.client);
+    await subscribeToResource('file:///notes.md', 'session-b', SERVER_UUID, pair.client);
+
+    expect(pair.subscribed).toEqual(['file:///notes.md']);
+    expect(getResourceSubscriptionCount()).toBe(2);
+    expect(pool.retained.get(SERVER_UUID)).toBe(1);
+
+    await pair.downstream.sendResourceUpdated({ uri: 'file:///notes.md' });
+
+    const expected = { method: 'notifications/resources/updated', params: { uri: 'file:///notes.md' } };
+    await vi.waitFor(() => {
+      expect(sendA).toHaveBeenCalledWith(expected);
+      expect(sendB).toHaveBeenCalledWith(expected);
+    });
+  });
+
+  it('forwards updates of sub-resources but not of sibling URIs', async () => {
+    await subscribeToResource('file:///project', 'session-a', SERVER_UUID, pair.client);
+
+    await pair.downstream.sendResourceUpdated({ uri: 'file:///project-old/readme.md' });
+    await pair.downstream.sendResourceUpdated({ uri: 'file:///project/src/index.ts' });
+
+    await vi.waitFor(() => expect(sendA).toHaveBeenCalledTimes(1));
+    expect(sendA).toHaveBeenCalledWith({
+      method: 'notifications/resources/updated',
+      params: { uri: 'file:///project/src/index.ts' },
+    });
+  });
+
+  it('unsubscribes downstream when the last subscriber leaves', async () => {
+    await subscribeToResource('db://orders/42', 'session-a', SERVER_UUID, pair.client);
+    await subscribeToResource('db://orders/42', 'session-b', SERVER_UUID, pair.client);
+
+    unsubscribeFromResource('db://orders/42', 'session-a');
+    expect(pair.unsubscribed).toEqual([]);
+
+    unsubscribeFromResource('db://orders/42', 'session-b');
+    await vi.waitFor(() => expect(pair.unsubscribed).toEqual(['db://orders/42']));
+    expect(getResourceSubscriptionCount()).toBe(0);
+    expect(pool.retained.get(SERVER_UUID)).toBe(0);
+  });
+
+  it('releases subscriptions of a client session that disconnects', async () => {
+    await subscribeToResource('db://orders/1', 'session-a', SERVER_UUID, pair.client);
+    await subscribeToResource('db://orders/2', 'session-a', SERVER_UUID, pair.client);
+    await subscribeToResource('db://orders/2', 'session-b', SERVER_UUID, pair.client);
+
+    unregisterUpstreamSession('session-a');
+
+    await vi.waitFor(() => expect(pair.unsubscribed).toEqual(['db://orders/1']));
+    expect(getResourceSubscriptionCount('session-a')).toBe(0);
+    expect(getResourceSubscriptionCount('session-b')).toBe(1);
+
+    unsubscribeFromResource('db://orders/2', 'session-b');
+  });
+
+  it('subscribes again after the downstream server reconnects and tells subscribers', async () => {
+    await subscribeToResource('file:///watched.txt', 'session-a', SERVER_UUID, pair.client);
+    const reconnected = await createDownstreamPair();
+
+    pool.closeListeners.forEach(listener => listener(SERVER_UUID));
+    pool.connectListeners.forEach(listener => listener(SERVER_UUID, reconnected.client));
+
+    await vi.waitFor(() => expect(sendA).toHaveBeenCalledWith({
+      method: 'notifications/resources/updated',
+      params: { uri: 'file:///watched.txt' },
+    }));
+    expect(reconnected.subscribed).toEqual(['file:///watched.txt']);
+    expect(getResourceSubscriptionCount()).toBe(1);
+    // The old connection forgot the subscription; nothing to unsubscribe
+    expect(pair.unsubscribed).toEqual([]);
+
+    await reconnected.downstream.sendResourceUpdated({ uri: 'file:///watched.txt' });
+    await vi.waitFor(() => expect(sendA).toHaveBeenCalledTimes(2));
+
+    unsubscribeFromResource('file:///watched.txt', 'session-a');
+    await vi.waitFor(() => expect(reconnected.unsubscribed).toEqual(['file:///watched.txt']));
+    expect(pool.retained.get(SERVER_UUID)).toBe(0);
+    await reconnected.client.close();
+    await reconnected.downstream.close();
+  });
+
+  it('keeps the subscriptions of tenants and their connections apart', async () => {
+    const other = await createDownstreamPair();
+    await runWithTenant({ id: 'tenant-a', apiKey: 'key-a' }, () =>
+      subscribeToResource('file:///shared.txt', 'session-a', SERVER_UUID, pair.client));
+    await runWithTenant({ id: 'tenant-b', apiKey: 'key-b' }, () =>
+      subscribeToResource('file:///shared.txt', 'session-b', SERVER_UUID, other.client));
+
+    await other.downstream.sendResourceUpdated({ uri: 'file:///shared.txt' });
+    await vi.waitFor(() => expect(sendB).toHaveBeenCalledTimes(1));
+    expect(sendA).not.toHaveBeenCalled();
+
+    runWithTenant({ id: 'tenant-b', apiKey: 'key-b' }, () => unsubscribeFromResource('file:///shared.txt', 'session-b'));
+    await vi.waitFor(() => expect(other.unsubscribed).toEqual(['file:///shared.txt']));
+    expect(pair.unsubscribed).toEqual([]);
+    expect(getResourceSubscriptionCount('session-a')).toBe(1);
+
+    runWithTenant({ id: 'tenant-a', apiKey: 'key-a' }, () => unsubscribeFromResource('file:///shared.txt', 'session-a'));
+    await other.client.close();
+    await other.downstream.close();
+  });
+
+  it('does not keep a subscription the downstream server rejected', async () => {
+    const failing = await createDownstreamPair({ failSubscribe: true });
+
+    await expect(
+      subscribeToResource('file:///locked', 'session-a', SERVER_UUID, failing.client)
+    ).rejects.toThrow('subscriptions unavailable');
+    expect(getResourceSubscriptionCount()).toBe(0);
+
+    await failing.client.close();
+    await failing.downstream.close();
+  });
+});
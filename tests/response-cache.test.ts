@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  CachedToolCall,
+  canonicalJson,
+  clearResponseCache,
+  getResponseCacheStats,
+  getResponseCacheTtlMs,
+  invalidateServerCache,
+  isCacheableTool,
+  withResponseCache,
+} from '../src/response-cache';
+import { classifyTool, processInstructions } from '../src/utils/custom-instructions';
+
+const SERVER = '550e8400-e29b-41d4-a716-446655440000';
+const OTHER_SERVER = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+const originalEnv = { ...process.env };
+
+const read = (overrides: Partial<CachedToolCall> = {}): CachedToolCall => ({
+  serverUuid: SERVER,
+  toolName: 'list_rows',
+  args: { table: 'users', limit: 10 },
+  ttlMs: 60_000,
+  readOnly: true,
+  ...overrides,
+});
+
+const respond = (text: string) => vi.fn(async () => ({ content: [{ type: 'text' as const, text }] }));
+
+describe('Response cache', () => {
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    clearResponseCache();
+    vi.useRealTimers();
+  });
+
+  describe('settings', () => {
+    it('is off unless a TTL is configured, and servers can set their own', () => {
+      const constraints = (text: string) =>
+        processInstructions('db', SERVER, [{ role: 'user', content: text }])!.constraints;
+      delete process.env.PLUGGEDIN_RESPONSE_CACHE_TTL_MS;
+
+      expect(getResponseCacheTtlMs(undefined)).toBe(0);
+      expect(getResponseCacheTtlMs(constraints('Cache results for 5 minutes'))).toBe(5 * 60_000);
+
+      process.env.PLUGGEDIN_RESPONSE_CACHE_TTL_MS = '30000';
+      expect(getResponseCacheTtlMs(undefined)).toBe(30_000);
+      expect(getResponseCacheTtlMs(constraints('No caching, results change constantly'))).toBe(0);
+    });
+
+    it('only caches tools that are read-only by annotations or the server lists', () => {
+      expect(isCacheableTool(classifyTool('rows', {}, { readOnlyHint: true }))).toBe(true);
+      expect(isCacheableTool(classifyTool('rows', { readTools: ['rows'] }))).toBe(true);
+      expect(isCacheableTool(classifyTool('get_rows', {}))).toBe(false);
+      expect(isCacheableTool(classifyTool('rows', {}, { readOnlyHint: false }))).toBe(false);
+    });
+
+    it('serializes arguments independent of key order', () => {
+      expect(canonicalJson({ b: [1, { d: 2, c: undefined }], a: 'x' })).toBe('{"a":"x","b":[1,{"d":2}]}');
+    });
+  });
+
+  describe('withResponseCache', () => {
+    it('returns cached results for the same arguments until they expire', async () => {
+      vi.useFakeTimers();
+      const execute = respond('rows');
+
+      await withResponseCache(read(), execute);
+      const cached = await withResponseCache(read({ args: { limit: 10, table: 'users' } }), execute);
+      await withResponseCache(read({ args: { table: 'orders', limit: 10 } }), execute);
+
+      expect(cached).toEqual({ content: [{ type: 'text', text: 'rows' }] });
+      expect(execute).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(60_000);
+      await withResponseCache(read(), execute);
+      expect(execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('fetches and caches a fresh result when the call bypasses the cache', async () => {
+      await withResponseCache(read(), respond('old'));
+
+      const fresh = await withResponseCache(read({ meta: { 'pluggedin/cache': 'bypass' } }), respond('new'));
+      const cached = await withResponseCache(read(), respond('unused'));
+
+      expect(fresh.content[0]).toMatchObject({ text: 'new' });
+      expect(cached.content[0]).toMatchObject({ text: 'new' });
+    });
+
+    it('does not cache errors, or anything when the TTL is 0', async () => {
+      const failing = vi.fn(async () => ({ content: [], isError: true }));
+      await withResponseCache(read(), failing);
+      await withResponseCache(read(), failing);
+      await withResponseCache(read({ ttlMs: 0 }), respond('rows'));
+
+      expect(failing).toHaveBeenCalledTimes(2);
+      expect(getResponseCacheStats().entries).toBe(0);
+    });
+
+    it('drops the server results when another tool of the server is called', async () => {
+      await withResponseCache(read(), respond('rows'));
+      await withResponseCache(read({ serverUuid: OTHER_SERVER }), respond('rows'));
+
+      await expect(withResponseCache(read({ toolName: 'insert_row', readOnly: false }), async () => {
+        throw new Error('insert failed');
+      })).rejects.toThrow('insert failed');
+
+      const execute = respond('rows');
+      await withResponseCache(read(), execute);
+      await withResponseCache(read({ serverUuid: OTHER_SERVER }), execute);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache a read that was in flight while the server was invalidated', async () => {
+      await withResponseCache(read(), async () => {
+        invalidateServerCache(SERVER);
+        return { content: [{ type: 'text', text: 'stale' }] };
+      });
+
+      expect(getResponseCacheStats().entries).toBe(0);
+    });
+
+    it('evicts the least recently used results beyond the size limit', async () => {
+      const bytes = JSON.stringify({ content: [{ type: 'text', text: 'a' }] }).length;
+      process.env.PLUGGEDIN_RESPONSE_CACHE_MAX_BYTES = String(bytes * 2);
+
+      await withResponseCache(read({ args: { id: 1 } }), respond('a'));
+      await withResponseCache(read({ args: { id: 2 } }), respond('b'));
+      await withResponseCache(read({ args: { id: 1 } }), respond('unused'));
+      await withResponseCache(read({ args: { id: 3 } }), respond('c'));
+
+      const execute = respond('b');
+      await withResponseCache(read({ args: { id: 1 } }), execute);
+      await withResponseCache(read({ args: { id: 2 } }), execute);
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(getResponseCacheStats().bytes).toBeLessThanOrEqual(bytes * 2);
+    });
+
+    it('skips results above the entry size limit', async () => {
+      process.env.PLUGGEDIN_RESPONSE_CACHE_MAX_ENTRY_BYTES = '10';
+
+      await withResponseCache(read(), respond('a long result'));
+
+      expect(getResponseCacheStats().entries).toBe(0);
+    });
+  });
+});
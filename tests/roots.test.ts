@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  filterRoots,
+  getRootsForServer,
+  getUpstreamRoots,
+  notifyRootsChanged,
+  registerRootsHandler,
+  setUpstreamRoots,
+} from '../src/roots';
+import { ServerParameters } from '../src/types';
+import { trackDownstreamRequest } from '../src/request-forwarding';
+import { registerUpstreamSession, unregisterUpstreamSession } from '../src/upstream-sessions';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const WORKSPACE_ROOTS = [
+  { uri: 'file:///home/dev/app', name: 'app' },
+  { uri: 'file:///home/dev/docs', name: 'docs' },
+];
+
+/**
+ * Connects a downstream server to a proxy client that serves roots
+ */
+async function createDownstreamPair(serverParams: ServerParameters) {
+  const rootsChanged = vi.fn();
+  const downstream = new Server({ name: 'filesystem', version: '1.0.0' }, { capabilities: {} });
+  downstream.setNotificationHandler(RootsListChangedNotificationSchema, async () => rootsChanged());
+
+  const client = new Client(
+    { name: 'proxy', version: '1.0.0' },
+    { capabilities: { roots: { listChanged: true } } }
+  );
+  registerRootsHandler(client, serverParams);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([downstream.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { downstream, client, rootsChanged };
+}
+
+describe('Roots relay', () => {
+  beforeEach(() => {
+    setUpstreamRoots(WORKSPACE_ROOTS);
+  });
+
+  describe('setUpstreamRoots', () => {
+    it('reports whether the roots changed', () => {
+      expect(setUpstreamRoots([...WORKSPACE_ROOTS])).toBe(false);
+      expect(setUpstreamRoots([WORKSPACE_ROOTS[0]])).toBe(true);
+      expect(getUpstreamRoots()).toEqual([WORKSPACE_ROOTS[0]]);
+    });
+  });
+
+  describe('filterRoots', () => {
+    it('keeps roots inside an allowed location', () => {
+      expect(filterRoots(WORKSPACE_ROOTS, ['/home/dev/app'])).toEqual([WORKSPACE_ROOTS[0]]);
+      expect(filterRoots(WORKSPACE_ROOTS, ['file:///home/dev/'])).toEqual(WORKSPACE_ROOTS);
+    });
+
+    it('narrows a root to an allowed sub-location', () => {
+      expect(filterRoots(WORKSPACE_ROOTS, ['/home/dev/app/src'])).toEqual([
+        { uri: 'file:///home/dev/app/src', name: 'app' },
+      ]);
+    });
+
+    it('does not treat sibling directories as nested', () => {
+      expect(filterRoots(WORKSPACE_ROOTS, ['/home/dev/app-old'])).toEqual([]);
+    });
+  });
+
+  describe('getRootsForServer', () => {
+    it('exposes all client roots without constraints', () => {
+      expect(getRootsForServer({ uuid: SERVER_UUID, name: 'fs' })).toEqual(WORKSPACE_ROOTS);
+    });
+
+    it('hides roots from servers with "no roots"', () => {
+      expect(getRootsForServer({ uuid: SERVER_UUID, customInstructions: 'No roots for this server.' })).toEqual([]);
+    });
+
+    it('applies the allowed roots from custom instructions', () => {
+      const roots = getRootsForServer({
+        uuid: SERVER_UUID,
+        customInstructions: 'Allowed roots: /home/dev/docs, /srv/shared',
+      });
+      expect(roots).toEqual([WORKSPACE_ROOTS[1]]);
+    });
+  });
+
+  describe('downstream servers', () => {
+    it('answers roots/list with the roots filtered for the server', async () => {
+      const { downstream, client } = await createDownstreamPair({
+        uuid: SERVER_UUID,
+        name: 'fs',
+        customInstructions: 'allowed roots: file:///home/dev/app',
+      });
+
+      await expect(downstream.listRoots()).resolves.toEqual({ roots: [WORKSPACE_ROOTS[0]] });
+
+      await client.close();
+      await downstream.close();
+    });
+
+    it('sends roots/list_changed to connected servers', async () => {
+      const { downstream, client, rootsChanged } = await createDownstreamPair({ uuid: SERVER_UUID, name: 'fs' });
+
+      await notifyRootsChanged([client]);
+      await vi.waitFor(() => expect(rootsChanged).toHaveBeenCalledTimes(1));
+
+      await client.close();
+      await downstream.close();
+    });
+
+    it('answers with the roots of the client session whose call is in flight', async () => {
+      const otherRoots = [{ uri: 'file:///home/other/secret', name: 'secret' }];
+      registerUpstreamSession('session-b', async () => {});
+      setUpstreamRoots(otherRoots, 'session-b');
+      const { downstream, client } = await createDownstreamPair({ uuid: SERVER_UUID, name: 'fs' });
+
+      // Two sessions have roots and neither is calling the server
+      await expect(downstream.listRoots()).resolves.toEqual({ roots: [] });
+
+      const call = trackDownstreamRequest(
+        { requestId: 1, sessionId: 'session-b', signal: new AbortController().signal, sendRequest: vi.fn() },
+        SERVER_UUID,
+        'tools/call'
+      );
+      await expect(downstream.listRoots()).resolves.toEqual({ roots: otherRoots });
+      call.release();
+
+      // Roots are forgotten with their session
+      unregisterUpstreamSession('session-b');
+      expect(getUpstreamRoots('session-b')).toEqual([]);
+      await expect(downstream.listRoots()).resolves.toEqual({ roots: WORKSPACE_ROOTS });
+
+      await client.close();
+      await downstream.close();
+    });
+
+    it('ignores servers that already disconnected', async () => {
+      const { downstream, client } = await createDownstreamPair({ uuid: SERVER_UUID, name: 'fs' });
+      await client.close();
+      await downstream.close();
+
+      await expect(notifyRootsChanged([client])).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  CompatibilityCallToolResultSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  getRelayedClientCapabilities,
+  getServerRequestPolicy,
+  registerServerRequestHandlers,
+} from '../src/server-requests';
+import { trackDownstreamRequest } from '../src/request-forwarding';
+import { registerUpstreamSession, unregisterUpstreamSession } from '../src/upstream-sessions';
+import { ServerParameters } from '../src/types';
+import { DEFAULT_SAMPLING_MAX_TOKENS } from '../src/constants';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Wires client <-> proxy server and proxy client <-> downstream server.
+ * The proxy forwards tools/call like mcp-proxy.ts does; the downstream tool
+ * asks the client for a completion (`sample`) or for user input (`ask`).
+ */
+async function createProxyChain(serverParams: ServerParameters, options: { upstreamSampling?: boolean } = {}) {
+  const sampledMaxTokens: number[] = [];
+  const upstreamSampling = options.upstreamSampling ?? true;
+
+  // Downstream server that issues server-to-client requests from its tools
+  const downstream = new Server({ name: 'downstream', version: '1.0.0' }, { capabilities: { tools: {} } });
+  downstream.setRequestHandler(CallToolRequestSchema, async (request) => {
+    if (request.params.name === 'ask') {
+      const answer = await downstream.elicitInput({
+        message: 'Which branch?',
+        requestedSchema: { type: 'object', properties: { branch: { type: 'string' } } },
+      });
+      return { content: [{ type: 'text', text: `${answer.action}:${answer.content?.branch}` }] };
+    }
+    const completion = await downstream.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+      maxTokens: Number(request.params.arguments?.maxTokens ?? 100),
+    });
+    return { content: [{ type: 'text', text: completion.content.type === 'text' ? completion.content.text : '' }] };
+  });
+
+  const proxyClient = new Client(
+    { name: 'proxy', version: '1.0.0' },
+    { capabilities: { sampling: {}, elicitation: {} } }
+  );
+  registerServerRequestHandlers(proxyClient, serverParams);
+  const [downClientTransport, downServerTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([downstream.connect(downServerTransport), proxyClient.connect(downClientTransport)]);
+
+  // Proxy server forwarding tools/call with request tracking
+  const proxy = new Server({ name: 'proxy', version: '1.0.0' }, { capabilities: { tools: {} } });
+  proxy.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const inFlight = trackDownstreamRequest(extra, SERVER_UUID, 'tools/call', proxy.getClientCapabilities());
+    try {
+      return await proxyClient.request(
+        { method: 'tools/call', params: request.params },
+        CompatibilityCallToolResultSchema,
+        { signal: inFlight.signal }
+      );
+    } finally {
+      inFlight.release();
+    }
+  });
+
+  // The end client answering sampling and elicitation
+  const upstreamClient = new Client(
+    { name: 'client', version: '1.0.0' },
+    { capabilities: upstreamSampling ? { sampling: {}, elicitation: {} } : {} }
+  );
+  if (upstreamSampling) {
+    upstreamClient.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      sampledMaxTokens.push(request.params.maxTokens);
+      return { role: 'assistant', model: 'test-model', content: { type: 'text', text: 'summary' } };
+    });
+    upstreamClient.setRequestHandler(ElicitRequestSchema, async () => ({
+      action: 'accept',
+      content: { branch: 'main' },
+    }));
+  }
+  const [upClientTransport, upServerTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([proxy.connect(upServerTransport), upstreamClient.connect(upClientTransport)]);
+
+  const close = async () => {
+    await upstreamClient.close();
+    await proxy.close();
+    await proxyClient.close();
+    await downstream.close();
+  };
+
+  return { upstreamClient, proxyClient, sampledMaxTokens, close };
+}
+
+const callTool = (client: Client, name: string, args: Record<string, unknown> = {}) =>
+  client.request({ method: 'tools/call', params: { name, arguments: args } }, CompatibilityCallToolResultSchema);
+
+describe('getServerRequestPolicy', () => {
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_SAMPLING_ENABLED;
+    delete process.env.PLUGGEDIN_ELICITATION_ENABLED;
+    delete process.env.PLUGGEDIN_SAMPLING_MAX_TOKENS;
+  });
+
+  it('allows sampling and elicitation by default', () => {
+    expect(getServerRequestPolicy({ uuid: SERVER_UUID, name: 'plain' })).toEqual({
+      samplingAllowed: true,
+      elicitationAllowed: true,
+      maxTokens: DEFAULT_SAMPLING_MAX_TOKENS,
+    });
+  });
+
+  it('applies per-server restrictions from custom instructions', () => {
+    const policy = getServerRequestPolicy({
+      uuid: SERVER_UUID,
+      name: 'restricted',
+      customInstructions: 'No sampling. No elicitation. Max sampling tokens: 256',
+    });
+    expect(policy).toEqual({ samplingAllowed: false, elicitationAllowed: false, maxTokens: 256 });
+  });
+
+  it('uses the lower of the global and per-server token caps', () => {
+    process.env.PLUGGEDIN_SAMPLING_MAX_TOKENS = '128';
+    const policy = getServerRequestPolicy({
+      uuid: SERVER_UUID,
+      customInstructions: 'Max sampling tokens: 256',
+    });
+    expect(policy.maxTokens).toBe(128);
+  });
+
+  it('can be disabled globally', () => {
+    process.env.PLUGGEDIN_SAMPLING_ENABLED = 'false';
+    process.env.PLUGGEDIN_ELICITATION_ENABLED = 'false';
+    const policy = getServerRequestPolicy({ uuid: SERVER_UUID });
+    expect(policy.samplingAllowed).toBe(false);
+    expect(policy.elicitationAllowed).toBe(false);
+  });
+});
+
+describe('getRelayedClientCapabilities', () => {
+  afterEach(() => {
+    unregisterUpstreamSession('elicit-only');
+    unregisterUpstreamSession('uninitialized');
+    unregisterUpstreamSession('capable');
+    delete process.env.PLUGGEDIN_ELICITATION_ENABLED;
+  });
+
+  it('advertises nothing while no client is connected', () => {
+    expect(getRelayedClientCapabilities({ uuid: SERVER_UUID })).toEqual({});
+  });
+
+  it('advertises only what connected clients support', () => {
+    registerUpstreamSession('elicit-only', async () => {}, () => ({ elicitation: {} }));
+    registerUpstreamSession('uninitialized', async () => {}, () => undefined);
+    expect(getRelayedClientCapabilities({ uuid: SERVER_UUID })).toEqual({ elicitation: {} });
+  });
+
+  it('leaves out what the server policy forbids', () => {
+    registerUpstreamSession('capable', async () => {}, () => ({ sampling: {}, elicitation: {} }));
+    process.env.PLUGGEDIN_ELICITATION_ENABLED = 'false';
+    expect(getRelayedClientCapabilities({ uuid: SERVER_UUID, customInstructions: 'No sampling' })).toEqual({});
+  });
+});
+
+describe('registerServerRequestHandlers', () => {
+  let close: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+  });
+
+  it('relays sampling through the client that made the tool call', async () => {
+    const chain = await createProxyChain({ uuid: SERVER_UUID, name: 'summarizer' });
+    close = chain.close;
+
+    const result = await callTool(chain.upstreamClient, 'sample', { maxTokens: 200 });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'summary' }]);
+    expect(chain.sampledMaxTokens).toEqual([200]);
+  });
+
+  it('clamps maxTokens to the server limit', async () => {
+    const chain = await createProxyChain({
+      uuid: SERVER_UUID,
+      name: 'summarizer',
+      customInstructions: 'Max sampling tokens: 50',
+    });
+    close = chain.close;
+
+    await callTool(chain.upstreamClient, 'sample', { maxTokens: 10000 });
+    expect(chain.sampledMaxTokens).toEqual([50]);
+  });
+
+  it('relays elicitation and returns the user response', async () => {
+    const chain = await createProxyChain({ uuid: SERVER_UUID, name: 'git' });
+    close = chain.close;
+
+    const result = await callTool(chain.upstreamClient, 'ask');
+    expect(result.content).toEqual([{ type: 'text', text: 'accept:main' }]);
+  });
+
+  it('refuses sampling for servers whose policy forbids it', async () => {
+    const chain = await createProxyChain({
+      uuid: SERVER_UUID,
+      name: 'locked',
+      customInstructions: 'no sampling',
+    });
+    close = chain.close;
+
+    await expect(callTool(chain.upstreamClient, 'sample')).rejects.toThrow(/Sampling is not allowed for server locked/);
+    expect(chain.sampledMaxTokens).toEqual([]);
+  });
+
+  it('refuses when the connected client does not support sampling', async () => {
+    const chain = await createProxyChain({ uuid: SERVER_UUID, name: 'summarizer' }, { upstreamSampling: false });
+    close = chain.close;
+
+    await expect(callTool(chain.upstreamClient, 'sample')).rejects.toThrow(/does not support sampling/);
+  });
+
+  it('refuses requests that arrive outside of any client call', async () => {
+    const chain = await createProxyChain({ uuid: SERVER_UUID, name: 'summarizer' });
+    close = chain.close;
+
+    // Without a tracked upstream request there is nobody to ask
+    const downstreamOnly = await chain.proxyClient.request(
+      { method: 'tools/call', params: { name: 'sample', arguments: {} } },
+      CompatibilityCallToolResultSchema
+    ).catch((error: Error) => error);
+
+    expect(downstreamOnly).toBeInstanceOf(Error);
+    expect((downstreamOnly as Error).message).toMatch(/No active client request/);
+  });
+});
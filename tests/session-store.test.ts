@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createSessionStore,
+  FileSessionStore,
+  MemorySessionStore,
+  SessionRecord,
+  SessionStore,
+} from '../src/session-store';
+import { startStreamableHTTPServer } from '../src/streamable-http';
+import { restoreInitializedSession } from '../src/middleware';
+import { SESSION_CLEANUP_INTERVAL_MS, SESSION_TTL_MS } from '../src/constants';
+
+const TTL_MS = 60_000;
+const originalEnv = { ...process.env };
+
+const INITIALIZE = {
+  protocolVersion: '2025-06-18',
+  capabilities: { roots: { listChanged: true } },
+  clientInfo: { name: 'test-client', version: '1.0.0' },
+};
+
+const record = (sessionId: string, lastAccess = Date.now()): SessionRecord => ({
+  sessionId,
+  createdAt: lastAccess,
+  lastAccess,
+  initialize: INITIALIZE,
+});
+
+describe('Session stores', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'session-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    process.env = { ...originalEnv };
+  });
+
+  describe.each([
+    ['MemorySessionStore', () => new MemorySessionStore()],
+    ['FileSessionStore', () => new FileSessionStore(join(dir, 'sessions'))],
+  ])('%s', (_name, createStore) => {
+    it('stores, touches and deletes records', async () => {
+      const store: SessionStore = createStore();
+      await store.set(record('session-1', 1000));
+
+      await store.touch('session-1');
+      await store.touch('unknown');
+
+      expect((await store.get('session-1'))?.lastAccess).toBeGreaterThan(1000);
+      expect(await store.get('unknown')).toBeUndefined();
+      await store.delete('session-1');
+      expect(await store.get('session-1')).toBeUndefined();
+    });
+
+    it('deletes records of sessions not used within the TTL', async () => {
+      const store: SessionStore = createStore();
+      await store.set(record('expired', Date.now() - 2 * TTL_MS));
+      await store.set(record('current'));
+
+      expect(await store.deleteExpired(TTL_MS)).toBe(1);
+      expect(await store.get('expired')).toBeUndefined();
+      expect(await store.get('current')).toBeDefined();
+    });
+  });
+
+  describe('FileSessionStore', () => {
+    it('shares records between instances and never uses session IDs as file names', async () => {
+      await new FileSessionStore(dir).set(record('../../etc/passwd'));
+
+      expect(await new FileSessionStore(dir).get('../../etc/passwd')).toEqual(record('../../etc/passwd', expect.any(Number)));
+      expect(readdirSync(dir)).toEqual([expect.stringMatching(/^[0-9a-f]{32}\.json$/)]);
+    });
+  });
+
+  describe('createSessionStore', () => {
+    it('creates the configured store', () => {
+      delete process.env.PLUGGEDIN_SESSION_STORE;
+      expect(createSessionStore()).toBeInstanceOf(MemorySessionStore);
+
+      process.env.PLUGGEDIN_SESSION_STORE = 'file';
+      process.env.PLUGGEDIN_SESSION_STORE_DIR = dir;
+      expect(createSessionStore()).toBeInstanceOf(FileSessionStore);
+    });
+  });
+
+  describe('HTTP transport', () => {
+    const base = 'http://localhost:3049';
+
+    const createServer = () => {
+      const server = new Server({ name: 'proxy', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+      return server;
+    };
+
+    const post = (body: unknown, sessionId?: string) => {
+      const req = request(base).post('/mcp')
+        .set('Accept', 'application/json, text/event-stream')
+        .set('Mcp-Protocol-Version', '2025-06-18');
+      return (sessionId ? req.set('Mcp-Session-Id', sessionId) : req).send(body);
+    };
+
+    it('continues a session after the server restarts', async () => {
+      const store = new FileSessionStore(dir);
+      const first = createServer();
+      let cleanup = await startStreamableHTTPServer(first, { port: 3049, sessionStore: store });
+      const initialized = await post({ jsonrpc: '2.0', method: 'initialize', params: INITIALIZE, id: 1 });
+      const sessionId = initialized.headers['mcp-session-id'];
+      await cleanup();
+
+      const second = createServer();
+      cleanup = await startStreamableHTTPServer(second, { port: 3049, sessionStore: store });
+      try {
+        const listing = await post({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 2 }, sessionId);
+        const deleted = await request(base).delete('/mcp').set('Mcp-Session-Id', sessionId);
+
+        expect(initialized.status).toBe(200);
+        expect(listing.status).toBe(200);
+        expect(listing.text).toContain('"tools":[]');
+        expect(second.getClientVersion()).toEqual({ name: 'test-client', version: '1.0.0' });
+        expect(deleted.body.message).toBe('Session terminated');
+        expect(await store.get(sessionId)).toBeUndefined();
+      } finally {
+        await cleanup();
+      }
+    }, 10000);
+
+    it('resumes an SSE stream with Last-Event-ID after the server restarts', async () => {
+      process.env.PLUGGEDIN_EVENT_STORE = 'disk';
+      process.env.PLUGGEDIN_EVENT_STORE_DIR = join(dir, 'events');
+      const store = new FileSessionStore(join(dir, 'sessions'));
+      let cleanup = await startStreamableHTTPServer(createServer(), { port: 3049, sessionStore: store });
+      // Streams of this protocol version start with a priming event
+      const params = { ...INITIALIZE, protocolVersion: '2025-11-25' };
+      const initialized = await post({ jsonrpc: '2.0', method: 'initialize', params, id: 1 });
+      const sessionId = initialized.headers['mcp-session-id'];
+      const listing = await request(base).post('/mcp')
+        .set('Accept', 'application/json, text/event-stream')
+        .set('Mcp-Protocol-Version', '2025-11-25')
+        .set('Mcp-Session-Id', sessionId)
+        .send({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 2 });
+      // The priming event, as if the client lost the stream right after it
+      const lastEventId = /^id: (.+)$/m.exec(listing.text)![1];
+      await cleanup();
+
+      cleanup = await startStreamableHTTPServer(createServer(), { port: 3049, sessionStore: store });
+      const controller = new AbortController();
+      try {
+        const resumed = await fetch(`${base}/mcp`, {
+          headers: {
+            Accept: 'text/event-stream',
+            'Mcp-Protocol-Version': '2025-11-25',
+            'Mcp-Session-Id': sessionId,
+            'Last-Event-ID': lastEventId,
+          },
+          // Fails instead of waiting for events that never come
+          signal: AbortSignal.any([controller.signal, AbortSignal.timeout(5000)]),
+        });
+        const reader = resumed.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let replayed = '';
+        while (!replayed.includes('"id":2')) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          replayed += value;
+        }
+
+        expect(resumed.status).toBe(200);
+        expect(replayed).toContain('"tools":[]');
+      } finally {
+        controller.abort();
+        await cleanup();
+      }
+    }, 10000);
+
+    it('does not restore expired records', async () => {
+      const store = new MemorySessionStore();
+      await store.set(record('expired-session', Date.now() - 2 * 60 * 60 * 1000));
+      const cleanup = await startStreamableHTTPServer(createServer(), { port: 3049, sessionStore: store });
+      try {
+        const listing = await post({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 1 }, 'expired-session');
+
+        expect(listing.status).not.toBe(200);
+        expect(await store.get('expired-session')).toBeUndefined();
+      } finally {
+        await cleanup();
+      }
+    });
+
+    it('keeps the records of sessions it expires locally that another instance still serves', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const store = new MemorySessionStore();
+      const cleanup = await startStreamableHTTPServer(createServer(), { port: 3049, sessionStore: store });
+      try {
+        const served = (await post({ jsonrpc: '2.0', method: 'initialize', params: INITIALIZE, id: 1 })).headers['mcp-session-id'];
+        const abandoned = (await post({ jsonrpc: '2.0', method: 'initialize', params: INITIALIZE, id: 1 })).headers['mcp-session-id'];
+
+        // Both sessions expire here, but another instance keeps using one of them
+        const later = Date.now() + 2 * SESSION_TTL_MS;
+        vi.spyOn(Date, 'now').mockReturnValue(later);
+        await store.set(record(served, later));
+        vi.advanceTimersByTime(SESSION_CLEANUP_INTERVAL_MS);
+        await vi.waitFor(async () => expect(await store.get(abandoned)).toBeUndefined());
+
+        expect(await store.get(served)).toEqual(record(served, later));
+      } finally {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+        await cleanup();
+      }
+    });
+  });
+
+  describe('restoreInitializedSession', () => {
+    // Runs against the SDK's own transport, as restoring sets its private state
+    it('initializes a real transport and its server from the record', async () => {
+      const server = createTestServer();
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-1' });
+      await server.connect(transport);
+
+      const restored = await restoreInitializedSession(transport, server, record('session-1'));
+
+      expect(restored).toBe(true);
+      expect(transport.sessionId).toBe('session-1');
+      expect((transport as any)._webStandardTransport._initialized).toBe(true);
+      expect(server.getClientCapabilities()).toEqual(INITIALIZE.capabilities);
+      await transport.close();
+    });
+
+    it('keeps the client of a server that is already initialized', async () => {
+      const server = createTestServer();
+      const first = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-1' });
+      const second = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-2' });
+      await server.connect(first);
+      await restoreInitializedSession(first, server, record('session-1'));
+
+      const restored = await restoreInitializedSession(second, server, {
+        ...record('session-2'),
+        initialize: { ...INITIALIZE, clientInfo: { name: 'other-client', version: '2.0.0' } },
+      });
+
+      expect(restored).toBe(true);
+      expect(server.getClientVersion()).toEqual({ name: 'test-client', version: '1.0.0' });
+      await first.close();
+    });
+
+    it('refuses to restore when the SDK fields it relies on are missing', async () => {
+      const server = createTestServer();
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-1' });
+      await server.connect(transport);
+      delete (transport as any)._webStandardTransport._initialized;
+
+      const restored = await restoreInitializedSession(transport, server, record('session-1'));
+
+      expect(restored).toBe(false);
+      expect(server.getClientCapabilities()).toBeUndefined();
+      await transport.close();
+    });
+  });
+});
+
+function createTestServer(): Server {
+  return new Server({ name: 'proxy', version: '1.0.0' }, { capabilities: { tools: {} } });
+}
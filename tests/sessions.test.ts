@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+const mocks = vi.hoisted(() => ({
+  failConnect: false,
+  servers: [] as Server[],
+  connectCount: 0,
+}));
+
+// Downstream servers are in-process MCP servers linked over in-memory transports
+vi.mock('../src/client', async () => {
+  const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+  const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+
+  return {
+    createPluggedinMCPClient: () => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const server = new Server({ name: 'downstream', version: '1.0.0' }, { capabilities: {} });
+      mocks.servers.push(server);
+      void server.connect(serverTransport);
+      return {
+        client: new Client({ name: 'proxy', version: '1.0.0' }),
+        transport: clientTransport,
+      };
+    },
+    connectPluggedinMCPClient: async (client: any, transport: any) => {
+      mocks.connectCount++;
+      if (mocks.failConnect) {
+        return undefined;
+      }
+      await client.connect(transport);
+      return {
+        client,
+        cleanup: async () => {
+          await transport.close();
+          await client.close();
+        },
+      };
+    },
+  };
+});
+
+vi.mock('../src/fetch-pluggedinmcp', () => ({
+  getMcpServers: vi.fn().mockResolvedValue({}),
+}));
+
+import {
+  getSession,
+  getSessionStatuses,
+  getServerSessionStatus,
+  getReconnectDelay,
+  checkSessionHealth,
+  evictIdleSessions,
+  runWithSessionSlot,
+  cleanupAllSessions,
+} from '../src/sessions';
+import { ServerParameters } from '../src/types';
+import { runWithTenant } from '../src/tenants';
+import {
+  DOWNSTREAM_MAX_PING_FAILURES,
+  DOWNSTREAM_MAX_RECONNECT_ATTEMPTS,
+  DOWNSTREAM_RECONNECT_BASE_DELAY_MS,
+  DOWNSTREAM_RECONNECT_MAX_DELAY_MS,
+} from '../src/constants';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const SESSION_KEY = `${SERVER_UUID}_abc123`;
+const params: ServerParameters = {
+  uuid: SERVER_UUID,
+  name: 'test-server',
+  type: 'STDIO',
+  command: 'node',
+};
+
+describe('Downstream session pool', () => {
+  beforeEach(() => {
+    mocks.failConnect = false;
+    mocks.servers = [];
+    mocks.connectCount = 0;
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+  });
+
+  afterEach(async () => {
+    await cleanupAllSessions();
+    vi.useRealTimers();
+    delete process.env.PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS;
+    delete process.env.PLUGGEDIN_DOWNSTREAM_MAX_SESSIONS;
+    delete process.env.PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY;
+  });
+
+  it('connects once and reuses the session', async () => {
+    const first = await getSession(SESSION_KEY, SERVER_UUID, params);
+    const second = await getSession(SESSION_KEY, SERVER_UUID, params);
+
+    expect(first).toBeDefined();
+    expect(second).toBe(first);
+    expect(mocks.connectCount).toBe(1);
+    expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({
+      sessionKey: SESSION_KEY,
+      serverName: 'test-server',
+      state: 'ready',
+      reconnectAttempts: 0,
+    });
+  });
+
+  it('replaces the session when the server parameters change', async () => {
+    await getSession(SESSION_KEY, SERVER_UUID, params);
+    await getSession(`${SERVER_UUID}_def456`, SERVER_UUID, params);
+
+    expect(getSessionStatuses().map(status => status.sessionKey)).toEqual([`${SERVER_UUID}_def456`]);
+  });
+
+  it('reconnects with backoff after the downstream server goes away', async () => {
+    const original = await getSession(SESSION_KEY, SERVER_UUID, params);
+    await mocks.servers[0].close();
+
+    expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({
+      state: 'degraded',
+      reconnectAttempts: 1,
+      lastError: 'Connection closed',
+    });
+
+    await vi.advanceTimersByTimeAsync(getReconnectDelay(0));
+
+    expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({ state: 'ready', reconnectAttempts: 0 });
+    const reconnected = await getSession(SESSION_KEY, SERVER_UUID, params);
+    expect(reconnected).toBeDefined();
+    expect(reconnected).not.toBe(original);
+    expect(mocks.connectCount).toBe(2);
+  });
+
+  it('marks a session ready after a successful ping', async () => {
+    await getSession(SESSION_KEY, SERVER_UUID, params);
+    await checkSessionHealth();
+
+    const status = getServerSessionStatus(SERVER_UUID);
+    expect(status?.state).toBe('ready');
+    expect(status?.lastPingAt).toBeTypeOf('number');
+  });
+
+  it('degrades on failed pings and reconnects once the limit is reached', async () => {
+    const session = await getSession(SESSION_KEY, SERVER_UUID, params);
+    vi.spyOn(session!.client, 'ping').mockRejectedValue(new Error('ping timeout'));
+
+    await checkSessionHealth();
+    expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({
+      state: 'degraded',
+      consecutiveFailures: 1,
+      lastError: 'ping timeout',
+    });
+
+    for (let i = 1; i < DOWNSTREAM_MAX_PING_FAILURES; i++) {
+      await checkSessionHealth();
+    }
+    expect(getServerSessionStatus(SERVER_UUID)?.reconnectAttempts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(getReconnectDelay(0));
+    expect(getServerSessionStatus(SERVER_UUID)?.state).toBe('ready');
+    expect(mocks.connectCount).toBe(2);
+  });
+
+  it('marks the server dead after exhausting reconnection attempts', async () => {
+    mocks.failConnect = true;
+    expect(await getSession(SESSION_KEY, SERVER_UUID, params)).toBeUndefined();
+
+    for (let attempt = 0; attempt < DOWNSTREAM_MAX_RECONNECT_ATTEMPTS; attempt++) {
+      await vi.advanceTimersByTimeAsync(getReconnectDelay(attempt));
+    }
+
+    expect(getServerSessionStatus(SERVER_UUID)?.state).toBe('dead');
+    expect(mocks.connectCount).toBe(DOWNSTREAM_MAX_RECONNECT_ATTEMPTS + 1);
+
+    // A dead server is retried from scratch when it is requested again
+    mocks.failConnect = false;
+    expect(await getSession(SESSION_KEY, SERVER_UUID, params)).toBeDefined();
+    expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({ state: 'ready', reconnectAttempts: 0 });
+  });
+
+  it('does not reconnect sessions closed during cleanup', async () => {
+    await getSession(SESSION_KEY, SERVER_UUID, params);
+    await cleanupAllSessions();
+    await vi.advanceTimersByTimeAsync(DOWNSTREAM_RECONNECT_MAX_DELAY_MS);
+
+    expect(getSessionStatuses()).toEqual([]);
+    expect(mocks.connectCount).toBe(1);
+  });
+
+  it('doubles the reconnect delay up to the maximum', () => {
+    expect(getReconnectDelay(0)).toBe(DOWNSTREAM_RECONNECT_BASE_DELAY_MS);
+    expect(getReconnectDelay(1)).toBe(DOWNSTREAM_RECONNECT_BASE_DELAY_MS * 2);
+    expect(getReconnectDelay(20)).toBe(DOWNSTREAM_RECONNECT_MAX_DELAY_MS);
+  });
+
+  describe('limits', () => {
+    const otherUuid = (n: number) => `550e8400-e29b-41d4-a716-44665544000${n}`;
+
+    /** Creates a task that stays in flight until its resolve function is called */
+    const deferred = () => {
+      let resolve!: (value: string) => void;
+      const promise = new Promise<string>(r => { resolve = r; });
+      return { promise, resolve };
+    };
+
+    it('closes sessions that stay idle past the timeout', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS = '1000';
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+
+      await evictIdleSessions();
+      expect(getSessionStatuses()).toHaveLength(1);
+
+      vi.setSystemTime(Date.now() + 1000);
+      await evictIdleSessions();
+      expect(getSessionStatuses()).toEqual([]);
+    });
+
+    it('keeps idle sessions when the timeout is disabled', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS = '0';
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+
+      vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+      await evictIdleSessions();
+      expect(getSessionStatuses()).toHaveLength(1);
+    });
+
+    it('never evicts a session with requests in flight', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS = '1000';
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+      const task = deferred();
+      const running = runWithSessionSlot(SERVER_UUID, undefined, () => task.promise);
+
+      vi.setSystemTime(Date.now() + 5000);
+      await evictIdleSessions();
+      expect(getServerSessionStatus(SERVER_UUID)?.activeRequests).toBe(1);
+
+      task.resolve('done');
+      await expect(running).resolves.toBe('done');
+    });
+
+    it('evicts the least recently used session when the pool is full', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_MAX_SESSIONS = '2';
+      await getSession(`${otherUuid(1)}_a`, otherUuid(1), { ...params, uuid: otherUuid(1) });
+      vi.setSystemTime(Date.now() + 10);
+      await getSession(`${otherUuid(2)}_a`, otherUuid(2), { ...params, uuid: otherUuid(2) });
+      vi.setSystemTime(Date.now() + 10);
+      // Using the first session makes the second one the least recently used
+      await getSession(`${otherUuid(1)}_a`, otherUuid(1), { ...params, uuid: otherUuid(1) });
+
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+
+      expect(getSessionStatuses().map(status => status.serverUuid).sort()).toEqual(
+        [otherUuid(1), SERVER_UUID].sort()
+      );
+    });
+
+    it('queues requests beyond the per-server concurrency limit', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY = '1';
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+      const first = deferred();
+      const started: string[] = [];
+
+      const firstCall = runWithSessionSlot(SERVER_UUID, undefined, () => {
+        started.push('first');
+        return first.promise;
+      });
+      const secondCall = runWithSessionSlot(SERVER_UUID, undefined, async () => {
+        started.push('second');
+        return 'second done';
+      });
+
+      await Promise.resolve();
+      expect(started).toEqual(['first']);
+      expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({ activeRequests: 1, queuedRequests: 1 });
+
+      first.resolve('first done');
+      await expect(firstCall).resolves.toBe('first done');
+      await expect(secondCall).resolves.toBe('second done');
+      expect(started).toEqual(['first', 'second']);
+      expect(getServerSessionStatus(SERVER_UUID)).toMatchObject({ activeRequests: 0, queuedRequests: 0 });
+    });
+
+    it('drops a queued request when it is cancelled', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY = '1';
+      await getSession(SESSION_KEY, SERVER_UUID, params);
+      const first = deferred();
+      const queuedTask = vi.fn().mockResolvedValue('never');
+      const controller = new AbortController();
+
+      const firstCall = runWithSessionSlot(SERVER_UUID, undefined, () => first.promise);
+      const queuedCall = runWithSessionSlot(SERVER_UUID, controller.signal, queuedTask);
+
+      controller.abort(new Error('client cancelled'));
+      await expect(queuedCall).rejects.toThrow('client cancelled');
+      expect(getServerSessionStatus(SERVER_UUID)?.queuedRequests).toBe(0);
+
+      first.resolve('done');
+      await firstCall;
+      expect(queuedTask).not.toHaveBeenCalled();
+    });
+
+    it('keeps concurrency slots and retention per tenant', async () => {
+      process.env.PLUGGEDIN_DOWNSTREAM_MAX_CONCURRENCY = '1';
+      process.env.PLUGGEDIN_DOWNSTREAM_IDLE_TIMEOUT_MS = '1000';
+      const tenantA = { id: 'tenant-a', apiKey: 'key-a' };
+      const tenantB = { id: 'tenant-b', apiKey: 'key-b' };
+      await runWithTenant(tenantA, () => getSession(`${SESSION_KEY}_a`, SERVER_UUID, params));
+      await runWithTenant(tenantB, () => getSession(`${SESSION_KEY}_b`, SERVER_UUID, params));
+      const first = deferred();
+
+      const callA = runWithTenant(tenantA, () => runWithSessionSlot(SERVER_UUID, undefined, () => first.promise));
+      // Tenant A's busy slot neither queues tenant B's call nor keeps its session
+      await expect(runWithTenant(tenantB, () => runWithSessionSlot(SERVER_UUID, undefined, async () => 'b done')))
+        .resolves.toBe('b done');
+      vi.setSystemTime(Date.now() + 5000);
+      await evictIdleSessions();
+      expect(getSessionStatuses().map(status => status.sessionKey)).toEqual([`${SESSION_KEY}_a`]);
+
+      first.resolve('a done');
+      await expect(callA).resolves.toBe('a done');
+    });
+  });
+});
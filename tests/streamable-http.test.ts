@@ -50,6 +50,12 @@ const TEST_PORTS = {
   SECURITY_WRONG_LENGTH: 3039,
   SECURITY_WRONG_CHARS: 3040,
   SECURITY_NO_DETAILS: 3041,
+  TENANT_NO_KEY: 3042,
+  TENANT_SESSIONS: 3043,
+  CORS_ALLOWLIST: 3045,
+  CORS_CREDENTIALS: 3046,
+  REBINDING_LOOPBACK: 3047,
+  REBINDING_ALLOWLIST: 3048,
 } as const;
 
 // Mock the MCP SDK modules
@@ -124,6 +130,9 @@ describe('Streamable HTTP Transport', () => {
       expect(response.body.transport).toBe('streamable-http');
       expect(response.body.sessions).toBe(0);
       expect(response.body.maxSessions).toBe(10000); // Stateful mode has maxSessions: 10000
+      // Unauthenticated, so only aggregate counts without server UUIDs
+      expect(response.body.downstreamServers).toEqual({ total: 0, connecting: 0, ready: 0, degraded: 0, dead: 0 });
+      expect(response.body.rateLimitRejections).toBe(0);
     });
 
     it('should initialize in stateless mode', async () => {
@@ -659,6 +668,93 @@ describe('Streamable HTTP Transport', () => {
       });
     });
 
+    describe('Origin and Host validation', () => {
+      const respondOk = () => (StreamableHTTPServerTransport as any).mockImplementation(function () { return ({
+        handleRequest: vi.fn((req, res) => {
+          res.json({ jsonrpc: '2.0', result: 'success' });
+        }),
+        close: vi.fn()
+      }); });
+
+      it('should only allow listed origins when an allowlist is set', async () => {
+        const port = TEST_PORTS.CORS_ALLOWLIST;
+        cleanup = await startStreamableHTTPServer(mockServer, { port, allowedOrigins: ['https://app.example.com'] });
+
+        const allowed = await request(`http://localhost:${port}`)
+          .options('/mcp')
+          .set('Origin', 'https://app.example.com');
+        const other = await request(`http://localhost:${port}`)
+          .options('/mcp')
+          .set('Origin', 'https://evil.example.com');
+
+        expect(allowed.headers['access-control-allow-origin']).toBe('https://app.example.com');
+        expect(allowed.headers['vary']).toContain('Origin');
+        expect(allowed.headers['access-control-allow-credentials']).toBeUndefined();
+        expect(other.headers['access-control-allow-origin']).toBeUndefined();
+      });
+
+      it('should allow credentials only with an explicit origin list', async () => {
+        const port = TEST_PORTS.CORS_CREDENTIALS;
+        await expect(startStreamableHTTPServer(mockServer, { port, corsCredentials: true }))
+          .rejects.toThrow('explicit list of allowed origins');
+
+        cleanup = await startStreamableHTTPServer(mockServer, {
+          port,
+          allowedOrigins: ['https://app.example.com'],
+          corsCredentials: true
+        });
+        const response = await request(`http://localhost:${port}`)
+          .options('/mcp')
+          .set('Origin', 'https://app.example.com');
+
+        expect(response.headers['access-control-allow-credentials']).toBe('true');
+      });
+
+      it('should refuse foreign hosts and origins on a loopback server', async () => {
+        const port = TEST_PORTS.REBINDING_LOOPBACK;
+        respondOk();
+        cleanup = await startStreamableHTTPServer(mockServer, { port });
+        const post = () => request(`http://localhost:${port}`)
+          .post('/mcp')
+          .send({ jsonrpc: '2.0', method: 'initialize', params: {} });
+
+        const local = await post().set('Origin', 'http://localhost:6274');
+        const rebound = await post().set('Host', `attacker.example.com:${port}`);
+        const foreignOrigin = await post().set('Origin', 'https://attacker.example.com');
+        const health = await request(`http://localhost:${port}`)
+          .get('/health')
+          .set('Host', 'attacker.example.com');
+
+        expect(local.status).toBe(200);
+        expect(rebound.status).toBe(403);
+        expect(rebound.body.error).toEqual({ code: -32000, message: 'Invalid Host: attacker.example.com' });
+        expect(foreignOrigin.status).toBe(403);
+        expect(foreignOrigin.body.error.message).toBe('Forbidden: origin https://attacker.example.com is not allowed');
+        expect(health.status).toBe(200);
+      });
+
+      it('should accept the configured hosts and origins instead', async () => {
+        const port = TEST_PORTS.REBINDING_ALLOWLIST;
+        respondOk();
+        cleanup = await startStreamableHTTPServer(mockServer, {
+          port,
+          allowedHosts: ['mcp.example.com'],
+          allowedOrigins: ['https://app.example.com']
+        });
+        const post = () => request(`http://localhost:${port}`)
+          .post('/mcp')
+          .send({ jsonrpc: '2.0', method: 'initialize', params: {} });
+
+        const allowed = await post().set('Host', 'mcp.example.com').set('Origin', 'https://app.example.com');
+        const localhost = await post();
+        const localOrigin = await post().set('Host', 'mcp.example.com').set('Origin', 'http://localhost:6274');
+
+        expect(allowed.status).toBe(200);
+        expect(localhost.status).toBe(403);
+        expect(localOrigin.status).toBe(403);
+      });
+    });
+
     describe('Protocol Version', () => {
       it('should accept requests without protocol version', async () => {
         const port = 3024;
@@ -1091,4 +1187,64 @@ describe('Streamable HTTP Transport', () => {
       process.env.NODE_ENV = originalEnv;
     });
   });
+
+  describe('Tenant mode', () => {
+    const KEY_A = 'pg_in_aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const KEY_B = 'pg_in_bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+    const createTenantServer = vi.fn(async () => ({
+      server: { connect: vi.fn(), close: vi.fn() } as any,
+      cleanup: vi.fn(async () => {}),
+    }));
+
+    it('should reject requests without an API key', async () => {
+      const port = TEST_PORTS.TENANT_NO_KEY;
+      cleanup = await startStreamableHTTPServer(mockServer, { port, tenantMode: true, createTenantServer });
+
+      const response = await request(`http://localhost:${port}`)
+        .post('/mcp')
+        .send({ jsonrpc: '2.0', method: 'initialize', params: {}, id: 1 });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe(-32001);
+      expect(createTenantServer).not.toHaveBeenCalled();
+    });
+
+    it('should bind sessions to the API key that created them', async () => {
+      const port = TEST_PORTS.TENANT_SESSIONS;
+      (StreamableHTTPServerTransport as any).mockImplementation(function () { return {
+        handleRequest: vi.fn((req, res) => {
+          res.json({ jsonrpc: '2.0', result: 'success' });
+        }),
+        close: vi.fn()
+      }; });
+      cleanup = await startStreamableHTTPServer(mockServer, { port, tenantMode: true, createTenantServer });
+
+      const response = await request(`http://localhost:${port}`)
+        .post('/mcp')
+        .set('Authorization', `Bearer ${KEY_A}`)
+        .send({ jsonrpc: '2.0', method: 'initialize', params: {}, id: 1 });
+      const sessionId = response.headers['mcp-session-id'];
+
+      const sameKey = await request(`http://localhost:${port}`)
+        .post('/mcp')
+        .set('Authorization', `Bearer ${KEY_A}`)
+        .set('mcp-session-id', sessionId)
+        .send({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 2 });
+      const otherKey = await request(`http://localhost:${port}`)
+        .post('/mcp')
+        .set('Authorization', `Bearer ${KEY_B}`)
+        .set('mcp-session-id', sessionId)
+        .send({ jsonrpc: '2.0', method: 'tools/list', params: {}, id: 3 });
+      const health = await request(`http://localhost:${port}`).get('/health');
+
+      expect(response.status).toBe(200);
+      expect(sameKey.status).toBe(200);
+      expect(otherKey.status).toBe(403);
+      expect(mockServer.connect).not.toHaveBeenCalled();
+      // The other key is refused before it gets a server
+      expect(createTenantServer).toHaveBeenCalledTimes(1);
+      expect(health.body.tenants).toBe(1);
+    }, 10000);
+  });
 });
\ No newline at end of file
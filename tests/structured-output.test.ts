@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios from 'axios';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import {
+  checkStructuredOutput,
+  clearOutputSchemas,
+  getOutputValidationMode,
+  recordOutputSchema,
+} from '../src/structured-output';
+import { StaticToolHandlers } from '../src/handlers/static-handlers';
+import {
+  allStaticTools,
+  clipboardListStaticTool,
+  clipboardSetStaticTool,
+  memorySearchStaticTool,
+} from '../src/tools/static-tools';
+
+vi.mock('axios');
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const originalEnv = { ...process.env };
+
+const OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: { temperature: { type: 'number' } },
+  required: ['temperature'],
+};
+
+const resultWith = (structuredContent?: Record<string, unknown>) => ({
+  content: [{ type: 'text', text: JSON.stringify(structuredContent) }],
+  ...(structuredContent && { structuredContent }),
+});
+
+describe('Structured output', () => {
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    clearOutputSchemas();
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.get).mockReset();
+  });
+
+  describe('checkStructuredOutput', () => {
+    it('passes results through unchanged by default', () => {
+      recordOutputSchema(SERVER_UUID, 'get_weather', OUTPUT_SCHEMA);
+      const result = resultWith({ temperature: 'warm' });
+
+      expect(getOutputValidationMode()).toBe('off');
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', result)).toBe(result);
+    });
+
+    it('replaces results that do not match the schema in strict mode', () => {
+      process.env.PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT = 'strict';
+      recordOutputSchema(SERVER_UUID, 'get_weather', OUTPUT_SCHEMA);
+
+      const valid = resultWith({ temperature: 21, unit: 'C' });
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', valid)).toBe(valid);
+
+      const invalid = checkStructuredOutput(SERVER_UUID, 'get_weather', resultWith({ temperature: 'warm' }));
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content![0].text).toMatch(
+        /^Tool get_weather declares an outputSchema, but its structuredContent does not match the outputSchema: .*temperature/
+      );
+
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', resultWith()).content![0].text)
+        .toBe('Tool get_weather declares an outputSchema, but it returned no structuredContent.');
+    });
+
+    it('only checks successful results of tools with a known schema', () => {
+      process.env.PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT = 'strict';
+      recordOutputSchema(SERVER_UUID, 'get_weather', OUTPUT_SCHEMA);
+      const error = { content: [{ type: 'text', text: 'Service unavailable' }], isError: true };
+      const untyped = resultWith({ anything: true });
+
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', error)).toBe(error);
+      expect(checkStructuredOutput(SERVER_UUID, 'echo', untyped)).toBe(untyped);
+
+      clearOutputSchemas(SERVER_UUID);
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', untyped)).toBe(untyped);
+    });
+
+    it('keeps mismatching results in warn mode', () => {
+      process.env.PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT = 'warn';
+      recordOutputSchema(SERVER_UUID, 'get_weather', OUTPUT_SCHEMA);
+      const result = resultWith({ temperature: 'warm' });
+
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', result)).toBe(result);
+    });
+
+    it('forgets the schema when a tool is listed without one', () => {
+      process.env.PLUGGEDIN_VALIDATE_STRUCTURED_OUTPUT = 'strict';
+      recordOutputSchema(SERVER_UUID, 'get_weather', OUTPUT_SCHEMA);
+      recordOutputSchema(SERVER_UUID, 'get_weather', undefined);
+      const result = resultWith();
+
+      expect(checkStructuredOutput(SERVER_UUID, 'get_weather', result)).toBe(result);
+    });
+  });
+
+  describe('static tools', () => {
+    const handlers = () => new StaticToolHandlers({});
+
+    it('declare object output schemas for documents, clipboard and memory tools', () => {
+      const withSchemas = allStaticTools.filter(tool => tool.outputSchema).map(tool => tool.name);
+
+      expect(withSchemas).toHaveLength(17);
+      expect(withSchemas).toEqual(expect.arrayContaining([
+        'pluggedin_create_document',
+        'pluggedin_clipboard_pop',
+        'pluggedin_memory_details',
+      ]));
+      for (const tool of allStaticTools.filter(tool => tool.outputSchema)) {
+        expect(tool.outputSchema!.type).toBe('object');
+        expect(JSON.stringify(tool.outputSchema)).not.toContain('$ref');
+      }
+    });
+
+    it('return structuredContent that matches their output schema', async () => {
+      process.env.PLUGGEDIN_API_KEY = `pg_in_${'a'.repeat(40)}`;
+      process.env.PLUGGEDIN_API_BASE_URL = 'https://plugged.in';
+      const entry = { name: 'notes', value: 'hello', contentType: 'text/plain', sizeBytes: 5, expiresAt: '2026-10-20T00:00:00.000Z' };
+      vi.mocked(axios.post).mockImplementation(async (url: string) => url.endsWith('/api/memory/search')
+        ? { data: { data: [{ uuid: 'm1', ringType: 'procedures' }] } }
+        : { data: { entry } });
+
+      const setResult = await handlers().handleStaticTool(clipboardSetStaticTool.name, { name: 'notes', value: 'hello' });
+      const searchResult = await handlers().handleStaticTool(memorySearchStaticTool.name, { query: 'deploy' });
+
+      const validator = new AjvJsonSchemaValidator();
+      expect(setResult!.structuredContent).toEqual({ entry });
+      expect(validator.getValidator(clipboardSetStaticTool.outputSchema as any)(setResult!.structuredContent).valid).toBe(true);
+      expect(searchResult!.structuredContent).toEqual({ results: [{ uuid: 'm1', ringType: 'procedures' }] });
+      expect(validator.getValidator(memorySearchStaticTool.outputSchema as any)(searchResult!.structuredContent).valid).toBe(true);
+    });
+
+    it('report the API key setup message as an error since it has no structuredContent', async () => {
+      delete process.env.PLUGGEDIN_API_KEY;
+
+      const result = await handlers().handleStaticTool(clipboardSetStaticTool.name, { name: 'notes', value: 'hello' });
+
+      expect(result).toMatchObject({ isError: true });
+      expect(result!.structuredContent).toBeUndefined();
+      expect(result!.content![0].text).toMatch(/API key/i);
+    });
+
+    it('report structuredContent that does not match their output schema as an error', async () => {
+      process.env.PLUGGEDIN_API_KEY = `pg_in_${'a'.repeat(40)}`;
+      process.env.PLUGGEDIN_API_BASE_URL = 'https://plugged.in';
+      vi.mocked(axios.get).mockResolvedValueOnce({ data: { entries: [{ name: 'notes', sizeBytes: 5 }], total: 1, extra: true } });
+      vi.mocked(axios.get).mockResolvedValueOnce({ data: { entries: [{ name: 'notes', sizeBytes: 'five' }], total: 1 } });
+
+      const listed = await handlers().handleStaticTool(clipboardListStaticTool.name, {});
+      const mismatched = await handlers().handleStaticTool(clipboardListStaticTool.name, {});
+
+      expect(listed).toMatchObject({ isError: false, structuredContent: { entries: [{ name: 'notes', sizeBytes: 5 }], total: 1 } });
+      expect(listed!.structuredContent).not.toHaveProperty('extra');
+      expect(mismatched).toMatchObject({ isError: true });
+      expect(mismatched!.content![0].text).toMatch(/^Tool pluggedin_clipboard_list declares an outputSchema, but its structuredContent does not match/);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  acquireTenant,
+  addTenantSession,
+  createTenantSessionServer,
+  createTenantState,
+  disposeAllTenants,
+  disposeIdleTenants,
+  getCurrentTenant,
+  getTenantCount,
+  getTenantId,
+  onTenantDisposed,
+  removeTenantSession,
+  runWithTenant,
+  Tenant,
+} from '../src/tenants';
+import { createServer } from '../src/mcp-proxy';
+import { startStreamableHTTPServer } from '../src/streamable-http';
+import { getPluggedinMCPApiKey } from '../src/utils';
+import { clearToolNames, registerToolNames, resolveToolName } from '../src/tool-naming';
+import { SESSION_TTL_MS } from '../src/constants';
+
+const KEY_A = 'pg_in_aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const KEY_B = 'pg_in_bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const KEY_C = 'pg_in_cccccccccccccccccccccccccccccccccccc';
+const SERVER = '550e8400-e29b-41d4-a716-446655440000';
+const originalEnv = { ...process.env };
+
+const tenant = (apiKey: string): Tenant => ({ id: getTenantId(apiKey), apiKey });
+
+const serverFactory = () => {
+  const cleanup = vi.fn(async () => {});
+  const close = vi.fn(async () => {});
+  const create = vi.fn(async () => ({
+    server: { close } as any,
+    cleanup,
+    tenant: getCurrentTenant(),
+  }));
+  return { create, cleanup, close };
+};
+
+const disposalListener = () => {
+  const disposed = vi.fn(async (_tenantId: string) => {});
+  return { disposed, unsubscribe: onTenantDisposed(disposed) };
+};
+
+describe('Tenants', () => {
+  afterEach(async () => {
+    await disposeAllTenants();
+    process.env = { ...originalEnv };
+    vi.useRealTimers();
+  });
+
+  describe('tenant context', () => {
+    it('keeps separate state per tenant and shared state outside tenant mode', () => {
+      const getState = createTenantState(() => ({ calls: 0 }));
+
+      runWithTenant(tenant(KEY_A), () => getState().calls++);
+      runWithTenant(tenant(KEY_A), () => getState().calls++);
+      runWithTenant(tenant(KEY_B), () => getState().calls++);
+
+      expect(runWithTenant(tenant(KEY_A), () => getState().calls)).toBe(2);
+      expect(runWithTenant(tenant(KEY_B), () => getState().calls)).toBe(1);
+      expect(getState().calls).toBe(0);
+    });
+
+    it('uses the tenant API key for Plugged.in API calls', async () => {
+      process.env.PLUGGEDIN_API_KEY = KEY_C;
+
+      expect(runWithTenant(tenant(KEY_A), () => getPluggedinMCPApiKey())).toBe(KEY_A);
+      // The context follows async work started by the tenant
+      await expect(runWithTenant(tenant(KEY_B), async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return getPluggedinMCPApiKey();
+      })).resolves.toBe(KEY_B);
+      expect(getPluggedinMCPApiKey()).toBe(KEY_C);
+    });
+
+    it('registers tool names per tenant', () => {
+      runWithTenant(tenant(KEY_A), () => {
+        clearToolNames();
+        registerToolNames([{ originalName: 'query', serverUuid: SERVER }]);
+      });
+
+      expect(runWithTenant(tenant(KEY_A), () => resolveToolName(`${SERVER}__query`))).toBeDefined();
+      expect(runWithTenant(tenant(KEY_B), () => resolveToolName(`${SERVER}__query`))).toBeUndefined();
+      expect(resolveToolName(`${SERVER}__query`)).toBeUndefined();
+    });
+  });
+
+  describe('acquireTenant', () => {
+    it('creates one tenant per API key', async () => {
+      const [first, second] = await Promise.all([acquireTenant(KEY_A), acquireTenant(KEY_A)]);
+      const other = await acquireTenant(KEY_B);
+
+      expect(first).toBe(second);
+      expect(first).toEqual(tenant(KEY_A));
+      expect(other).toEqual(tenant(KEY_B));
+      expect(getTenantCount()).toBe(2);
+    });
+
+    it('replaces an idle tenant at the limit and refuses tenants when all have sessions', async () => {
+      process.env.PLUGGEDIN_MAX_TENANTS = '1';
+      const { disposed, unsubscribe } = disposalListener();
+
+      const first = await acquireTenant(KEY_A);
+      await acquireTenant(KEY_B);
+      expect(disposed).toHaveBeenCalledWith(getTenantId(KEY_A));
+      expect(getTenantCount()).toBe(1);
+
+      addTenantSession(getTenantId(KEY_B), 'session-1');
+      expect(await acquireTenant(KEY_C)).toBeUndefined();
+      expect(first!.id).toBe(getTenantId(KEY_A));
+      unsubscribe();
+    });
+  });
+
+  describe('createTenantSessionServer', () => {
+    it('creates and closes the server in the tenant context', async () => {
+      const { create, cleanup, close } = serverFactory();
+      const tenantA = tenant(KEY_A);
+
+      const created = await createTenantSessionServer(tenantA, create);
+      await created.close();
+
+      expect(await create.mock.results[0].value).toMatchObject({ tenant: tenantA });
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('disposal', () => {
+    it('disposes tenants without sessions once idle and drops their state', async () => {
+      vi.useFakeTimers();
+      const getState = createTenantState(() => ({ value: 'fresh' }));
+      const { disposed, unsubscribe } = disposalListener();
+      const tenantA = (await acquireTenant(KEY_A))!;
+      await acquireTenant(KEY_B);
+      runWithTenant(tenantA, () => { getState().value = 'used'; });
+      addTenantSession(getTenantId(KEY_B), 'session-1');
+
+      vi.advanceTimersByTime(SESSION_TTL_MS + 1);
+      expect(await disposeIdleTenants()).toBe(1);
+
+      expect(disposed).toHaveBeenCalledTimes(1);
+      expect(disposed).toHaveBeenCalledWith(tenantA.id);
+      expect(getTenantCount()).toBe(1);
+      expect(runWithTenant(tenantA, () => getState().value)).toBe('fresh');
+
+      removeTenantSession(getTenantId(KEY_B), 'session-1');
+      vi.advanceTimersByTime(SESSION_TTL_MS + 1);
+      expect(await disposeIdleTenants()).toBe(1);
+      expect(getTenantCount()).toBe(0);
+      unsubscribe();
+    });
+  });
+
+  describe('HTTP sessions', () => {
+    const base = 'http://localhost:3050';
+
+    const post = (body: unknown, sessionId?: string) => {
+      const req = request(base).post('/mcp')
+        .set('Authorization', `Bearer ${KEY_A}`)
+        .set('Accept', 'application/json, text/event-stream')
+        .set('Mcp-Protocol-Version', '2025-06-18');
+      return (sessionId ? req.set('Mcp-Session-Id', sessionId) : req).send(body);
+    };
+
+    const initialize = (id: number) => post({
+      jsonrpc: '2.0',
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: `client-${id}`, version: '1.0.0' } },
+      id,
+    });
+
+    it('serves several sessions of one tenant with the proxy server', async () => {
+      const shared = new Server({ name: 'proxy', version: '1.0.0' }, { capabilities: {} });
+      const cleanup = await startStreamableHTTPServer(shared, { port: 3050, tenantMode: true, createTenantServer: createServer });
+      try {
+        const first = await initialize(1);
+        const second = await initialize(2);
+        const firstId = first.headers['mcp-session-id'];
+        const secondId = second.headers['mcp-session-id'];
+        const pings = await Promise.all([
+          post({ jsonrpc: '2.0', method: 'ping', id: 3 }, firstId),
+          post({ jsonrpc: '2.0', method: 'ping', id: 4 }, secondId),
+        ]);
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(200);
+        expect(secondId).not.toBe(firstId);
+        expect(pings.map(ping => ping.status)).toEqual([200, 200]);
+        expect(getTenantCount()).toBe(1);
+      } finally {
+        await cleanup();
+      }
+    }, 10000);
+  });
+});
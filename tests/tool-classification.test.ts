@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  classifyTool,
+  Constraints,
+  processInstructions,
+  validateToolAgainstConstraints,
+} from '../src/utils/custom-instructions';
+import {
+  clearToolAnnotations,
+  getToolAnnotations,
+  recordServerTools,
+  recordToolAnnotations,
+} from '../src/tool-annotations';
+
+const SERVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+const parseConstraints = (text: string): Constraints =>
+  processInstructions('db', SERVER_UUID, [{ role: 'user', content: text }])!.constraints;
+
+const validate = (toolName: string, constraints: Constraints, annotations?: Record<string, boolean>) =>
+  validateToolAgainstConstraints(toolName, SERVER_UUID, new Map([[SERVER_UUID, constraints]]), annotations);
+
+describe('Tool classification', () => {
+  describe('classifyTool', () => {
+    it('matches whole words of the name instead of substrings', () => {
+      expect(classifyTool('compute_stats', {})).toMatchObject({ access: 'unknown', source: 'name' });
+      expect(classifyTool('computeStats', {}).access).toBe('unknown');
+      expect(classifyTool('put_object', {})).toMatchObject({ access: 'write', detail: "name contains 'put'" });
+      expect(classifyTool('listUsers', {})).toMatchObject({ access: 'read', detail: "name contains 'list'" });
+    });
+
+    it('lets write words win over read words', () => {
+      expect(classifyTool('get_and_delete_rows', {})).toMatchObject({
+        access: 'destructive',
+        operation: 'delete',
+        detail: "name contains 'delete'",
+      });
+    });
+
+    it('prefers annotations over the server lists and the name', () => {
+      const constraints = parseConstraints('destructive tools: list_rows');
+
+      expect(classifyTool('list_rows', constraints, { readOnlyHint: true })).toMatchObject({
+        access: 'read',
+        source: 'annotations',
+      });
+      expect(classifyTool('list_rows', constraints)).toMatchObject({ access: 'destructive', source: 'server list' });
+      expect(classifyTool('list_rows', {})).toMatchObject({ access: 'read', source: 'name' });
+    });
+
+    it('treats tools that are not read-only as destructive unless annotated otherwise', () => {
+      expect(classifyTool('sync', {}, { readOnlyHint: false })).toMatchObject({
+        access: 'destructive',
+        detail: 'readOnlyHint=false',
+      });
+      expect(classifyTool('sync', {}, { readOnlyHint: false, destructiveHint: false, idempotentHint: true }))
+        .toMatchObject({ access: 'write', detail: 'readOnlyHint=false, destructiveHint=false, idempotentHint=true' });
+    });
+
+    it('falls back to the name when annotations carry no read/write hints', () => {
+      expect(classifyTool('delete_row', {}, { idempotentHint: true })).toMatchObject({ source: 'name' });
+    });
+  });
+
+  describe('validateToolAgainstConstraints', () => {
+    const readOnly = parseConstraints('Read-only access');
+
+    it('blocks tools that read and delete on read-only servers', () => {
+      const result = validate('get_and_delete_rows', readOnly);
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe(
+        "This server is configured as read-only. Write operations are not allowed: " +
+        "get_and_delete_rows is a destructive tool (name heuristic: name contains 'delete')."
+      );
+    });
+
+    it('no longer blocks tools whose names only contain a write word', () => {
+      expect(validate('compute_stats', readOnly).valid).toBe(true);
+      expect(validate('output_report', readOnly).valid).toBe(true);
+    });
+
+    it('reports annotations as the reason for a decision', () => {
+      const result = validate('compute_stats', readOnly, { readOnlyHint: false, destructiveHint: false });
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('compute_stats is a write tool (tool annotations: readOnlyHint=false, destructiveHint=false)');
+      expect(validate('delete_cache', readOnly, { readOnlyHint: true }).valid).toBe(true);
+    });
+
+    it('uses the server lists when the tool has no annotations', () => {
+      const constraints = parseConstraints('Read-only access\nread tools: purge_preview\nwrite tools: compute_stats');
+
+      expect(validate('purge_preview', constraints).valid).toBe(true);
+      expect(validate('compute_stats', constraints).reason)
+        .toContain('(server configuration: listed in write tools)');
+    });
+
+    it('tells updates from deletes by name only', () => {
+      const noDeletes = parseConstraints('No deletes allowed');
+
+      expect(validate('update_row', noDeletes).valid).toBe(true);
+      expect(validate('remove_row', noDeletes).valid).toBe(false);
+      // Annotations cannot tell the two apart, so any destructive tool is blocked
+      expect(validate('update_row', noDeletes, { readOnlyHint: false }).valid).toBe(false);
+    });
+  });
+
+  describe('annotation cache', () => {
+    afterEach(() => {
+      clearToolAnnotations();
+    });
+
+    it('lists the server tools once when annotations are unknown', async () => {
+      const listTools = vi.fn().mockResolvedValue([
+        { name: 'query', annotations: { readOnlyHint: true } },
+        { name: 'exec' },
+      ]);
+
+      expect(await getToolAnnotations(SERVER_UUID, 'query', listTools)).toEqual({ readOnlyHint: true });
+      expect(await getToolAnnotations(SERVER_UUID, 'exec', listTools)).toBeUndefined();
+      expect(await getToolAnnotations(SERVER_UUID, 'missing', listTools)).toBeUndefined();
+      expect(listTools).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses recorded annotations and lists again after they are cleared', async () => {
+      const listTools = vi.fn().mockResolvedValue([{ name: 'query', annotations: { readOnlyHint: false } }]);
+      recordToolAnnotations(SERVER_UUID, 'query', { readOnlyHint: true });
+
+      expect(await getToolAnnotations(SERVER_UUID, 'query', listTools)).toEqual({ readOnlyHint: true });
+      expect(listTools).not.toHaveBeenCalled();
+
+      clearToolAnnotations(SERVER_UUID);
+      expect(await getToolAnnotations(SERVER_UUID, 'query', listTools)).toEqual({ readOnlyHint: false });
+      expect(listTools).toHaveBeenCalledTimes(1);
+    });
+
+    it('replaces annotations when the full tool list is recorded', async () => {
+      recordToolAnnotations(SERVER_UUID, 'old_tool', { readOnlyHint: true });
+      recordServerTools(SERVER_UUID, [{ name: 'new_tool' }]);
+
+      const listTools = vi.fn();
+      expect(await getToolAnnotations(SERVER_UUID, 'old_tool', listTools)).toBeUndefined();
+      expect(listTools).not.toHaveBeenCalled();
+    });
+  });
+});
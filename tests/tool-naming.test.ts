@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { clearCompositeToolsCache } from '../src/composite-tools';
+import {
+  clearToolNames,
+  getRegisteredToolName,
+  getToolNamingStrategy,
+  registerToolNames,
+  removeServerToolNames,
+  resolveToolName,
+  ToolNameSource,
+} from '../src/tool-naming';
+
+const GITHUB = '550e8400-e29b-41d4-a716-446655440000';
+const GITLAB = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+const GITHUB_MIRROR = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const originalEnv = { ...process.env };
+
+const SOURCES: ToolNameSource[] = [
+  { originalName: 'create_issue', serverUuid: GITLAB, serverName: 'GitLab' },
+  { originalName: 'create_issue', serverUuid: GITHUB, serverName: 'GitHub' },
+  { originalName: 'search', serverUuid: GITHUB, serverName: 'GitHub' },
+];
+
+const register = (sources = SOURCES) => registerToolNames(sources, { replace: true }).map(entry => entry.name);
+
+describe('Tool naming', () => {
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    clearToolNames();
+  });
+
+  describe('strategies', () => {
+    it('prefixes server UUIDs by default', () => {
+      delete process.env.PLUGGEDIN_TOOL_NAMING;
+
+      expect(getToolNamingStrategy()).toBe('uuid');
+      expect(register()).toEqual([`${GITLAB}__create_issue`, `${GITHUB}__create_issue`, `${GITHUB}__search`]);
+    });
+
+    it('names tools by server slug, numbering servers with the same slug in UUID order', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'slug';
+
+      expect(register([
+        { originalName: 'search', serverUuid: GITHUB_MIRROR, serverName: 'GitHub' },
+        { originalName: 'search', serverUuid: GITHUB, serverName: 'GitHub' },
+      ])).toEqual(['github-1__search', 'github__search']);
+    });
+
+    it('names tools by sanitized server name', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'server-name';
+
+      expect(register()).toEqual(['gitlab_create_issue', 'github_create_issue', 'github_search']);
+    });
+
+    it('keeps original names with none, or when UUID prefixing is switched off', () => {
+      process.env.PLUGGEDIN_UUID_TOOL_PREFIXING = 'false';
+      expect(getToolNamingStrategy()).toBe('none');
+
+      process.env.PLUGGEDIN_TOOL_NAMING = 'none';
+      expect(register()[2]).toBe('search');
+
+      process.env.PLUGGEDIN_TOOL_NAMING = 'mystery';
+      expect(getToolNamingStrategy()).toBe('uuid');
+    });
+  });
+
+  describe('collisions', () => {
+    it('gives the name to the lowest server UUID whatever the listing order', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'none';
+
+      expect(register()).toEqual(['create_issue_6ba7b810', 'create_issue', 'search']);
+      expect(register([...SOURCES].reverse())).toEqual(['search', 'create_issue', 'create_issue_6ba7b810']);
+    });
+
+    it('keeps names given by an earlier page', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'none';
+
+      registerToolNames([SOURCES[0]], { replace: true });
+      registerToolNames(SOURCES.slice(1));
+
+      expect(getRegisteredToolName(GITLAB, 'create_issue')).toBe('create_issue');
+      expect(getRegisteredToolName(GITHUB, 'create_issue')).toBe('create_issue_550e8400');
+    });
+
+    it('never gives out the names of static and composite tools, even to aliases', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'tool-naming-'));
+      process.env.PLUGGEDIN_TOOL_NAMING = 'none';
+      process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH = join(dir, 'composite.yaml');
+      process.env.PLUGGEDIN_TOOL_ALIASES = JSON.stringify({ 'GitHub/create_issue': 'report_bug' });
+      writeFileSync(process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH, 'tools: [{ name: report_bug, steps: [{ tool: pluggedin_setup }] }]');
+      clearCompositeToolsCache();
+      try {
+        expect(register([
+          SOURCES[1],
+          SOURCES[2],
+          { originalName: 'pluggedin_setup', serverUuid: GITLAB, serverName: 'GitLab' },
+        ])).toEqual(['report_bug_550e8400', 'search', 'pluggedin_setup_6ba7b810']);
+
+        // A name given out before a composite tool took it is given up
+        writeFileSync(process.env.PLUGGEDIN_COMPOSITE_TOOLS_PATH, 'tools: [{ name: search, steps: [{ tool: pluggedin_setup }] }]');
+        clearCompositeToolsCache();
+        expect(registerToolNames([SOURCES[2]])[0].name).toBe('search_550e8400');
+        expect(resolveToolName('search')).toBeUndefined();
+      } finally {
+        clearCompositeToolsCache();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('aliases', () => {
+    it('renames tools by server name, slug or UUID, ahead of colliding names', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'none';
+      process.env.PLUGGEDIN_TOOL_ALIASES = JSON.stringify({
+        'GitLab/create_issue': 'create_issue',
+        [`${GITHUB}/search`]: 'code_search',
+      });
+
+      expect(register()).toEqual(['create_issue', 'create_issue_550e8400', 'code_search']);
+    });
+
+    it('ignores an invalid alias table', () => {
+      process.env.PLUGGEDIN_TOOL_ALIASES = '{ not json';
+
+      expect(register()[2]).toBe(`${GITHUB}__search`);
+    });
+  });
+
+  describe('resolveToolName', () => {
+    it('resolves listed names and prefixed names from other strategies', () => {
+      process.env.PLUGGEDIN_TOOL_NAMING = 'server-name';
+      register();
+
+      expect(resolveToolName('github_search')).toMatchObject({ originalName: 'search', serverUuid: GITHUB });
+      expect(resolveToolName(`${GITLAB}__create_issue`)).toMatchObject({ name: 'gitlab_create_issue', serverUuid: GITLAB });
+      expect(resolveToolName('github__create_issue')).toMatchObject({ serverUuid: GITHUB });
+      expect(resolveToolName(`${GITLAB}__search`)).toBeUndefined();
+      expect(resolveToolName('search')).toBeUndefined();
+    });
+
+    it('forgets the tools of a server after its list changed', () => {
+      register();
+      removeServerToolNames(GITHUB);
+
+      expect(resolveToolName(`${GITHUB}__search`)).toBeUndefined();
+      expect(resolveToolName(`${GITLAB}__create_issue`)).toMatchObject({ originalName: 'create_issue' });
+    });
+  });
+});
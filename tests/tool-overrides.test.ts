@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  applyArgumentOverrides,
+  applyToolOverride,
+  clearToolOverridesCache,
+  getToolOverride,
+  parseToolOverridesFile,
+} from '../src/tool-overrides';
+import { clearToolNames, registerToolNames, resolveToolName } from '../src/tool-naming';
+import { Constraints, processInstructions } from '../src/utils/custom-instructions';
+
+const SERVER = { uuid: '550e8400-e29b-41d4-a716-446655440000', name: 'github' };
+
+const parseConstraints = (text: string): Constraints =>
+  processInstructions(SERVER.name, SERVER.uuid, [{ role: 'user', content: text }])!.constraints;
+
+const SEARCH: Tool = {
+  name: 'search',
+  description: 'Search code',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      owner: { type: 'string' },
+      per_page: { type: 'number' },
+      debug: { type: 'boolean' },
+    },
+    required: ['query', 'owner'],
+  },
+};
+
+describe('Tool overrides', () => {
+  describe('parsing custom instructions', () => {
+    it('collects the phrases of each tool into one override', () => {
+      const constraints = parseConstraints([
+        'Tool Search: rename to code_search',
+        'tool search: append description: Only public repositories are indexed.',
+        'tool search: default per_page = 20',
+        'tool search: hide arguments debug, trace',
+        'tool search: pin owner = acme',
+        'tool search: pin filters = {"archived": false}',
+        'tool list_issues: description: List open issues',
+        'tool search: rename to not a name',
+      ].join('\n'));
+
+      expect(constraints.toolOverrides).toEqual({
+        search: {
+          name: 'code_search',
+          appendDescription: 'Only public repositories are indexed.',
+          defaults: { per_page: 20 },
+          hide: ['debug', 'trace'],
+          pin: { owner: 'acme', filters: { archived: false } },
+        },
+        list_issues: { description: 'List open issues' },
+      });
+    });
+
+    it('leaves rate limits and argument policies of a tool alone', () => {
+      const constraints = parseConstraints('tool search: 5 requests per minute\ntool search: argument query must not contain secret');
+
+      expect(constraints.toolOverrides).toBeUndefined();
+    });
+  });
+
+  describe('applyToolOverride', () => {
+    it('rewrites the description and input schema', () => {
+      const tool = applyToolOverride(SEARCH, {
+        description: 'Search the company code base',
+        appendDescription: 'Only public repositories are indexed.',
+        defaults: { per_page: 20 },
+        hide: ['debug'],
+        pin: { owner: 'acme' },
+      });
+
+      expect(tool.description).toBe('Search the company code base\n\nOnly public repositories are indexed.');
+      expect(tool.inputSchema).toEqual({
+        type: 'object',
+        properties: { query: { type: 'string' }, per_page: { type: 'number', default: 20 } },
+        required: ['query'],
+      });
+      expect(SEARCH.inputSchema.properties).toHaveProperty('owner');
+    });
+
+    it('only hides required arguments that have a default', () => {
+      expect(applyToolOverride(SEARCH, { hide: ['query'] }).inputSchema.properties).toHaveProperty('query');
+
+      const tool = applyToolOverride(SEARCH, { hide: ['owner'], defaults: { owner: 'acme' } });
+      expect(tool.inputSchema.properties).not.toHaveProperty('owner');
+      expect(tool.inputSchema.required).toEqual(['query']);
+    });
+  });
+
+  describe('applyArgumentOverrides', () => {
+    it('fills in defaults and forces pinned values', () => {
+      const override = { defaults: { per_page: 20, owner: 'acme' }, pin: { archived: false } };
+
+      expect(applyArgumentOverrides({ query: 'x', per_page: 5, archived: true }, override))
+        .toEqual({ query: 'x', per_page: 5, owner: 'acme', archived: false });
+      expect(applyArgumentOverrides(undefined, override)).toEqual({ per_page: 20, owner: 'acme', archived: false });
+    });
+
+    it('passes arguments through without defaults or pins', () => {
+      const args = { query: 'x' };
+      expect(applyArgumentOverrides(args, { description: 'Search' })).toBe(args);
+      expect(applyArgumentOverrides(args, undefined)).toBe(args);
+    });
+  });
+
+  describe('overrides file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'pluggedin-overrides-'));
+      clearToolOverridesCache();
+    });
+
+    afterEach(() => {
+      delete process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH;
+      clearToolOverridesCache();
+      clearToolNames();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('rejects entries with invalid names', () => {
+      expect(() => parseToolOverridesFile('overrides:\n  - tool: search\n    name: code search\n', 'overrides.yaml'))
+        .toThrow(/Invalid tool overrides file overrides\.yaml: overrides\.0\.name: name may only contain/);
+    });
+
+    it('applies matching file entries after custom instructions', () => {
+      const path = join(dir, 'overrides.yaml');
+      writeFileSync(path, [
+        'overrides:',
+        '  - server: GitHub',
+        '    tool: Search',
+        '    name: code_search',
+        '    pin: { owner: acme }',
+        '  - server: gitlab',
+        '    tool: search',
+        '    hide: [debug]',
+      ].join('\n'));
+      process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH = path;
+      const constraints = parseConstraints('tool search: rename to find_code\ntool search: pin owner = other\ntool search: default per_page = 20');
+
+      expect(getToolOverride(SERVER, 'search', constraints)).toEqual({
+        name: 'code_search',
+        defaults: { per_page: 20 },
+        pin: { owner: 'acme' },
+      });
+      expect(getToolOverride(SERVER, 'list_issues', constraints)).toBeUndefined();
+    });
+
+    it('renames tools through the naming registry', () => {
+      process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH = join(dir, 'overrides.json');
+      writeFileSync(process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH, JSON.stringify({ overrides: [{ tool: 'search', name: 'code_search' }] }));
+
+      const [entry] = registerToolNames([{
+        originalName: 'search',
+        serverUuid: SERVER.uuid,
+        serverName: SERVER.name,
+        alias: getToolOverride(SERVER, 'search', undefined)?.name,
+      }], { replace: true });
+
+      expect(entry.name).toBe('code_search');
+      expect(resolveToolName('code_search')).toMatchObject({ originalName: 'search', serverUuid: SERVER.uuid });
+    });
+
+    it('fails when the configured file cannot be read', () => {
+      process.env.PLUGGEDIN_TOOL_OVERRIDES_PATH = join(dir, 'missing.yaml');
+      expect(() => getToolOverride(SERVER, 'search', undefined)).toThrow(/ENOENT/);
+    });
+  });
+});
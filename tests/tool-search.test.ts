@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  CatalogTool,
+  clearToolCatalog,
+  getToolCatalog,
+  isLazyToolsMode,
+  recordToolCatalog,
+  removeServerFromToolCatalog,
+  searchTools,
+} from '../src/tool-search';
+
+const GITHUB = '550e8400-e29b-41d4-a716-446655440000';
+const SLACK = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+
+const entry = (serverUuid: string, name: string, description?: string, properties: Record<string, unknown> = {}): CatalogTool => ({
+  tool: { name, description, inputSchema: { type: 'object', properties } },
+  serverUuid,
+  serverName: serverUuid === GITHUB ? 'github' : 'slack',
+});
+
+const TOOLS = [
+  entry(GITHUB, 'create_issue', 'Create a new issue in a GitHub repository', {
+    repo: { type: 'string', description: 'Repository in owner/name form' },
+  }),
+  entry(GITHUB, 'list_issues', 'List issues of a repository'),
+  entry(GITHUB, 'createPullRequest', 'Open a pull request'),
+  entry(SLACK, 'post_message', 'Send a message to a channel', {
+    channel: { type: 'string' },
+    attachments: { type: 'array', items: { type: 'object', properties: { filename: { type: 'string' } } } },
+  }),
+];
+
+const names = (query: string, limit = 10) => searchTools(TOOLS, query, limit).map(match => match.tool.name);
+
+describe('Tool search', () => {
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_LAZY_TOOLS;
+    clearToolCatalog();
+  });
+
+  describe('searchTools', () => {
+    it('ranks name matches above description matches', () => {
+      const matches = searchTools(TOOLS, 'create issue', 10);
+
+      expect(matches.map(match => match.tool.name)).toEqual(['create_issue', 'list_issues', 'createPullRequest']);
+      expect(matches[0]).toMatchObject({ serverUuid: GITHUB, serverName: 'github' });
+      expect(matches[0].score).toBeGreaterThan(matches[1].score);
+    });
+
+    it('matches misspelled name words', () => {
+      expect(names('isssue')).toEqual(['create_issue']);
+      expect(names('mesage')).toEqual(['post_message']);
+      // Short words must match exactly
+      expect(names('lst')).toEqual([]);
+    });
+
+    it('searches argument names and descriptions, including nested ones', () => {
+      expect(names('owner')).toEqual(['create_issue']);
+      expect(names('filename')).toEqual(['post_message']);
+    });
+
+    it('puts an exact name first and applies the limit', () => {
+      expect(names('list_issues')[0]).toBe('list_issues');
+      expect(names('issue', 1)).toEqual(['create_issue']);
+    });
+
+    it('returns nothing for queries without words', () => {
+      expect(names('  --  ')).toEqual([]);
+    });
+  });
+
+  describe('catalog', () => {
+    it('replaces the catalog on a new listing and drops a server after list changes', () => {
+      recordToolCatalog(TOOLS.slice(0, 2), true);
+      recordToolCatalog(TOOLS.slice(2), false);
+      expect(getToolCatalog()).toHaveLength(4);
+
+      removeServerFromToolCatalog(GITHUB);
+      expect(getToolCatalog().map(item => item.tool.name)).toEqual(['post_message']);
+
+      recordToolCatalog([TOOLS[0]], true);
+      expect(getToolCatalog().map(item => item.tool.name)).toEqual(['create_issue']);
+    });
+
+    it('enables lazy mode from the environment', () => {
+      expect(isLazyToolsMode()).toBe(false);
+      process.env.PLUGGEDIN_LAZY_TOOLS = 'true';
+      expect(isLazyToolsMode()).toBe(true);
+    });
+  });
+});